@@ -0,0 +1,92 @@
+// Keeps the app itself available offline; Firestore caches the data. Only
+// same-origin GET requests are handled, so Firebase's own traffic goes
+// straight to the network.
+//
+// Bump CACHE_VERSION to drop everything cached by earlier versions.
+const CACHE_VERSION = 1;
+const CACHE_NAME = `app-v${CACHE_VERSION}`;
+
+const APP_SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png'];
+
+// The page that installs the worker loaded its scripts before the worker
+// was there to cache them, so fetch the ones index.html names up front.
+// Pages loaded lazily are cached the first time they're visited.
+async function precache() {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(APP_SHELL);
+  const index = await cache.match('/');
+  const html = index ? await index.text() : '';
+  const assets = [...html.matchAll(/\/assets\/[^"']+/g)].map(match => match[0]);
+  await cache.addAll(assets);
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function putInCache(request, response) {
+  if (!response.ok) return;
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(request, response);
+}
+
+// Pages: the network first, so a deploy is picked up straight away, then
+// the cached app, which routes on the client
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    await putInCache('/', response.clone());
+    return response;
+  } catch (err) {
+    const cached = await caches.match('/');
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Built assets have a content hash in their name, so a cached copy never
+// goes stale
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  await putInCache(request, response.clone());
+  return response;
+}
+
+// Everything else: the cached copy straight away, refreshed in the background
+async function handleOther(event) {
+  const { request } = event;
+  const cached = await caches.match(request);
+  const refresh = fetch(request).then(async response => {
+    await putInCache(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request));
+  } else {
+    event.respondWith(handleOther(event));
+  }
+});
@@ -1,41 +1,90 @@
+import { lazy, Suspense } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
-import Login from './pages/Login';
-import SignUp from './pages/SignUp';
-import ForgotPassword from './pages/ForgotPassword';
-import Profile from './pages/Profile';
+import { LocaleProvider } from './contexts/LocaleContext';
+import { ThemeProvider } from './contexts/ThemeContext';
 import ProtectedRoute from './components/ProtectedRoute';
+import GuestRoute from './components/GuestRoute';
+import AppShell from './components/layout/AppShell';
+import { ErrorBoundary } from './components/ErrorBoundary';
+import PageLoader from './components/PageLoader';
+import SessionTimeoutDialog from './components/SessionTimeoutDialog';
+import { ToastProvider } from './components/ui/Toast';
+
+// Each page is its own chunk, downloaded the first time it's visited
+const Login = lazy(() => import('./pages/Login'));
+const SignUp = lazy(() => import('./pages/SignUp'));
+const ForgotPassword = lazy(() => import('./pages/ForgotPassword'));
+const EmailLinkSignIn = lazy(() => import('./pages/EmailLinkSignIn'));
+const VerifyEmail = lazy(() => import('./pages/VerifyEmail'));
+const AuthAction = lazy(() => import('./pages/AuthAction'));
+const Onboarding = lazy(() => import('./pages/Onboarding'));
+const Dashboard = lazy(() => import('./pages/Dashboard'));
+const Profile = lazy(() => import('./pages/Profile'));
+const Trips = lazy(() => import('./pages/Trips'));
+const TripEditor = lazy(() => import('./pages/TripEditor'));
+const Assistant = lazy(() => import('./pages/Assistant'));
+const Admin = lazy(() => import('./pages/Admin'));
+const NotFound = lazy(() => import('./pages/NotFound'));
 
 function App() {
   return (
     <Router>
       <AuthProvider>
-        <div className="min-h-screen bg-gray-50">
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route path="/signup" element={<SignUp />} />
-            <Route path="/forgot-password" element={<ForgotPassword />} />
-            <Route
-              path="/profile"
-              element={
-                <ProtectedRoute>
-                  <Profile />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/"
-              element={
-                <ProtectedRoute>
-                  <Profile />
-                </ProtectedRoute>
-              }
-            />
-          </Routes>
-        </div>
+        <LocaleProvider>
+          <ThemeProvider>
+            <ToastProvider>
+              <div className="min-h-screen bg-background">
+                <ErrorBoundary>
+                  <Suspense fallback={<PageLoader fullScreen />}>
+                    <Routes>
+                      <Route element={<GuestRoute />}>
+                        <Route path="/login" element={<Login />} />
+                        <Route path="/signup" element={<SignUp />} />
+                        <Route path="/forgot-password" element={<ForgotPassword />} />
+                      </Route>
+                      <Route path="/login/link" element={<EmailLinkSignIn />} />
+                      <Route path="/verify-email" element={<VerifyEmail />} />
+                      <Route path="/auth/action" element={<AuthAction />} />
+                      <Route
+                        path="/onboarding"
+                        element={
+                          <ProtectedRoute allowIncompleteProfile>
+                            <Onboarding />
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        element={
+                          <ProtectedRoute>
+                            <AppShell />
+                          </ProtectedRoute>
+                        }
+                      >
+                        <Route index element={<Dashboard />} />
+                        <Route path="/profile" element={<Profile />} />
+                        <Route path="/assistant" element={<Assistant />} />
+                        <Route element={<ProtectedRoute requireVerifiedEmail />}>
+                          <Route path="/trips" element={<Trips />} />
+                          <Route path="/trips/new" element={<TripEditor />} />
+                          <Route path="/trips/:tripId" element={<TripEditor />} />
+                        </Route>
+                        <Route element={<ProtectedRoute requiredRoles={['admin']} />}>
+                          <Route path="/admin" element={<Admin />} />
+                        </Route>
+                        <Route path="*" element={<NotFound />} />
+                      </Route>
+                    </Routes>
+                  </Suspense>
+                </ErrorBoundary>
+              </div>
+              <SessionTimeoutDialog />
+            </ToastProvider>
+          </ThemeProvider>
+        </LocaleProvider>
       </AuthProvider>
     </Router>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
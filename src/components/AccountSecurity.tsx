@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FirebaseError } from 'firebase/app';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { KeyRound, Lock, LogOut, Mail, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { Input } from './ui/Input';
+import { FormField } from './ui/FormField';
+import ReauthenticateDialog from './ReauthenticateDialog';
+import { getErrorMessage, reportFormError } from '../lib/errors';
+
+const changePasswordSchema = z.object({
+  newPassword: z.string().min(6, 'validation.passwordTooShort'),
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: 'validation.passwordsDontMatch',
+  path: ['confirmPassword'],
+});
+
+const changeEmailSchema = z.object({
+  email: z.string().email('validation.emailInvalid'),
+});
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+type ChangeEmailFormData = z.infer<typeof changeEmailSchema>;
+
+interface PendingAction {
+  description: string;
+  run: () => Promise<void>;
+}
+
+export default function AccountSecurity() {
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [busyAction, setBusyAction] = useState<'password' | 'email' | 'signOut' | 'delete' | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const { currentUser, changePassword, changeEmail, signOutEverywhere, deleteAccount } = useAuth();
+  const { t } = useLocale();
+  const navigate = useNavigate();
+
+  const passwordForm = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+  });
+  const emailForm = useForm<ChangeEmailFormData>({
+    resolver: zodResolver(changeEmailSchema),
+  });
+
+  if (!currentUser) return null;
+
+  const hasPassword = currentUser.providerData.some(info => info.providerId === 'password');
+
+  // Runs the action, asking the user to sign in again first if Firebase
+  // says their session is too old for a sensitive change
+  const withRecentLogin = async (description: string, action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      if (err instanceof FirebaseError && err.code === 'auth/requires-recent-login') {
+        setPendingAction({ description, run: action });
+        return;
+      }
+      throw err;
+    }
+  };
+
+  const onChangePassword = async (data: ChangePasswordFormData) => {
+    const action = async () => {
+      await changePassword(data.newPassword);
+      passwordForm.reset();
+      setMessage(t('security.passwordChanged'));
+    };
+
+    try {
+      setError('');
+      setMessage('');
+      setBusyAction('password');
+      await withRecentLogin(t('security.reauthPassword'), action);
+    } catch (err) {
+      setError(reportFormError(err, passwordForm.setError, ['newPassword'], 'security.passwordFailed'));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const onChangeEmail = async (data: ChangeEmailFormData) => {
+    const action = async () => {
+      await changeEmail(data.email);
+      emailForm.reset();
+      setMessage(t('security.emailLinkSent', { email: data.email }));
+    };
+
+    try {
+      setError('');
+      setMessage('');
+      setBusyAction('email');
+      await withRecentLogin(t('security.reauthEmail'), action);
+    } catch (err) {
+      setError(reportFormError(err, emailForm.setError, ['email'], 'security.emailFailed'));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!window.confirm(t('security.signOutEverywhereConfirm'))) return;
+
+    try {
+      setError('');
+      setMessage('');
+      setBusyAction('signOut');
+      await signOutEverywhere();
+      navigate('/login');
+    } catch (err) {
+      console.error("Error signing out of all devices:", err);
+      setError(getErrorMessage(err, 'security.signOutEverywhereFailed'));
+      setBusyAction(null);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(t('security.deleteConfirm'))) return;
+
+    // Always confirm identity up front so data isn't removed and then the
+    // account deletion itself rejected for an old session
+    setPendingAction({
+      description: t('security.reauthDelete'),
+      run: async () => {
+        setBusyAction('delete');
+        try {
+          await deleteAccount();
+          navigate('/login');
+        } finally {
+          setBusyAction(null);
+        }
+      },
+    });
+  };
+
+  const handleReauthenticated = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (!action) return;
+
+    try {
+      setError('');
+      await action.run();
+    } catch (err) {
+      console.error("Error completing account change:", err);
+      setError(getErrorMessage(err, 'security.failed'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Lock className="h-5 w-5 text-faint" aria-hidden="true" />
+        <h3 className="text-lg font-medium text-foreground">{t('security.title')}</h3>
+      </div>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {message && <Alert variant="success">{message}</Alert>}
+
+      {hasPassword && (
+        <form className="space-y-6" onSubmit={passwordForm.handleSubmit(onChangePassword)}>
+          <h4 className="text-sm font-medium text-foreground">{t('security.changePassword')}</h4>
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <FormField
+              id="newPassword"
+              label={t('security.newPassword')}
+              icon={KeyRound}
+              error={passwordForm.formState.errors.newPassword?.message}
+            >
+              <Input type="password" autoComplete="new-password" {...passwordForm.register('newPassword')} />
+            </FormField>
+            <FormField
+              id="confirmNewPassword"
+              label={t('security.confirmNewPassword')}
+              icon={KeyRound}
+              error={passwordForm.formState.errors.confirmPassword?.message}
+            >
+              <Input
+                type="password"
+                autoComplete="new-password"
+                {...passwordForm.register('confirmPassword')}
+              />
+            </FormField>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" variant="outline" isLoading={busyAction === 'password'}>
+              {t('security.changePasswordSubmit')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <form className="space-y-6" onSubmit={emailForm.handleSubmit(onChangeEmail)}>
+        <h4 className="text-sm font-medium text-foreground">{t('security.changeEmail')}</h4>
+        <FormField
+          id="newEmail"
+          label={t('security.newEmail')}
+          icon={Mail}
+          error={emailForm.formState.errors.email?.message}
+        >
+          <Input type="email" placeholder={currentUser.email ?? undefined} {...emailForm.register('email')} />
+        </FormField>
+        <div className="flex justify-end">
+          <Button type="submit" variant="outline" isLoading={busyAction === 'email'}>
+            {t('security.changeEmailSubmit')}
+          </Button>
+        </div>
+      </form>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium text-foreground">{t('security.devices')}</h4>
+        <p className="text-sm text-muted">{t('security.devicesIntro')}</p>
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSignOutEverywhere}
+            isLoading={busyAction === 'signOut'}
+            className="flex items-center gap-2"
+          >
+            <LogOut className="h-4 w-4" />
+            {t('security.signOutEverywhere')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border border-danger-border p-4 space-y-3">
+        <h4 className="text-sm font-medium text-danger">{t('security.deleteAccount')}</h4>
+        <p className="text-sm text-muted">{t('security.deleteIntro')}</p>
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleDelete}
+            isLoading={busyAction === 'delete'}
+            className="flex items-center gap-2 border-danger-border text-danger hover:bg-danger-surface"
+          >
+            <Trash2 className="h-4 w-4" />
+            {t('security.deleteAccountSubmit')}
+          </Button>
+        </div>
+      </div>
+
+      {pendingAction && (
+        <ReauthenticateDialog
+          description={pendingAction.description}
+          onSuccess={handleReauthenticated}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
+    </div>
+  );
+}
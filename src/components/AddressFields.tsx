@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FieldErrors, UseFormRegister, UseFormSetValue } from 'react-hook-form';
+import { MapPin, Search } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Input } from './ui/Input';
+import { FormField } from './ui/FormField';
+import { Select } from './ui/Select';
+import { countryOptions } from '../lib/countries';
+import {
+  Address,
+  AddressAutocompleteProvider,
+  AddressSuggestion,
+  createAddressAutocompleteProvider,
+} from '../lib/address';
+import { ProfileData, ProfileFormData } from '../lib/profile';
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+const MIN_QUERY_LENGTH = 3;
+
+interface AddressSearchProps {
+  provider: AddressAutocompleteProvider;
+  country: string;
+  onSelect: (address: Address) => void;
+}
+
+function AddressSearch({ provider, country, onSelect }: AddressSearchProps) {
+  const { t } = useLocale();
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<AddressSuggestion[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      setSuggestions(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const results = await provider.search(query, { country: country || undefined, signal: controller.signal });
+        setSuggestions(results);
+        setFailed(false);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Error searching addresses:", err);
+        setSuggestions(null);
+        setFailed(true);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [provider, query, country]);
+
+  const select = (suggestion: AddressSuggestion) => {
+    onSelect(suggestion.address);
+    setQuery('');
+    setSuggestions(null);
+  };
+
+  return (
+    <div>
+      <FormField id="addressSearch" label={t('address.search')} icon={Search}>
+        <Input
+          type="search"
+          autoComplete="off"
+          placeholder={t('address.searchPlaceholder')}
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+        />
+      </FormField>
+      {suggestions && suggestions.length > 0 && (
+        <ul
+          aria-label={t('address.search')}
+          className="mt-1 divide-y divide-border rounded-md border border-border bg-surface"
+        >
+          {suggestions.map(suggestion => (
+            <li key={suggestion.id}>
+              <button
+                type="button"
+                onClick={() => select(suggestion)}
+                className="flex w-full items-center gap-2 px-3 py-2 text-start text-sm text-foreground hover:bg-surface-muted"
+              >
+                <MapPin className="h-4 w-4 shrink-0 text-subtle" aria-hidden="true" />
+                {suggestion.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {suggestions?.length === 0 && (
+        <p className="mt-1 text-sm text-subtle">{t('address.noResults')}</p>
+      )}
+      {failed && (
+        <p className="mt-1 text-sm text-subtle">{t('address.searchFailed')}</p>
+      )}
+    </div>
+  );
+}
+
+interface AddressFieldsProps {
+  register: UseFormRegister<ProfileFormData>;
+  setValue: UseFormSetValue<ProfileFormData>;
+  errors?: FieldErrors<ProfileData>['address'];
+  // The selected country, to narrow down address searches
+  country: string;
+}
+
+// The structured home address on the profile form, with an address search
+// that fills it in when an autocomplete provider is configured
+export default function AddressFields({ register, setValue, errors, country }: AddressFieldsProps) {
+  const { currentUser } = useAuth();
+  const { locale, t } = useLocale();
+  const provider = useMemo(
+    () => createAddressAutocompleteProvider({ getIdToken: async () => currentUser?.getIdToken() ?? null }),
+    [currentUser]
+  );
+  const countries = useMemo(() => countryOptions(locale), [locale]);
+
+  const fillAddress = (address: Address) => {
+    setValue('address', address, { shouldDirty: true, shouldValidate: true });
+  };
+
+  return (
+    <div className="space-y-6">
+      {provider && <AddressSearch provider={provider} country={country} onSelect={fillAddress} />}
+
+      <FormField id="addressLine1" label={t('address.line1')} error={errors?.line1?.message}>
+        <Input type="text" autoComplete="address-line1" {...register('address.line1')} />
+      </FormField>
+
+      <FormField id="addressLine2" label={t('address.line2')} error={errors?.line2?.message}>
+        <Input type="text" autoComplete="address-line2" {...register('address.line2')} />
+      </FormField>
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <FormField id="addressCity" label={t('address.city')} error={errors?.city?.message}>
+          <Input type="text" autoComplete="address-level2" {...register('address.city')} />
+        </FormField>
+
+        <FormField id="addressRegion" label={t('address.region')} error={errors?.region?.message}>
+          <Input type="text" autoComplete="address-level1" {...register('address.region')} />
+        </FormField>
+
+        <FormField id="addressPostalCode" label={t('address.postalCode')} error={errors?.postalCode?.message}>
+          <Input type="text" autoComplete="postal-code" {...register('address.postalCode')} />
+        </FormField>
+
+        <FormField id="addressCountry" label={t('address.country')} error={errors?.country?.message}>
+          <Select
+            autoComplete="country"
+            placeholder={t('address.countryPlaceholder')}
+            {...register('address.country')}
+          >
+            {countries.map(option => (
+              <option key={option.code} value={option.code}>{option.name}</option>
+            ))}
+          </Select>
+        </FormField>
+      </div>
+    </div>
+  );
+}
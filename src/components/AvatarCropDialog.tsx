@@ -0,0 +1,208 @@
+import { PointerEvent, useEffect, useRef, useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { Modal } from './ui/Modal';
+import { AvatarUpload, AvatarURLs, uploadAvatar } from '../lib/avatars';
+import {
+  centredOffset,
+  clampOffset,
+  coverScale,
+  cropFromView,
+  loadImage,
+  Offset,
+  renderAvatars,
+  zoomOffset,
+} from '../lib/images';
+import { getErrorMessage } from '../lib/errors';
+
+const VIEWPORT_SIZE = 256;
+const MAX_ZOOM = 3;
+
+interface AvatarCropDialogProps {
+  file: File;
+  onUploaded: (urls: AvatarURLs) => void;
+  onCancel: () => void;
+}
+
+export default function AvatarCropDialog({ file, onUploaded, onCancel }: AvatarCropDialogProps) {
+  const [error, setError] = useState('');
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [progress, setProgress] = useState<number | null>(null);
+  const { currentUser } = useAuth();
+  const { t, formatNumber } = useLocale();
+  const dragRef = useRef<{ pointer: Offset; offset: Offset } | null>(null);
+  const uploadRef = useRef<AvatarUpload | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const url = URL.createObjectURL(file);
+    loadImage(url)
+      .then(loaded => {
+        if (cancelled) return;
+        setImage(loaded);
+        setOffset(centredOffset(loaded, VIEWPORT_SIZE, coverScale(loaded, VIEWPORT_SIZE)));
+      })
+      .catch(err => {
+        if (!cancelled) setError(getErrorMessage(err, 'avatar.unreadable'));
+      });
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  // Stop a running upload if the dialog goes away
+  useEffect(() => () => uploadRef.current?.cancel(), []);
+
+  const scale = image ? coverScale(image, VIEWPORT_SIZE, zoom) : 1;
+  const isUploading = progress !== null;
+
+  const handleZoom = (nextZoom: number) => {
+    if (!image) return;
+    setOffset(zoomOffset(offset, image, VIEWPORT_SIZE, scale, coverScale(image, VIEWPORT_SIZE, nextZoom)));
+    setZoom(nextZoom);
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (isUploading) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointer: { x: e.clientX, y: e.clientY }, offset };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !image) return;
+    setOffset(clampOffset({
+      x: drag.offset.x + e.clientX - drag.pointer.x,
+      y: drag.offset.y + e.clientY - drag.pointer.y,
+    }, image, VIEWPORT_SIZE, scale));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleSave = async () => {
+    if (!image || !currentUser) return;
+
+    try {
+      setError('');
+      setProgress(0);
+      const avatars = await renderAvatars(image, cropFromView(offset, VIEWPORT_SIZE, scale));
+      const upload = uploadAvatar(currentUser.uid, avatars, setProgress);
+      uploadRef.current = upload;
+      const urls = await upload.done;
+      uploadRef.current = null;
+      onUploaded(urls);
+    } catch (err) {
+      uploadRef.current = null;
+      setProgress(null);
+      // Cancelling is reported as an error by the SDK but isn't one to the user
+      if (err instanceof FirebaseError && err.code === 'storage/canceled') return;
+      console.error("Error uploading profile picture:", err);
+      setError(getErrorMessage(err, 'avatar.uploadFailed'));
+    }
+  };
+
+  const handleCancel = () => {
+    if (uploadRef.current) {
+      uploadRef.current.cancel();
+      return;
+    }
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={t('avatar.title')}
+      description={t('avatar.description')}
+      onClose={handleCancel}
+    >
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <div
+        className="relative mx-auto overflow-hidden rounded-full bg-surface-muted touch-none cursor-move select-none"
+        style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {image ? (
+          <img
+            src={image.src}
+            alt={t('avatar.preview')}
+            draggable={false}
+            className="absolute left-0 top-0 max-w-none origin-top-left"
+            style={{
+              width: image.width,
+              height: image.height,
+              transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+            }}
+          />
+        ) : !error && (
+          <div className="flex h-full items-center justify-center">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <ZoomOut className="h-5 w-5 text-subtle" aria-hidden="true" />
+        <input
+          type="range"
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={zoom}
+          onChange={e => handleZoom(Number(e.target.value))}
+          disabled={!image || isUploading}
+          aria-label={t('avatar.zoom')}
+          className="flex-1"
+        />
+        <ZoomIn className="h-5 w-5 text-subtle" aria-hidden="true" />
+      </div>
+
+      {isUploading && (
+        <div>
+          <div
+            className="h-2 rounded-full bg-surface-strong"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(progress * 100)}
+            aria-label={t('avatar.progress')}
+          >
+            <div
+              className="h-2 rounded-full bg-primary transition-all"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-muted">
+            {t('avatar.uploading', { progress: formatNumber(progress, { style: 'percent' }) })}
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={handleCancel}>
+          {t(isUploading ? 'avatar.cancelUpload' : 'common.cancel')}
+        </Button>
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={!image || isUploading}
+          isLoading={isUploading}
+        >
+          {t('avatar.save')}
+        </Button>
+      </div>
+    </Modal>
+  );
+}
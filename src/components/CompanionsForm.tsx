@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { Input } from './ui/Input';
+import { DatePicker } from './ui/DatePicker';
+import { Select } from './ui/Select';
+import {
+  COMPANION_RELATIONSHIPS,
+  companionRelationshipLabels,
+  companionsSchema,
+  CompanionsFormData,
+  MAX_COMPANIONS,
+} from '../lib/profile';
+import { replaceUserFields, UserData } from '../lib/userRepository';
+import { getErrorMessage } from '../lib/errors';
+import { MessageKey } from '../lib/i18n';
+import { settleWrite } from '../lib/sync';
+
+function toFormValues(companions: UserData['companions']): CompanionsFormData {
+  return { companions: companions ?? [] };
+}
+
+interface CompanionsFormProps {
+  userData: UserData | null;
+}
+
+export default function CompanionsForm({ userData }: CompanionsFormProps) {
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState<{ text: MessageKey; variant: 'success' | 'info' } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { currentUser } = useAuth();
+  const { t, translateError } = useLocale();
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+  } = useForm<CompanionsFormData>({
+    resolver: zodResolver(companionsSchema),
+    defaultValues: toFormValues(userData?.companions),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'companions' });
+
+  // Keep the form current with changes made elsewhere unless the user is
+  // in the middle of editing
+  useEffect(() => {
+    if (!isDirty) reset(toFormValues(userData?.companions));
+  }, [userData, isDirty, reset]);
+
+  const onSubmit = async (data: CompanionsFormData) => {
+    if (!currentUser) return;
+
+    try {
+      setError('');
+      setMessage(null);
+      setIsLoading(true);
+      const result = await settleWrite(replaceUserFields(currentUser.uid, { companions: data.companions }), {
+        onLateError: err => {
+          console.error("Error syncing companions:", err);
+          setError(getErrorMessage(err, 'companions.saveFailed'));
+        },
+      });
+      reset(data);
+      setMessage(result === 'saved'
+        ? { text: 'companions.saved', variant: 'success' }
+        : { text: 'companions.savedLocally', variant: 'info' });
+    } catch (err) {
+      console.error("Error saving companions:", err);
+      setError(getErrorMessage(err, 'companions.saveFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <p className="text-sm text-muted">{t('companions.intro')}</p>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {message && <Alert variant={message.variant}>{t(message.text)}</Alert>}
+
+      {fields.length === 0 ? (
+        <div className="py-6 text-center">
+          <Users className="mx-auto h-10 w-10 text-faint" />
+          <p className="mt-2 text-sm text-muted">{t('companions.empty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-1 gap-x-3 gap-y-6 sm:grid-cols-12 items-start">
+              <div className="sm:col-span-5">
+                <Input
+                  type="text"
+                  placeholder={t('companions.fullName')}
+                  aria-label={t('companions.name')}
+                  error={errors.companions?.[index]?.name?.message}
+                  {...register(`companions.${index}.name`)}
+                />
+              </div>
+              <div className="sm:col-span-3">
+                <Select
+                  aria-label={t('companions.relationship')}
+                  error={errors.companions?.[index]?.relationship?.message}
+                  {...register(`companions.${index}.relationship`)}
+                >
+                  {COMPANION_RELATIONSHIPS.map(value => (
+                    <option key={value} value={value}>{t(companionRelationshipLabels[value])}</option>
+                  ))}
+                </Select>
+              </div>
+              <div className="sm:col-span-3">
+                <DatePicker
+                  aria-label={t('companions.dob')}
+                  error={errors.companions?.[index]?.dob?.message}
+                  {...register(`companions.${index}.dob`)}
+                />
+              </div>
+              <div className="sm:col-span-1 flex justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-10"
+                  onClick={() => remove(index)}
+                  aria-label={t('companions.remove')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.companions?.root?.message && (
+        <p className="text-sm text-danger">{translateError(errors.companions.root.message)}</p>
+      )}
+
+      <div className="flex justify-between gap-2">
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => append({ id: crypto.randomUUID(), name: '', relationship: 'partner', dob: '' })}
+          disabled={fields.length >= MAX_COMPANIONS}
+          className="flex items-center gap-1"
+        >
+          <Plus className="h-4 w-4" />
+          {t('companions.add')}
+        </Button>
+        <Button type="submit" className="flex justify-center py-2 px-4" isLoading={isLoading}>
+          {t('companions.save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Link2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import ProviderIcon from './ProviderIcon';
+import { OAUTH_PROVIDERS, OAuthProviderId, providerLabels } from '../lib/authProviders';
+import { getErrorMessage } from '../lib/errors';
+
+export default function ConnectedAccounts() {
+  const { currentUser, linkProvider, unlinkProvider } = useAuth();
+  const { t } = useLocale();
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [busyProvider, setBusyProvider] = useState<OAuthProviderId | null>(null);
+  // Bumped after link/unlink so providerData is re-read
+  const [, setRevision] = useState(0);
+
+  if (!currentUser) return null;
+
+  const linkedProviders = currentUser.providerData.map(info => info.providerId);
+
+  const run = async (providerId: OAuthProviderId, action: () => Promise<void>, success: string) => {
+    try {
+      setError('');
+      setMessage('');
+      setBusyProvider(providerId);
+      await action();
+      setRevision(r => r + 1);
+      setMessage(success);
+    } catch (err) {
+      console.error("Error updating connected account:", err);
+      setError(getErrorMessage(err, t('connectedAccounts.failed', { provider: providerLabels[providerId] })));
+    } finally {
+      setBusyProvider(null);
+    }
+  };
+
+  const handleConnect = (providerId: OAuthProviderId) => run(
+    providerId,
+    () => linkProvider(providerId),
+    t('connectedAccounts.connected', { provider: providerLabels[providerId] })
+  );
+
+  const handleDisconnect = (providerId: OAuthProviderId) => run(
+    providerId,
+    () => unlinkProvider(providerId),
+    t('connectedAccounts.disconnected', { provider: providerLabels[providerId] })
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Link2 className="h-5 w-5 text-faint" aria-hidden="true" />
+        <h3 className="text-lg font-medium text-foreground">{t('connectedAccounts.title')}</h3>
+      </div>
+      <p className="text-sm text-subtle">{t('connectedAccounts.intro')}</p>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {message && <Alert variant="success">{message}</Alert>}
+
+      <ul className="divide-y divide-border rounded-md border border-border">
+        {OAUTH_PROVIDERS.map(providerId => {
+          const isLinked = linkedProviders.includes(providerId);
+          // Keep at least one way to sign in
+          const isLastMethod = isLinked && linkedProviders.length === 1;
+
+          return (
+            <li key={providerId} className="flex items-center justify-between px-4 py-3 text-sm">
+              <span className="flex items-center gap-3 text-foreground">
+                <ProviderIcon providerId={providerId} />
+                {providerLabels[providerId]}
+                {isLinked && <span className="text-xs text-success">{t('connectedAccounts.status')}</span>}
+              </span>
+              {isLinked ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDisconnect(providerId)}
+                  isLoading={busyProvider === providerId}
+                  disabled={busyProvider !== null || isLastMethod}
+                  title={isLastMethod ? t('connectedAccounts.lastMethod') : undefined}
+                >
+                  {t('connectedAccounts.disconnect')}
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleConnect(providerId)}
+                  isLoading={busyProvider === providerId}
+                  disabled={busyProvider !== null}
+                >
+                  {t('connectedAccounts.connect')}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Mail } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { Input } from './ui/Input';
+import { FormField } from './ui/FormField';
+import { reportFormError } from '../lib/errors';
+
+const emailLinkSchema = z.object({
+  email: z.string().email('validation.emailInvalid'),
+});
+
+type EmailLinkFormData = z.infer<typeof emailLinkSchema>;
+
+interface EmailLinkRequestFormProps {
+  // Where the link should take the user once they've signed in
+  next: string;
+}
+
+export default function EmailLinkRequestForm({ next }: EmailLinkRequestFormProps) {
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { sendSignInLink } = useAuth();
+  const { t } = useLocale();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setError: setFieldError,
+  } = useForm<EmailLinkFormData>({
+    resolver: zodResolver(emailLinkSchema),
+  });
+
+  const onSubmit = async (data: EmailLinkFormData) => {
+    try {
+      setMessage('');
+      setError('');
+      setIsLoading(true);
+      await sendSignInLink(data.email, next);
+      setMessage(t('emailLink.sent', { email: data.email }));
+    } catch (err) {
+      setError(reportFormError(err, setFieldError, ['email'], 'emailLink.sendFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {message && <Alert variant="success">{message}</Alert>}
+
+      <p className="text-sm text-muted">{t('emailLink.intro')}</p>
+
+      <FormField id="linkEmail" label={t('common.emailAddress')} icon={Mail} error={errors.email?.message}>
+        <Input type="email" {...register('email')} />
+      </FormField>
+
+      <Button
+        type="submit"
+        className="w-full flex justify-center py-2 px-4"
+        isLoading={isLoading}
+      >
+        {t('emailLink.submit')}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import { renderWithLocale } from '../test/renderWithLocale';
+import { ErrorBoundary } from './ErrorBoundary';
+
+// Whether the page throws, flipped to simulate whatever broke it being fixed
+let broken = false;
+
+function FlakyPage() {
+  if (broken) {
+    throw new Error('Failed to fetch dynamically imported module');
+  }
+  return <p>Page content</p>;
+}
+
+function Harness() {
+  const [route, setRoute] = useState('/trips');
+  return (
+    <>
+      <button onClick={() => setRoute('/assistant')}>Navigate</button>
+      <ErrorBoundary key={route}>
+        <FlakyPage />
+      </ErrorBoundary>
+    </>
+  );
+}
+
+describe('ErrorBoundary', () => {
+  it('shows the error page in place of a page that throws', () => {
+    broken = true;
+    renderWithLocale(<Harness />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Something went wrong');
+    expect(screen.getByRole('button', { name: 'Reload page' })).toBeInTheDocument();
+    expect(screen.queryByText('Page content')).not.toBeInTheDocument();
+  });
+
+  it('renders the page again on retry', async () => {
+    broken = true;
+    const user = userEvent.setup();
+    renderWithLocale(<Harness />);
+
+    broken = false;
+    await user.click(screen.getByRole('button', { name: 'Try again' }));
+
+    expect(screen.getByText('Page content')).toBeInTheDocument();
+  });
+
+  it('clears the error when its key changes', async () => {
+    broken = true;
+    const user = userEvent.setup();
+    renderWithLocale(<Harness />);
+
+    broken = false;
+    await user.click(screen.getByRole('button', { name: 'Navigate' }));
+
+    expect(screen.getByText('Page content')).toBeInTheDocument();
+  });
+
+  it('translates the error page', () => {
+    broken = true;
+    renderWithLocale(<Harness />, { locale: 'fr' });
+
+    expect(screen.getByRole('button', { name: 'Réessayer' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,36 @@
+import { Component, ErrorInfo, ReactNode } from 'react';
+import PageError from './PageError';
+
+interface ErrorBoundaryProps {
+  children: ReactNode;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+}
+
+// Catches errors thrown while rendering a page, including a lazy route
+// whose code failed to download, so the rest of the app keeps working.
+// Give it a `key` that changes on navigation to clear the error.
+export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.error("Error rendering page:", error, info.componentStack);
+  }
+
+  reset = () => {
+    this.setState({ error: null });
+  };
+
+  render() {
+    if (this.state.error) {
+      return <PageError onRetry={this.reset} />;
+    }
+    return this.props.children;
+  }
+}
@@ -0,0 +1,69 @@
+import { Route, Routes } from 'react-router-dom';
+import { signInWithEmailAndPassword } from 'firebase/auth';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import GuestRoute from './GuestRoute';
+import { auth } from '../lib/firebase';
+import LocationDisplay from '../test/LocationDisplay';
+import { renderWithAuth } from '../test/render';
+import { resetEmulators, seedUser, travellerFixture } from '../test/fixtures';
+
+// Stands in for a sign-in page that hasn't finished its flow yet
+function SignInPage() {
+  return (
+    <button onClick={() => signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password)}>
+      Sign in
+    </button>
+  );
+}
+
+function renderRoutes(route: string) {
+  return renderWithAuth(
+    <Routes>
+      <Route element={<GuestRoute />}>
+        <Route path="/login" element={<SignInPage />} />
+      </Route>
+      <Route path="*" element={<LocationDisplay />} />
+    </Routes>,
+    { route }
+  );
+}
+
+describe('GuestRoute', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedUser(travellerFixture);
+  });
+
+  it('shows the page to signed-out visitors', async () => {
+    renderRoutes('/login');
+
+    expect(await screen.findByRole('button', { name: 'Sign in' })).toBeInTheDocument();
+  });
+
+  it('sends users who are already signed in to the dashboard', async () => {
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    renderRoutes('/login');
+
+    expect(await screen.findByTestId('location')).toHaveTextContent(/^\/$/);
+  });
+
+  it('sends them on to the page they asked for instead', async () => {
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    renderRoutes('/login?next=%2Ftrips');
+
+    expect(await screen.findByTestId('location')).toHaveTextContent('/trips');
+  });
+
+  it('leaves the page to finish its own flow after signing in on it', async () => {
+    const user = userEvent.setup();
+    renderRoutes('/login');
+
+    await user.click(await screen.findByRole('button', { name: 'Sign in' }));
+
+    await waitFor(() => expect(auth.currentUser).not.toBeNull());
+    expect(screen.getByRole('button', { name: 'Sign in' })).toBeInTheDocument();
+    expect(screen.queryByTestId('location')).not.toBeInTheDocument();
+  });
+});
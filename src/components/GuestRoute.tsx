@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { Navigate, Outlet } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useRedirectTarget } from '../hooks/useRedirectTarget';
+import PageLoader from './PageLoader';
+
+interface GuestRouteProps {
+  children?: React.ReactNode;
+}
+
+// For the sign-in and sign-up pages: users who arrive already signed in go
+// on to where they were headed. Whether they were signed in is settled once,
+// when auth has loaded, so signing in or up on the page itself doesn't pull
+// it away mid-flow; those pages send the user on when they're done.
+export default function GuestRoute({ children }: GuestRouteProps) {
+  const { currentUser, loading } = useAuth();
+  const redirectTo = useRedirectTarget();
+  const [arrivedSignedIn, setArrivedSignedIn] = useState<boolean | null>(null);
+
+  if (!loading && arrivedSignedIn === null) {
+    setArrivedSignedIn(Boolean(currentUser));
+  }
+
+  if (arrivedSignedIn === null) {
+    return <PageLoader fullScreen />;
+  }
+
+  if (arrivedSignedIn) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+}
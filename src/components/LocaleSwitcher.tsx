@@ -0,0 +1,36 @@
+import { Languages } from 'lucide-react';
+import { useLocale } from '../contexts/locale';
+import { isLocale, localeName, LOCALES } from '../lib/i18n';
+import { cn } from '../lib/utils';
+import { Select } from './ui/Select';
+
+interface LocaleSwitcherProps {
+  className?: string;
+}
+
+export default function LocaleSwitcher({ className }: LocaleSwitcherProps) {
+  const { locale, setLocale, t } = useLocale();
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = e.target.value;
+    if (!isLocale(next)) return;
+
+    try {
+      await setLocale(next);
+    } catch (err) {
+      // The new language still applies in this browser
+      console.error("Error saving language:", err);
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <Languages className="h-4 w-4 text-subtle" aria-hidden="true" />
+      <Select aria-label={t('locale.label')} value={locale} onChange={handleChange} className="h-9 w-auto">
+        {LOCALES.map(code => (
+          <option key={code} value={code} lang={code}>{localeName(code)}</option>
+        ))}
+      </Select>
+    </div>
+  );
+}
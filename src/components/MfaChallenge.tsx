@@ -0,0 +1,162 @@
+import { useRef, useState } from 'react';
+import { MultiFactorResolver } from 'firebase/auth';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { KeyRound, MessageSquare, ShieldCheck } from 'lucide-react';
+import { useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { Input } from './ui/Input';
+import { FormField } from './ui/FormField';
+import { useRecaptchaVerifier } from '../hooks/useRecaptchaVerifier';
+import {
+  isPhoneFactor,
+  isTotpFactor,
+  resolveWithSms,
+  resolveWithTotp,
+  sendSmsSignInCode,
+} from '../lib/mfa';
+import { getErrorMessage, reportFormError } from '../lib/errors';
+
+const codeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'validation.codeInvalid'),
+});
+
+type CodeFormData = z.infer<typeof codeSchema>;
+
+interface MfaChallengeProps {
+  resolver: MultiFactorResolver;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export default function MfaChallenge({ resolver, onSuccess, onCancel }: MfaChallengeProps) {
+  const [hintIndex, setHintIndex] = useState(0);
+  const [verificationId, setVerificationId] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const recaptchaContainerRef = useRef<HTMLDivElement>(null);
+  const getVerifier = useRecaptchaVerifier(recaptchaContainerRef);
+  const { t } = useLocale();
+
+  const hint = resolver.hints[hintIndex];
+  const isSms = isPhoneFactor(hint);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError: setFieldError,
+  } = useForm<CodeFormData>({
+    resolver: zodResolver(codeSchema),
+  });
+
+  const selectHint = (index: number) => {
+    setHintIndex(index);
+    setVerificationId('');
+    setError('');
+    reset();
+  };
+
+  const handleSendCode = async () => {
+    if (!isPhoneFactor(hint)) return;
+
+    try {
+      setError('');
+      setIsLoading(true);
+      setVerificationId(await sendSmsSignInCode(resolver, hint, getVerifier()));
+    } catch (err) {
+      console.error("Error sending sign-in code:", err);
+      setError(getErrorMessage(err, 'mfa.sendCodeFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmit = async (data: CodeFormData) => {
+    try {
+      setError('');
+      setIsLoading(true);
+      if (isSms) {
+        await resolveWithSms(resolver, verificationId, data.code);
+      } else {
+        await resolveWithTotp(resolver, hint.uid, data.code);
+      }
+      onSuccess();
+    } catch (err) {
+      console.error("Error verifying second factor:", err);
+      setError(reportFormError(err, setFieldError, ['code'], 'errors.invalidVerificationCode'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <ShieldCheck className="mx-auto h-10 w-10 text-primary" />
+        <h3 className="mt-2 text-lg font-medium text-foreground">{t('mfa.title')}</h3>
+        <p className="mt-1 text-sm text-muted">
+          {isPhoneFactor(hint)
+            ? t('mfa.challengeSms', { phoneNumber: hint.phoneNumber })
+            : t('mfa.challengeTotp')}
+        </p>
+      </div>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {resolver.hints.length > 1 && (
+        <div className="flex gap-2" role="group" aria-label={t('mfa.method')}>
+          {resolver.hints.map((factor, index) => (
+            <Button
+              key={factor.uid}
+              type="button"
+              size="sm"
+              variant={index === hintIndex ? 'primary' : 'outline'}
+              onClick={() => selectHint(index)}
+              className="flex-1 gap-2"
+            >
+              {isTotpFactor(factor) ? <KeyRound className="h-4 w-4" /> : <MessageSquare className="h-4 w-4" />}
+              {factor.displayName || t(isTotpFactor(factor) ? 'mfa.authenticatorApp' : 'mfa.textMessage')}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {isSms && !verificationId ? (
+        <Button
+          type="button"
+          className="w-full"
+          onClick={handleSendCode}
+          isLoading={isLoading}
+        >
+          {t('mfa.sendCode')}
+        </Button>
+      ) : (
+        <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <FormField id="mfaCode" label={t('mfa.code')} error={errors.code?.message}>
+            <Input type="text" inputMode="numeric" autoComplete="one-time-code" {...register('code')} />
+          </FormField>
+
+          <Button type="submit" className="w-full" isLoading={isLoading}>
+            {t('mfa.verify')}
+          </Button>
+        </form>
+      )}
+
+      <div ref={recaptchaContainerRef} />
+
+      <div className="text-center text-sm">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="font-medium text-primary hover:text-primary-hover"
+        >
+          {t('mfa.backToSignIn')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useRef, useState } from 'react';
+import { multiFactor, TotpSecret } from 'firebase/auth';
+import { KeyRound, MessageSquare, ShieldCheck, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { useRecaptchaVerifier } from '../hooks/useRecaptchaVerifier';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { Input } from './ui/Input';
+import {
+  enrollSms,
+  enrollTotp,
+  generateTotpSecret,
+  isPhoneFactor,
+  isTotpFactor,
+  sendSmsEnrollmentCode,
+  unenrollFactor,
+} from '../lib/mfa';
+import { getErrorMessage } from '../lib/errors';
+import { displayPhoneNumber, isE164 } from '../lib/phone';
+import { activeBrand } from '../lib/theme';
+
+interface MfaEnrollmentProps {
+  // The mobile number saved on the user's profile, in E.164, used for SMS codes
+  mobileNumber?: string;
+  mobileCountry?: string;
+}
+
+type EnrollmentStep =
+  | { method: 'sms'; verificationId: string }
+  | { method: 'totp'; secret: TotpSecret };
+
+export default function MfaEnrollment({ mobileNumber, mobileCountry }: MfaEnrollmentProps) {
+  const { currentUser, reloadUser } = useAuth();
+  const { t } = useLocale();
+  const [step, setStep] = useState<EnrollmentStep | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  // Bumped after enrol/unenrol so the factor list re-renders
+  const [, setRevision] = useState(0);
+  const recaptchaContainerRef = useRef<HTMLDivElement>(null);
+  const getVerifier = useRecaptchaVerifier(recaptchaContainerRef);
+
+  if (!currentUser) return null;
+
+  const enrolledFactors = multiFactor(currentUser).enrolledFactors;
+  const phoneNumber = mobileNumber && isE164(mobileNumber) ? mobileNumber : null;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setError('');
+      setMessage('');
+      setIsLoading(true);
+      await action();
+    } catch (err) {
+      console.error("Error updating MFA:", err);
+      setError(getErrorMessage(err, 'mfa.updateFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startSms = () => run(async () => {
+    if (!phoneNumber) return;
+    const verificationId = await sendSmsEnrollmentCode(currentUser, phoneNumber, getVerifier());
+    setCode('');
+    setStep({ method: 'sms', verificationId });
+  });
+
+  const startTotp = () => run(async () => {
+    const secret = await generateTotpSecret(currentUser);
+    setCode('');
+    setStep({ method: 'totp', secret });
+  });
+
+  const finishEnrollment = () => run(async () => {
+    if (!step) return;
+    if (!/^\d{6}$/.test(code)) {
+      setError(t('validation.codeInvalid'));
+      return;
+    }
+
+    if (step.method === 'sms') {
+      await enrollSms(currentUser, step.verificationId, code, t('mfa.textMessage'));
+    } else {
+      await enrollTotp(currentUser, step.secret, code, t('mfa.authenticatorApp'));
+    }
+
+    await reloadUser();
+    setStep(null);
+    setRevision(r => r + 1);
+    setMessage(t('mfa.enabled'));
+  });
+
+  const removeFactor = (index: number) => run(async () => {
+    const factor = enrolledFactors[index];
+    const confirmation = factor.displayName
+      ? t('mfa.removeConfirm', { method: factor.displayName })
+      : t('mfa.removeConfirmUnnamed');
+    if (!window.confirm(confirmation)) return;
+    await unenrollFactor(currentUser, factor);
+    await reloadUser();
+    setRevision(r => r + 1);
+    setMessage(t('mfa.removed'));
+  });
+
+  const totpUrl = step?.method === 'totp'
+    ? step.secret.generateQrCodeUrl(currentUser.email ?? undefined, activeBrand.name)
+    : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-faint" aria-hidden="true" />
+        <h3 className="text-lg font-medium text-foreground">{t('mfa.title')}</h3>
+      </div>
+      <p className="text-sm text-subtle">{t('mfa.intro')}</p>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {message && <Alert variant="success">{message}</Alert>}
+
+      {enrolledFactors.length > 0 && (
+        <ul className="divide-y divide-border rounded-md border border-border">
+          {enrolledFactors.map((factor, index) => (
+            <li key={factor.uid} className="flex items-center justify-between px-4 py-3 text-sm">
+              <span className="flex items-center gap-2 text-foreground">
+                {isTotpFactor(factor) ? <KeyRound className="h-4 w-4" /> : <MessageSquare className="h-4 w-4" />}
+                {factor.displayName}
+                {isPhoneFactor(factor) && (
+                  <span className="text-subtle">{factor.phoneNumber}</span>
+                )}
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => removeFactor(index)}
+                disabled={isLoading}
+                aria-label={t('mfa.remove', { method: factor.displayName ?? '' })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {step ? (
+        <div className="space-y-4 rounded-md border border-border p-4">
+          {step.method === 'sms' ? (
+            <p className="text-sm text-muted">
+              {t('mfa.codeSent', { phoneNumber: phoneNumber ? displayPhoneNumber(phoneNumber, mobileCountry) : '' })}
+            </p>
+          ) : (
+            <div className="space-y-2 text-sm text-muted">
+              <p>{t('mfa.totpInstructions')}</p>
+              <p className="font-mono text-foreground break-all">{step.secret.secretKey}</p>
+              <a href={totpUrl} className="font-medium text-primary hover:text-primary-hover">
+                {t('mfa.openAuthenticator')}
+              </a>
+            </div>
+          )}
+          <Input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            aria-label={t('mfa.code')}
+            value={code}
+            onChange={e => setCode(e.target.value.trim())}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setStep(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="button" onClick={finishEnrollment} isLoading={isLoading}>
+              {t('mfa.turnOn')}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={startSms}
+            disabled={isLoading || !phoneNumber}
+            className="flex items-center gap-2"
+          >
+            <MessageSquare className="h-4 w-4" />
+            {t('mfa.useSms')}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={startTotp}
+            disabled={isLoading}
+            className="flex items-center gap-2"
+          >
+            <KeyRound className="h-4 w-4" />
+            {t('mfa.useTotp')}
+          </Button>
+        </div>
+      )}
+
+      {!phoneNumber && !step && (
+        <p className="text-xs text-subtle">{t('mfa.noPhoneNumber')}</p>
+      )}
+
+      <div ref={recaptchaContainerRef} />
+    </div>
+  );
+}
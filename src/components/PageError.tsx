@@ -0,0 +1,29 @@
+import { RotateCw } from 'lucide-react';
+import { useLocale } from '../contexts/locale';
+import { Alert } from './ui/Alert';
+import { Button } from './ui/Button';
+
+interface PageErrorProps {
+  onRetry: () => void;
+}
+
+// What ErrorBoundary shows in place of a page that failed
+export default function PageError({ onRetry }: PageErrorProps) {
+  const { t } = useLocale();
+
+  return (
+    <div className="max-w-md mx-auto py-12 space-y-4">
+      <Alert variant="error" title={t('errorPage.title')}>
+        {t('errorPage.body')}
+      </Alert>
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={onRetry}>{t('errorPage.retry')}</Button>
+        {/* A new deploy replaces the old route chunks, which only a reload fixes */}
+        <Button variant="outline" onClick={() => window.location.reload()} className="flex items-center gap-2">
+          <RotateCw className="h-4 w-4" aria-hidden="true" />
+          {t('errorPage.reload')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { useLocale } from '../contexts/locale';
+import { cn } from '../lib/utils';
+
+interface PageLoaderProps {
+  // Fill the window, for before there's an app shell to load into
+  fullScreen?: boolean;
+}
+
+// Shown while a route's code or the signed-in user is still loading
+export default function PageLoader({ fullScreen }: PageLoaderProps) {
+  const { t } = useLocale();
+
+  return (
+    <div role="status" className={cn('flex items-center justify-center', fullScreen ? 'min-h-screen' : 'py-24')}>
+      <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" aria-hidden="true" />
+      <span className="sr-only">{t('common.loading')}</span>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useRef, useState } from 'react';
+import { CheckCircle2, MessageSquare, Phone } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { useRecaptchaVerifier } from '../hooks/useRecaptchaVerifier';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { Input } from './ui/Input';
+import { getErrorMessage } from '../lib/errors';
+import { displayPhoneNumber, isE164 } from '../lib/phone';
+import {
+  confirmPhoneNumber,
+  isPhoneNumberVerified,
+  sendPhoneVerificationCode,
+} from '../lib/phoneVerification';
+
+interface PhoneVerificationProps {
+  // The saved mobile number, in E.164
+  mobileNumber?: string;
+  mobileCountry?: string;
+}
+
+export default function PhoneVerification({ mobileNumber, mobileCountry }: PhoneVerificationProps) {
+  const { currentUser } = useAuth();
+  const { t } = useLocale();
+  const [verificationId, setVerificationId] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  // Bumped after verifying, since the user object changes in place
+  const [, setRevision] = useState(0);
+  const recaptchaContainerRef = useRef<HTMLDivElement>(null);
+  const getVerifier = useRecaptchaVerifier(recaptchaContainerRef);
+
+  if (!currentUser) return null;
+
+  // Numbers saved before E.164 storage can't be texted until they're saved again
+  const canVerify = !!mobileNumber && isE164(mobileNumber);
+  const verified = canVerify && isPhoneNumberVerified(currentUser, mobileNumber);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setError('');
+      setMessage('');
+      setIsLoading(true);
+      await action();
+    } catch (err) {
+      console.error("Error verifying phone number:", err);
+      setError(getErrorMessage(err, 'phone.verifyFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const sendCode = () => run(async () => {
+    if (!canVerify) return;
+    setVerificationId(await sendPhoneVerificationCode(mobileNumber, getVerifier()));
+    setCode('');
+  });
+
+  const confirmCode = () => run(async () => {
+    if (!verificationId) return;
+    if (!/^\d{6}$/.test(code)) {
+      setError(t('validation.codeInvalid'));
+      return;
+    }
+
+    await confirmPhoneNumber(currentUser, verificationId, code);
+    setVerificationId(null);
+    setRevision(r => r + 1);
+    setMessage(t('phone.verifiedMessage'));
+  });
+
+  // Isolated so the number keeps its order inside Arabic and Hebrew text
+  const phoneNumber = canVerify ? `\u2066${displayPhoneNumber(mobileNumber, mobileCountry)}\u2069` : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Phone className="h-5 w-5 text-faint" aria-hidden="true" />
+        <h3 className="text-lg font-medium text-foreground">{t('common.mobileNumber')}</h3>
+      </div>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {message && <Alert variant="success">{message}</Alert>}
+
+      {!canVerify ? (
+        <p className="text-sm text-subtle">{t('phone.noNumber')}</p>
+      ) : verified ? (
+        <p className="flex items-center gap-2 text-sm text-foreground">
+          {phoneNumber}
+          <span className="flex items-center gap-1 text-success">
+            <CheckCircle2 className="h-4 w-4" />
+            {t('phone.verified')}
+          </span>
+        </p>
+      ) : verificationId ? (
+        <div className="space-y-4 rounded-md border border-border p-4">
+          <p className="text-sm text-muted">{t('phone.codeSent', { phoneNumber })}</p>
+          <Input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            aria-label={t('phone.code')}
+            value={code}
+            onChange={e => setCode(e.target.value.trim())}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setVerificationId(null)}>
+              {t('phone.cancel')}
+            </Button>
+            <Button type="button" onClick={confirmCode} isLoading={isLoading}>
+              {t('phone.confirm')}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-foreground">{phoneNumber}</p>
+          <p className="text-sm text-subtle">{t('phone.unverified')}</p>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={sendCode}
+            disabled={isLoading}
+            className="flex items-center gap-2"
+          >
+            <MessageSquare className="h-4 w-4" />
+            {t('phone.verify')}
+          </Button>
+        </div>
+      )}
+
+      <div ref={recaptchaContainerRef} />
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Plane, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Checkbox } from './ui/Checkbox';
+import { Alert } from './ui/Alert';
+import { Input } from './ui/Input';
+import { FormField } from './ui/FormField';
+import { Select } from './ui/Select';
+import { CURRENCY_CODES, currencyName } from '../lib/currencies';
+import {
+  defaultPreferences,
+  INTERESTS,
+  interestLabels,
+  MAX_LOYALTY_PROGRAMMES,
+  MEAL_PREFERENCES,
+  mealPreferenceLabels,
+  preferencesSchema,
+  SEAT_PREFERENCES,
+  seatPreferenceLabels,
+  TravelPreferences,
+} from '../lib/profile';
+import { replaceUserFields, UserData } from '../lib/userRepository';
+import { getErrorMessage, reportFormError } from '../lib/errors';
+import { MessageKey } from '../lib/i18n';
+import { settleWrite } from '../lib/sync';
+
+function toFormValues(preferences: UserData['preferences']): TravelPreferences {
+  return {
+    homeAirport: preferences?.homeAirport ?? defaultPreferences.homeAirport,
+    seat: preferences?.seat ?? defaultPreferences.seat,
+    meal: preferences?.meal ?? defaultPreferences.meal,
+    loyaltyProgrammes: preferences?.loyaltyProgrammes ?? defaultPreferences.loyaltyProgrammes,
+    budgetMin: preferences?.budgetMin,
+    budgetMax: preferences?.budgetMax,
+    currency: preferences?.currency ?? defaultPreferences.currency,
+    interests: preferences?.interests ?? defaultPreferences.interests,
+  };
+}
+
+// Empty number inputs would otherwise be NaN
+function toOptionalNumber(value: string) {
+  return value === '' ? undefined : Number(value);
+}
+
+interface PreferencesFormProps {
+  userData: UserData | null;
+}
+
+export default function PreferencesForm({ userData }: PreferencesFormProps) {
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState<{ text: MessageKey; variant: 'success' | 'info' } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { currentUser } = useAuth();
+  const { locale, t } = useLocale();
+  const currencies = useMemo(
+    () => CURRENCY_CODES
+      .map(code => ({ code, name: currencyName(code, locale) }))
+      .sort((a, b) => a.name.localeCompare(b.name, locale)),
+    [locale]
+  );
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+    setError: setFieldError,
+  } = useForm<TravelPreferences>({
+    resolver: zodResolver(preferencesSchema),
+    defaultValues: toFormValues(userData?.preferences),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'loyaltyProgrammes' });
+
+  // Keep the form current with changes made elsewhere unless the user is
+  // in the middle of editing
+  useEffect(() => {
+    if (!isDirty) reset(toFormValues(userData?.preferences));
+  }, [userData, isDirty, reset]);
+
+  const onSubmit = async (data: TravelPreferences) => {
+    if (!currentUser) return;
+
+    try {
+      setError('');
+      setMessage(null);
+      setIsLoading(true);
+      const result = await settleWrite(replaceUserFields(currentUser.uid, { preferences: data }), {
+        onLateError: err => setError(getErrorMessage(err, 'preferences.saveFailed')),
+      });
+      reset(data);
+      setMessage(result === 'saved'
+        ? { text: 'preferences.saved', variant: 'success' }
+        : { text: 'preferences.savedLocally', variant: 'info' });
+    } catch (err) {
+      setError(reportFormError(
+        err,
+        setFieldError,
+        ['homeAirport', 'seat', 'meal', 'budgetMin', 'budgetMax', 'currency'],
+        'preferences.saveFailed'
+      ));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {message && <Alert variant={message.variant}>{t(message.text)}</Alert>}
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+        <FormField id="homeAirport" label={t('preferences.homeAirport')} icon={Plane} error={errors.homeAirport?.message}>
+          <Input
+            type="text"
+            className="uppercase"
+            placeholder="LHR"
+            maxLength={3}
+            {...register('homeAirport')}
+          />
+        </FormField>
+
+        <FormField id="seat" label={t('preferences.seat')} error={errors.seat?.message}>
+          <Select {...register('seat')}>
+            {SEAT_PREFERENCES.map(value => (
+              <option key={value} value={value}>{t(seatPreferenceLabels[value])}</option>
+            ))}
+          </Select>
+        </FormField>
+
+        <FormField id="meal" label={t('preferences.meal')} error={errors.meal?.message}>
+          <Select {...register('meal')}>
+            {MEAL_PREFERENCES.map(value => (
+              <option key={value} value={value}>{t(mealPreferenceLabels[value])}</option>
+            ))}
+          </Select>
+        </FormField>
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-muted">{t('preferences.budget')}</legend>
+        <div className="mt-1 grid grid-cols-1 gap-6 sm:grid-cols-3">
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            placeholder={t('preferences.minimum')}
+            aria-label={t('preferences.minimumBudget')}
+            error={errors.budgetMin?.message}
+            {...register('budgetMin', { setValueAs: toOptionalNumber })}
+          />
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            placeholder={t('preferences.maximum')}
+            aria-label={t('preferences.maximumBudget')}
+            error={errors.budgetMax?.message}
+            {...register('budgetMax', { setValueAs: toOptionalNumber })}
+          />
+          <Select
+            aria-label={t('preferences.currency')}
+            placeholder={t('preferences.currency')}
+            error={errors.currency?.message}
+            {...register('currency')}
+          >
+            {currencies.map(currency => (
+              <option key={currency.code} value={currency.code}>
+                {currency.code} – {currency.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-muted">{t('preferences.interests')}</legend>
+        <div className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {INTERESTS.map(interest => (
+            <Checkbox
+              key={interest}
+              label={t(interestLabels[interest])}
+              value={interest}
+              {...register('interests')}
+            />
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset className="space-y-4">
+        <legend className="block text-sm font-medium text-muted">{t('preferences.loyaltyProgrammes')}</legend>
+        {fields.map((field, index) => (
+          <div key={field.id} className="grid grid-cols-1 gap-x-3 gap-y-6 sm:grid-cols-12 items-start">
+            <div className="sm:col-span-6">
+              <Input
+                type="text"
+                placeholder={t('preferences.programmePlaceholder')}
+                aria-label={t('preferences.programme')}
+                error={errors.loyaltyProgrammes?.[index]?.programme?.message}
+                {...register(`loyaltyProgrammes.${index}.programme`)}
+              />
+            </div>
+            <div className="sm:col-span-5">
+              <Input
+                type="text"
+                placeholder={t('preferences.membershipNumber')}
+                aria-label={t('preferences.membershipNumber')}
+                autoComplete="off"
+                error={errors.loyaltyProgrammes?.[index]?.number?.message}
+                {...register(`loyaltyProgrammes.${index}.number`)}
+              />
+            </div>
+            <div className="sm:col-span-1 flex justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-10"
+                onClick={() => remove(index)}
+                aria-label={t('preferences.removeProgramme')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {fields.length < MAX_LOYALTY_PROGRAMMES && (
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() => append({ programme: '', number: '' })}
+            className="flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            {t('preferences.addProgramme')}
+          </Button>
+        )}
+      </fieldset>
+
+      <div className="flex justify-end">
+        <Button type="submit" className="flex justify-center py-2 px-4" isLoading={isLoading}>
+          {t('preferences.save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,112 @@
+import { Route, Routes } from 'react-router-dom';
+import { signInWithEmailAndPassword } from 'firebase/auth';
+import { screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import ProtectedRoute from './ProtectedRoute';
+import { auth } from '../lib/firebase';
+import LocationDisplay from '../test/LocationDisplay';
+import { renderWithAuth } from '../test/render';
+import {
+  adminFixture,
+  onboardingFixture,
+  resetEmulators,
+  seedUser,
+  travellerFixture,
+  unverifiedFixture,
+  UserFixture,
+} from '../test/fixtures';
+
+async function signInAs(fixture: UserFixture) {
+  await seedUser(fixture);
+  await signInWithEmailAndPassword(auth, fixture.email, fixture.password);
+}
+
+function renderRoutes(route: string) {
+  return renderWithAuth(
+    <Routes>
+      <Route path="/login" element={<LocationDisplay />} />
+      <Route path="/verify-email" element={<LocationDisplay />} />
+      <Route path="/onboarding" element={<LocationDisplay />} />
+      <Route
+        path="/profile"
+        element={
+          <ProtectedRoute>
+            <p>Profile page</p>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/trips"
+        element={
+          <ProtectedRoute requireVerifiedEmail>
+            <p>Trips page</p>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin"
+        element={
+          <ProtectedRoute requiredRoles={['admin']}>
+            <p>Admin page</p>
+          </ProtectedRoute>
+        }
+      />
+    </Routes>,
+    { route }
+  );
+}
+
+describe('ProtectedRoute', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+  });
+
+  it('sends signed-out visitors to the login page with a return path', async () => {
+    renderRoutes('/trips');
+
+    expect(await screen.findByTestId('location')).toHaveTextContent('/login?next=%2Ftrips');
+  });
+
+  it('renders the page for a signed-in user', async () => {
+    await signInAs(travellerFixture);
+    renderRoutes('/profile');
+
+    expect(await screen.findByText('Profile page')).toBeInTheDocument();
+  });
+
+  it('asks unverified users to verify their email first', async () => {
+    await signInAs(unverifiedFixture);
+    renderRoutes('/trips');
+
+    expect(await screen.findByTestId('location')).toHaveTextContent('/verify-email?next=%2Ftrips');
+  });
+
+  it('lets verified users through email-gated routes', async () => {
+    await signInAs(travellerFixture);
+    renderRoutes('/trips');
+
+    expect(await screen.findByText('Trips page')).toBeInTheDocument();
+  });
+
+  it('sends users who signed up but never finished onboarding to the wizard', async () => {
+    await signInAs(onboardingFixture);
+    renderRoutes('/trips');
+
+    expect(await screen.findByTestId('location')).toHaveTextContent('/onboarding?next=%2Ftrips');
+  });
+
+  it('shows the forbidden page when a required role is missing', async () => {
+    await signInAs(travellerFixture);
+    renderRoutes('/admin');
+
+    expect(await screen.findByText('Access denied')).toBeInTheDocument();
+    expect(screen.queryByText('Admin page')).not.toBeInTheDocument();
+  });
+
+  it('renders role-gated pages for users with the role', async () => {
+    await signInAs(adminFixture);
+    renderRoutes('/admin');
+
+    expect(await screen.findByText('Admin page')).toBeInTheDocument();
+  });
+});
@@ -1,20 +1,55 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { Role } from '../lib/roles';
+import Forbidden from '../pages/Forbidden';
+import PageLoader from './PageLoader';
+import { withNext } from '../lib/redirect';
+import { needsOnboarding } from '../lib/profile';
+import { useUserData } from '../hooks/useUserData';
 
-export default function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { currentUser, loading } = useAuth();
+interface ProtectedRouteProps {
+  // Left out when guarding a layout route, whose child routes render instead
+  children?: React.ReactNode;
+  // The user needs at least one of these roles to see the route
+  requiredRoles?: Role[];
+  // Send users who haven't confirmed their email address to /verify-email
+  requireVerifiedEmail?: boolean;
+  // Let users in before they've finished onboarding (the wizard itself)
+  allowIncompleteProfile?: boolean;
+}
 
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent" />
-      </div>
-    );
+export default function ProtectedRoute({
+  children,
+  requiredRoles,
+  requireVerifiedEmail,
+  allowIncompleteProfile,
+}: ProtectedRouteProps) {
+  const { currentUser, loading, emailVerified, hasRole } = useAuth();
+  const { userData, loading: fetchingUserData } = useUserData(
+    allowIncompleteProfile ? undefined : currentUser?.uid
+  );
+  const location = useLocation();
+  const from = `${location.pathname}${location.search}${location.hash}`;
+
+  if (loading || fetchingUserData) {
+    return <PageLoader fullScreen />;
   }
 
   if (!currentUser) {
-    return <Navigate to="/login" />;
+    return <Navigate to={withNext('/login', from)} state={{ from: location }} replace />;
+  }
+
+  if (requireVerifiedEmail && !emailVerified) {
+    return <Navigate to={withNext('/verify-email', from)} state={{ from: location }} replace />;
+  }
+
+  if (!allowIncompleteProfile && needsOnboarding(userData)) {
+    return <Navigate to={withNext('/onboarding', from)} replace />;
+  }
+
+  if (requiredRoles?.length && !hasRole(...requiredRoles)) {
+    return <Forbidden />;
   }
 
-  return <>{children}</>;
-}
\ No newline at end of file
+  return <>{children ?? <Outlet />}</>;
+}
@@ -0,0 +1,38 @@
+import { Apple, Facebook, Github } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { OAuthProviderId, providerLabels } from '../lib/authProviders';
+
+interface ProviderIconProps {
+  providerId: OAuthProviderId;
+  className?: string;
+}
+
+export default function ProviderIcon({ providerId, className }: ProviderIconProps) {
+  const iconClassName = cn('h-5 w-5', className);
+
+  switch (providerId) {
+    case 'google.com':
+      return (
+        <img
+          src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg"
+          alt={providerLabels[providerId]}
+          className={iconClassName}
+        />
+      );
+    case 'apple.com':
+      return <Apple className={iconClassName} aria-hidden="true" />;
+    case 'github.com':
+      return <Github className={iconClassName} aria-hidden="true" />;
+    case 'facebook.com':
+      return <Facebook className={cn(iconClassName, 'text-[#1877F2]')} aria-hidden="true" />;
+    case 'microsoft.com':
+      return (
+        <svg viewBox="0 0 23 23" className={iconClassName} aria-hidden="true">
+          <path fill="#f35325" d="M1 1h10v10H1z" />
+          <path fill="#81bc06" d="M12 1h10v10H12z" />
+          <path fill="#05a6f0" d="M1 12h10v10H1z" />
+          <path fill="#ffba08" d="M12 12h10v10H12z" />
+        </svg>
+      );
+  }
+}
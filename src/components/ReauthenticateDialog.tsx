@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { MultiFactorResolver } from 'firebase/auth';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Lock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { Modal } from './ui/Modal';
+import { Input } from './ui/Input';
+import { FormField } from './ui/FormField';
+import MfaChallenge from './MfaChallenge';
+import { MfaRequiredError } from '../lib/mfa';
+import { getErrorMessage, reportFormError } from '../lib/errors';
+import { isOAuthProviderId, providerLabels } from '../lib/authProviders';
+
+const reauthSchema = z.object({
+  password: z.string().min(1, 'validation.passwordRequired'),
+});
+
+type ReauthFormData = z.infer<typeof reauthSchema>;
+
+interface ReauthenticateDialogProps {
+  description: string;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export default function ReauthenticateDialog({ description, onSuccess, onCancel }: ReauthenticateDialogProps) {
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+  const { currentUser, reauthenticate } = useAuth();
+  const { t } = useLocale();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setError: setFieldError,
+  } = useForm<ReauthFormData>({
+    resolver: zodResolver(reauthSchema),
+  });
+
+  const providerIds = currentUser?.providerData.map(info => info.providerId) ?? [];
+  const hasPassword = providerIds.includes('password');
+  const oauthProviderId = providerIds.find(isOAuthProviderId);
+
+  const confirm = async (password?: string) => {
+    try {
+      setError('');
+      setIsLoading(true);
+      await reauthenticate(password);
+      onSuccess();
+    } catch (err) {
+      if (err instanceof MfaRequiredError) {
+        setMfaResolver(err.resolver);
+        return;
+      }
+      setError(password === undefined
+        ? getErrorMessage(err, 'reauth.failed')
+        : reportFormError(err, setFieldError, ['password'], 'reauth.failed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal title={t('reauth.title')} description={mfaResolver ? undefined : description}>
+      {mfaResolver ? (
+        <MfaChallenge resolver={mfaResolver} onSuccess={onSuccess} onCancel={onCancel} />
+      ) : (
+        <>
+          {error && <Alert variant="error">{error}</Alert>}
+
+          {hasPassword ? (
+            <form className="space-y-6" onSubmit={handleSubmit(data => confirm(data.password))}>
+              <FormField
+                id="reauthPassword"
+                label={t('reauth.currentPassword')}
+                icon={Lock}
+                error={errors.password?.message}
+              >
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  autoFocus
+                  {...register('password')}
+                />
+              </FormField>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={onCancel}>
+                  {t('common.cancel')}
+                </Button>
+                <Button type="submit" isLoading={isLoading}>
+                  {t('reauth.confirm')}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onCancel}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="button" onClick={() => confirm()} isLoading={isLoading}>
+                {oauthProviderId
+                  ? t('reauth.continueWith', { provider: providerLabels[oauthProviderId] })
+                  : t('reauth.continueWithProvider')}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+}
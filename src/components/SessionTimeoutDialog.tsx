@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { useIdleTimeout } from '../hooks/useIdleTimeout';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { useToast } from './ui/toast';
+import { getErrorMessage } from '../lib/errors';
+
+// Warns that an idle session is about to be signed out. Rendered once, for
+// the whole app; it stays hidden until the warning starts.
+export default function SessionTimeoutDialog() {
+  const { state, staySignedIn } = useIdleTimeout();
+  const { logout } = useAuth();
+  const { t, formatNumber } = useLocale();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  if (state.status !== 'warning') return null;
+
+  const minutes = Math.floor(state.secondsLeft / 60);
+  const seconds = state.secondsLeft % 60;
+  const time = `${formatNumber(minutes)}:${formatNumber(seconds, { minimumIntegerDigits: 2 })}`;
+
+  const handleSignOut = async () => {
+    try {
+      setIsSigningOut(true);
+      await logout();
+      navigate('/login');
+    } catch (err) {
+      showToast(getErrorMessage(err, 'nav.signOutFailed'), { variant: 'error' });
+    } finally {
+      setIsSigningOut(false);
+    }
+  };
+
+  return (
+    <Modal title={t('session.idleTitle')} description={t('session.idleBody', { time })}>
+      <div className="flex flex-wrap justify-end gap-3">
+        <Button type="button" variant="outline" onClick={handleSignOut} isLoading={isSigningOut}>
+          {t('session.signOut')}
+        </Button>
+        <Button type="button" onClick={staySignedIn}>
+          {t('session.staySignedIn')}
+        </Button>
+      </div>
+    </Modal>
+  );
+}
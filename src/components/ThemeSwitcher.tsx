@@ -0,0 +1,48 @@
+import { Monitor, Moon, Sun } from 'lucide-react';
+import { useLocale } from '../contexts/locale';
+import { useTheme } from '../contexts/theme';
+import { isThemePreference, THEME_PREFERENCES, ThemePreference } from '../lib/theme';
+import { MessageKey } from '../lib/i18n';
+import { cn } from '../lib/utils';
+import { Select } from './ui/Select';
+
+const preferenceLabels: Record<ThemePreference, MessageKey> = {
+  light: 'theme.light',
+  dark: 'theme.dark',
+  system: 'theme.system',
+};
+
+const preferenceIcons = { light: Sun, dark: Moon, system: Monitor };
+
+interface ThemeSwitcherProps {
+  className?: string;
+}
+
+export default function ThemeSwitcher({ className }: ThemeSwitcherProps) {
+  const { preference, setPreference } = useTheme();
+  const { t } = useLocale();
+  const Icon = preferenceIcons[preference];
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = e.target.value;
+    if (!isThemePreference(next)) return;
+
+    try {
+      await setPreference(next);
+    } catch (err) {
+      // The new theme still applies in this browser
+      console.error("Error saving theme:", err);
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <Icon className="h-4 w-4 text-subtle" aria-hidden="true" />
+      <Select aria-label={t('theme.label')} value={preference} onChange={handleChange} className="h-9 w-auto">
+        {THEME_PREFERENCES.map(value => (
+          <option key={value} value={value}>{t(preferenceLabels[value])}</option>
+        ))}
+      </Select>
+    </div>
+  );
+}
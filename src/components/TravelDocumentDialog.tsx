@@ -0,0 +1,314 @@
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Paperclip } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import { Modal } from './ui/Modal';
+import { Input } from './ui/Input';
+import { FormField } from './ui/FormField';
+import { DatePicker } from './ui/DatePicker';
+import { Select } from './ui/Select';
+import { countryOptions } from '../lib/countries';
+import { Companion } from '../lib/profile';
+import {
+  DOCUMENT_TYPES,
+  DocumentType,
+  documentTypeLabels,
+  TravelDocumentData,
+  TravelDocumentFormData,
+  travelDocumentSchema,
+} from '../lib/documents';
+import { createTravelDocument, TravelDocument, updateTravelDocument } from '../lib/documentRepository';
+import {
+  deleteDocumentScan,
+  isSupportedScanType,
+  MAX_SCAN_BYTES,
+  MAX_SCAN_MB,
+  uploadDocumentScan,
+} from '../lib/documentScans';
+import { FileUpload } from '../lib/uploads';
+import { reportFormError } from '../lib/errors';
+
+interface TravelDocumentDialogProps {
+  // The document being edited, or undefined to add a new one
+  document?: TravelDocument;
+  // Saved co-travellers the document can belong to instead of the account holder
+  companions: Companion[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+export default function TravelDocumentDialog({
+  document,
+  companions,
+  onSaved,
+  onCancel,
+}: TravelDocumentDialogProps) {
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [scanFile, setScanFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const { currentUser } = useAuth();
+  const { locale, t, formatNumber } = useLocale();
+  const countries = useMemo(() => countryOptions(locale), [locale]);
+  const uploadRef = useRef<FileUpload<string> | null>(null);
+  // Set once a new document is created, so retrying after a failed scan
+  // upload updates it instead of adding a duplicate
+  const documentIdRef = useRef(document?.id);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+    setError: setFieldError,
+  } = useForm<TravelDocumentFormData, unknown, TravelDocumentData>({
+    resolver: zodResolver(travelDocumentSchema),
+    defaultValues: {
+      type: document?.type ?? 'passport',
+      companionId: document?.companionId ?? '',
+      holderName: document?.holderName ?? currentUser?.displayName ?? '',
+      country: document?.country ?? '',
+      number: document?.number ?? '',
+      provider: document?.provider ?? '',
+      issueDate: document?.issueDate ?? '',
+      expiryDate: document?.expiryDate ?? '',
+    },
+  });
+
+  const type = watch('type');
+
+  // Stop a running upload if the dialog goes away
+  useEffect(() => () => uploadRef.current?.cancel(), []);
+
+  const handleScanChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!isSupportedScanType(file.type)) {
+      setError(t('documentDialog.scanNotSupported'));
+      return;
+    }
+
+    if (file.size > MAX_SCAN_BYTES) {
+      setError(t('documentDialog.scanTooLarge', { size: MAX_SCAN_MB }));
+      return;
+    }
+
+    setError('');
+    setScanFile(file);
+  };
+
+  const onSubmit = async (data: TravelDocumentData) => {
+    if (!currentUser) return;
+    const uid = currentUser.uid;
+
+    try {
+      setError('');
+      setIsSaving(true);
+
+      let documentId = documentIdRef.current;
+      if (!documentId) {
+        documentId = await createTravelDocument(uid, data);
+        documentIdRef.current = documentId;
+      }
+
+      // The scan is stored under the document's id, so it can only be
+      // uploaded once the document exists
+      let scanPath = document?.scanPath;
+      if (scanFile) {
+        setProgress(0);
+        const upload = uploadDocumentScan(uid, documentId, scanFile, setProgress);
+        uploadRef.current = upload;
+        scanPath = await upload.done;
+        uploadRef.current = null;
+      }
+
+      if (document || scanFile) {
+        await updateTravelDocument(uid, documentId, { ...data, scanPath });
+      }
+
+      // The document is saved either way, so only log a failed cleanup
+      if (document?.scanPath && document.scanPath !== scanPath) {
+        deleteDocumentScan(document.scanPath).catch(err => {
+          console.error("Error removing old document scan:", err);
+        });
+      }
+
+      onSaved();
+    } catch (err) {
+      uploadRef.current = null;
+      setProgress(null);
+      setIsSaving(false);
+      // Cancelling is reported as an error by the SDK but isn't one to the user
+      if (err instanceof FirebaseError && err.code === 'storage/canceled') return;
+      setError(reportFormError(
+        err,
+        setFieldError,
+        ['companionId', 'holderName', 'country', 'number', 'provider', 'issueDate', 'expiryDate'],
+        'documentDialog.saveFailed'
+      ));
+    }
+  };
+
+  const handleCancel = () => {
+    if (uploadRef.current) {
+      uploadRef.current.cancel();
+      return;
+    }
+    // A new document may have been saved before its scan upload failed
+    if (documentIdRef.current && !document) {
+      onSaved();
+    } else {
+      onCancel();
+    }
+  };
+
+  const isUploading = progress !== null;
+  const typeName = (value: DocumentType) => t(documentTypeLabels[value]);
+
+  return (
+    <Modal
+      title={document
+        ? t('documentDialog.editTitle', { document: typeName(document.type).toLocaleLowerCase(locale) })
+        : t('documentDialog.addTitle')}
+      description={t('documentDialog.description')}
+      onClose={handleCancel}
+    >
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+        {!document && (
+          <FormField id="documentType" label={t('documentDialog.type')}>
+            <Select {...register('type')}>
+              {DOCUMENT_TYPES.map(value => (
+                <option key={value} value={value}>{typeName(value)}</option>
+              ))}
+            </Select>
+          </FormField>
+        )}
+
+        {companions.length > 0 && (
+          <FormField id="documentCompanion" label={t('documentDialog.belongsTo')}>
+            <Select {...register('companionId')}>
+              <option value="">{t('documentDialog.you')}</option>
+              {companions.map(companion => (
+                <option key={companion.id} value={companion.id}>{companion.name}</option>
+              ))}
+            </Select>
+          </FormField>
+        )}
+
+        {type === 'insurance' ? (
+          <FormField id="documentProvider" label={t('documentDialog.provider')} error={errors.provider?.message}>
+            <Input type="text" {...register('provider')} />
+          </FormField>
+        ) : (
+          <FormField
+            id="documentCountry"
+            label={t(type === 'passport' ? 'documentDialog.issuingCountry' : 'documentDialog.validFor')}
+            error={errors.country?.message}
+          >
+            <Select placeholder={t('documentDialog.selectCountry')} {...register('country')}>
+              {countries.map(country => (
+                <option key={country.code} value={country.code}>{country.name}</option>
+              ))}
+            </Select>
+          </FormField>
+        )}
+
+        <FormField
+          id="documentNumber"
+          label={type === 'insurance' ? t('documentDialog.policyNumber') : t('documentDialog.number', { document: typeName(type) })}
+          error={errors.number?.message}
+        >
+          <Input type="text" autoComplete="off" {...register('number')} />
+        </FormField>
+
+        <FormField
+          id="documentHolderName"
+          label={t(type === 'insurance' ? 'documentDialog.policyHolder' : 'documentDialog.nameAsPrinted')}
+          error={errors.holderName?.message}
+        >
+          <Input type="text" {...register('holderName')} />
+        </FormField>
+
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+          <FormField
+            id="documentIssueDate"
+            label={t(type === 'insurance' ? 'documentDialog.coverStarts' : 'documentDialog.issueDate')}
+            error={errors.issueDate?.message}
+          >
+            <DatePicker {...register('issueDate')} />
+          </FormField>
+          <FormField
+            id="documentExpiryDate"
+            label={t(type === 'insurance' ? 'documentDialog.coverEnds' : 'documentDialog.expiryDate')}
+            error={errors.expiryDate?.message}
+          >
+            <DatePicker {...register('expiryDate')} />
+          </FormField>
+        </div>
+
+        <div>
+          <label htmlFor="documentScan" className="block text-sm font-medium text-muted">
+            {t('documentDialog.scan')}
+          </label>
+          <div className="mt-1 flex items-center gap-2 text-sm text-muted">
+            <Paperclip className="h-4 w-4" aria-hidden="true" />
+            <span className="truncate">
+              {scanFile?.name ?? t(document?.scanPath ? 'documentDialog.scanAttached' : 'documentDialog.noScan')}
+            </span>
+          </div>
+          <input
+            id="documentScan"
+            type="file"
+            accept="image/*, application/pdf"
+            onChange={handleScanChange}
+            disabled={isSaving}
+            aria-describedby="documentScan-hint"
+            className="mt-2 block w-full text-sm text-muted"
+          />
+          <p id="documentScan-hint" className="text-xs text-muted mt-1">
+            {t('documentDialog.scanHint', { size: MAX_SCAN_MB })}
+          </p>
+        </div>
+
+        {isUploading && (
+          <div>
+            <div
+              className="h-2 rounded-full bg-surface-strong"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress * 100)}
+              aria-label={t('documentDialog.progress')}
+            >
+              <div
+                className="h-2 rounded-full bg-primary transition-all"
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-muted">
+              {t('documentDialog.uploading', { progress: formatNumber(progress, { style: 'percent' }) })}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={handleCancel}>
+            {t(isUploading ? 'documentDialog.cancelUpload' : 'common.cancel')}
+          </Button>
+          <Button type="submit" isLoading={isSaving}>
+            {t('documentDialog.save')}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  BookUser,
+  FileText,
+  Paperclip,
+  Pencil,
+  Plus,
+  ShieldCheck,
+  Stamp,
+  Trash2,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { LocaleContextType, useLocale } from '../contexts/locale';
+import { Button } from './ui/Button';
+import { Alert } from './ui/Alert';
+import TravelDocumentDialog from './TravelDocumentDialog';
+import { countryName } from '../lib/countries';
+import { Companion } from '../lib/profile';
+import {
+  DocumentType,
+  documentTypeLabels,
+  ExpiryWarning,
+  getExpiryWarnings,
+  isExpired,
+} from '../lib/documents';
+import { deleteTravelDocument, listTravelDocuments, TravelDocument } from '../lib/documentRepository';
+import { deleteDocumentScan, getDocumentScanURL } from '../lib/documentScans';
+import { listTrips } from '../lib/trips';
+import { getErrorMessage } from '../lib/errors';
+
+const documentIcons: Record<DocumentType, typeof BookUser> = {
+  passport: BookUser,
+  visa: Stamp,
+  insurance: ShieldCheck,
+};
+
+function describeDocument(document: TravelDocument, { t, locale }: LocaleContextType) {
+  const label = t(documentTypeLabels[document.type]);
+  if (document.type === 'insurance') return document.provider ? `${label} · ${document.provider}` : label;
+  return document.country ? `${label} · ${countryName(document.country, locale)}` : label;
+}
+
+function describeWarning(
+  { document, trip, expiresDuringTrip }: ExpiryWarning,
+  { t, locale, formatDate }: LocaleContextType
+) {
+  const params = {
+    document: t(documentTypeLabels[document.type]).toLocaleLowerCase(locale),
+    date: formatDate(document.expiryDate),
+    destination: trip.destination,
+  };
+  return expiresDuringTrip
+    ? t('documents.expiresDuringTrip', params)
+    : t('documents.expiresAfterTrip', params);
+}
+
+interface TravelDocumentsProps {
+  companions: Companion[];
+}
+
+export default function TravelDocuments({ companions }: TravelDocumentsProps) {
+  const [documents, setDocuments] = useState<TravelDocument[]>([]);
+  const [warnings, setWarnings] = useState<ExpiryWarning[]>([]);
+  const [error, setError] = useState('');
+  const [fetchingDocuments, setFetchingDocuments] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  // null when the dialog is closed, 'new' when adding a document
+  const [editing, setEditing] = useState<TravelDocument | 'new' | null>(null);
+  const { currentUser } = useAuth();
+  const localeContext = useLocale();
+  const { locale, t, formatDate } = localeContext;
+
+  const fetchDocuments = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      setFetchingDocuments(true);
+      const [savedDocuments, trips] = await Promise.all([
+        listTravelDocuments(currentUser.uid),
+        listTrips(currentUser.uid),
+      ]);
+      setDocuments(savedDocuments);
+      setWarnings(getExpiryWarnings(savedDocuments, trips));
+    } catch (err) {
+      console.error("Error fetching travel documents:", err);
+      setError(getErrorMessage(err, 'documents.loadFailed'));
+    } finally {
+      setFetchingDocuments(false);
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleSaved = () => {
+    setEditing(null);
+    fetchDocuments();
+  };
+
+  const handleDelete = async (document: TravelDocument) => {
+    if (!currentUser) return;
+    const name = t(documentTypeLabels[document.type]).toLocaleLowerCase(locale);
+    if (!window.confirm(t('documents.deleteConfirm', { document: name }))) return;
+
+    try {
+      setError('');
+      setDeletingId(document.id);
+      await deleteTravelDocument(currentUser.uid, document.id);
+      setDocuments(prev => prev.filter(d => d.id !== document.id));
+      setWarnings(prev => prev.filter(warning => warning.document.id !== document.id));
+
+      // The document is gone either way, so only log a failed cleanup
+      if (document.scanPath) {
+        deleteDocumentScan(document.scanPath).catch(err => {
+          console.error("Error removing document scan:", err);
+        });
+      }
+    } catch (err) {
+      console.error("Error deleting travel document:", err);
+      setError(getErrorMessage(err, 'documents.deleteFailed'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleViewScan = async (scanPath: string) => {
+    // Open the tab straight away so the browser doesn't block it as a pop-up
+    const tab = window.open('', '_blank');
+
+    try {
+      setError('');
+      const url = await getDocumentScanURL(scanPath);
+      if (tab) {
+        tab.opener = null;
+        tab.location.href = url;
+      } else {
+        window.location.assign(url);
+      }
+    } catch (err) {
+      tab?.close();
+      console.error("Error opening document scan:", err);
+      setError(getErrorMessage(err, 'documents.openScanFailed'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FileText className="h-5 w-5 text-faint" aria-hidden="true" />
+          <h3 className="text-lg font-medium text-foreground">{t('documents.title')}</h3>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setEditing('new')}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          {t('documents.add')}
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted">{t('documents.intro')}</p>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {warnings.map(warning => (
+        <Alert key={`${warning.document.id}-${warning.trip.id}`} variant="warning">
+          {describeWarning(warning, localeContext)}
+        </Alert>
+      ))}
+
+      {fetchingDocuments ? (
+        <div className="py-6 text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+          <p className="mt-2 text-muted">{t('documents.loading')}</p>
+        </div>
+      ) : documents.length === 0 ? (
+        <p className="py-6 text-center text-sm text-subtle">{t('documents.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {documents.map(document => {
+            const Icon = documentIcons[document.type];
+            const { scanPath } = document;
+            const description = describeDocument(document, localeContext);
+            const companion = companions.find(c => c.id === document.companionId);
+            const expired = isExpired(document);
+            const expiringSoon = warnings.some(warning => warning.document.id === document.id);
+            return (
+              <li key={document.id} className="flex items-center justify-between gap-4 py-4">
+                <div className="flex items-start gap-3">
+                  <Icon className="mt-0.5 h-5 w-5 text-faint" aria-hidden="true" />
+                  <div>
+                    <p className="font-medium text-foreground">{description}</p>
+                    <div className="mt-1 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-subtle">
+                      {companion && <span>{t('documents.for', { name: companion.name })}</span>}
+                      <span>{document.number}</span>
+                      {document.holderName && <span>{document.holderName}</span>}
+                      {document.expiryDate && <span>{t('documents.expires', { date: formatDate(document.expiryDate) })}</span>}
+                      {expired ? (
+                        <span className="rounded-full bg-danger-surface px-2 text-xs font-medium text-danger">{t('documents.expired')}</span>
+                      ) : expiringSoon && (
+                        <span className="rounded-full bg-warning-surface px-2 text-xs font-medium text-warning">
+                          {t('documents.expiresSoon')}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {scanPath && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleViewScan(scanPath)}
+                      aria-label={t('documents.viewScan', { document: description })}
+                    >
+                      <Paperclip className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditing(document)}
+                    aria-label={t('documents.edit', { document: description })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(document)}
+                    isLoading={deletingId === document.id}
+                    aria-label={t('documents.delete', { document: description })}
+                  >
+                    <Trash2 className="h-4 w-4 text-danger" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {editing && (
+        <TravelDocumentDialog
+          document={editing === 'new' ? undefined : editing}
+          companions={companions}
+          onSaved={handleSaved}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
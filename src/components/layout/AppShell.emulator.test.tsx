@@ -0,0 +1,129 @@
+import { Route, Routes } from 'react-router-dom';
+import { signInWithEmailAndPassword } from 'firebase/auth';
+import { doc, getDoc } from 'firebase/firestore';
+import { screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import AppShell from './AppShell';
+import NotFound from '../../pages/NotFound';
+import { auth, db } from '../../lib/firebase';
+import LocationDisplay from '../../test/LocationDisplay';
+import { renderWithAuth } from '../../test/render';
+import {
+  adminFixture,
+  resetEmulators,
+  seedUser,
+  travellerFixture,
+  UserFixture,
+} from '../../test/fixtures';
+
+async function signInAs(fixture: UserFixture) {
+  const uid = await seedUser(fixture);
+  await signInWithEmailAndPassword(auth, fixture.email, fixture.password);
+  return uid;
+}
+
+function renderShell(route = '/') {
+  return renderWithAuth(
+    <Routes>
+      <Route path="/login" element={<LocationDisplay />} />
+      <Route element={<AppShell />}>
+        <Route index element={<p>Dashboard page</p>} />
+        <Route path="/trips/:tripId" element={<p>Trip page</p>} />
+        <Route path="*" element={<NotFound />} />
+      </Route>
+    </Routes>,
+    { route }
+  );
+}
+
+// The sidebar; the bottom bar has the same links for small screens
+function mainNav() {
+  return within(screen.getAllByRole('navigation', { name: 'Main' })[0]);
+}
+
+describe('AppShell', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+  });
+
+  it('shows the sections and marks the current one', async () => {
+    await signInAs(travellerFixture);
+    renderShell();
+
+    expect(await screen.findByText('Dashboard page')).toBeInTheDocument();
+    expect(mainNav().getByRole('link', { name: 'Dashboard' })).toHaveAttribute('aria-current', 'page');
+    expect(mainNav().getByRole('link', { name: 'Trips' })).not.toHaveAttribute('aria-current');
+    expect(mainNav().queryByRole('link', { name: 'Users' })).not.toBeInTheDocument();
+  });
+
+  it('adds the users section for admins', async () => {
+    await signInAs(adminFixture);
+    renderShell();
+
+    expect(await screen.findByText('Dashboard page')).toBeInTheDocument();
+    expect(mainNav().getByRole('link', { name: 'Users' })).toHaveAttribute('href', '/admin');
+  });
+
+  it('shows the way back up from nested pages', async () => {
+    await signInAs(travellerFixture);
+    renderShell('/trips/abc123');
+
+    const breadcrumbs = within(await screen.findByRole('navigation', { name: 'Breadcrumb' }));
+    expect(breadcrumbs.getByRole('link', { name: 'Trips' })).toHaveAttribute('href', '/trips');
+    expect(breadcrumbs.getByText('Edit trip')).toHaveAttribute('aria-current', 'page');
+  });
+
+  it('shows the 404 page inside the shell for unknown paths', async () => {
+    await signInAs(travellerFixture);
+    renderShell('/nowhere');
+
+    expect(await screen.findByRole('heading', { name: 'Page not found' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Account menu' })).toBeInTheDocument();
+  });
+
+  it('lists the account in the user menu and closes it on Escape', async () => {
+    await signInAs(travellerFixture);
+    const user = userEvent.setup();
+    renderShell();
+
+    const menuButton = await screen.findByRole('button', { name: 'Account menu' });
+    await user.click(menuButton);
+
+    expect(menuButton).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByText('Tara Traveller')).toBeInTheDocument();
+    expect(screen.getByText(travellerFixture.email)).toBeInTheDocument();
+
+    await user.keyboard('{Escape}');
+
+    expect(menuButton).toHaveAttribute('aria-expanded', 'false');
+    expect(menuButton).toHaveFocus();
+  });
+
+  it('switches to the dark theme from the user menu and keeps the choice in the profile', async () => {
+    const uid = await signInAs(travellerFixture);
+    const user = userEvent.setup();
+    renderShell();
+
+    await user.click(await screen.findByRole('button', { name: 'Account menu' }));
+    await user.selectOptions(screen.getByLabelText('Theme'), 'dark');
+
+    expect(document.documentElement).toHaveClass('dark');
+    await waitFor(async () => {
+      const saved = await getDoc(doc(db, 'users', uid));
+      expect(saved.data()?.theme).toBe('dark');
+    });
+  });
+
+  it('signs out from the user menu and returns to the login page', async () => {
+    await signInAs(travellerFixture);
+    const user = userEvent.setup();
+    renderShell();
+
+    await user.click(await screen.findByRole('button', { name: 'Account menu' }));
+    await user.click(screen.getByRole('button', { name: 'Sign out' }));
+
+    expect(await screen.findByTestId('location')).toHaveTextContent('/login');
+    expect(auth.currentUser).toBeNull();
+  });
+});
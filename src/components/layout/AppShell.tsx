@@ -0,0 +1,113 @@
+import { Suspense, useEffect } from 'react';
+import { Link, NavLink, Outlet, useLocation } from 'react-router-dom';
+import { Plane } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLocale } from '../../contexts/locale';
+import { useTheme } from '../../contexts/theme';
+import { cn } from '../../lib/utils';
+import { trackWrite } from '../../lib/sync';
+import { waitForPendingChanges } from '../../lib/userRepository';
+import { ErrorBoundary } from '../ErrorBoundary';
+import PageLoader from '../PageLoader';
+import Breadcrumbs from './Breadcrumbs';
+import UserMenu from './UserMenu';
+import SyncStatus from './SyncStatus';
+import { visibleNavItems } from './navigation';
+
+// The frame around every signed-in page: a header with the account menu,
+// the sections in a sidebar (a bottom bar on small screens), breadcrumbs
+// and the page itself, which loads and fails without taking the frame down.
+export default function AppShell() {
+  const { currentUser, hasRole } = useAuth();
+  const uid = currentUser?.uid;
+  const { t } = useLocale();
+  const { brand } = useTheme();
+  const { pathname } = useLocation();
+  const navItems = visibleNavItems(hasRole);
+
+  // Changes made offline on an earlier visit may still be queued
+  useEffect(() => {
+    if (!uid) return;
+    trackWrite(waitForPendingChanges()).catch(err => {
+      console.error("Error waiting for queued changes:", err);
+    });
+  }, [uid]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <a
+        href="#main"
+        className="sr-only focus:not-sr-only focus:fixed focus:start-4 focus:top-4 focus:z-50 focus:rounded-md focus:bg-surface focus:px-4 focus:py-2 focus:text-foreground focus:shadow"
+      >
+        {t('nav.skipToContent')}
+      </a>
+
+      <header className="sticky top-0 z-30 border-b border-border bg-surface">
+        <div className="mx-auto flex h-16 max-w-7xl items-center justify-between gap-4 px-4 sm:px-6 lg:px-8">
+          <Link to="/" className="flex items-center gap-2 text-lg font-bold text-foreground">
+            <Plane className="h-6 w-6 text-primary" aria-hidden="true" />
+            {brand.name}
+          </Link>
+          <div className="flex items-center gap-3">
+            <SyncStatus />
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="mx-auto flex max-w-7xl">
+        <nav aria-label={t('nav.main')} className="hidden md:block w-56 shrink-0 px-4 py-8">
+          <ul className="sticky top-24 space-y-1">
+            {navItems.map(({ to, label, icon: Icon }) => (
+              <li key={to}>
+                <NavLink
+                  to={to}
+                  end={to === '/'}
+                  className={({ isActive }) => cn(
+                    'flex items-center gap-3 rounded-md px-3 py-2 text-sm font-medium',
+                    isActive
+                      ? 'bg-surface-muted text-primary'
+                      : 'text-muted hover:bg-surface-muted hover:text-foreground'
+                  )}
+                >
+                  <Icon className="h-5 w-5" aria-hidden="true" />
+                  {t(label)}
+                </NavLink>
+              </li>
+            ))}
+          </ul>
+        </nav>
+
+        <main id="main" tabIndex={-1} className="min-w-0 flex-1 px-4 py-8 pb-24 sm:px-6 md:pb-8 lg:px-8 focus:outline-none">
+          <Breadcrumbs />
+          {/* Keyed on the path so an error on one page clears on the next */}
+          <ErrorBoundary key={pathname}>
+            <Suspense fallback={<PageLoader />}>
+              <Outlet />
+            </Suspense>
+          </ErrorBoundary>
+        </main>
+      </div>
+
+      <nav aria-label={t('nav.main')} className="md:hidden fixed inset-x-0 bottom-0 z-30 border-t border-border bg-surface">
+        <ul className="flex">
+          {navItems.map(({ to, label, icon: Icon }) => (
+            <li key={to} className="flex-1">
+              <NavLink
+                to={to}
+                end={to === '/'}
+                className={({ isActive }) => cn(
+                  'flex flex-col items-center gap-1 py-2 text-xs font-medium',
+                  isActive ? 'text-primary' : 'text-subtle hover:text-foreground'
+                )}
+              >
+                <Icon className="h-5 w-5" aria-hidden="true" />
+                {t(label)}
+              </NavLink>
+            </li>
+          ))}
+        </ul>
+      </nav>
+    </div>
+  );
+}
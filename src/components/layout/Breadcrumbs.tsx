@@ -0,0 +1,31 @@
+import { Link, useLocation } from 'react-router-dom';
+import { ChevronRight } from 'lucide-react';
+import { useLocale } from '../../contexts/locale';
+import { getBreadcrumbs } from './navigation';
+
+export default function Breadcrumbs() {
+  const { pathname } = useLocation();
+  const { t } = useLocale();
+  const trail = getBreadcrumbs(pathname);
+
+  if (trail.length === 0) return null;
+
+  return (
+    <nav aria-label={t('nav.breadcrumbs')} className="mb-6">
+      <ol className="flex flex-wrap items-center gap-1 text-sm text-subtle">
+        {trail.map((crumb, index) => (
+          <li key={crumb.label} className="flex items-center gap-1">
+            {index > 0 && <ChevronRight className="h-4 w-4 text-faint rtl:rotate-180" aria-hidden="true" />}
+            {crumb.to ? (
+              <Link to={crumb.to} className="font-medium text-primary hover:text-primary-hover">
+                {t(crumb.label)}
+              </Link>
+            ) : (
+              <span aria-current="page" className="text-muted">{t(crumb.label)}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
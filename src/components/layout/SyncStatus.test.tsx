@@ -0,0 +1,67 @@
+import { act, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderWithLocale } from '../../test/renderWithLocale';
+import { trackWrite } from '../../lib/sync';
+import SyncStatus from './SyncStatus';
+
+function setOnline(online: boolean) {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+  act(() => {
+    window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+  });
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('SyncStatus', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('shows nothing while online with everything saved', () => {
+    renderWithLocale(<SyncStatus />);
+    expect(screen.getByRole('status')).toBeEmptyDOMElement();
+  });
+
+  it('says when the app goes offline and comes back', () => {
+    renderWithLocale(<SyncStatus />);
+
+    setOnline(false);
+    expect(screen.getByRole('status')).toHaveTextContent('Offline');
+
+    setOnline(true);
+    expect(screen.getByRole('status')).toBeEmptyDOMElement();
+  });
+
+  it('shows changes waiting for the server', async () => {
+    renderWithLocale(<SyncStatus />);
+    const write = deferred();
+
+    setOnline(false);
+    act(() => {
+      trackWrite(write.promise);
+    });
+    expect(screen.getByRole('status')).toHaveTextContent('Offline, changes saved on this device');
+
+    setOnline(true);
+    expect(screen.getByRole('status')).toHaveTextContent('Syncing changes…');
+
+    await act(async () => {
+      write.resolve();
+      await write.promise;
+    });
+    expect(screen.getByRole('status')).toBeEmptyDOMElement();
+  });
+
+  it('is translated', () => {
+    renderWithLocale(<SyncStatus />, { locale: 'fr' });
+    setOnline(false);
+    expect(screen.getByRole('status')).toHaveTextContent('Hors ligne');
+  });
+});
@@ -0,0 +1,38 @@
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useLocale } from '../../contexts/locale';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { MessageKey } from '../../lib/i18n';
+import { cn } from '../../lib/utils';
+
+// Says when the app is offline or still sending changes to the server, and
+// nothing once everything is saved. The region is always there so screen
+// readers hear each change.
+export default function SyncStatus() {
+  const { online, pending } = useSyncStatus();
+  const { t } = useLocale();
+
+  let label: MessageKey | null = null;
+  if (!online) {
+    label = pending ? 'sync.offlinePending' : 'sync.offline';
+  } else if (pending) {
+    label = 'sync.syncing';
+  }
+  const Icon = online ? RefreshCw : CloudOff;
+
+  return (
+    <div role="status">
+      {label && (
+        <span
+          title={online ? undefined : t('sync.offlineHint')}
+          className={cn(
+            'inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium',
+            online ? 'bg-surface-muted text-muted' : 'bg-warning-surface text-warning-foreground'
+          )}
+        >
+          <Icon className={cn('h-4 w-4', online && 'animate-spin')} aria-hidden="true" />
+          <span className="sr-only sm:not-sr-only">{t(label)}</span>
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { KeyboardEvent, useEffect, useId, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ChevronDown, LogOut, User } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLocale } from '../../contexts/locale';
+import { useToast } from '../ui/toast';
+import { getErrorMessage } from '../../lib/errors';
+import LocaleSwitcher from '../LocaleSwitcher';
+import ThemeSwitcher from '../ThemeSwitcher';
+
+// The avatar button in the header. It opens a panel with who's signed in,
+// the theme and language pickers and the way out.
+export default function UserMenu() {
+  const { currentUser, logout } = useAuth();
+  const { t } = useLocale();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const panelId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [open]);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape' && open) {
+      e.stopPropagation();
+      setOpen(false);
+      buttonRef.current?.focus();
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      navigate('/login');
+    } catch (err) {
+      showToast(getErrorMessage(err, 'nav.signOutFailed'), { variant: 'error' });
+    }
+  };
+
+  if (!currentUser) return null;
+
+  const name = currentUser.displayName || currentUser.email || '';
+
+  return (
+    <div ref={containerRef} className="relative" onKeyDown={handleKeyDown}>
+      <button
+        ref={buttonRef}
+        type="button"
+        aria-label={t('nav.accountMenu')}
+        aria-expanded={open}
+        aria-controls={panelId}
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center gap-1 rounded-full p-0.5 text-subtle hover:text-foreground focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+      >
+        <span className="h-9 w-9 rounded-full overflow-hidden border border-border bg-surface-muted flex items-center justify-center">
+          {currentUser.photoURL ? (
+            <img src={currentUser.photoURL} alt="" className="h-full w-full object-cover" />
+          ) : (
+            <User className="h-5 w-5 text-faint" aria-hidden="true" />
+          )}
+        </span>
+        <ChevronDown className="h-4 w-4" aria-hidden="true" />
+      </button>
+
+      {open && (
+        <div
+          id={panelId}
+          className="absolute end-0 z-40 mt-2 w-72 rounded-lg border border-border bg-surface shadow-lg"
+        >
+          <div className="px-4 py-3 border-b border-border">
+            <p className="text-sm font-medium text-foreground truncate">{name}</p>
+            {currentUser.displayName && currentUser.email && (
+              <p className="text-sm text-subtle truncate">{currentUser.email}</p>
+            )}
+          </div>
+          <div className="px-4 py-3 space-y-2 border-b border-border">
+            <ThemeSwitcher />
+            <LocaleSwitcher />
+          </div>
+          <ul className="py-1">
+            <li>
+              <Link
+                to="/profile"
+                onClick={() => setOpen(false)}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-muted hover:bg-surface-muted hover:text-foreground"
+              >
+                <User className="h-4 w-4" aria-hidden="true" />
+                {t('nav.profile')}
+              </Link>
+            </li>
+            <li>
+              <button
+                type="button"
+                onClick={handleLogout}
+                className="flex w-full items-center gap-2 px-4 py-2 text-sm text-muted hover:bg-surface-muted hover:text-foreground"
+              >
+                <LogOut className="h-4 w-4" aria-hidden="true" />
+                {t('nav.signOut')}
+              </button>
+            </li>
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
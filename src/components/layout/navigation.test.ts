@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Role } from '../../lib/roles';
+import { getBreadcrumbs, visibleNavItems } from './navigation';
+
+describe('getBreadcrumbs', () => {
+  it('has no trail on the dashboard', () => {
+    expect(getBreadcrumbs('/')).toEqual([]);
+  });
+
+  it('links back up to the dashboard and leaves the current page unlinked', () => {
+    expect(getBreadcrumbs('/profile')).toEqual([
+      { label: 'nav.dashboard', to: '/' },
+      { label: 'nav.profile' },
+    ]);
+  });
+
+  it('tells new trips apart from trips being edited', () => {
+    expect(getBreadcrumbs('/trips/new').map(crumb => crumb.label))
+      .toEqual(['nav.dashboard', 'nav.trips', 'nav.newTrip']);
+    expect(getBreadcrumbs('/trips/abc123').map(crumb => crumb.label))
+      .toEqual(['nav.dashboard', 'nav.trips', 'nav.editTrip']);
+  });
+
+  it('treats unknown paths as the 404 page', () => {
+    expect(getBreadcrumbs('/nowhere/at/all').map(crumb => crumb.label))
+      .toEqual(['nav.dashboard', 'nav.notFound']);
+  });
+});
+
+describe('visibleNavItems', () => {
+  const rolesCheck = (roles: Role[]) => (...required: Role[]) => required.some(role => roles.includes(role));
+
+  it('hides admin sections from everyone else', () => {
+    expect(visibleNavItems(rolesCheck(['traveller'])).map(item => item.to))
+      .toEqual(['/', '/trips', '/assistant', '/profile']);
+    expect(visibleNavItems(rolesCheck(['traveller', 'admin'])).map(item => item.to))
+      .toContain('/admin');
+  });
+});
@@ -0,0 +1,52 @@
+import { matchPath } from 'react-router-dom';
+import { Bot, LayoutDashboard, LucideIcon, Plane, Shield, User } from 'lucide-react';
+import { MessageKey } from '../../lib/i18n';
+import { Role } from '../../lib/roles';
+
+export interface NavItem {
+  to: string;
+  label: MessageKey;
+  icon: LucideIcon;
+  // Only shown to users with at least one of these roles
+  roles?: Role[];
+}
+
+// The sections in the sidebar and, on small screens, the bottom bar
+export const NAV_ITEMS: NavItem[] = [
+  { to: '/', label: 'nav.dashboard', icon: LayoutDashboard },
+  { to: '/trips', label: 'nav.trips', icon: Plane },
+  { to: '/assistant', label: 'nav.assistant', icon: Bot },
+  { to: '/profile', label: 'nav.profile', icon: User },
+  { to: '/admin', label: 'nav.admin', icon: Shield, roles: ['admin'] },
+];
+
+export interface Breadcrumb {
+  label: MessageKey;
+  // Left off the current page, which isn't a link
+  to?: string;
+}
+
+const dashboard: Breadcrumb = { label: 'nav.dashboard', to: '/' };
+const trips: Breadcrumb = { label: 'nav.trips', to: '/trips' };
+
+// Matched in order, so /trips/new has to come before /trips/:tripId
+const trails: { path: string; trail: Breadcrumb[] }[] = [
+  { path: '/', trail: [] },
+  { path: '/trips', trail: [dashboard, { label: 'nav.trips' }] },
+  { path: '/trips/new', trail: [dashboard, trips, { label: 'nav.newTrip' }] },
+  { path: '/trips/:tripId', trail: [dashboard, trips, { label: 'nav.editTrip' }] },
+  { path: '/assistant', trail: [dashboard, { label: 'nav.assistant' }] },
+  { path: '/profile', trail: [dashboard, { label: 'nav.profile' }] },
+  { path: '/admin', trail: [dashboard, { label: 'nav.admin' }] },
+];
+
+// The trail from the dashboard to the page at `pathname`. The dashboard
+// itself has none, and anything unknown is the 404 page.
+export function getBreadcrumbs(pathname: string): Breadcrumb[] {
+  const match = trails.find(({ path }) => matchPath(path, pathname));
+  return match ? match.trail : [dashboard, { label: 'nav.notFound' }];
+}
+
+export function visibleNavItems(hasRole: (...roles: Role[]) => boolean) {
+  return NAV_ITEMS.filter(item => !item.roles || hasRole(...item.roles));
+}
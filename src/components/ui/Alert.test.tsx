@@ -0,0 +1,16 @@
+import { screen } from '@testing-library/react';
+import { render } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { Alert } from './Alert';
+
+describe('Alert', () => {
+  it('announces errors straight away', () => {
+    render(<Alert variant="error">Failed to save your profile.</Alert>);
+    expect(screen.getByRole('alert')).toHaveTextContent('Failed to save your profile.');
+  });
+
+  it('reads other messages out politely', () => {
+    render(<Alert variant="success" title="Saved">Profile updated successfully!</Alert>);
+    expect(screen.getByRole('status')).toHaveTextContent('SavedProfile updated successfully!');
+  });
+});
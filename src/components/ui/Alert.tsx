@@ -0,0 +1,40 @@
+import { AlertCircle, AlertTriangle, CheckCircle2, Info } from 'lucide-react';
+import { ComponentType, HTMLAttributes, ReactNode } from 'react';
+import { cn } from '../../lib/utils';
+
+export type AlertVariant = 'error' | 'success' | 'info' | 'warning';
+
+const variantStyles: Record<AlertVariant, { className: string; icon: ComponentType<{ className?: string }> }> = {
+  error: { className: 'text-danger-foreground bg-danger-surface', icon: AlertCircle },
+  success: { className: 'text-success-foreground bg-success-surface', icon: CheckCircle2 },
+  info: { className: 'text-info-foreground bg-info-surface', icon: Info },
+  warning: { className: 'text-warning-foreground bg-warning-surface', icon: AlertTriangle },
+};
+
+export interface AlertProps extends Omit<HTMLAttributes<HTMLDivElement>, 'title'> {
+  variant?: AlertVariant;
+  title?: ReactNode;
+  // Replaces the variant's icon
+  icon?: ComponentType<{ className?: string }>;
+}
+
+// A banner for page and form messages. Errors are announced straight away;
+// the other variants are read out politely.
+export function Alert({ variant = 'info', title, icon, className, children, ...props }: AlertProps) {
+  const { className: variantClassName, icon: VariantIcon } = variantStyles[variant];
+  const Icon = icon ?? VariantIcon;
+
+  return (
+    <div
+      role={variant === 'error' ? 'alert' : 'status'}
+      className={cn('flex items-start gap-2 p-4 text-sm rounded-md', variantClassName, className)}
+      {...props}
+    >
+      <Icon className="h-4 w-4 mt-0.5 shrink-0" aria-hidden="true" />
+      <div className="min-w-0 flex-1">
+        {title && <p className="font-medium">{title}</p>}
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -17,9 +17,9 @@ const Button = forwardRef<HTMLButtonElement, ButtonProps>(
           'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2',
           'disabled:pointer-events-none disabled:opacity-50',
           {
-            'bg-blue-600 text-white hover:bg-blue-700': variant === 'primary',
-            'bg-gray-100 text-gray-900 hover:bg-gray-200': variant === 'secondary',
-            'border border-gray-300 bg-transparent hover:bg-gray-100': variant === 'outline',
+            'bg-primary text-primary-foreground hover:bg-primary-hover': variant === 'primary',
+            'bg-surface-muted text-foreground hover:bg-surface-strong': variant === 'secondary',
+            'border border-border bg-transparent hover:bg-surface-muted': variant === 'outline',
             'h-8 px-3 text-sm': size === 'sm',
             'h-10 px-4': size === 'md',
             'h-12 px-6 text-lg': size === 'lg',
@@ -0,0 +1,54 @@
+import { cn } from '../../lib/utils';
+import { forwardRef, InputHTMLAttributes, ReactNode, useId } from 'react';
+import { useLocale } from '../../contexts/locale';
+import { FieldError } from './FormField';
+import { joinIds } from './formField';
+
+export interface CheckboxProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'type'> {
+  label: ReactNode;
+  description?: ReactNode;
+  // A catalog key from a zod schema, or a message that's already translated
+  error?: string;
+}
+
+// A checkbox with its label beside it. Checkboxes carry their own label, so
+// they aren't wrapped in a FormField; group several in a fieldset instead.
+const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
+  ({ className, label, description, error, id, 'aria-describedby': describedBy, ...props }, ref) => {
+    const { translateError } = useLocale();
+    const generatedId = useId();
+    const inputId = id ?? generatedId;
+    const descriptionId = `${inputId}-description`;
+    const errorId = `${inputId}-error`;
+    const message = translateError(error);
+
+    return (
+      <div className={className}>
+        <div className="flex items-start gap-2">
+          <input
+            type="checkbox"
+            id={inputId}
+            aria-invalid={!!message || undefined}
+            aria-describedby={joinIds(describedBy, description ? descriptionId : undefined, message && errorId)}
+            className={cn(
+              'mt-0.5 h-4 w-4 shrink-0 rounded border-input accent-primary',
+              'focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
+              'disabled:cursor-not-allowed disabled:opacity-50'
+            )}
+            ref={ref}
+            {...props}
+          />
+          <div className="text-sm">
+            <label htmlFor={inputId} className="text-muted">{label}</label>
+            {description && <p id={descriptionId} className="text-muted">{description}</p>}
+          </div>
+        </div>
+        {message && <FieldError id={errorId}>{message}</FieldError>}
+      </div>
+    );
+  }
+);
+
+Checkbox.displayName = 'Checkbox';
+
+export { Checkbox };
@@ -0,0 +1,26 @@
+import { forwardRef } from 'react';
+import { toDateString } from '../../lib/utils';
+import { Input, InputProps } from './Input';
+
+export interface DatePickerProps extends Omit<InputProps, 'type' | 'min' | 'max'> {
+  // The earliest and latest dates that can be picked, as YYYY-MM-DD or a Date.
+  // Numbers come from react-hook-form's register() and are passed through.
+  min?: string | number | Date;
+  max?: string | number | Date;
+}
+
+function toBound(value: string | number | Date | undefined) {
+  return value instanceof Date ? toDateString(value) : value;
+}
+
+// The browser's date picker, which is keyboard and screen reader friendly on
+// every platform. Values are YYYY-MM-DD strings, as the schemas expect.
+const DatePicker = forwardRef<HTMLInputElement, DatePickerProps>(
+  ({ min, max, ...props }, ref) => (
+    <Input type="date" min={toBound(min)} max={toBound(max)} ref={ref} {...props} />
+  )
+);
+
+DatePicker.displayName = 'DatePicker';
+
+export { DatePicker };
@@ -0,0 +1,149 @@
+import { screen } from '@testing-library/react';
+import { Mail } from 'lucide-react';
+import { describe, expect, it } from 'vitest';
+import { findAccessibilityViolations } from '../../test/a11y';
+import { renderWithLocale } from '../../test/renderWithLocale';
+import { Checkbox } from './Checkbox';
+import { DatePicker } from './DatePicker';
+import { FormField } from './FormField';
+import { Input } from './Input';
+import { PhoneInput } from './PhoneInput';
+import { Select } from './Select';
+import { Textarea } from './Textarea';
+
+describe('FormField', () => {
+  it('labels its control and describes it with the hint', () => {
+    renderWithLocale(
+      <FormField label="Email address" id="email" hint="We never share it">
+        <Input type="email" />
+      </FormField>
+    );
+
+    const input = screen.getByLabelText('Email address');
+    expect(input).toHaveAttribute('id', 'email');
+    expect(input).toHaveAccessibleDescription('We never share it');
+    expect(input).not.toHaveAttribute('aria-invalid');
+    expect(findAccessibilityViolations()).toEqual([]);
+  });
+
+  it('marks the control invalid and describes it with the translated error', () => {
+    renderWithLocale(
+      <FormField label="Correo electrónico" error="validation.emailInvalid" hint="Lo usamos para avisarte">
+        <Input type="email" />
+      </FormField>,
+      { locale: 'es' }
+    );
+
+    const input = screen.getByLabelText('Correo electrónico');
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+    expect(input).toHaveAccessibleDescription(
+      'Lo usamos para avisarte Introduce un correo electrónico válido'
+    );
+    expect(findAccessibilityViolations()).toEqual([]);
+  });
+
+  it('makes room for the icon', () => {
+    renderWithLocale(
+      <FormField label="Email address" icon={Mail}>
+        <Input type="email" />
+      </FormField>
+    );
+
+    expect(screen.getByLabelText('Email address')).toHaveClass('ps-10');
+  });
+
+  it('can hide the label visually but not from screen readers', () => {
+    renderWithLocale(
+      <FormField label="Search" hideLabel>
+        <Input type="search" />
+      </FormField>
+    );
+
+    expect(screen.getByText('Search')).toHaveClass('sr-only');
+    expect(screen.getByLabelText('Search')).toBeInTheDocument();
+  });
+
+  it('works for selects, textareas and date pickers', () => {
+    renderWithLocale(
+      <>
+        <FormField label="Country" error="validation.countryRequired">
+          <Select placeholder="Select a country">
+            <option value="GB">United Kingdom</option>
+          </Select>
+        </FormField>
+        <FormField label="Notes" hint="Only you can see these">
+          <Textarea />
+        </FormField>
+        <FormField label="Departure">
+          <DatePicker min={new Date(2030, 0, 5)} max="2030-12-31" />
+        </FormField>
+      </>
+    );
+
+    const country = screen.getByLabelText('Country');
+    expect(country).toHaveValue('');
+    expect(country).toHaveAccessibleDescription('Please select a country');
+    expect(screen.getByLabelText('Notes')).toHaveAccessibleDescription('Only you can see these');
+    const departure = screen.getByLabelText('Departure');
+    expect(departure).toHaveAttribute('type', 'date');
+    expect(departure).toHaveAttribute('min', '2030-01-05');
+    expect(departure).toHaveAttribute('max', '2030-12-31');
+    expect(findAccessibilityViolations()).toEqual([]);
+  });
+
+  it('leaves the country code picker of a phone number with its own label', () => {
+    renderWithLocale(
+      <FormField label="Mobile Number" error="validation.mobileNumberRequired">
+        <PhoneInput countryProps={{ defaultValue: 'GB' }} />
+      </FormField>
+    );
+
+    expect(screen.getByLabelText('Mobile Number')).toHaveAttribute('type', 'tel');
+    expect(screen.getByLabelText('Country code')).not.toHaveAttribute('aria-invalid');
+    expect(findAccessibilityViolations()).toEqual([]);
+  });
+});
+
+describe('controls on their own', () => {
+  it('describe themselves with their own error', () => {
+    renderWithLocale(<Input aria-label="Verification code" error="validation.codeInvalid" />);
+
+    const input = screen.getByLabelText('Verification code');
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+    expect(input).toHaveAccessibleDescription('Enter the 6-digit code');
+    expect(findAccessibilityViolations()).toEqual([]);
+  });
+});
+
+describe('Checkbox', () => {
+  it('is labelled and described by its text', () => {
+    renderWithLocale(
+      <Checkbox label="Remember me" description="Stay signed in on this device" error="Required" />
+    );
+
+    const checkbox = screen.getByRole('checkbox', { name: 'Remember me' });
+    expect(checkbox).toHaveAccessibleDescription('Stay signed in on this device Required');
+    expect(checkbox).toHaveAttribute('aria-invalid', 'true');
+    expect(findAccessibilityViolations()).toEqual([]);
+  });
+});
+
+describe('findAccessibilityViolations', () => {
+  it('catches unlabelled controls and broken references', () => {
+    renderWithLocale(
+      <div>
+        <input type="text" />
+        <button type="button" aria-describedby="missing" />
+        <div id="twice" />
+        <div id="twice" />
+      </div>
+    );
+
+    expect(findAccessibilityViolations()).toEqual([
+      'duplicate-id: <div id="twice">',
+      'broken-aria-describedby: <button type="button">',
+      'control-name: <input type="text">',
+      'button-name: <button type="button">',
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { ComponentType, ReactNode, useId } from 'react';
+import { useLocale } from '../../contexts/locale';
+import { cn } from '../../lib/utils';
+import { FormFieldContext, joinIds } from './formField';
+
+export function FieldError({ id, children }: { id: string; children: ReactNode }) {
+  return (
+    <p id={id} className="mt-1 text-sm text-danger">
+      {children}
+    </p>
+  );
+}
+
+export interface FormFieldProps {
+  label: ReactNode;
+  // Passed on to the control, so tests and links can target it
+  id?: string;
+  hint?: ReactNode;
+  // A catalog key from a zod schema, or a message that's already translated
+  error?: string;
+  // Shown at the start of the control, e.g. a lucide icon
+  icon?: ComponentType<{ className?: string }>;
+  // Keeps the label for screen readers only, where the layout already says
+  // what the field is for
+  hideLabel?: boolean;
+  className?: string;
+  children: ReactNode;
+}
+
+// A label, an optional hint and the field's error message around one control.
+// Input, Select, Textarea and DatePicker inside pick up the id and ARIA
+// attributes that tie them together.
+export function FormField({
+  label,
+  id,
+  hint,
+  error,
+  icon: Icon,
+  hideLabel,
+  className,
+  children,
+}: FormFieldProps) {
+  const { translateError } = useLocale();
+  const generatedId = useId();
+  const controlId = id ?? generatedId;
+  const hintId = `${controlId}-hint`;
+  const errorId = `${controlId}-error`;
+  const message = translateError(error);
+
+  const field = {
+    id: controlId,
+    describedBy: joinIds(hint ? hintId : undefined, message && errorId),
+    invalid: !!message,
+    hasIcon: !!Icon,
+  };
+
+  return (
+    <div className={className}>
+      <label
+        htmlFor={controlId}
+        className={cn('block text-sm font-medium text-muted', hideLabel && 'sr-only')}
+      >
+        {label}
+      </label>
+      <div className={cn('relative', !hideLabel && 'mt-1')}>
+        {Icon && (
+          <div className="absolute start-0 top-0 flex h-10 items-center ps-3 pointer-events-none" aria-hidden="true">
+            <Icon className="h-5 w-5 text-subtle" />
+          </div>
+        )}
+        <FormFieldContext.Provider value={field}>
+          {children}
+        </FormFieldContext.Provider>
+      </div>
+      {hint && (
+        <p id={hintId} className="mt-1 text-sm text-muted">
+          {hint}
+        </p>
+      )}
+      {message && <FieldError id={errorId}>{message}</FieldError>}
+    </div>
+  );
+}
@@ -1,37 +1,34 @@
 import { cn } from '../../lib/utils';
 import { forwardRef, InputHTMLAttributes } from 'react';
+import { FieldError } from './FormField';
+import { controlClassName, useFieldControl } from './formField';
 
 export interface InputProps extends InputHTMLAttributes<HTMLInputElement> {
+  // A catalog key from a zod schema, or a message that's already translated.
+  // Inside a FormField, give the error to the field instead.
   error?: string;
 }
 
 const Input = forwardRef<HTMLInputElement, InputProps>(
-  ({ className, error, type, ...props }, ref) => {
+  ({ className, error, type, id, 'aria-describedby': describedBy, ...props }, ref) => {
+    const control = useFieldControl({ id, error, 'aria-describedby': describedBy });
     return (
-      <div className="relative">
+      <>
         <input
           type={type}
-          className={cn(
-            'flex h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2',
-            'text-sm placeholder:text-gray-400',
-            'focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent',
-            'disabled:cursor-not-allowed disabled:opacity-50',
-            error && 'border-red-500 focus:ring-red-400',
-            className
-          )}
+          id={control.id}
+          aria-invalid={control.invalid || undefined}
+          aria-describedby={control.describedBy}
+          className={cn('h-10', controlClassName(control.invalid), control.hasIcon && 'ps-10', className)}
           ref={ref}
           {...props}
         />
-        {error && (
-          <span className="text-sm text-red-500 mt-1 absolute -bottom-6 left-0">
-            {error}
-          </span>
-        )}
-      </div>
+        {control.message && <FieldError id={control.errorId}>{control.message}</FieldError>}
+      </>
     );
   }
 );
 
 Input.displayName = 'Input';
 
-export { Input };
\ No newline at end of file
+export { Input };
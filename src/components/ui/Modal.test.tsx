@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { findAccessibilityViolations } from '../../test/a11y';
+import { renderWithLocale } from '../../test/renderWithLocale';
+import { Button } from './Button';
+import { Modal } from './Modal';
+
+function ModalHarness({ onClose }: { onClose?: () => void }) {
+  const [open, setOpen] = useState(false);
+  const close = () => {
+    onClose?.();
+    setOpen(false);
+  };
+  return (
+    <>
+      <Button onClick={() => setOpen(true)}>Delete trip</Button>
+      {open && (
+        <Modal title="Delete this trip?" description="This can't be undone." onClose={close}>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={close}>Cancel</Button>
+            <Button>Delete</Button>
+          </div>
+        </Modal>
+      )}
+    </>
+  );
+}
+
+describe('Modal', () => {
+  it('is a named modal dialog that takes focus', async () => {
+    const user = userEvent.setup();
+    renderWithLocale(<ModalHarness />);
+
+    await user.click(screen.getByRole('button', { name: 'Delete trip' }));
+
+    const dialog = screen.getByRole('dialog', { name: 'Delete this trip?' });
+    expect(dialog).toHaveAttribute('aria-modal', 'true');
+    expect(dialog).toHaveAccessibleDescription("This can't be undone.");
+    expect(dialog).toHaveFocus();
+    expect(findAccessibilityViolations()).toEqual([]);
+  });
+
+  it('keeps focus inside while it is open', async () => {
+    const user = userEvent.setup();
+    renderWithLocale(<ModalHarness />);
+    await user.click(screen.getByRole('button', { name: 'Delete trip' }));
+
+    await user.tab();
+    expect(screen.getByRole('button', { name: 'Close' })).toHaveFocus();
+    await user.tab();
+    await user.tab();
+    expect(screen.getByRole('button', { name: 'Delete' })).toHaveFocus();
+    await user.tab();
+    expect(screen.getByRole('button', { name: 'Close' })).toHaveFocus();
+    await user.tab({ shift: true });
+    expect(screen.getByRole('button', { name: 'Delete' })).toHaveFocus();
+  });
+
+  it('closes on Escape and gives focus back', async () => {
+    const onClose = vi.fn();
+    const user = userEvent.setup();
+    renderWithLocale(<ModalHarness onClose={onClose} />);
+    const opener = screen.getByRole('button', { name: 'Delete trip' });
+    await user.click(opener);
+
+    await user.keyboard('{Escape}');
+
+    expect(onClose).toHaveBeenCalledOnce();
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(opener).toHaveFocus();
+    expect(document.body.style.overflow).toBe('');
+  });
+
+  it('leaves out the close button when it has to be answered', () => {
+    renderWithLocale(
+      <Modal title="Confirm it's you">
+        <input aria-label="Current password" autoFocus />
+      </Modal>
+    );
+
+    expect(screen.queryByRole('button', { name: 'Close' })).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Current password')).toHaveFocus();
+  });
+});
@@ -0,0 +1,128 @@
+import { KeyboardEvent, ReactNode, useEffect, useId, useRef } from 'react';
+import { X } from 'lucide-react';
+import { useLocale } from '../../contexts/locale';
+import { cn } from '../../lib/utils';
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+function focusableElements(container: HTMLElement) {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+}
+
+export interface ModalProps {
+  title: ReactNode;
+  description?: ReactNode;
+  // Called on Escape and the close button. Leave it out for dialogs that
+  // have to be finished or cancelled with their own buttons.
+  onClose?: () => void;
+  className?: string;
+  children: ReactNode;
+}
+
+// A modal dialog, open for as long as it's rendered. Focus moves into the
+// dialog, stays there while it's open and goes back where it was afterwards.
+export function Modal({ title, description, onClose, className, children }: ModalProps) {
+  const { t } = useLocale();
+  const titleId = useId();
+  const descriptionId = useId();
+  const panelRef = useRef<HTMLDivElement>(null);
+  // Captured while rendering, before anything inside takes focus with autoFocus
+  const returnFocusRef = useRef(document.activeElement as HTMLElement | null);
+
+  useEffect(() => {
+    // Unless a field inside asked for it with autoFocus, focus the dialog so
+    // its title and description are read out first
+    const panel = panelRef.current;
+    if (panel && !panel.contains(document.activeElement)) {
+      panel.focus();
+    }
+
+    const { overflow } = document.body.style;
+    document.body.style.overflow = 'hidden';
+    const returnFocus = returnFocusRef.current;
+
+    return () => {
+      document.body.style.overflow = overflow;
+      returnFocus?.focus();
+    };
+  }, []);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape' && onClose) {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== 'Tab' || !panelRef.current) return;
+
+    const focusable = focusableElements(panelRef.current);
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    // Tabbing from the dialog itself goes to its first or last control
+    if (document.activeElement === panelRef.current) {
+      e.preventDefault();
+      (e.shiftKey ? focusable[focusable.length - 1] : focusable[0]).focus();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4">
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        aria-describedby={description ? descriptionId : undefined}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        className={cn(
+          'relative w-full max-w-md max-h-full overflow-y-auto rounded-lg bg-surface p-6 shadow-xl space-y-6',
+          'focus:outline-none',
+          className
+        )}
+      >
+        <div className="pe-8">
+          <h2 id={titleId} className="text-lg font-medium text-foreground">
+            {title}
+          </h2>
+          {description && (
+            <p id={descriptionId} className="mt-1 text-sm text-muted">{description}</p>
+          )}
+        </div>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={t('common.close')}
+            className={cn(
+              'absolute top-4 end-4 rounded-md p-1 text-muted hover:text-foreground',
+              'focus:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+            )}
+          >
+            <X className="h-5 w-5" aria-hidden="true" />
+          </button>
+        )}
+        {children}
+      </div>
+    </div>
+  );
+}
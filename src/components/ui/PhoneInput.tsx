@@ -0,0 +1,66 @@
+import { useLocale } from '../../contexts/locale';
+import { countryName } from '../../lib/countries';
+import { DIAL_CODES, PHONE_COUNTRY_CODES } from '../../lib/phone';
+import { ComponentPropsWithRef, forwardRef, InputHTMLAttributes, useMemo } from 'react';
+import { Input } from './Input';
+import { Select } from './Select';
+import { FormFieldContext } from './formField';
+
+export interface PhoneInputProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'type'> {
+  // A catalog key from a zod schema, or a message that's already translated
+  error?: string;
+  // Props for the country code picker, e.g. from register('mobileCountry')
+  countryProps: ComponentPropsWithRef<'select'>;
+  countryError?: string;
+}
+
+// A country code picker next to a number input. The number is typed as it's
+// dialled within the chosen country, or with its calling code.
+const PhoneInput = forwardRef<HTMLInputElement, PhoneInputProps>(
+  ({ className, error, countryProps, countryError, ...props }, ref) => {
+    const { locale, t } = useLocale();
+
+    const countries = useMemo(() => (
+      PHONE_COUNTRY_CODES
+        .map(code => ({ code, name: countryName(code, locale), dialCode: DIAL_CODES[code] }))
+        .sort((a, b) => a.name.localeCompare(b.name, locale))
+    ), [locale]);
+
+    return (
+      <div className="flex gap-2">
+        {/* The picker has its own label, so it doesn't take the FormField's */}
+        <FormFieldContext.Provider value={null}>
+          <div className="w-32 shrink-0 sm:w-44">
+            <Select
+              aria-label={t('common.countryCode')}
+              autoComplete="tel-country-code"
+              error={countryError}
+              {...countryProps}
+            >
+              {countries.map(({ code, name, dialCode }) => (
+                <option key={code} value={code}>{name} (+{dialCode})</option>
+              ))}
+            </Select>
+          </div>
+        </FormFieldContext.Provider>
+        <div className="flex-1">
+          <Input
+            type="tel"
+            inputMode="tel"
+            autoComplete="tel-national"
+            // Numbers read left to right in every language
+            dir="ltr"
+            className={className}
+            error={error}
+            ref={ref}
+            {...props}
+          />
+        </div>
+      </div>
+    );
+  }
+);
+
+PhoneInput.displayName = 'PhoneInput';
+
+export { PhoneInput };
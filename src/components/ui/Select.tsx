@@ -0,0 +1,38 @@
+import { cn } from '../../lib/utils';
+import { forwardRef, SelectHTMLAttributes } from 'react';
+import { FieldError } from './FormField';
+import { controlClassName, useFieldControl } from './formField';
+
+export interface SelectProps extends SelectHTMLAttributes<HTMLSelectElement> {
+  // A catalog key from a zod schema, or a message that's already translated.
+  // Inside a FormField, give the error to the field instead.
+  error?: string;
+  // The first, empty option, e.g. "Select a country"
+  placeholder?: string;
+}
+
+const Select = forwardRef<HTMLSelectElement, SelectProps>(
+  ({ className, error, placeholder, children, id, 'aria-describedby': describedBy, ...props }, ref) => {
+    const control = useFieldControl({ id, error, 'aria-describedby': describedBy });
+    return (
+      <>
+        <select
+          id={control.id}
+          aria-invalid={control.invalid || undefined}
+          aria-describedby={control.describedBy}
+          className={cn('h-10', controlClassName(control.invalid), control.hasIcon && 'ps-10', className)}
+          ref={ref}
+          {...props}
+        >
+          {placeholder !== undefined && <option value="">{placeholder}</option>}
+          {children}
+        </select>
+        {control.message && <FieldError id={control.errorId}>{control.message}</FieldError>}
+      </>
+    );
+  }
+);
+
+Select.displayName = 'Select';
+
+export { Select };
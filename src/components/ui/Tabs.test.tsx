@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import { Locale } from '../../lib/i18n';
+import { findAccessibilityViolations } from '../../test/a11y';
+import { renderWithLocale } from '../../test/renderWithLocale';
+import { Tabs } from './Tabs';
+
+const tabs = [
+  { id: 'details', label: 'Details' },
+  { id: 'preferences', label: 'Preferences' },
+  { id: 'security', label: 'Security' },
+] as const;
+
+type TabId = typeof tabs[number]['id'];
+
+function TabsHarness() {
+  const [tab, setTab] = useState<TabId>('details');
+  return (
+    <Tabs tabs={tabs} value={tab} onChange={setTab} label="Profile sections" idPrefix="profile">
+      <p>{tab} panel</p>
+    </Tabs>
+  );
+}
+
+function renderTabs(locale: Locale = 'en') {
+  return renderWithLocale(<TabsHarness />, { locale });
+}
+
+describe('Tabs', () => {
+  it('ties the selected tab to its panel', () => {
+    renderTabs();
+
+    const tab = screen.getByRole('tab', { name: 'Details' });
+    expect(tab).toHaveAttribute('aria-selected', 'true');
+    expect(screen.getByRole('tabpanel', { name: 'Details' })).toHaveTextContent('details panel');
+    expect(screen.getByRole('tablist', { name: 'Profile sections' })).toBeInTheDocument();
+    expect(findAccessibilityViolations()).toEqual([]);
+  });
+
+  it('only puts the selected tab in the tab order', () => {
+    renderTabs();
+
+    expect(screen.getByRole('tab', { name: 'Details' })).toHaveAttribute('tabindex', '0');
+    expect(screen.getByRole('tab', { name: 'Security' })).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('moves between tabs with the arrow keys, Home and End', async () => {
+    const user = userEvent.setup();
+    renderTabs();
+
+    await user.click(screen.getByRole('tab', { name: 'Details' }));
+    await user.keyboard('{ArrowRight}');
+    expect(screen.getByRole('tab', { name: 'Preferences' })).toHaveFocus();
+    expect(screen.getByRole('tabpanel')).toHaveTextContent('preferences panel');
+
+    await user.keyboard('{End}');
+    expect(screen.getByRole('tab', { name: 'Security' })).toHaveFocus();
+    await user.keyboard('{ArrowRight}');
+    expect(screen.getByRole('tab', { name: 'Details' })).toHaveFocus();
+    await user.keyboard('{ArrowLeft}');
+    expect(screen.getByRole('tab', { name: 'Security' })).toHaveFocus();
+    await user.keyboard('{Home}');
+    expect(screen.getByRole('tab', { name: 'Details', selected: true })).toHaveFocus();
+  });
+
+  it('follows the reading direction in right-to-left languages', async () => {
+    const user = userEvent.setup();
+    renderTabs('he');
+
+    await user.click(screen.getByRole('tab', { name: 'Details' }));
+    await user.keyboard('{ArrowLeft}');
+    expect(screen.getByRole('tab', { name: 'Preferences', selected: true })).toHaveFocus();
+  });
+});
@@ -0,0 +1,124 @@
+import { ComponentType, KeyboardEvent, ReactNode, useId, useRef } from 'react';
+import { useLocale } from '../../contexts/locale';
+import { cn } from '../../lib/utils';
+
+export interface TabItem<T extends string> {
+  id: T;
+  label: ReactNode;
+  icon?: ComponentType<{ className?: string }>;
+}
+
+export interface TabsProps<T extends string> {
+  tabs: readonly TabItem<T>[];
+  value: T;
+  onChange: (id: T) => void;
+  // Names the tab list for screen readers
+  label: string;
+  // Prefix for the tab and panel ids, e.g. "profile" gives "profile-tab-details"
+  idPrefix?: string;
+  variant?: 'underline' | 'pills';
+  className?: string;
+  // The selected tab's panel
+  children: ReactNode;
+}
+
+// A tab list and the selected tab's panel. Only the selected tab is in the
+// tab order; arrow keys, Home and End move between tabs and select them.
+export function Tabs<T extends string>({
+  tabs,
+  value,
+  onChange,
+  label,
+  idPrefix,
+  variant = 'underline',
+  className,
+  children,
+}: TabsProps<T>) {
+  const { dir } = useLocale();
+  const generatedPrefix = useId();
+  const prefix = idPrefix ?? generatedPrefix;
+  const tabRefs = useRef(new Map<T, HTMLButtonElement>());
+
+  const tabId = (id: T) => `${prefix}-tab-${id}`;
+  const panelId = (id: T) => `${prefix}-panel-${id}`;
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const index = tabs.findIndex(tab => tab.id === value);
+    // Tabs run right to left in Arabic and Hebrew
+    const forward = dir === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+    const back = dir === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+
+    let next: number;
+    if (e.key === forward) next = (index + 1) % tabs.length;
+    else if (e.key === back) next = (index - 1 + tabs.length) % tabs.length;
+    else if (e.key === 'Home') next = 0;
+    else if (e.key === 'End') next = tabs.length - 1;
+    else return;
+
+    e.preventDefault();
+    const { id } = tabs[next];
+    onChange(id);
+    tabRefs.current.get(id)?.focus();
+  };
+
+  return (
+    <div className={className}>
+      <div
+        role="tablist"
+        aria-label={label}
+        onKeyDown={handleKeyDown}
+        className={cn(
+          variant === 'underline' && 'flex gap-1 overflow-x-auto border-b border-border',
+          variant === 'pills' && 'flex rounded-md bg-surface-muted p-1'
+        )}
+      >
+        {tabs.map(({ id, label: tabLabel, icon: Icon }) => {
+          const selected = id === value;
+          return (
+            <button
+              key={id}
+              ref={element => {
+                if (element) tabRefs.current.set(id, element);
+                else tabRefs.current.delete(id);
+              }}
+              type="button"
+              role="tab"
+              id={tabId(id)}
+              aria-selected={selected}
+              // Only the selected tab's panel is rendered
+              aria-controls={selected ? panelId(id) : undefined}
+              tabIndex={selected ? 0 : -1}
+              onClick={() => onChange(id)}
+              className={cn(
+                'inline-flex items-center justify-center gap-2 whitespace-nowrap text-sm font-medium transition-colors',
+                'focus:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                variant === 'underline' && cn(
+                  '-mb-px border-b-2 px-4 py-2',
+                  selected
+                    ? 'border-primary text-primary'
+                    : 'border-transparent text-muted hover:text-foreground'
+                ),
+                variant === 'pills' && cn(
+                  'flex-1 rounded px-3 py-1.5',
+                  selected ? 'bg-surface text-foreground shadow-sm' : 'text-muted hover:text-foreground'
+                )
+              )}
+            >
+              {Icon && <Icon className="h-4 w-4" aria-hidden="true" />}
+              {tabLabel}
+            </button>
+          );
+        })}
+      </div>
+      <div
+        role="tabpanel"
+        id={panelId(value)}
+        aria-labelledby={tabId(value)}
+        tabIndex={0}
+        className="focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
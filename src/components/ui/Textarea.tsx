@@ -0,0 +1,34 @@
+import { cn } from '../../lib/utils';
+import { forwardRef, TextareaHTMLAttributes } from 'react';
+import { FieldError } from './FormField';
+import { controlClassName, useFieldControl } from './formField';
+
+export interface TextareaProps extends TextareaHTMLAttributes<HTMLTextAreaElement> {
+  // A catalog key from a zod schema, or a message that's already translated.
+  // Inside a FormField, give the error to the field instead.
+  error?: string;
+}
+
+const Textarea = forwardRef<HTMLTextAreaElement, TextareaProps>(
+  ({ className, error, rows = 3, id, 'aria-describedby': describedBy, ...props }, ref) => {
+    const control = useFieldControl({ id, error, 'aria-describedby': describedBy });
+    return (
+      <>
+        <textarea
+          id={control.id}
+          rows={rows}
+          aria-invalid={control.invalid || undefined}
+          aria-describedby={control.describedBy}
+          className={cn(controlClassName(control.invalid), className)}
+          ref={ref}
+          {...props}
+        />
+        {control.message && <FieldError id={control.errorId}>{control.message}</FieldError>}
+      </>
+    );
+  }
+);
+
+Textarea.displayName = 'Textarea';
+
+export { Textarea };
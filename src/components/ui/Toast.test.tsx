@@ -0,0 +1,72 @@
+import { act, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent } from '@testing-library/react';
+import { findAccessibilityViolations } from '../../test/a11y';
+import { renderWithLocale } from '../../test/renderWithLocale';
+import { Button } from './Button';
+import { ToastProvider } from './Toast';
+import { useToast } from './toast';
+
+function SaveButton() {
+  const { showToast } = useToast();
+  return (
+    <>
+      <Button onClick={() => showToast('Your trip has been saved.', { variant: 'success' })}>Save</Button>
+      <Button onClick={() => showToast('The trip could not be saved.', { variant: 'error' })}>Fail</Button>
+    </>
+  );
+}
+
+function renderToasts() {
+  return renderWithLocale(
+    <ToastProvider>
+      <SaveButton />
+    </ToastProvider>
+  );
+}
+
+describe('ToastProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows toasts in a live region', () => {
+    renderToasts();
+    const region = screen.getByRole('region', { name: 'Notifications' });
+    expect(region).toHaveAttribute('aria-live', 'polite');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Fail' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Your trip has been saved.');
+    expect(screen.getByRole('alert')).toHaveTextContent('The trip could not be saved.');
+    expect(findAccessibilityViolations()).toEqual([]);
+  });
+
+  it('dismisses toasts on request', () => {
+    renderToasts();
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+
+    expect(screen.queryByText('Your trip has been saved.')).not.toBeInTheDocument();
+  });
+
+  it('dismisses toasts after a while, but not while the pointer is on them', () => {
+    renderToasts();
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    const region = screen.getByRole('region', { name: 'Notifications' });
+
+    fireEvent.mouseEnter(region);
+    act(() => vi.advanceTimersByTime(10000));
+    expect(screen.getByText('Your trip has been saved.')).toBeInTheDocument();
+
+    fireEvent.mouseLeave(region);
+    act(() => vi.advanceTimersByTime(6000));
+    expect(screen.queryByText('Your trip has been saved.')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,95 @@
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { useLocale } from '../../contexts/locale';
+import { Alert, AlertVariant } from './Alert';
+import { ToastContext, ToastOptions } from './toast';
+
+// Long enough to read a sentence or two, per WCAG's timing guidance
+const DEFAULT_DURATION_MS = 6000;
+
+interface ToastMessage {
+  id: number;
+  message: string;
+  variant: AlertVariant;
+  duration: number;
+}
+
+interface ToastItemProps {
+  toast: ToastMessage;
+  paused: boolean;
+  onDismiss: (id: number) => void;
+}
+
+function ToastItem({ toast, paused, onDismiss }: ToastItemProps) {
+  const { t } = useLocale();
+
+  useEffect(() => {
+    if (paused) return;
+    const timer = setTimeout(() => onDismiss(toast.id), toast.duration);
+    return () => clearTimeout(timer);
+  }, [paused, toast, onDismiss]);
+
+  return (
+    <Alert variant={toast.variant} className="pointer-events-auto shadow-lg">
+      <div className="flex items-start gap-2">
+        <p className="flex-1">{toast.message}</p>
+        <button
+          type="button"
+          onClick={() => onDismiss(toast.id)}
+          aria-label={t('common.dismiss')}
+          className="rounded-md opacity-80 hover:opacity-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-current"
+        >
+          <X className="h-4 w-4" aria-hidden="true" />
+        </button>
+      </div>
+    </Alert>
+  );
+}
+
+// Short-lived messages in the corner of the screen, for things that have
+// happened rather than problems the user has to deal with on the page
+export function ToastProvider({ children }: { children: ReactNode }) {
+  const { t } = useLocale();
+  const [toasts, setToasts] = useState<ToastMessage[]>([]);
+  const [paused, setPaused] = useState(false);
+  const nextIdRef = useRef(0);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts(current => current.filter(toast => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, options: ToastOptions = {}) => {
+    const toast = {
+      id: nextIdRef.current++,
+      message,
+      variant: options.variant ?? 'info',
+      duration: options.duration ?? DEFAULT_DURATION_MS,
+    };
+    setToasts(current => [...current, toast]);
+  }, []);
+
+  const value = useMemo(() => ({ showToast }), [showToast]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      {/* Always rendered, so screen readers are already watching it when a
+          toast appears */}
+      <section
+        aria-label={t('common.notifications')}
+        aria-live="polite"
+        onMouseEnter={() => setPaused(true)}
+        onMouseLeave={() => setPaused(false)}
+        onFocus={() => setPaused(true)}
+        onBlur={e => {
+          if (!e.currentTarget.contains(e.relatedTarget)) setPaused(false);
+        }}
+        className="fixed bottom-4 end-4 z-50 flex w-full max-w-sm flex-col gap-2 px-4 pointer-events-none"
+      >
+        {toasts.map(toast => (
+          <ToastItem key={toast.id} toast={toast} paused={paused} onDismiss={dismiss} />
+        ))}
+      </section>
+    </ToastContext.Provider>
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { contrastRatio } from '../../test/a11y';
+import { BRANDS, brandTokens, ColorScheme, ThemeToken } from '../../lib/theme';
+
+// The token pairs the ui components use, so a palette or brand change that
+// drops below WCAG AA fails here rather than in an audit
+const textPairs: [string, ThemeToken, ThemeToken][] = [
+  ['page text', 'foreground', 'background'],
+  ['card text', 'foreground', 'surface'],
+  ['labels and hints', 'muted', 'surface'],
+  ['placeholders', 'subtle', 'surface'],
+  ['field errors', 'danger', 'surface'],
+  ['error alerts', 'danger-foreground', 'danger-surface'],
+  ['success alerts', 'success-foreground', 'success-surface'],
+  ['info alerts', 'info-foreground', 'info-surface'],
+  ['warning alerts', 'warning-foreground', 'warning-surface'],
+  ['warning badges', 'warning', 'warning-surface'],
+  ['connected badges', 'success', 'surface'],
+  ['links and selected tabs', 'primary', 'surface'],
+  ['pill tabs', 'muted', 'surface-muted'],
+  ['secondary buttons', 'foreground', 'surface-muted'],
+  ['primary buttons', 'primary-foreground', 'primary'],
+  ['hovered primary buttons', 'primary-foreground', 'primary-hover'],
+];
+
+const controlPairs: [string, ThemeToken, ThemeToken][] = [
+  ['control borders', 'input', 'surface'],
+  ['invalid control borders', 'danger', 'surface'],
+  ['focus rings', 'ring', 'surface'],
+];
+
+const themes = BRANDS.flatMap(brand => (['light', 'dark'] as ColorScheme[]).map(scheme => ({
+  name: `${brand.id} ${scheme}`,
+  tokens: brandTokens(brand, scheme),
+})));
+
+describe.each(themes)('$name colour contrast', ({ tokens }) => {
+  it.each(textPairs)('keeps %s readable', (_, foreground, background) => {
+    expect(contrastRatio(tokens[foreground], tokens[background])).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it.each(controlPairs)('keeps %s visible', (_, foreground, background) => {
+    expect(contrastRatio(tokens[foreground], tokens[background])).toBeGreaterThanOrEqual(3);
+  });
+});
+
+describe('contrastRatio', () => {
+  it('matches the WCAG reference values', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+    expect(contrastRatio('#777777', '#ffffff')).toBeCloseTo(4.48, 2);
+  });
+});
@@ -0,0 +1,60 @@
+import { createContext, useContext, useId } from 'react';
+import { useLocale } from '../../contexts/locale';
+import { cn } from '../../lib/utils';
+
+export interface FormFieldContextType {
+  id: string;
+  // Ids of the hint and error message, for aria-describedby
+  describedBy?: string;
+  invalid: boolean;
+  hasIcon: boolean;
+}
+
+export const FormFieldContext = createContext<FormFieldContextType | null>(null);
+
+// The enclosing FormField, if any. Controls take their id and ARIA
+// attributes from it so they line up with its label and messages.
+export function useFormField() {
+  return useContext(FormFieldContext);
+}
+
+// Joins ids for aria-describedby, leaving the attribute off when there are none
+export function joinIds(...ids: (string | false | null | undefined)[]) {
+  return ids.filter(Boolean).join(' ') || undefined;
+}
+
+interface FieldControlProps {
+  id?: string;
+  error?: string;
+  'aria-describedby'?: string;
+}
+
+// Wires a control up to its FormField, or to its own error message when it's
+// used on its own. An error passed to the control is shown under the control.
+export function useFieldControl({ id, error, 'aria-describedby': describedBy }: FieldControlProps) {
+  const field = useFormField();
+  const { translateError } = useLocale();
+  const errorId = `${useId()}-error`;
+  const message = translateError(error);
+
+  return {
+    id: field?.id ?? id,
+    invalid: !!message || !!field?.invalid,
+    describedBy: joinIds(describedBy, field?.describedBy, message && errorId),
+    hasIcon: !!field?.hasIcon,
+    message,
+    errorId,
+  };
+}
+
+// Shared by the text-like controls. Borders, placeholders and the focus ring
+// all keep at least 3:1 against the background for WCAG AA.
+export function controlClassName(invalid: boolean) {
+  return cn(
+    'flex w-full rounded-md border border-input bg-surface px-3 py-2 text-sm text-foreground',
+    'placeholder:text-subtle',
+    'focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent',
+    'disabled:cursor-not-allowed disabled:opacity-50',
+    invalid && 'border-danger focus:ring-danger'
+  );
+}
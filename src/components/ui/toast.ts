@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import { AlertVariant } from './Alert';
+
+export interface ToastOptions {
+  variant?: AlertVariant;
+  // How long the toast stays up, in milliseconds. It stays while the pointer
+  // or focus is on it.
+  duration?: number;
+}
+
+export interface ToastContextType {
+  showToast: (message: string, options?: ToastOptions) => void;
+}
+
+export const ToastContext = createContext<ToastContextType | null>(null);
+
+export function useToast() {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+}
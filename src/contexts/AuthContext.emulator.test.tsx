@@ -0,0 +1,199 @@
+import { signInWithEmailAndPassword } from 'firebase/auth';
+import { doc, getDoc } from 'firebase/firestore';
+import { act, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useAuth } from './AuthContext';
+import { readRememberedSession } from '../lib/session';
+import { auth, db } from '../lib/firebase';
+import { renderWithAuth } from '../test/render';
+import { getSignInLink, setDocument } from '../test/emulator';
+import { adminFixture, resetEmulators, seedUser, travellerFixture } from '../test/fixtures';
+
+let authApi: ReturnType<typeof useAuth>;
+
+// Where Auth keeps the signed-in user: localStorage for remembered sessions,
+// sessionStorage for ones that end with the browser
+function storedAuthUser(storage: Storage) {
+  return Object.keys(storage).some(key => key.startsWith('firebase:authUser:'));
+}
+
+function AuthProbe() {
+  authApi = useAuth();
+  const { currentUser, emailVerified, roles, signOutReason } = authApi;
+
+  return (
+    <dl>
+      <dt>Email</dt>
+      <dd data-testid="email">{currentUser?.email ?? 'signed out'}</dd>
+      <dt>Verified</dt>
+      <dd data-testid="verified">{String(emailVerified)}</dd>
+      <dt>Roles</dt>
+      <dd data-testid="roles">{roles.join(',')}</dd>
+      <dt>Signed out because</dt>
+      <dd data-testid="signOutReason">{signOutReason ?? 'none'}</dd>
+    </dl>
+  );
+}
+
+describe('AuthProvider', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+  });
+
+  it('starts signed out', async () => {
+    renderWithAuth(<AuthProbe />);
+
+    expect(await screen.findByTestId('email')).toHaveTextContent('signed out');
+    expect(screen.getByTestId('roles')).toBeEmptyDOMElement();
+  });
+
+  it('signs in with email and password', async () => {
+    await seedUser(travellerFixture);
+    renderWithAuth(<AuthProbe />);
+    await screen.findByTestId('email');
+
+    await act(() => authApi.signIn(travellerFixture.email, travellerFixture.password));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('email')).toHaveTextContent(travellerFixture.email);
+    });
+    expect(screen.getByTestId('verified')).toHaveTextContent('true');
+  });
+
+  it('exposes role claims from the ID token', async () => {
+    await seedUser(adminFixture);
+    renderWithAuth(<AuthProbe />);
+    await screen.findByTestId('email');
+
+    await act(() => authApi.signIn(adminFixture.email, adminFixture.password));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('roles')).toHaveTextContent('admin');
+    });
+    expect(authApi.hasRole('admin')).toBe(true);
+  });
+
+  it('rejects an incorrect password', async () => {
+    await seedUser(travellerFixture);
+    renderWithAuth(<AuthProbe />);
+    await screen.findByTestId('email');
+
+    await expect(authApi.signIn(travellerFixture.email, 'not-the-password')).rejects.toMatchObject({
+      code: expect.stringMatching(/^auth\/(wrong-password|invalid-credential)$/),
+    });
+    expect(screen.getByTestId('email')).toHaveTextContent('signed out');
+  });
+
+  it('signs up a new, unverified account with a profile to finish', async () => {
+    renderWithAuth(<AuthProbe />);
+    await screen.findByTestId('email');
+
+    await act(() => authApi.signUp('new.user@example.com', 'new-user-password', {
+      username: 'newtraveller',
+      dob: '1990-01-01',
+    }));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('email')).toHaveTextContent('new.user@example.com');
+    });
+    expect(screen.getByTestId('verified')).toHaveTextContent('false');
+    expect(auth.currentUser?.displayName).toBe('newtraveller');
+
+    const profile = await getDoc(doc(db, 'users', auth.currentUser!.uid));
+    expect(profile.data()).toMatchObject({
+      username: 'newtraveller',
+      dob: '1990-01-01',
+      email: 'new.user@example.com',
+      onboarded: false,
+    });
+  });
+
+  it('keeps a new account signed in only until the browser closes', async () => {
+    renderWithAuth(<AuthProbe />);
+    await screen.findByTestId('email');
+
+    await act(() => authApi.signUp('new.user@example.com', 'new-user-password', {
+      username: 'newtraveller',
+      dob: '1990-01-01',
+    }));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('email')).toHaveTextContent('new.user@example.com');
+    });
+    expect(readRememberedSession()).toBe(false);
+    expect(storedAuthUser(sessionStorage)).toBe(true);
+    expect(storedAuthUser(localStorage)).toBe(false);
+  });
+
+  it('keeps an email link sign-in only until the browser closes', async () => {
+    await seedUser(travellerFixture);
+    renderWithAuth(<AuthProbe />);
+    await screen.findByTestId('email');
+
+    await act(() => authApi.sendSignInLink(travellerFixture.email, '/dashboard'));
+    const link = await getSignInLink(travellerFixture.email);
+    await act(() => authApi.completeSignInWithLink(travellerFixture.email, link));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('email')).toHaveTextContent(travellerFixture.email);
+    });
+    expect(readRememberedSession()).toBe(false);
+    expect(storedAuthUser(sessionStorage)).toBe(true);
+    expect(storedAuthUser(localStorage)).toBe(false);
+  });
+
+  it('signs out', async () => {
+    await seedUser(travellerFixture);
+    renderWithAuth(<AuthProbe />);
+    await screen.findByTestId('email');
+    await act(() => authApi.signIn(travellerFixture.email, travellerFixture.password));
+    await waitFor(() => {
+      expect(screen.getByTestId('email')).toHaveTextContent(travellerFixture.email);
+    });
+
+    await act(() => authApi.logout());
+
+    await waitFor(() => {
+      expect(screen.getByTestId('email')).toHaveTextContent('signed out');
+    });
+    expect(screen.getByTestId('signOutReason')).toHaveTextContent('user');
+  });
+
+  it('signs out when the account is signed out of all devices', async () => {
+    const uid = await seedUser(travellerFixture);
+    renderWithAuth(<AuthProbe />);
+    await screen.findByTestId('email');
+    await act(() => authApi.signIn(travellerFixture.email, travellerFixture.password, false));
+    // The session remembers the version it started under
+    await waitFor(() => {
+      expect(localStorage.getItem('sessionVersion')).toContain(uid);
+    });
+
+    // As another device would
+    await setDocument(`users/${uid}`, { username: 'tara', sessionVersion: 1 });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('email')).toHaveTextContent('signed out');
+    });
+    expect(screen.getByTestId('signOutReason')).toHaveTextContent('revoked');
+  });
+
+  it('bumps the session version to sign out everywhere', async () => {
+    const uid = await seedUser(travellerFixture);
+    renderWithAuth(<AuthProbe />);
+    await screen.findByTestId('email');
+    await act(() => authApi.signIn(travellerFixture.email, travellerFixture.password));
+    await waitFor(() => {
+      expect(screen.getByTestId('email')).toHaveTextContent(travellerFixture.email);
+    });
+
+    await act(() => authApi.signOutEverywhere());
+
+    await waitFor(() => {
+      expect(screen.getByTestId('signOutReason')).toHaveTextContent('revoked');
+    });
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    const saved = await getDoc(doc(db, 'users', uid));
+    expect(saved.get('sessionVersion')).toBe(1);
+  });
+});
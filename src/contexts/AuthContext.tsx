@@ -1,26 +1,160 @@
-import { createContext, useContext, useEffect, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { 
   User,
-  onAuthStateChanged,
+  onIdTokenChanged,
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
   signOut,
-  GoogleAuthProvider,
   signInWithPopup,
+  signInWithRedirect,
+  getRedirectResult,
+  linkWithCredential,
+  linkWithPopup,
+  unlink,
+  fetchSignInMethodsForEmail,
+  sendSignInLinkToEmail,
+  isSignInWithEmailLink,
+  signInWithEmailLink,
+  updatePassword,
+  verifyBeforeUpdateEmail,
+  reauthenticateWithCredential,
+  reauthenticateWithPopup,
+  EmailAuthProvider,
+  deleteUser,
   sendPasswordResetEmail,
-  updateProfile
+  updateProfile,
+  sendEmailVerification,
+  applyActionCode,
+  confirmPasswordReset,
+  setPersistence,
+  browserLocalPersistence,
+  browserSessionPersistence
 } from 'firebase/auth';
-import { auth } from '../lib/firebase';
+import { auth, clearOfflineCache, offlineCacheEnabled } from '../lib/firebase';
+import { Role, rolesFromClaims } from '../lib/roles';
+import { toMfaRequiredError } from '../lib/mfa';
+import {
+  AccountExistsError,
+  clearStoredPendingLink,
+  createAuthProvider,
+  credentialFromError,
+  isOAuthProviderId,
+  OAuthProviderId,
+  PendingLink,
+  prefersRedirect,
+  readStoredPendingLink,
+  storePendingLink,
+} from '../lib/authProviders';
+import { FirebaseError } from 'firebase/app';
+import { deleteUserData } from '../lib/account';
+import { clearStoredSignInEmail, signInLinkSettings, storeSignInEmail } from '../lib/emailLink';
+import {
+  bumpSessionVersion,
+  createUser,
+  createUserIfMissing,
+  migrateUserProfile,
+  subscribeToSessionVersion,
+} from '../lib/userRepository';
+import { usernameSchema } from '../lib/profile';
+import {
+  checkSessionVersion,
+  clearStoredSignOutReason,
+  openSessionChannel,
+  readSessionRecord,
+  readStoredSignOutReason,
+  SessionChannel,
+  SignOutReason,
+  storeSignOutReason,
+  writeRememberedSession,
+  writeSessionRecord,
+} from '../lib/session';
+
+export interface SignUpProfile {
+  username: string;
+  dob: string;
+}
 
 interface AuthContextType {
   currentUser: User | null;
   loading: boolean;
-  signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string) => Promise<void>;
-  logout: () => Promise<void>;
+  emailVerified: boolean;
+  roles: Role[];
+  hasRole: (...roles: Role[]) => boolean;
+  // When this session signed in, in milliseconds, from the ID token
+  sessionStartedAt: number | null;
+  // Why the last session ended, for the login page to explain
+  signOutReason: SignOutReason | null;
+  // `remember` keeps the user signed in after the browser closes
+  signIn: (email: string, password: string, remember?: boolean) => Promise<void>;
+  // Sign-up and email links have no remember choice, so they default to a
+  // session that ends with the browser
+  signUp: (email: string, password: string, profile: SignUpProfile, remember?: boolean) => Promise<void>;
+  logout: (reason?: SignOutReason) => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
   googleSignIn: () => Promise<void>;
+  signInWithProvider: (providerId: OAuthProviderId, remember?: boolean) => Promise<void>;
+  sendSignInLink: (email: string, next: string) => Promise<void>;
+  isSignInLink: (url: string) => boolean;
+  completeSignInWithLink: (email: string, url: string, remember?: boolean) => Promise<void>;
+  pendingLink: PendingLink | null;
+  cancelPendingLink: () => void;
+  redirectError: Error | null;
+  clearRedirectError: () => void;
+  linkProvider: (providerId: OAuthProviderId) => Promise<void>;
+  unlinkProvider: (providerId: string) => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
-  updateUserProfile: (displayName: string, photoURL?: string) => Promise<void>;
+  // Fields left out are kept as they are
+  updateUserProfile: (profile: { displayName?: string; photoURL?: string }) => Promise<void>;
+  sendVerificationEmail: () => Promise<void>;
+  reloadUser: () => Promise<boolean>;
+  applyEmailActionCode: (oobCode: string) => Promise<void>;
+  confirmNewPassword: (oobCode: string, newPassword: string) => Promise<void>;
+  reauthenticate: (password?: string) => Promise<void>;
+  changePassword: (newPassword: string) => Promise<void>;
+  changeEmail: (newEmail: string) => Promise<void>;
+  deleteAccount: () => Promise<void>;
+}
+
+// Where the verification email sends the user once they've clicked the link
+const verificationSettings = () => ({ url: `${window.location.origin}/verify-email` });
+
+// Remembers which provider a redirect sign-in was for, across the page load
+const REDIRECT_PROVIDER_KEY = 'authRedirectProvider';
+
+// Remembered sessions survive closing the browser; the others end with the
+// tab, which is what shared computers need
+function applyPersistence(remember: boolean) {
+  writeRememberedSession(remember);
+  return setPersistence(auth, remember ? browserLocalPersistence : browserSessionPersistence);
+}
+
+// Leaves nothing of the user's behind once they've signed out. Clearing the
+// offline cache stops Firestore, so the page is reloaded afterwards.
+async function forgetSession(reason: SignOutReason) {
+  writeRememberedSession(false);
+  if (!offlineCacheEnabled) return;
+
+  storeSignOutReason(reason);
+  await clearOfflineCache().catch(err => {
+    console.error("Error clearing offline cache:", err);
+  });
+  window.location.reload();
+}
+
+// Gives users who sign in with a provider or email link a profile to finish
+// in onboarding. A failure here shouldn't undo an otherwise good sign-in.
+async function bootstrapProfile(user: User) {
+  try {
+    const username = usernameSchema.safeParse(user.displayName);
+    await createUserIfMissing(user.uid, {
+      username: username.success ? username.data : undefined,
+      email: user.email ?? undefined,
+      photoURL: user.photoURL ?? undefined,
+      onboarded: false,
+    });
+  } catch (err) {
+    console.error("Error creating user profile:", err);
+  }
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -35,55 +169,380 @@ export function useAuth() {
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [emailVerified, setEmailVerified] = useState(false);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [authTime, setAuthTime] = useState<string | null>(null);
+  const [signOutReason, setSignOutReason] = useState<SignOutReason | null>(readStoredSignOutReason);
   const [loading, setLoading] = useState(true);
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(readStoredPendingLink);
+  const [redirectError, setRedirectError] = useState<Error | null>(null);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    // onIdTokenChanged also fires when the token is refreshed, so updated
+    // custom claims are picked up without signing out
+    const unsubscribe = onIdTokenChanged(auth, async (user) => {
+      if (user) {
+        try {
+          const tokenResult = await user.getIdTokenResult();
+          setRoles(rolesFromClaims(tokenResult.claims));
+          setAuthTime(tokenResult.authTime);
+        } catch (err) {
+          console.error("Error reading role claims:", err);
+          setRoles(['traveller']);
+        }
+        setSignOutReason(null);
+      } else {
+        setRoles([]);
+        setAuthTime(null);
+      }
       setCurrentUser(user);
+      setEmailVerified(user?.emailVerified ?? false);
       setLoading(false);
     });
 
     return unsubscribe;
   }, []);
 
-  const signIn = async (email: string, password: string) => {
-    await signInWithEmailAndPassword(auth, email, password);
+  const channelRef = useRef<SessionChannel | null>(null);
+
+  // Signs out here and in the app's other tabs
+  const endSession = useCallback(async (reason: SignOutReason) => {
+    setSignOutReason(reason);
+    try {
+      await signOut(auth);
+    } catch (err) {
+      setSignOutReason(null);
+      throw err;
+    }
+    channelRef.current?.post({ type: 'signed-out', reason });
+    await forgetSession(reason);
+  }, []);
+
+  // A reason carried over the reload after a sign-out is only shown once
+  useEffect(() => clearStoredSignOutReason(), []);
+
+  useEffect(() => {
+    const channel = openSessionChannel(({ reason }) => {
+      setSignOutReason(reason);
+      signOut(auth).then(() => forgetSession(reason)).catch(err => {
+        console.error("Error signing out with another tab:", err);
+      });
+    });
+    channelRef.current = channel;
+    return () => channel.close();
+  }, []);
+
+  // Errors from a redirect sign-in only surface on the next page load
+  useEffect(() => {
+    const providerId = sessionStorage.getItem(REDIRECT_PROVIDER_KEY);
+    if (!providerId) return;
+    sessionStorage.removeItem(REDIRECT_PROVIDER_KEY);
+
+    getRedirectResult(auth).then(async (result) => {
+      if (result) await bootstrapProfile(result.user);
+    }).catch(async (err) => {
+      try {
+        await throwSignInError(err, isOAuthProviderId(providerId) ? providerId : undefined);
+      } catch (signInError) {
+        setRedirectError(signInError as Error);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (pendingLink) storePendingLink(pendingLink);
+    else clearStoredPendingLink();
+  }, [pendingLink]);
+
+  // Once the user signs in to the existing account, by whatever method,
+  // attach the provider they originally tried to use
+  useEffect(() => {
+    if (!currentUser || !pendingLink) return;
+    if (currentUser.email?.toLowerCase() !== pendingLink.email.toLowerCase()) return;
+
+    setPendingLink(null);
+    linkWithCredential(currentUser, pendingLink.credential).catch(err => {
+      console.error("Error linking account:", err);
+    });
+  }, [currentUser, pendingLink]);
+
+  // Bring profiles saved by older versions of the app up to date. Until it
+  // succeeds, old data is still read as well as it can be.
+  const uid = currentUser?.uid;
+  useEffect(() => {
+    if (!uid) return;
+    migrateUserProfile(uid).catch(err => {
+      console.error("Error migrating user profile:", err);
+    });
+  }, [uid]);
+
+  // Sign out once the account has been signed out of all devices since this
+  // session started
+  useEffect(() => {
+    if (!uid || !authTime) return;
+
+    return subscribeToSessionVersion(
+      uid,
+      (version, fromServer) => {
+        const previous = readSessionRecord();
+        const { revoked, record } = checkSessionVersion(previous, {
+          uid,
+          authTime,
+          version,
+          confirmed: fromServer,
+        });
+        if (record && record !== previous) writeSessionRecord(record);
+        if (revoked) {
+          endSession('revoked').catch(err => {
+            console.error("Error signing out revoked session:", err);
+          });
+        }
+      },
+      err => console.error("Error watching session version:", err)
+    );
+  }, [uid, authTime, endSession]);
+
+  // True when the user has at least one of the given roles
+  const hasRole = (...required: Role[]) => required.some(role => roles.includes(role));
+
+  // Sign-in methods throw MfaRequiredError when a second factor is needed, and
+  // AccountExistsError when a provider's email belongs to another account
+  const throwSignInError = async (err: unknown, providerId?: OAuthProviderId): Promise<never> => {
+    const mfaError = toMfaRequiredError(err);
+    if (mfaError) throw mfaError;
+
+    if (
+      providerId &&
+      err instanceof FirebaseError &&
+      err.code === 'auth/account-exists-with-different-credential'
+    ) {
+      const credential = credentialFromError(providerId, err);
+      const email = err.customData?.email;
+      if (credential && typeof email === 'string') {
+        // Empty when email enumeration protection is on
+        const existingMethods = await fetchSignInMethodsForEmail(auth, email).catch(() => []);
+        const link = { email, providerId, credential, existingMethods };
+        setPendingLink(link);
+        throw new AccountExistsError(link);
+      }
+    }
+
+    throw err;
+  };
+
+  const signIn = async (email: string, password: string, remember = true) => {
+    try {
+      await applyPersistence(remember);
+      await signInWithEmailAndPassword(auth, email, password);
+    } catch (err) {
+      await throwSignInError(err);
+    }
+  };
+
+  const signUp = async (email: string, password: string, profile: SignUpProfile, remember = false) => {
+    await applyPersistence(remember);
+    const { user } = await createUserWithEmailAndPassword(auth, email, password);
+
+    try {
+      await updateProfile(user, { displayName: profile.username });
+      await createUser(user.uid, { ...profile, email: user.email ?? email, onboarded: false });
+    } catch (err) {
+      // Don't leave behind an account without a profile; the user can retry
+      await deleteUser(user).catch(deleteError => {
+        console.error("Error removing incomplete account:", deleteError);
+      });
+      throw err;
+    }
+
+    await sendEmailVerification(user, verificationSettings());
+  };
+
+  const logout = useCallback((reason: SignOutReason = 'user') => endSession(reason), [endSession]);
+
+  // Moves the account on to a new session version, which every signed-in
+  // device is watching for, then signs out here too
+  const signOutEverywhere = async () => {
+    if (!auth.currentUser) return;
+    await bumpSessionVersion(auth.currentUser.uid);
+    await endSession('revoked');
+  };
+
+  const signInWithProvider = async (providerId: OAuthProviderId, remember = true) => {
+    await applyPersistence(remember);
+    const provider = createAuthProvider(providerId);
+    const redirect = () => {
+      sessionStorage.setItem(REDIRECT_PROVIDER_KEY, providerId);
+      return signInWithRedirect(auth, provider);
+    };
+
+    if (prefersRedirect()) {
+      await redirect();
+      return;
+    }
+
+    try {
+      const { user } = await signInWithPopup(auth, provider);
+      await bootstrapProfile(user);
+    } catch (err) {
+      if (err instanceof FirebaseError && err.code === 'auth/popup-blocked') {
+        await redirect();
+        return;
+      }
+      await throwSignInError(err, providerId);
+    }
   };
 
-  const signUp = async (email: string, password: string) => {
-    await createUserWithEmailAndPassword(auth, email, password);
+  const googleSignIn = () => signInWithProvider('google.com');
+
+  const sendSignInLink = async (email: string, next: string) => {
+    await sendSignInLinkToEmail(auth, email, signInLinkSettings(next));
+    storeSignInEmail(email);
   };
 
-  const logout = async () => {
-    await signOut(auth);
+  const isSignInLink = (url: string) => isSignInWithEmailLink(auth, url);
+
+  const completeSignInWithLink = async (email: string, url: string, remember = false) => {
+    try {
+      await applyPersistence(remember);
+      const { user } = await signInWithEmailLink(auth, email, url);
+      clearStoredSignInEmail();
+      await bootstrapProfile(user);
+    } catch (err) {
+      await throwSignInError(err);
+    }
   };
 
-  const googleSignIn = async () => {
-    const provider = new GoogleAuthProvider();
-    await signInWithPopup(auth, provider);
+  const cancelPendingLink = () => setPendingLink(null);
+
+  const clearRedirectError = () => setRedirectError(null);
+
+  const linkProvider = async (providerId: OAuthProviderId) => {
+    if (!auth.currentUser) return;
+    await linkWithPopup(auth.currentUser, createAuthProvider(providerId));
+  };
+
+  const unlinkProvider = async (providerId: string) => {
+    if (!auth.currentUser) return;
+    await unlink(auth.currentUser, providerId);
   };
 
   const resetPassword = async (email: string) => {
     await sendPasswordResetEmail(auth, email);
   };
 
-  const updateUserProfile = async (displayName: string, photoURL?: string) => {
-    if (!currentUser) return;
-    await updateProfile(currentUser, {
-      displayName,
-      photoURL
+  const updateUserProfile = async (profile: { displayName?: string; photoURL?: string }) => {
+    // auth.currentUser rather than state, which lags right after signing in
+    if (!auth.currentUser) return;
+    await updateProfile(auth.currentUser, profile);
+  };
+
+  const sendVerificationEmail = async () => {
+    if (!auth.currentUser) return;
+    await sendEmailVerification(auth.currentUser, verificationSettings());
+  };
+
+  // user.reload() doesn't notify auth listeners, so sync the flag by hand and
+  // force a token refresh so the email_verified claim is up to date. Memoized
+  // because pages poll it from an effect.
+  const reloadUser = useCallback(async () => {
+    const user = auth.currentUser;
+    if (!user) return false;
+    await user.reload();
+    if (user.emailVerified) {
+      await user.getIdToken(true);
+    }
+    setEmailVerified(user.emailVerified);
+    return user.emailVerified;
+  }, []);
+
+  const applyEmailActionCode = async (oobCode: string) => {
+    await applyActionCode(auth, oobCode);
+    await reloadUser();
+  };
+
+  const confirmNewPassword = async (oobCode: string, newPassword: string) => {
+    await confirmPasswordReset(auth, oobCode, newPassword);
+  };
+
+  // Sensitive account changes fail with auth/requires-recent-login unless the
+  // user has signed in recently. Password accounts confirm their password,
+  // everyone else goes through their provider's popup again.
+  const reauthenticate = async (password?: string) => {
+    const user = auth.currentUser;
+    if (!user) return;
+
+    try {
+      if (password !== undefined && user.email) {
+        await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+        return;
+      }
+
+      const providerId = user.providerData
+        .map(info => info.providerId)
+        .find(isOAuthProviderId);
+      if (!providerId) {
+        throw new Error('No provider available to re-authenticate with');
+      }
+      await reauthenticateWithPopup(user, createAuthProvider(providerId));
+    } catch (err) {
+      await throwSignInError(err);
+    }
+  };
+
+  const changePassword = async (newPassword: string) => {
+    if (!auth.currentUser) return;
+    await updatePassword(auth.currentUser, newPassword);
+  };
+
+  // The address only changes once the user clicks the link sent to it
+  const changeEmail = async (newEmail: string) => {
+    if (!auth.currentUser) return;
+    await verifyBeforeUpdateEmail(auth.currentUser, newEmail, {
+      url: `${window.location.origin}/profile`
     });
   };
 
+  const deleteAccount = async () => {
+    const user = auth.currentUser;
+    if (!user) return;
+    await deleteUserData(user.uid);
+    await deleteUser(user);
+    await forgetSession('user');
+  };
+
   const value = {
     currentUser,
     loading,
+    emailVerified,
+    roles,
+    hasRole,
+    sessionStartedAt: authTime ? Date.parse(authTime) : null,
+    signOutReason,
     signIn,
     signUp,
     logout,
+    signOutEverywhere,
     googleSignIn,
+    signInWithProvider,
+    sendSignInLink,
+    isSignInLink,
+    completeSignInWithLink,
+    pendingLink,
+    cancelPendingLink,
+    redirectError,
+    clearRedirectError,
+    linkProvider,
+    unlinkProvider,
     resetPassword,
-    updateUserProfile
+    updateUserProfile,
+    sendVerificationEmail,
+    reloadUser,
+    applyEmailActionCode,
+    confirmNewPassword,
+    reauthenticate,
+    changePassword,
+    changeEmail,
+    deleteAccount
   };
 
   return (
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { useUserData } from '../hooks/useUserData';
+import { saveUser } from '../lib/userRepository';
+import { createLocaleValue, LocaleContext } from './locale';
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  Locale,
+  matchLocale,
+  setActiveLocale,
+  textDirection,
+} from '../lib/i18n';
+
+// The last choice made in this browser, used until the profile has loaded
+// and for signed-out pages
+const LOCALE_STORAGE_KEY = 'locale';
+
+function getInitialLocale(): Locale {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+  return matchLocale(navigator.languages ?? [navigator.language]) ?? DEFAULT_LOCALE;
+}
+
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const { currentUser } = useAuth();
+  const { userData } = useUserData(currentUser?.uid);
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+  const savedLocale = userData?.locale;
+
+  // The profile wins over this browser's last choice, so the language
+  // follows the user from device to device
+  useEffect(() => {
+    if (savedLocale) setLocaleState(savedLocale);
+  }, [savedLocale]);
+
+  // A layout effect, so the text direction is right before the first paint
+  // and the locale is active before any page's effects report errors
+  useLayoutEffect(() => {
+    setActiveLocale(locale);
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    document.documentElement.lang = locale;
+    document.documentElement.dir = textDirection(locale);
+  }, [locale]);
+
+  const setLocale = useCallback(async (next: Locale) => {
+    setLocaleState(next);
+    if (currentUser) {
+      await saveUser(currentUser.uid, { locale: next });
+    }
+  }, [currentUser]);
+
+  const value = useMemo(() => createLocaleValue(locale, setLocale), [locale, setLocale]);
+
+  return (
+    <LocaleContext.Provider value={value}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
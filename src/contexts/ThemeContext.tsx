@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { useUserData } from '../hooks/useUserData';
+import { saveUser } from '../lib/userRepository';
+import { ThemeContext } from './theme';
+import {
+  activeBrand,
+  brandTokens,
+  DEFAULT_THEME_PREFERENCE,
+  isThemePreference,
+  resolveColorScheme,
+  ThemePreference,
+  tokenVariables,
+} from '../lib/theme';
+
+// The last choice made in this browser, used until the profile has loaded
+// and for signed-out pages
+const THEME_STORAGE_KEY = 'theme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+function getInitialPreference(): ThemePreference {
+  const stored = localStorage.getItem(THEME_STORAGE_KEY);
+  return isThemePreference(stored) ? stored : DEFAULT_THEME_PREFERENCE;
+}
+
+// Follows the device's light or dark setting as it changes
+function useSystemPrefersDark() {
+  const [prefersDark, setPrefersDark] = useState(() => window.matchMedia?.(DARK_QUERY).matches ?? false);
+
+  useEffect(() => {
+    const query = window.matchMedia?.(DARK_QUERY);
+    if (!query) return;
+    const handleChange = (e: MediaQueryListEvent) => setPrefersDark(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  return prefersDark;
+}
+
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  const { currentUser } = useAuth();
+  const { userData } = useUserData(currentUser?.uid);
+  const [preference, setPreferenceState] = useState<ThemePreference>(getInitialPreference);
+  const systemPrefersDark = useSystemPrefersDark();
+  const savedPreference = userData?.theme;
+  const colorScheme = resolveColorScheme(preference, systemPrefersDark);
+
+  // The profile wins over this browser's last choice, so the theme follows
+  // the user from device to device
+  useEffect(() => {
+    if (savedPreference) setPreferenceState(savedPreference);
+  }, [savedPreference]);
+
+  useEffect(() => {
+    localStorage.setItem(THEME_STORAGE_KEY, preference);
+  }, [preference]);
+
+  // A layout effect, so the first paint is already in the right colours
+  useLayoutEffect(() => {
+    const root = document.documentElement;
+    for (const [name, value] of Object.entries(tokenVariables(brandTokens(activeBrand, colorScheme)))) {
+      root.style.setProperty(name, value);
+    }
+    root.classList.toggle('dark', colorScheme === 'dark');
+    // Native controls such as date pickers and scrollbars follow along
+    root.style.colorScheme = colorScheme;
+  }, [colorScheme]);
+
+  useEffect(() => {
+    document.title = activeBrand.name;
+  }, []);
+
+  const setPreference = useCallback(async (next: ThemePreference) => {
+    setPreferenceState(next);
+    if (currentUser) {
+      await saveUser(currentUser.uid, { theme: next });
+    }
+  }, [currentUser]);
+
+  const value = useMemo(() => ({
+    preference,
+    colorScheme,
+    setPreference,
+    brand: activeBrand,
+  }), [preference, colorScheme, setPreference]);
+
+  return (
+    <ThemeContext.Provider value={value}>
+      {children}
+    </ThemeContext.Provider>
+  );
+}
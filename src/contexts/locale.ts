@@ -0,0 +1,61 @@
+import { createContext, useContext } from 'react';
+import {
+  formatCurrency,
+  formatDate,
+  formatDateRange,
+  formatDateTime,
+  formatList,
+  formatNumber,
+  Locale,
+  MessageKey,
+  MessageParams,
+  textDirection,
+  translate,
+  translateMessage,
+} from '../lib/i18n';
+
+export interface LocaleContextType {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  setLocale: (locale: Locale) => Promise<void>;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // For zod and Firebase error messages, which may be catalog keys
+  translateError: (message: string | undefined) => string | undefined;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatCurrency: (amount: number, currency: string) => string;
+  formatDate: (value: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: Date) => string;
+  formatDateRange: (start: string | Date, end: string | Date) => string;
+  formatList: (items: string[], type?: 'conjunction' | 'disjunction') => string;
+}
+
+// Kept apart from LocaleProvider, which follows the signed-in user's profile,
+// so the UI components can be rendered without Firebase
+export const LocaleContext = createContext<LocaleContextType | null>(null);
+
+export function useLocale() {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+}
+
+export function createLocaleValue(
+  locale: Locale,
+  setLocale: (locale: Locale) => Promise<void>
+): LocaleContextType {
+  return {
+    locale,
+    dir: textDirection(locale),
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    translateError: message => message && translateMessage(locale, message),
+    formatNumber: (value, options) => formatNumber(locale, value, options),
+    formatCurrency: (amount, currency) => formatCurrency(locale, amount, currency),
+    formatDate: (value, options) => formatDate(locale, value, options),
+    formatDateTime: value => formatDateTime(locale, value),
+    formatDateRange: (start, end) => formatDateRange(locale, start, end),
+    formatList: (items, type) => formatList(locale, items, type),
+  };
+}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import { Brand, ColorScheme, ThemePreference } from '../lib/theme';
+
+export interface ThemeContextType {
+  preference: ThemePreference;
+  // What's on screen, with `system` worked out
+  colorScheme: ColorScheme;
+  setPreference: (preference: ThemePreference) => Promise<void>;
+  brand: Brand;
+}
+
+// Kept apart from ThemeProvider, which follows the signed-in user's profile,
+// so the UI components can be rendered without Firebase
+export const ThemeContext = createContext<ThemeContextType | null>(null);
+
+export function useTheme() {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getIdleState,
+  idleTimeout,
+  IdleState,
+  IdleTimeoutConfig,
+  readLastActivity,
+  recordActivity,
+  startIdleTracking,
+} from '../lib/session';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'];
+
+const CHECK_INTERVAL_MS = 1000;
+
+const ACTIVE: IdleState = { status: 'active' };
+
+function sameState(a: IdleState, b: IdleState) {
+  if (a.status === 'warning' && b.status === 'warning') return a.secondsLeft === b.secondsLeft;
+  return a.status === b.status;
+}
+
+// Signs the user out once no tab has seen any activity for the configured
+// time, warning them first
+export function useIdleTimeout(config: IdleTimeoutConfig = idleTimeout) {
+  const { currentUser, sessionStartedAt, logout } = useAuth();
+  const [state, setState] = useState<IdleState>(ACTIVE);
+  const warningRef = useRef(false);
+  const enabled = !!currentUser && sessionStartedAt !== null && config.timeoutMs > 0;
+
+  useEffect(() => {
+    if (!enabled || sessionStartedAt === null) return;
+
+    // Once the warning is up, only "Stay signed in" keeps the session, so a
+    // passer-by nudging the mouse on a kiosk doesn't
+    const onActivity = () => {
+      if (!warningRef.current) recordActivity();
+    };
+
+    let expiring = false;
+    const check = () => {
+      // Signing in counts as activity, so a timestamp left over from an
+      // earlier session doesn't end this one straight away
+      const lastActivity = Math.max(readLastActivity() ?? 0, sessionStartedAt);
+      const next = getIdleState(lastActivity, Date.now(), config);
+      warningRef.current = next.status === 'warning';
+      setState(prev => (sameState(prev, next) ? prev : next));
+
+      if (next.status === 'expired' && !expiring) {
+        expiring = true;
+        logout('idle').catch(err => {
+          expiring = false;
+          console.error("Error signing out idle session:", err);
+        });
+      }
+    };
+
+    startIdleTracking();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+      clearInterval(interval);
+      warningRef.current = false;
+      setState(ACTIVE);
+    };
+  }, [enabled, sessionStartedAt, config, logout]);
+
+  const staySignedIn = useCallback(() => {
+    recordActivity(Date.now(), { force: true });
+    warningRef.current = false;
+    setState(ACTIVE);
+  }, []);
+
+  return { state, staySignedIn };
+}
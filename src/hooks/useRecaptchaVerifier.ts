@@ -0,0 +1,24 @@
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+import { RecaptchaVerifier } from 'firebase/auth';
+import { auth } from '../lib/firebase';
+
+// Lazily creates an invisible reCAPTCHA in the given container for phone
+// verification, and tears it down when the component unmounts.
+export function useRecaptchaVerifier(containerRef: RefObject<HTMLElement>) {
+  const verifierRef = useRef<RecaptchaVerifier | null>(null);
+
+  useEffect(() => () => {
+    verifierRef.current?.clear();
+    verifierRef.current = null;
+  }, []);
+
+  return useCallback(() => {
+    if (!verifierRef.current) {
+      if (!containerRef.current) {
+        throw new Error('reCAPTCHA container is not mounted');
+      }
+      verifierRef.current = new RecaptchaVerifier(auth, containerRef.current, { size: 'invisible' });
+    }
+    return verifierRef.current;
+  }, [containerRef]);
+}
@@ -0,0 +1,19 @@
+import { Location, useLocation, useSearchParams } from 'react-router-dom';
+import { getSafeRedirect } from '../lib/redirect';
+
+interface RedirectState {
+  from?: Location;
+}
+
+// Where to send the user once they've signed in: the route ProtectedRoute
+// bounced them from, else a `?next=` parameter, else the dashboard.
+export function useRedirectTarget() {
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const from = (location.state as RedirectState | null)?.from;
+
+  if (from) {
+    return getSafeRedirect(`${from.pathname}${from.search}${from.hash}`);
+  }
+  return getSafeRedirect(searchParams.get('next'));
+}
@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from 'react';
+import { getPendingWriteCount, subscribeToPendingWrites } from '../lib/sync';
+
+function subscribeToConnectivity(listener: () => void) {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+}
+
+// Whether the browser is online, and whether changes are still waiting to
+// reach the server
+export function useSyncStatus() {
+  const online = useSyncExternalStore(subscribeToConnectivity, () => navigator.onLine);
+  const pendingWrites = useSyncExternalStore(subscribeToPendingWrites, getPendingWriteCount);
+  return { online, pending: pendingWrites > 0 };
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { subscribeToUser, UserData } from '../lib/userRepository';
+
+interface Snapshot {
+  uid: string;
+  userData: UserData | null;
+  error: Error | null;
+}
+
+// Keeps the users/{uid} document in sync, including edits from other tabs
+export function useUserData(uid: string | undefined) {
+  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+
+  useEffect(() => {
+    if (!uid) return;
+
+    return subscribeToUser(
+      uid,
+      userData => setSnapshot({ uid, userData, error: null }),
+      error => {
+        console.error("Error subscribing to user data:", error);
+        setSnapshot({ uid, userData: null, error });
+      }
+    );
+  }, [uid]);
+
+  // Until the first snapshot for this uid arrives, report loading rather
+  // than the previous user's data
+  const current = uid && snapshot?.uid === uid ? snapshot : null;
+  return {
+    userData: current?.userData ?? null,
+    loading: Boolean(uid) && !current,
+    error: current?.error ?? null,
+  };
+}
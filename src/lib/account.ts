@@ -0,0 +1,28 @@
+import { collection, deleteDoc, doc, getDocs } from 'firebase/firestore';
+import { deleteObject, listAll, ref, StorageReference } from 'firebase/storage';
+import { db, storage } from './firebase';
+import { deleteDocuments } from './batchDelete';
+
+// Subcollections under users/{uid}. Firestore doesn't delete these along with
+// the parent document, so they have to be cleared one by one.
+const USER_SUBCOLLECTIONS = ['trips', 'assistantMessages', 'documents'];
+
+async function deleteFolder(folder: StorageReference): Promise<void> {
+  const { items, prefixes } = await listAll(folder);
+  await Promise.all([
+    ...items.map(item => deleteObject(item)),
+    ...prefixes.map(prefix => deleteFolder(prefix)),
+  ]);
+}
+
+// Removes everything we store about a user, for account deletion requests
+export async function deleteUserData(uid: string) {
+  for (const name of USER_SUBCOLLECTIONS) {
+    const snapshot = await getDocs(collection(db, 'users', uid, name));
+    await deleteDocuments(snapshot.docs.map(subDoc => subDoc.ref));
+  }
+
+  await deleteDoc(doc(db, 'users', uid));
+  await deleteFolder(ref(storage, `profileImages/${uid}`));
+  await deleteFolder(ref(storage, `travelDocuments/${uid}`));
+}
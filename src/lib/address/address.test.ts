@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { translateMessage } from '../i18n';
+import { addressSchema, emptyAddress, formatAddress, parseLegacyAddress } from './address';
+import { isValidPostalCode, requiresPostalCode } from './postalCodes';
+
+const bakerStreet = {
+  line1: '221B Baker Street',
+  line2: '',
+  city: 'London',
+  region: '',
+  postalCode: 'NW1 6XE',
+  country: 'GB',
+};
+
+describe('addressSchema', () => {
+  function messagesFor(data: object) {
+    const result = addressSchema.safeParse({ ...bakerStreet, ...data });
+    return result.success ? [] : result.error.issues.map(issue => translateMessage('en', issue.message));
+  }
+
+  it('accepts a complete address and tidies the postal code', () => {
+    expect(addressSchema.parse({ ...bakerStreet, postalCode: ' nw1  6xe ' })).toEqual(bakerStreet);
+  });
+
+  it('requires the first line, city and country', () => {
+    expect(messagesFor({ line1: ' ', city: '', country: '' })).toEqual([
+      'Enter the first line of your address',
+      'Enter your town or city',
+      'Please select a country',
+    ]);
+  });
+
+  it('checks the postal code against the country', () => {
+    expect(messagesFor({ postalCode: '75001' })).toEqual([
+      "That doesn't look like a postal code for the selected country",
+    ]);
+    expect(messagesFor({ postalCode: '75001', country: 'FR' })).toEqual([]);
+    expect(messagesFor({ postalCode: '' })).toEqual(['Enter your postal code']);
+  });
+
+  it('leaves the postal code optional where it is not always used', () => {
+    expect(messagesFor({ postalCode: '', country: 'IE' })).toEqual([]);
+    expect(messagesFor({ postalCode: '', country: 'AE' })).toEqual([]);
+  });
+});
+
+describe('postal codes', () => {
+  it.each([
+    ['US', '20500-0003'],
+    ['CA', 'M5V 2T6'],
+    ['NL', '1012 JS'],
+    ['JP', '100-0001'],
+    ['PT', '1100-148'],
+  ])('accepts %s postal codes like %s', (country, postalCode) => {
+    expect(isValidPostalCode(country, postalCode)).toBe(true);
+  });
+
+  it.each([
+    ['US', '2050'],
+    ['DE', 'D-10117'],
+    ['GB', '12345'],
+  ])('rejects %s postal codes like %s', (country, postalCode) => {
+    expect(isValidPostalCode(country, postalCode)).toBe(false);
+  });
+
+  it('only loosely checks countries without a known format', () => {
+    expect(requiresPostalCode('KE')).toBe(false);
+    expect(isValidPostalCode('KE', '00100')).toBe(true);
+    expect(isValidPostalCode('KE', '<script>')).toBe(false);
+  });
+
+  it('ignores inherited object keys', () => {
+    expect(requiresPostalCode('constructor')).toBe(false);
+  });
+});
+
+describe('formatAddress', () => {
+  it('joins the parts on one line', () => {
+    expect(formatAddress(bakerStreet, 'en')).toBe('221B Baker Street, London NW1 6XE, United Kingdom');
+  });
+
+  it('skips empty parts', () => {
+    expect(formatAddress({ ...emptyAddress, city: 'Paris', country: 'FR' }, 'en')).toBe('Paris, France');
+  });
+});
+
+describe('parseLegacyAddress', () => {
+  it('splits out the city, postal code and country', () => {
+    expect(parseLegacyAddress('10 Downing Street, London SW1A 2AA, United Kingdom')).toEqual({
+      line1: '10 Downing Street',
+      line2: '',
+      city: 'London',
+      region: '',
+      postalCode: 'SW1A 2AA',
+      country: 'GB',
+    });
+  });
+
+  it('recognises common country names and state abbreviations', () => {
+    expect(parseLegacyAddress('1 Main Street, Apt 4, Springfield, IL 62701, USA')).toEqual({
+      line1: '1 Main Street',
+      line2: 'Apt 4',
+      city: 'Springfield',
+      region: 'IL',
+      postalCode: '62701',
+      country: 'US',
+    });
+  });
+
+  it('finds postal codes written before the city', () => {
+    expect(parseLegacyAddress('5 Avenue Anatole France, 75007 Paris, France')).toMatchObject({
+      line1: '5 Avenue Anatole France',
+      city: 'Paris',
+      postalCode: '75007',
+      country: 'FR',
+    });
+  });
+
+  it('keeps what it cannot place in the street address', () => {
+    expect(parseLegacyAddress('221B Baker Street, London')).toEqual({
+      ...emptyAddress,
+      line1: '221B Baker Street',
+      city: 'London',
+    });
+    expect(parseLegacyAddress('Somewhere by the sea')).toEqual({
+      ...emptyAddress,
+      line1: 'Somewhere by the sea',
+    });
+  });
+
+  it('does not mistake a house number for a postal code', () => {
+    expect(parseLegacyAddress('12345 Ocean Drive, Miami, USA')).toMatchObject({
+      line1: '12345 Ocean Drive',
+      city: 'Miami',
+      postalCode: '',
+      country: 'US',
+    });
+  });
+});
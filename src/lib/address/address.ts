@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { COUNTRY_CODES, countryName, isCountryCode } from '../countries';
+import { isValidPostalCode, normalizePostalCode, postalCodeFormat, requiresPostalCode } from './postalCodes';
+import { Address } from './types';
+
+export const addressSchema = z.object({
+  line1: z.string().trim()
+    .min(1, 'validation.addressLine1Required')
+    .max(200, 'validation.addressLineTooLong'),
+  line2: z.string().trim().max(200, 'validation.addressLineTooLong'),
+  city: z.string().trim()
+    .min(1, 'validation.cityRequired')
+    .max(100, 'validation.cityTooLong'),
+  region: z.string().trim().max(100, 'validation.regionTooLong'),
+  postalCode: z.string().transform(normalizePostalCode),
+  country: z.string(),
+}).superRefine((address, ctx) => {
+  if (!isCountryCode(address.country)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.countryRequired',
+      path: ['country'],
+    });
+  } else if (!address.postalCode) {
+    if (requiresPostalCode(address.country)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'validation.postalCodeRequired',
+        path: ['postalCode'],
+      });
+    }
+  } else if (!isValidPostalCode(address.country, address.postalCode)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.postalCodeInvalid',
+      path: ['postalCode'],
+    });
+  }
+});
+
+export const emptyAddress: Address = {
+  line1: '',
+  line2: '',
+  city: '',
+  region: '',
+  postalCode: '',
+  country: '',
+};
+
+// One line, e.g. "221B Baker Street, London NW1 6XE, United Kingdom"
+export function formatAddress(address: Address, locale?: string) {
+  const cityLine = [address.city, address.region, address.postalCode].filter(Boolean).join(' ');
+  return [
+    address.line1,
+    address.line2,
+    cityLine,
+    address.country && countryName(address.country, locale),
+  ].filter(Boolean).join(', ');
+}
+
+// Names people write that aren't the English country name
+const COUNTRY_ALIASES = new Map([
+  ['uk', 'GB'],
+  ['great britain', 'GB'],
+  ['england', 'GB'],
+  ['scotland', 'GB'],
+  ['wales', 'GB'],
+  ['northern ireland', 'GB'],
+  ['usa', 'US'],
+  ['u.s.a.', 'US'],
+  ['united states of america', 'US'],
+]);
+
+function countryFromName(name: string) {
+  const key = name.toLowerCase();
+  return COUNTRY_ALIASES.get(key)
+    ?? COUNTRY_CODES.find(code => countryName(code, 'en').toLowerCase() === key);
+}
+
+// Finds a postal code at either end of a part of an address, as in
+// "London NW1 6XE" or "75001 Paris"
+function splitPostalCode(part: string, country: string) {
+  const format = postalCodeFormat(country);
+  if (!format) return undefined;
+
+  const words = part.split(/\s+/);
+  for (const size of [2, 1]) {
+    if (words.length < size) continue;
+    const end = words.slice(-size).join(' ');
+    if (format.test(normalizePostalCode(end))) {
+      return { postalCode: normalizePostalCode(end), rest: words.slice(0, -size).join(' ') };
+    }
+    const start = words.slice(0, size).join(' ');
+    if (format.test(normalizePostalCode(start))) {
+      return { postalCode: normalizePostalCode(start), rest: words.slice(size).join(' ') };
+    }
+  }
+  return undefined;
+}
+
+// Profiles used to keep the address as one free-text field. This splits one
+// on commas and line breaks as well as it can: the country is recognised by
+// name, a postal code by the country's format, the last remaining part is
+// taken as the city and the rest as the street address. Whatever it gets
+// wrong, the user can correct in the profile.
+export function parseLegacyAddress(text: string): Address {
+  const parts = text.split(/[,\n]/).map(part => part.trim()).filter(Boolean);
+  const address = { ...emptyAddress };
+
+  const country = parts.length > 1 ? countryFromName(parts[parts.length - 1]) : undefined;
+  if (country) {
+    address.country = country;
+    parts.pop();
+  }
+
+  // The first part is skipped because house numbers can look like postal codes
+  for (let i = parts.length - 1; address.country && i > 0; i--) {
+    const found = splitPostalCode(parts[i], address.country);
+    if (!found) continue;
+
+    address.postalCode = found.postalCode;
+    if (/^[A-Z]{2,3}$/.test(found.rest)) {
+      // A state abbreviation, as in "IL 62701"
+      address.region = found.rest;
+      parts.splice(i, 1);
+    } else if (found.rest) {
+      parts[i] = found.rest;
+    } else {
+      parts.splice(i, 1);
+    }
+    break;
+  }
+
+  if (parts.length > 1) {
+    address.city = parts.pop() ?? '';
+  }
+  address.line1 = parts.shift() ?? '';
+  address.line2 = parts.join(', ');
+  return address;
+}
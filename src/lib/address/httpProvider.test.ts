@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHttpProvider } from './httpProvider';
+
+const URL = 'https://address.example.com/search';
+
+function stubFetch(body: unknown, init?: ResponseInit) {
+  const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(body), init));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('createHttpProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("searches with the user's ID token", async () => {
+    const fetchMock = stubFetch({ suggestions: [] });
+
+    await createHttpProvider({ url: URL, getIdToken: async () => 'id-token' })
+      .search(' 10 Downing ', { country: 'GB' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${URL}?q=10+Downing&limit=5&country=GB`);
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer id-token' });
+  });
+
+  it('keeps well-formed suggestions and fills in missing fields', async () => {
+    stubFetch({
+      suggestions: [
+        { id: '1', label: '10 Downing St, London', address: { line1: '10 Downing St', city: 'London', country: 'GB' } },
+        { label: 'No id', address: {} },
+      ],
+    });
+
+    const results = await createHttpProvider({ url: URL, getIdToken: async () => null }).search('10 Downing');
+
+    expect(results).toEqual([{
+      id: '1',
+      label: '10 Downing St, London',
+      address: { line1: '10 Downing St', line2: '', city: 'London', region: '', postalCode: '', country: 'GB' },
+    }]);
+  });
+
+  it('rejects failed searches', async () => {
+    stubFetch({}, { status: 401 });
+
+    await expect(createHttpProvider({ url: URL, getIdToken: async () => null }).search('10 Downing'))
+      .rejects.toThrow('Address search failed with status 401');
+  });
+});
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { AddressAutocompleteProvider, AddressSearchOptions } from './types';
+
+export interface HttpProviderConfig {
+  url: string;
+  // The signed-in user's Firebase ID token, which the backend verifies
+  // before calling the address service with its own key
+  getIdToken: () => Promise<string | null>;
+}
+
+const DEFAULT_LIMIT = 5;
+
+const addressField = z.string().catch('');
+
+// GET {url}?q=...&country=GB&limit=5 is expected to answer with
+// { "suggestions": [{ "id", "label", "address": { "line1", "line2", "city",
+// "region", "postalCode", "country" } }] }. Missing fields come through as
+// empty, and suggestions without an id or label are dropped.
+const responseSchema = z.object({
+  suggestions: z.array(z.unknown()).catch([]),
+});
+
+const suggestionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  address: z.object({
+    line1: addressField,
+    line2: addressField,
+    city: addressField,
+    region: addressField,
+    postalCode: addressField,
+    country: addressField,
+  }),
+});
+
+export function createHttpProvider({ url, getIdToken }: HttpProviderConfig): AddressAutocompleteProvider {
+  return {
+    name: 'http',
+    async search(query: string, options: AddressSearchOptions = {}) {
+      const { country, limit = DEFAULT_LIMIT, signal } = options;
+      if (!query.trim()) return [];
+
+      const params = new URLSearchParams({ q: query.trim(), limit: String(limit) });
+      if (country) params.set('country', country);
+      const idToken = await getIdToken();
+
+      const response = await fetch(`${url}?${params}`, {
+        headers: {
+          Accept: 'application/json',
+          ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+        },
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Address search failed with status ${response.status}`);
+      }
+
+      const { suggestions } = responseSchema.parse(await response.json());
+      return suggestions.flatMap(suggestion => {
+        const parsed = suggestionSchema.safeParse(suggestion);
+        return parsed.success ? [parsed.data] : [];
+      });
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { createHttpProvider, HttpProviderConfig } from './httpProvider';
+import { createStaticProvider } from './staticProvider';
+import { AddressAutocompleteProvider } from './types';
+
+export * from './types';
+export * from './address';
+export * from './postalCodes';
+export { createStaticProvider, SAMPLE_ADDRESSES } from './staticProvider';
+
+const autocompleteConfig = {
+  provider: import.meta.env.VITE_ADDRESS_PROVIDER,
+  apiUrl: import.meta.env.VITE_ADDRESS_API_URL,
+};
+
+// Autocomplete is off, and addresses are typed in by hand, unless a provider
+// is configured. `http` searches through our backend, which holds the address
+// service's key; `static` searches the sample addresses, for local development.
+export function createAddressAutocompleteProvider(
+  { getIdToken }: Pick<HttpProviderConfig, 'getIdToken'>
+): AddressAutocompleteProvider | null {
+  if (autocompleteConfig.provider === 'http' && autocompleteConfig.apiUrl) {
+    return createHttpProvider({
+      url: autocompleteConfig.apiUrl,
+      getIdToken,
+    });
+  }
+  if (autocompleteConfig.provider === 'static') {
+    return createStaticProvider();
+  }
+  return null;
+}
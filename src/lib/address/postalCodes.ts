@@ -0,0 +1,63 @@
+// Postal code formats for the countries most of our travellers live in.
+// Elsewhere the postal code is optional and only loosely checked, since
+// plenty of countries don't use them.
+export const POSTAL_CODE_FORMATS: Record<string, RegExp> = {
+  AR: /^([A-Z]\d{4}[A-Z]{3}|\d{4})$/,
+  AT: /^\d{4}$/,
+  AU: /^\d{4}$/,
+  BE: /^\d{4}$/,
+  BR: /^\d{5}-?\d{3}$/,
+  CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/,
+  CH: /^\d{4}$/,
+  CN: /^\d{6}$/,
+  DE: /^\d{5}$/,
+  DK: /^\d{4}$/,
+  ES: /^\d{5}$/,
+  FI: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+  IE: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/,
+  IL: /^\d{7}$/,
+  IN: /^\d{6}$/,
+  IT: /^\d{5}$/,
+  JP: /^\d{3}-?\d{4}$/,
+  KR: /^\d{5}$/,
+  MX: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/,
+  NO: /^\d{4}$/,
+  NZ: /^\d{4}$/,
+  PL: /^\d{2}-\d{3}$/,
+  PT: /^\d{4}-\d{3}$/,
+  RU: /^\d{6}$/,
+  SA: /^\d{5}$/,
+  SE: /^\d{3} ?\d{2}$/,
+  SG: /^\d{6}$/,
+  TR: /^\d{5}$/,
+  US: /^\d{5}(-\d{4})?$/,
+  ZA: /^\d{4}$/,
+};
+
+// Ireland has Eircodes, but many addresses are still written without one
+const OPTIONAL_POSTAL_CODE_COUNTRIES = ['IE'];
+
+const DEFAULT_POSTAL_CODE_FORMAT = /^[A-Z0-9][A-Z0-9 -]{1,10}$/;
+
+// Postal codes are often typed in lower case or with stray spaces
+export function normalizePostalCode(value: string) {
+  return value.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+export function postalCodeFormat(country: string): RegExp | undefined {
+  return Object.prototype.hasOwnProperty.call(POSTAL_CODE_FORMATS, country)
+    ? POSTAL_CODE_FORMATS[country]
+    : undefined;
+}
+
+export function requiresPostalCode(country: string) {
+  return !!postalCodeFormat(country) && !OPTIONAL_POSTAL_CODE_COUNTRIES.includes(country);
+}
+
+export function isValidPostalCode(country: string, postalCode: string) {
+  const format = postalCodeFormat(country) ?? DEFAULT_POSTAL_CODE_FORMAT;
+  return format.test(normalizePostalCode(postalCode));
+}
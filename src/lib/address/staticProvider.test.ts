@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createStaticProvider, SAMPLE_ADDRESSES } from './staticProvider';
+
+describe('createStaticProvider', () => {
+  const provider = createStaticProvider();
+
+  it('finds addresses matching every word of the query', async () => {
+    const results = await provider.search('downing london');
+    expect(results).toEqual([{
+      id: 'static-1',
+      label: '10 Downing Street, London SW1A 2AA, United Kingdom',
+      address: SAMPLE_ADDRESSES[1],
+    }]);
+  });
+
+  it('ignores case and accents', async () => {
+    const results = await createStaticProvider([
+      { ...SAMPLE_ADDRESSES[6], line1: 'Carrer de Sant Antoni Maria Claret 167', city: 'Barcelona' },
+    ]).search('CLARET barcelona');
+    expect(results).toHaveLength(1);
+    expect(await createStaticProvider().search('plätz der republik')).toHaveLength(1);
+  });
+
+  it('narrows results to a country and a limit', async () => {
+    expect((await provider.search('street', { country: 'GB' })).map(result => result.address.city))
+      .toEqual(['London', 'London', 'Edinburgh']);
+    expect(await provider.search('street', { country: 'GB', limit: 1 })).toHaveLength(1);
+    expect(await provider.search('street', { country: 'JP' })).toEqual([]);
+  });
+
+  it('returns nothing for a blank query', async () => {
+    expect(await provider.search('  ')).toEqual([]);
+  });
+
+  it('rejects when the search has been cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(provider.search('london', { signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
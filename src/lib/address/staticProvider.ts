@@ -0,0 +1,52 @@
+import { formatAddress } from './address';
+import { Address, AddressAutocompleteProvider, AddressSearchOptions } from './types';
+
+const DEFAULT_LIMIT = 5;
+
+// A handful of well-known addresses, enough to exercise the autocomplete
+// in tests and local development without an address service
+export const SAMPLE_ADDRESSES: Address[] = [
+  { line1: '221B Baker Street', line2: '', city: 'London', region: '', postalCode: 'NW1 6XE', country: 'GB' },
+  { line1: '10 Downing Street', line2: '', city: 'London', region: '', postalCode: 'SW1A 2AA', country: 'GB' },
+  { line1: '1 Princes Street', line2: '', city: 'Edinburgh', region: '', postalCode: 'EH2 2EQ', country: 'GB' },
+  { line1: '1600 Pennsylvania Avenue NW', line2: '', city: 'Washington', region: 'DC', postalCode: '20500', country: 'US' },
+  { line1: '350 Fifth Avenue', line2: '', city: 'New York', region: 'NY', postalCode: '10118', country: 'US' },
+  { line1: '5 Avenue Anatole France', line2: '', city: 'Paris', region: '', postalCode: '75007', country: 'FR' },
+  { line1: 'Carrer de Mallorca 401', line2: '', city: 'Barcelona', region: '', postalCode: '08013', country: 'ES' },
+  { line1: 'Platz der Republik 1', line2: '', city: 'Berlin', region: '', postalCode: '11011', country: 'DE' },
+  { line1: 'Bennelong Point', line2: '', city: 'Sydney', region: 'NSW', postalCode: '2000', country: 'AU' },
+  { line1: '301 Front Street West', line2: '', city: 'Toronto', region: 'ON', postalCode: 'M5V 2T6', country: 'CA' },
+];
+
+function abortError() {
+  return new DOMException('The search was cancelled.', 'AbortError');
+}
+
+// Case and accent insensitive, so "barca" finds "Barça"
+function normalize(text: string) {
+  return text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase();
+}
+
+export function createStaticProvider(addresses: Address[] = SAMPLE_ADDRESSES): AddressAutocompleteProvider {
+  const entries = addresses.map((address, index) => {
+    const label = formatAddress(address, 'en');
+    return { id: `static-${index}`, label, address, searchText: normalize(label) };
+  });
+
+  return {
+    name: 'static',
+    async search(query: string, options: AddressSearchOptions = {}) {
+      const { country, limit = DEFAULT_LIMIT, signal } = options;
+      if (signal?.aborted) throw abortError();
+
+      const terms = normalize(query).split(/[\s,]+/).filter(Boolean);
+      if (terms.length === 0) return [];
+
+      return entries
+        .filter(entry => !country || entry.address.country === country)
+        .filter(entry => terms.every(term => entry.searchText.includes(term)))
+        .slice(0, limit)
+        .map(({ id, label, address }) => ({ id, label, address }));
+    },
+  };
+}
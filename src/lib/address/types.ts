@@ -0,0 +1,31 @@
+export interface Address {
+  line1: string;
+  line2: string;
+  // Town or city
+  city: string;
+  // State, province, county or region
+  region: string;
+  postalCode: string;
+  // ISO 3166-1 alpha-2
+  country: string;
+}
+
+export interface AddressSuggestion {
+  id: string;
+  // One line for the suggestion list, e.g. "221B Baker Street, London NW1 6XE"
+  label: string;
+  address: Address;
+}
+
+export interface AddressSearchOptions {
+  // Only suggest addresses in this country
+  country?: string;
+  limit?: number;
+  // Aborting the signal cancels the search and rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface AddressAutocompleteProvider {
+  readonly name: string;
+  search(query: string, options?: AddressSearchOptions): Promise<AddressSuggestion[]>;
+}
@@ -0,0 +1,44 @@
+import { countryName } from '../countries';
+import { getAge, isValidDate } from '../profile';
+import { UserData } from '../userRepository';
+import { AssistantContext } from './types';
+
+export function buildAssistantContext(
+  userData: UserData | null,
+  displayName?: string | null
+): AssistantContext {
+  const context: AssistantContext = {};
+
+  const name = userData?.username || displayName;
+  if (name) context.name = name;
+  if (userData?.dob) context.age = getAge(userData.dob);
+  if (userData?.address?.city) context.homeCity = userData.address.city;
+  if (userData?.address?.country) context.homeCountry = countryName(userData.address.country, 'en');
+
+  const preferences = userData?.preferences;
+  if (preferences?.homeAirport) context.homeAirport = preferences.homeAirport;
+  if (preferences?.seat && preferences.seat !== 'any') context.seat = preferences.seat;
+  if (preferences?.meal && preferences.meal !== 'any') context.meal = preferences.meal;
+  if (preferences?.budgetMin !== undefined || preferences?.budgetMax !== undefined) {
+    context.budget = {
+      min: preferences.budgetMin,
+      max: preferences.budgetMax,
+      currency: preferences.currency || undefined,
+    };
+  }
+  if (preferences?.interests?.length) context.interests = preferences.interests;
+  if (preferences?.loyaltyProgrammes?.length) {
+    context.loyaltyProgrammes = preferences.loyaltyProgrammes.map(loyalty => loyalty.programme);
+  }
+
+  if (userData?.companions?.length) {
+    context.companions = userData.companions.map(companion => ({
+      name: companion.name,
+      relationship: companion.relationship,
+      ...(isValidDate(companion.dob) && { age: getAge(companion.dob) }),
+    }));
+  }
+
+  return context;
+}
+
@@ -0,0 +1,35 @@
+import {
+  addDoc,
+  collection,
+  getDocs,
+  orderBy,
+  query,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { deleteDocuments } from '../batchDelete';
+import { createConverter, withCreatedTimestamps } from '../firestoreConverter';
+import { storedChatMessageSchema, toConversation } from './messages';
+import { ChatMessage } from './types';
+
+const messageConverter = createConverter(storedChatMessageSchema);
+
+function messagesCollection(uid: string) {
+  return collection(db, 'users', uid, 'assistantMessages').withConverter(messageConverter);
+}
+
+export async function loadHistory(uid: string): Promise<ChatMessage[]> {
+  const snapshot = await getDocs(query(messagesCollection(uid), orderBy('createdAt')));
+  return toConversation(snapshot.docs.map(messageDoc => messageDoc.data()));
+}
+
+export async function saveMessage(uid: string, message: ChatMessage) {
+  await addDoc(messagesCollection(uid), withCreatedTimestamps({
+    role: message.role,
+    content: message.content,
+  }));
+}
+
+export async function clearHistory(uid: string) {
+  const snapshot = await getDocs(messagesCollection(uid));
+  await deleteDocuments(snapshot.docs.map(messageDoc => messageDoc.ref));
+}
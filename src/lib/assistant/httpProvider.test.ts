@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHttpProvider } from './httpProvider';
+
+const URL = 'https://assistant.example.com/chat';
+
+// A streamed response delivered in the given chunks, which needn't line up
+// with event boundaries
+function streamedResponse(chunks: string[], init?: ResponseInit) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' }, ...init });
+}
+
+function stubFetch(response: Response) {
+  const fetchMock = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('createHttpProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('streams the tokens from server-sent events', async () => {
+    stubFetch(streamedResponse([
+      'data: {"delta": "Lisbon "}\n',
+      ': keep-alive\n\ndata: {"del',
+      'ta": "is lovely"}\n\n',
+      'data: [DONE]',
+    ]));
+    const tokens: string[] = [];
+
+    const reply = await createHttpProvider({ url: URL, getIdToken: async () => 'id-token' })
+      .sendMessage([{ role: 'user', content: 'Where in May?' }], { onToken: token => tokens.push(token) });
+
+    expect(tokens).toEqual(['Lisbon ', 'is lovely']);
+    expect(reply).toBe('Lisbon is lovely');
+  });
+
+  it('handles a last event without a trailing newline', async () => {
+    stubFetch(streamedResponse(['data: {"delta": "Hi"}\ndata: {"delta": " there"}']));
+
+    const reply = await createHttpProvider({ url: URL, getIdToken: async () => null }).sendMessage([]);
+
+    expect(reply).toBe('Hi there');
+  });
+
+  it("sends the conversation with the user's ID token", async () => {
+    const fetchMock = stubFetch(streamedResponse([]));
+    const messages = [{ role: 'user' as const, content: 'Where in May?' }];
+
+    await createHttpProvider({ url: URL, getIdToken: async () => 'id-token' })
+      .sendMessage(messages, { context: { name: 'Tara' } });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(URL);
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer id-token' });
+    expect(JSON.parse(init.body)).toEqual({ messages, context: { name: 'Tara' } });
+  });
+
+  it('leaves the Authorization header out when signed out', async () => {
+    const fetchMock = stubFetch(streamedResponse([]));
+
+    await createHttpProvider({ url: URL, getIdToken: async () => null }).sendMessage([]);
+
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+  });
+
+  it('rejects when the request fails', async () => {
+    stubFetch(new Response('Unauthorized', { status: 401 }));
+
+    await expect(createHttpProvider({ url: URL, getIdToken: async () => null }).sendMessage([]))
+      .rejects.toThrow('Assistant request failed with status 401');
+  });
+});
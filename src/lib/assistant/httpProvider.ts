@@ -0,0 +1,69 @@
+import { AssistantProvider, ChatMessage, SendMessageOptions } from './types';
+
+export interface HttpProviderConfig {
+  url: string;
+  // The signed-in user's Firebase ID token, which the backend verifies. The
+  // model provider's key stays on the backend, out of the browser.
+  getIdToken: () => Promise<string | null>;
+}
+
+// Parses one server-sent event line of the form `data: {"delta": "..."}`.
+// Returns null for anything that isn't a token (comments, `[DONE]`, blanks).
+function parseEventLine(line: string) {
+  if (!line.startsWith('data:')) return null;
+  const data = line.slice(5).trim();
+  if (!data || data === '[DONE]') return null;
+  const parsed = JSON.parse(data) as { delta?: string };
+  return parsed.delta ?? null;
+}
+
+export function createHttpProvider({ url, getIdToken }: HttpProviderConfig): AssistantProvider {
+  return {
+    name: 'http',
+    async sendMessage(messages: ChatMessage[], options: SendMessageOptions = {}) {
+      const { context, onToken, signal } = options;
+      const idToken = await getIdToken();
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+        },
+        body: JSON.stringify({ messages, context }),
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Assistant request failed with status ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+
+      const handleLine = (line: string) => {
+        const token = parseEventLine(line.trim());
+        if (token) {
+          content += token;
+          onToken?.(token);
+        }
+      };
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer);
+
+      return content;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { createHttpProvider, HttpProviderConfig } from './httpProvider';
+import { createMockProvider } from './mockProvider';
+import { AssistantProvider } from './types';
+
+export * from './types';
+export { buildAssistantContext } from './context';
+export { loadHistory, saveMessage, clearHistory } from './history';
+
+const assistantConfig = {
+  provider: import.meta.env.VITE_ASSISTANT_PROVIDER,
+  apiUrl: import.meta.env.VITE_ASSISTANT_API_URL
+};
+
+// Falls back to the offline mock unless an HTTP endpoint is configured
+export function createAssistantProvider({ getIdToken }: Pick<HttpProviderConfig, 'getIdToken'>): AssistantProvider {
+  if (assistantConfig.provider === 'http' && assistantConfig.apiUrl) {
+    return createHttpProvider({
+      url: assistantConfig.apiUrl,
+      getIdToken,
+    });
+  }
+  return createMockProvider();
+}
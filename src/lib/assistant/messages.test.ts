@@ -0,0 +1,46 @@
+import { Timestamp } from 'firebase/firestore';
+import { describe, expect, it } from 'vitest';
+import { storedChatMessageSchema, toConversation } from './messages';
+
+describe('storedChatMessageSchema', () => {
+  it('reads server timestamps and the ISO strings older messages were saved with', () => {
+    const sentAt = new Date('2024-05-01T10:00:00.000Z');
+
+    expect(storedChatMessageSchema.parse({
+      role: 'user',
+      content: 'Where should I go in May?',
+      createdAt: Timestamp.fromDate(sentAt),
+    })).toEqual({ role: 'user', content: 'Where should I go in May?', createdAt: sentAt });
+    expect(storedChatMessageSchema.parse({
+      role: 'assistant',
+      content: 'Lisbon is lovely in May.',
+      createdAt: '2024-05-01T10:00:00.000Z',
+    }).createdAt).toEqual(sentAt);
+  });
+
+  it('falls back to defaults for malformed messages', () => {
+    expect(storedChatMessageSchema.parse({ role: 'system', content: 42 }))
+      .toEqual({ role: 'assistant', content: '', createdAt: undefined });
+  });
+});
+
+describe('toConversation', () => {
+  it('orders messages by when they were sent and drops the dates', () => {
+    expect(toConversation([
+      { role: 'user', content: 'And in June?', createdAt: new Date('2024-05-02T09:00:00Z') },
+      { role: 'user', content: 'Where should I go in May?', createdAt: new Date('2024-05-01T10:00:00Z') },
+      { role: 'assistant', content: 'Lisbon.', createdAt: new Date('2024-05-01T10:00:05Z') },
+    ])).toEqual([
+      { role: 'user', content: 'Where should I go in May?' },
+      { role: 'assistant', content: 'Lisbon.' },
+      { role: 'user', content: 'And in June?' },
+    ]);
+  });
+
+  it('keeps the stored order for messages without a date', () => {
+    expect(toConversation([
+      { role: 'user', content: 'First', createdAt: undefined },
+      { role: 'assistant', content: 'Second', createdAt: undefined },
+    ]).map(message => message.content)).toEqual(['First', 'Second']);
+  });
+});
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { timestampField } from '../firestoreConverter';
+import { ChatMessage, ChatRole } from './types';
+
+const CHAT_ROLES = ['user', 'assistant'] as const satisfies readonly ChatRole[];
+
+// Stored form of a ChatMessage in users/{uid}/assistantMessages
+export const storedChatMessageSchema = z.object({
+  role: z.enum(CHAT_ROLES).catch('assistant'),
+  content: z.string().catch(''),
+  createdAt: timestampField,
+});
+
+export type StoredChatMessage = z.infer<typeof storedChatMessageSchema>;
+
+// Puts saved messages in the order they were sent. Firestore sorts
+// timestamps before strings, so messages saved with ISO string dates by
+// older versions would otherwise come after newer ones.
+export function toConversation(messages: StoredChatMessage[]): ChatMessage[] {
+  return messages
+    .map((message, index) => ({ message, index }))
+    .sort((a, b) =>
+      (a.message.createdAt?.getTime() ?? 0) - (b.message.createdAt?.getTime() ?? 0) || a.index - b.index
+    )
+    .map(({ message: { role, content } }) => ({ role, content }));
+}
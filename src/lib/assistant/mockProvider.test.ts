@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { composeMockReply, createMockProvider } from './mockProvider';
+import { ChatMessage } from './types';
+
+function ask(content: string): ChatMessage[] {
+  return [{ role: 'user', content }];
+}
+
+describe('composeMockReply', () => {
+  it('answers the last question asked', () => {
+    const reply = composeMockReply([
+      ...ask('What should I pack?'),
+      { role: 'assistant', content: 'Layers.' },
+      ...ask('Do I need a visa?'),
+    ]);
+    expect(reply).toMatch(/passport is valid/);
+  });
+
+  it('personalises replies from the context', () => {
+    const reply = composeMockReply(ask('Which flight should I book?'), {
+      name: 'Tara',
+      homeAirport: 'LHR',
+      seat: 'aisle',
+    });
+    expect(reply).toMatch(/^Hi Tara! /);
+    expect(reply).toContain('from LHR');
+    expect(reply).toContain('aisle seats');
+  });
+
+  it('falls back to the home city when there is no airport', () => {
+    const reply = composeMockReply(ask('How do I keep the cost down?'), {
+      homeCity: 'London',
+      homeCountry: 'United Kingdom',
+    });
+    expect(reply).toContain('from London, United Kingdom');
+  });
+
+  it('asks where to go when there is no question yet', () => {
+    expect(composeMockReply([])).toBe('Hi! Where would you like to go next?');
+  });
+
+  it('always gives the same reply to the same question', () => {
+    expect(composeMockReply(ask('Plan me a weekend'))).toBe(composeMockReply(ask('Plan me a weekend')));
+  });
+});
+
+describe('createMockProvider', () => {
+  it('streams the reply word by word', async () => {
+    const tokens: string[] = [];
+    const reply = await createMockProvider(0).sendMessage(ask('What should I pack?'), {
+      onToken: token => tokens.push(token),
+    });
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(reply);
+    expect(reply).toBe(composeMockReply(ask('What should I pack?')));
+  });
+
+  it('stops with an AbortError when cancelled', async () => {
+    const controller = new AbortController();
+    const tokens: string[] = [];
+    const reply = createMockProvider(0).sendMessage(ask('What should I pack?'), {
+      signal: controller.signal,
+      onToken: token => {
+        tokens.push(token);
+        controller.abort();
+      },
+    });
+
+    await expect(reply).rejects.toMatchObject({ name: 'AbortError' });
+    expect(tokens).toHaveLength(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { AssistantContext, AssistantProvider, ChatMessage, SendMessageOptions } from './types';
+
+const TOKEN_DELAY_MS = 20;
+
+function abortError() {
+  return new DOMException('The request was cancelled.', 'AbortError');
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Canned replies keyed on what the traveller asked about. The reply only
+// depends on the input, so the assistant behaves the same on every run.
+export function composeMockReply(messages: ChatMessage[], context: AssistantContext = {}) {
+  const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+  const question = lastUserMessage?.content.toLowerCase() ?? '';
+  const greeting = context.name ? `Hi ${context.name}! ` : 'Hi! ';
+  const home = [context.homeCity, context.homeCountry].filter(Boolean).join(', ');
+  const origin = home ? ` from ${home}` : '';
+  const departure = context.homeAirport ? ` from ${context.homeAirport}` : origin;
+
+  if (!question.trim()) {
+    return `${greeting}Where would you like to go next?`;
+  }
+  if (/\b(pack|packing|luggage|bag)\b/.test(question)) {
+    return `${greeting}For most trips pack layers, a universal adapter, copies of your documents and any medication in your carry-on.`;
+  }
+  if (/\b(budget|cheap|cost|price|money)\b/.test(question)) {
+    return `${greeting}To stretch your budget, travel shoulder season, book flights${departure} six to eight weeks ahead and mix hotels with local guesthouses.`;
+  }
+  if (/\b(visa|passport)\b/.test(question)) {
+    return `${greeting}Check that your passport is valid for at least six months after your return date, and confirm visa rules with the destination's embassy before booking.`;
+  }
+  if (/\b(flight|fly|airport)\b/.test(question)) {
+    const seat = context.seat ? ` I'll look for ${context.seat} seats.` : '';
+    return `${greeting}I'd compare direct and one-stop flights${departure}; a short layover often saves a lot without adding much travel time.${seat}`;
+  }
+  if (context.age !== undefined && context.age < 26 && /\b(discount|deal)\b/.test(question)) {
+    return `${greeting}At ${context.age} you may qualify for youth rail passes and student discounts at many museums.`;
+  }
+  return `${greeting}That sounds like a great idea. Tell me your dates and budget and I'll suggest an itinerary.`;
+}
+
+export function createMockProvider(tokenDelayMs = TOKEN_DELAY_MS): AssistantProvider {
+  return {
+    name: 'mock',
+    async sendMessage(messages: ChatMessage[], options: SendMessageOptions = {}) {
+      const { context, onToken, signal } = options;
+      const reply = composeMockReply(messages, context);
+
+      // Stream the reply word by word to mimic a real model
+      const tokens = reply.match(/\S+\s*/g) ?? [];
+      let content = '';
+      for (const token of tokens) {
+        await wait(tokenDelayMs, signal);
+        content += token;
+        onToken?.(token);
+      }
+      return content;
+    },
+  };
+}
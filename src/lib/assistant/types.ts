@@ -0,0 +1,42 @@
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface AssistantCompanion {
+  name: string;
+  relationship: string;
+  age?: number;
+}
+
+export interface AssistantContext {
+  name?: string;
+  age?: number;
+  // Only the city and country; the street address stays in the profile
+  homeCity?: string;
+  homeCountry?: string;
+  homeAirport?: string;
+  seat?: string;
+  meal?: string;
+  // Per person per day
+  budget?: { min?: number; max?: number; currency?: string };
+  interests?: string[];
+  // Programme names only; membership numbers stay in the profile
+  loyaltyProgrammes?: string[];
+  companions?: AssistantCompanion[];
+}
+
+export interface SendMessageOptions {
+  context?: AssistantContext;
+  // Called with each chunk of the reply as it arrives
+  onToken?: (token: string) => void;
+  // Aborting the signal cancels the request and rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface AssistantProvider {
+  readonly name: string;
+  sendMessage(messages: ChatMessage[], options?: SendMessageOptions): Promise<string>;
+}
@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GithubAuthProvider } from 'firebase/auth';
+import { clearStoredPendingLink, PendingLink, readStoredPendingLink, storePendingLink } from './authProviders';
+
+describe('stored pending links', () => {
+  const link: PendingLink = {
+    email: 'alice@example.com',
+    providerId: 'github.com',
+    credential: GithubAuthProvider.credential('access-token'),
+    existingMethods: ['google.com'],
+  };
+
+  beforeEach(() => sessionStorage.clear());
+
+  it('round-trips through sessionStorage, credential included', () => {
+    storePendingLink(link);
+    const restored = readStoredPendingLink();
+    expect(restored).toMatchObject({ email: link.email, providerId: 'github.com', existingMethods: ['google.com'] });
+    expect(restored?.credential.toJSON()).toEqual(link.credential.toJSON());
+  });
+
+  it('reads nothing once cleared', () => {
+    storePendingLink(link);
+    clearStoredPendingLink();
+    expect(readStoredPendingLink()).toBeNull();
+  });
+
+  it('ignores unreadable links', () => {
+    sessionStorage.setItem('authPendingLink', '{not json');
+    expect(readStoredPendingLink()).toBeNull();
+    sessionStorage.setItem('authPendingLink', JSON.stringify({ email: 'alice@example.com', providerId: 'github.com' }));
+    expect(readStoredPendingLink()).toBeNull();
+  });
+});
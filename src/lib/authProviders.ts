@@ -0,0 +1,118 @@
+import {
+  AuthCredential,
+  AuthProvider,
+  FacebookAuthProvider,
+  GithubAuthProvider,
+  GoogleAuthProvider,
+  OAuthCredential,
+  OAuthProvider,
+} from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+
+export const OAUTH_PROVIDERS = [
+  'google.com',
+  'apple.com',
+  'microsoft.com',
+  'github.com',
+  'facebook.com',
+] as const;
+
+export type OAuthProviderId = typeof OAUTH_PROVIDERS[number];
+
+export const providerLabels: Record<OAuthProviderId, string> = {
+  'google.com': 'Google',
+  'apple.com': 'Apple',
+  'microsoft.com': 'Microsoft',
+  'github.com': 'GitHub',
+  'facebook.com': 'Facebook',
+};
+
+export function isOAuthProviderId(value: string): value is OAuthProviderId {
+  return (OAUTH_PROVIDERS as readonly string[]).includes(value);
+}
+
+export function createAuthProvider(providerId: OAuthProviderId): AuthProvider {
+  switch (providerId) {
+    case 'google.com':
+      return new GoogleAuthProvider();
+    case 'github.com':
+      return new GithubAuthProvider();
+    case 'facebook.com':
+      return new FacebookAuthProvider();
+    case 'apple.com': {
+      const provider = new OAuthProvider('apple.com');
+      provider.addScope('email');
+      provider.addScope('name');
+      return provider;
+    }
+    case 'microsoft.com': {
+      const provider = new OAuthProvider('microsoft.com');
+      provider.setCustomParameters({ prompt: 'select_account' });
+      return provider;
+    }
+  }
+}
+
+export function credentialFromError(providerId: OAuthProviderId, err: FirebaseError): AuthCredential | null {
+  switch (providerId) {
+    case 'google.com':
+      return GoogleAuthProvider.credentialFromError(err);
+    case 'github.com':
+      return GithubAuthProvider.credentialFromError(err);
+    case 'facebook.com':
+      return FacebookAuthProvider.credentialFromError(err);
+    default:
+      return OAuthProvider.credentialFromError(err);
+  }
+}
+
+// Popups are unreliable on mobile browsers, so go straight to a redirect there
+export function prefersRedirect() {
+  return /Android|iPhone|iPad|iPod|Mobile/i.test(navigator.userAgent);
+}
+
+// Set when someone signs in with a provider whose email already belongs to an
+// account using a different method. Signing in with that method links it.
+export interface PendingLink {
+  email: string;
+  providerId: OAuthProviderId;
+  credential: AuthCredential;
+  // Sign-in methods already on the account, e.g. 'password' or 'google.com'
+  existingMethods: string[];
+}
+
+// Kept in sessionStorage while it's pending, so signing in to the existing
+// account with a redirect, which reloads the page, still links the provider
+const PENDING_LINK_KEY = 'authPendingLink';
+
+export function storePendingLink(link: PendingLink) {
+  sessionStorage.setItem(PENDING_LINK_KEY, JSON.stringify({ ...link, credential: link.credential.toJSON() }));
+}
+
+export function readStoredPendingLink(): PendingLink | null {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(PENDING_LINK_KEY) ?? 'null');
+    if (!stored || typeof stored.email !== 'string' || !isOAuthProviderId(stored.providerId)) return null;
+
+    const credential = OAuthCredential.fromJSON(stored.credential);
+    if (!credential) return null;
+
+    const existingMethods = Array.isArray(stored.existingMethods)
+      ? stored.existingMethods.filter((method: unknown) => typeof method === 'string')
+      : [];
+    return { email: stored.email, providerId: stored.providerId, credential, existingMethods };
+  } catch {
+    return null;
+  }
+}
+
+export function clearStoredPendingLink() {
+  sessionStorage.removeItem(PENDING_LINK_KEY);
+}
+
+export class AccountExistsError extends Error {
+  constructor(public readonly pendingLink: PendingLink) {
+    super('An account already exists with the same email address.');
+    this.name = 'AccountExistsError';
+  }
+}
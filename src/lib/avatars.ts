@@ -0,0 +1,77 @@
+import { deleteObject, getDownloadURL, listAll, ref } from 'firebase/storage';
+import { storage } from './firebase';
+import { AVATAR_SIZES, AvatarSize } from './images';
+import { FileUpload, startUpload } from './uploads';
+import { UserData } from './userRepository';
+
+// The download URL of the picture in each size
+export type AvatarURLs = Record<AvatarSize, string>;
+
+export type AvatarUpload = FileUpload<AvatarURLs>;
+
+function avatarFolder(uid: string) {
+  return ref(storage, `profileImages/${uid}`);
+}
+
+// Uploads every size side by side, reporting progress across all of them
+export function uploadAvatar(
+  uid: string,
+  images: Record<AvatarSize, Blob>,
+  onProgress: (fraction: number) => void
+): AvatarUpload {
+  const uploadedAt = Date.now();
+  const sizes = Object.keys(images) as AvatarSize[];
+  const totalBytes = sizes.reduce((total, size) => total + images[size].size, 0);
+  const transferred: Partial<Record<AvatarSize, number>> = {};
+
+  const uploads = sizes.map(size => {
+    const image = images[size];
+    const extension = image.type === 'image/webp' ? 'webp' : 'jpg';
+    const avatarRef = ref(avatarFolder(uid), `${uploadedAt}-${AVATAR_SIZES[size]}.${extension}`);
+    return startUpload(avatarRef, image, {
+      contentType: image.type,
+      cacheControl: 'public, max-age=31536000',
+    }, fraction => {
+      transferred[size] = fraction * image.size;
+      const bytes = Object.values(transferred).reduce((total, value) => total + value, 0);
+      onProgress(totalBytes ? bytes / totalBytes : 1);
+    });
+  });
+
+  const cancel = () => uploads.forEach(upload => upload.cancel());
+  const done = Promise.all(uploads.map(upload => upload.done.then(getDownloadURL)))
+    .then(urls => Object.fromEntries(sizes.map((size, i) => [size, urls[i]])) as AvatarURLs)
+    .catch(err => {
+      // Don't carry on with the other sizes once one has failed
+      cancel();
+      throw err;
+    });
+
+  return { done, cancel };
+}
+
+// The picture to show at the given size. Profiles saved before avatars came
+// in several sizes, and provider pictures, only have photoURL.
+export function avatarURL(profile: Pick<UserData, 'photoURL' | 'photoURLs'>, size: AvatarSize) {
+  return profile.photoURLs?.[size] ?? profile.photoURL;
+}
+
+// Removes every avatar in the user's folder except the ones now in use, so
+// replaced and abandoned uploads don't pile up in Storage
+export async function deleteOtherAvatars(uid: string, keepURLs: string[]) {
+  const keepPaths = new Set(keepURLs.flatMap(url => {
+    try {
+      return [ref(storage, url).fullPath];
+    } catch {
+      // A photo hosted elsewhere, such as a Google account picture
+      return [];
+    }
+  }));
+
+  const { items } = await listAll(avatarFolder(uid));
+  await Promise.all(
+    items
+      .filter(item => !keepPaths.has(item.fullPath))
+      .map(item => deleteObject(item))
+  );
+}
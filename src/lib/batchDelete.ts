@@ -0,0 +1,15 @@
+import { DocumentReference, writeBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import { chunk } from './utils';
+
+// The most writes Firestore accepts in one batch
+const MAX_BATCH_WRITES = 500;
+
+// Deletes the documents in as many batches as it takes
+export async function deleteDocuments(refs: DocumentReference[]) {
+  for (const refsInBatch of chunk(refs, MAX_BATCH_WRITES)) {
+    const batch = writeBatch(db);
+    refsInBatch.forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+}
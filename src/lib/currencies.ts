@@ -0,0 +1,19 @@
+// ISO 4217 codes travellers are most likely to budget in. Names come from
+// Intl.DisplayNames, like country names in ./countries.
+export const CURRENCY_CODES = [
+  'AED', 'AUD', 'BRL', 'CAD', 'CHF', 'CNY', 'CZK', 'DKK', 'EUR', 'GBP', 'HKD', 'IDR', 'ILS',
+  'INR', 'JPY', 'KRW', 'MXN', 'MYR', 'NOK', 'NZD', 'PHP', 'PLN', 'SAR', 'SEK', 'SGD', 'THB',
+  'TRY', 'USD', 'ZAR',
+];
+
+export function isCurrencyCode(value: string) {
+  return CURRENCY_CODES.includes(value);
+}
+
+export function currencyName(code: string, locale?: string) {
+  try {
+    return new Intl.DisplayNames(locale, { type: 'currency' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  createConverter,
+  optionalStringField,
+  timestampField,
+  withCreatedTimestamps,
+  withUpdatedTimestamp,
+} from './firestoreConverter';
+import { DOCUMENT_TYPES, TravelDocumentData } from './documents';
+
+// What's stored in users/{uid}/documents. `scanPath` is the Storage path of
+// the uploaded scan (see src/lib/documentScans.ts), not a download URL, so
+// access is always checked against storage.rules.
+const storedTravelDocumentSchema = z.object({
+  type: z.enum(DOCUMENT_TYPES).catch('passport'),
+  companionId: z.string().catch(''),
+  holderName: z.string().catch(''),
+  country: z.string().catch(''),
+  number: z.string().catch(''),
+  provider: z.string().catch(''),
+  issueDate: z.string().catch(''),
+  expiryDate: z.string().catch(''),
+  scanPath: optionalStringField,
+  createdAt: timestampField,
+  updatedAt: timestampField,
+});
+
+type StoredTravelDocument = z.infer<typeof storedTravelDocumentSchema>;
+
+export interface TravelDocument extends StoredTravelDocument {
+  id: string;
+}
+
+export type TravelDocumentInput = TravelDocumentData & { scanPath?: string };
+
+const travelDocumentConverter = createConverter(storedTravelDocumentSchema);
+
+function documentsCollection(uid: string) {
+  return collection(db, 'users', uid, 'documents').withConverter(travelDocumentConverter);
+}
+
+export async function listTravelDocuments(uid: string): Promise<TravelDocument[]> {
+  const snapshot = await getDocs(query(documentsCollection(uid), orderBy('expiryDate')));
+  return snapshot.docs.map(documentDoc => ({ id: documentDoc.id, ...documentDoc.data() }));
+}
+
+export async function createTravelDocument(uid: string, data: TravelDocumentInput): Promise<string> {
+  const documentRef = await addDoc(documentsCollection(uid), withCreatedTimestamps(data));
+  return documentRef.id;
+}
+
+export async function updateTravelDocument(uid: string, documentId: string, data: TravelDocumentInput) {
+  await updateDoc(doc(documentsCollection(uid), documentId), withUpdatedTimestamp(data));
+}
+
+export async function deleteTravelDocument(uid: string, documentId: string) {
+  await deleteDoc(doc(documentsCollection(uid), documentId));
+}
@@ -0,0 +1,36 @@
+import { deleteObject, getDownloadURL, ref } from 'firebase/storage';
+import { storage } from './firebase';
+import { FileUpload, startUpload } from './uploads';
+
+// Matches isValidDocumentScan in storage.rules
+export const MAX_SCAN_MB = 10;
+export const MAX_SCAN_BYTES = MAX_SCAN_MB * 1024 * 1024;
+
+// Photos of a document, or the PDF most insurers send policies as
+export function isSupportedScanType(type: string) {
+  return type.startsWith('image/') || type === 'application/pdf';
+}
+
+// Resolves with the Storage path of the uploaded scan
+export function uploadDocumentScan(
+  uid: string,
+  documentId: string,
+  file: File,
+  onProgress: (fraction: number) => void
+): FileUpload<string> {
+  const extension = file.type === 'application/pdf' ? 'pdf' : file.type.split('/')[1] || 'img';
+  const scanRef = ref(storage, `travelDocuments/${uid}/${documentId}/${Date.now()}.${extension}`);
+  const upload = startUpload(scanRef, file, { contentType: file.type }, onProgress);
+
+  return { done: upload.done.then(uploaded => uploaded.fullPath), cancel: upload.cancel };
+}
+
+// Download URLs are fetched when needed rather than stored, since anyone
+// holding one can open the file
+export function getDocumentScanURL(scanPath: string) {
+  return getDownloadURL(ref(storage, scanPath));
+}
+
+export function deleteDocumentScan(scanPath: string) {
+  return deleteObject(ref(storage, scanPath));
+}
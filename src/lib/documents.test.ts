@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addMonths,
+  getExpiryWarnings,
+  isValidPassportNumber,
+  travelDocumentSchema,
+  TravelDocumentFormData,
+} from './documents';
+import { translateMessage } from './i18n';
+import { TravelDocument } from './documentRepository';
+import { Trip } from './trips';
+
+const passport: TravelDocumentFormData = {
+  type: 'passport',
+  companionId: '',
+  holderName: 'Alice Smith',
+  country: 'GB',
+  number: '123456789',
+  provider: '',
+  issueDate: '2020-03-01',
+  expiryDate: '2030-03-01',
+};
+
+function document(expiryDate: string, id = 'passport'): TravelDocument {
+  return {
+    id,
+    type: 'passport',
+    companionId: '',
+    holderName: '',
+    country: 'GB',
+    number: '123456789',
+    provider: '',
+    issueDate: '',
+    expiryDate,
+  };
+}
+
+function trip(startDate: string, endDate: string, id = 'lisbon'): Trip {
+  return { id, destination: 'Lisbon', startDate, endDate, travellers: 1, days: [] };
+}
+
+describe('isValidPassportNumber', () => {
+  it.each([
+    ['GB', '123456789'],
+    ['US', 'A12345678'],
+    ['US', '123456789'],
+    ['IN', 'K1234567'],
+    ['FR', '12AB34567'],
+    ['CA', 'AB123456'],
+  ])('accepts a %s passport number %s', (country, number) => {
+    expect(isValidPassportNumber(country, number)).toBe(true);
+  });
+
+  it.each([
+    ['GB', 'A12345678'],
+    ['IN', '12345678'],
+    ['FR', '123456789'],
+    ['CA', 'A1234567'],
+  ])('rejects %s passport number %s', (country, number) => {
+    expect(isValidPassportNumber(country, number)).toBe(false);
+  });
+
+  it('ignores spaces and letter case', () => {
+    expect(isValidPassportNumber('IN', 'k 123 4567')).toBe(true);
+  });
+
+  it('falls back to the ICAO length limit for other countries', () => {
+    expect(isValidPassportNumber('BR', 'FX123456')).toBe(true);
+    expect(isValidPassportNumber('BR', 'FX1234567890')).toBe(false);
+  });
+});
+
+describe('travelDocumentSchema', () => {
+  function messagesFor(data: TravelDocumentFormData) {
+    const result = travelDocumentSchema.safeParse(data);
+    return result.success ? {} : Object.fromEntries(
+      result.error.issues.map(issue => [issue.path.join('.'), translateMessage('en', issue.message)])
+    );
+  }
+
+  it('accepts a valid passport and normalises its number', () => {
+    const result = travelDocumentSchema.parse({ ...passport, country: 'IN', number: 'k1234567' });
+    expect(result.number).toBe('K1234567');
+  });
+
+  it('checks passport numbers against the issuing country', () => {
+    expect(messagesFor({ ...passport, country: 'IN' })).toEqual({
+      number: "This doesn't look like a passport number from the selected country",
+    });
+  });
+
+  it('requires a country for passports and visas', () => {
+    expect(messagesFor({ ...passport, country: '' })).toEqual({ country: 'Please select a country' });
+    expect(messagesFor({ ...passport, type: 'visa', country: 'XX' })).toEqual({
+      country: 'Please select a country',
+    });
+  });
+
+  it('requires a provider for insurance and drops the country', () => {
+    const insurance = { ...passport, type: 'insurance' as const, number: 'POL/2024-17' };
+    expect(messagesFor(insurance)).toEqual({ provider: 'Provider is required' });
+
+    const result = travelDocumentSchema.parse({ ...insurance, provider: 'Acme Travel' });
+    expect(result.country).toBe('');
+    expect(result.number).toBe('POL/2024-17');
+  });
+
+  it('requires an expiry date after the issue date', () => {
+    expect(messagesFor({ ...passport, expiryDate: '' })).toEqual({ expiryDate: 'Expiry date is required' });
+    expect(messagesFor({ ...passport, expiryDate: '2019-01-01' })).toEqual({
+      expiryDate: 'Expiry date must be after the issue date',
+    });
+  });
+});
+
+describe('addMonths', () => {
+  it('adds calendar months across a year end', () => {
+    expect(addMonths('2024-09-15', 6)).toBe('2025-03-15');
+  });
+
+  it('clamps to the end of shorter months', () => {
+    expect(addMonths('2024-08-31', 6)).toBe('2025-02-28');
+    expect(addMonths('2023-08-31', 6)).toBe('2024-02-29');
+  });
+});
+
+describe('getExpiryWarnings', () => {
+  const today = new Date(2024, 5, 15);
+
+  it('warns about documents expiring within six months of a planned trip', () => {
+    const warnings = getExpiryWarnings([document('2024-12-01')], [trip('2024-07-01', '2024-07-10')], today);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ trip: { id: 'lisbon' }, expiresDuringTrip: false });
+  });
+
+  it('flags documents that run out before the trip ends', () => {
+    const warnings = getExpiryWarnings([document('2024-07-05')], [trip('2024-07-01', '2024-07-10')], today);
+    expect(warnings[0].expiresDuringTrip).toBe(true);
+  });
+
+  it('measures the six months from the last day of the trip', () => {
+    const trips = [trip('2024-07-01', '2024-07-10')];
+    expect(getExpiryWarnings([document('2025-01-09')], trips, today)).toHaveLength(1);
+    expect(getExpiryWarnings([document('2025-01-10')], trips, today)).toHaveLength(0);
+  });
+
+  it('ignores trips that are over and documents without a usable date', () => {
+    expect(getExpiryWarnings([document('2024-06-01')], [trip('2024-05-01', '2024-05-10')], today)).toEqual([]);
+    expect(getExpiryWarnings([document('')], [trip('2024-07-01', '2024-07-10')], today)).toEqual([]);
+  });
+
+  it('uses the start date of trips without an end date', () => {
+    const warnings = getExpiryWarnings([document('2024-08-01')], [trip('2024-07-01', '', 'undated')], today);
+    expect(warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import { isCountryCode } from './countries';
+import { MessageKey } from './i18n';
+import { isValidDate } from './profile';
+import { TravelDocument } from './documentRepository';
+import { Trip } from './trips';
+import { toDateString } from './utils';
+
+export const DOCUMENT_TYPES = ['passport', 'visa', 'insurance'] as const;
+
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+export const documentTypeLabels: Record<DocumentType, MessageKey> = {
+  passport: 'documents.passport',
+  visa: 'documents.visa',
+  insurance: 'documents.insurance',
+};
+
+// Passport number formats for the countries most of our travellers hold
+// passports from. Anything else is checked against the ICAO 9303 limit of
+// up to nine letters and digits.
+export const PASSPORT_NUMBER_FORMATS: Record<string, RegExp> = {
+  AU: /^[A-Z]{1,2}\d{7}$/,
+  CA: /^[A-Z]{2}\d{6}$/,
+  CN: /^(E[A-Z0-9]\d{7}|G\d{8})$/,
+  DE: /^[CFGHJKLMNPRTVWXYZ0-9]{9}$/,
+  ES: /^[A-Z]{3}\d{6}$/,
+  FR: /^\d{2}[A-Z]{2}\d{5}$/,
+  GB: /^\d{9}$/,
+  IE: /^[A-Z]{2}\d{7}$/,
+  IN: /^[A-Z]\d{7}$/,
+  IT: /^[A-Z]{2}\d{7}$/,
+  JP: /^[A-Z]{2}\d{7}$/,
+  NZ: /^[A-Z]{2}\d{6}$/,
+  SG: /^[A-Z]\d{7}[A-Z]$/,
+  US: /^([A-Z]\d{8}|\d{9})$/,
+};
+
+const DEFAULT_PASSPORT_NUMBER_FORMAT = /^[A-Z0-9]{6,9}$/;
+
+// Passport numbers are often written with spaces or in lower case
+export function normalizePassportNumber(value: string) {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function isValidPassportNumber(country: string, number: string) {
+  const format = PASSPORT_NUMBER_FORMATS[country] ?? DEFAULT_PASSPORT_NUMBER_FORMAT;
+  return format.test(normalizePassportNumber(number));
+}
+
+export const travelDocumentSchema = z.object({
+  type: z.enum(DOCUMENT_TYPES),
+  // A saved companion's id (see companionSchema), or empty for the account holder
+  companionId: z.string(),
+  holderName: z.string().trim().max(200, 'validation.holderNameTooLong'),
+  // Issuing country for passports, the country a visa is for
+  country: z.string(),
+  // Passport, visa or insurance policy number
+  number: z.string().trim()
+    .min(1, 'validation.documentNumberRequired')
+    .max(50, 'validation.documentNumberTooLong'),
+  // Insurer, for travel insurance
+  provider: z.string().trim().max(200, 'validation.providerTooLong'),
+  issueDate: z.string(),
+  expiryDate: z.string(),
+}).superRefine((data, ctx) => {
+  if (data.type !== 'insurance' && !isCountryCode(data.country)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.countryRequired',
+      path: ['country'],
+    });
+  } else if (data.type === 'passport' && data.number && !isValidPassportNumber(data.country, data.number)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.passportNumberInvalid',
+      path: ['number'],
+    });
+  }
+
+  if (data.type === 'insurance' && !data.provider) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.providerRequired',
+      path: ['provider'],
+    });
+  }
+
+  if (data.issueDate && !isValidDate(data.issueDate)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.dateInvalid',
+      path: ['issueDate'],
+    });
+  }
+
+  if (!data.expiryDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.expiryDateRequired',
+      path: ['expiryDate'],
+    });
+  } else if (!isValidDate(data.expiryDate)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.dateInvalid',
+      path: ['expiryDate'],
+    });
+  } else if (data.issueDate && data.expiryDate < data.issueDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.expiryBeforeIssue',
+      path: ['expiryDate'],
+    });
+  }
+}).transform(data => ({
+  ...data,
+  number: data.type === 'passport' ? normalizePassportNumber(data.number) : data.number,
+  country: data.type === 'insurance' ? '' : data.country,
+  provider: data.type === 'insurance' ? data.provider : '',
+}));
+
+export type TravelDocumentFormData = z.input<typeof travelDocumentSchema>;
+export type TravelDocumentData = z.output<typeof travelDocumentSchema>;
+
+// Many countries refuse entry on a passport with less than six months left,
+// and insurers and visas are checked against the same window
+export const EXPIRY_WARNING_MONTHS = 6;
+
+// Adds calendar months to a YYYY-MM-DD date, clamping to the end of shorter
+// months so 31 August + 6 months is 28/29 February rather than early March
+export function addMonths(date: string, months: number) {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(year, month - 1 + months + 1, 0).getDate();
+  return toDateString(new Date(year, month - 1 + months, Math.min(day, lastDay)));
+}
+
+export interface ExpiryWarning {
+  document: TravelDocument;
+  trip: Trip;
+  // The document runs out before the trip is over, not just inside the window
+  expiresDuringTrip: boolean;
+}
+
+function lastDayOf(trip: Trip) {
+  return trip.endDate || trip.startDate;
+}
+
+// Pairs every document with each planned trip it won't stay valid long
+// enough for. Trips that have already ended are ignored.
+export function getExpiryWarnings(
+  documents: TravelDocument[],
+  trips: Trip[],
+  today = new Date()
+): ExpiryWarning[] {
+  const todayString = toDateString(today);
+  const plannedTrips = trips.filter(trip => isValidDate(lastDayOf(trip)) && lastDayOf(trip) >= todayString);
+
+  return documents
+    .filter(document => isValidDate(document.expiryDate))
+    .flatMap(document => plannedTrips
+      .filter(trip => document.expiryDate < addMonths(lastDayOf(trip), EXPIRY_WARNING_MONTHS))
+      .map(trip => ({ document, trip, expiresDuringTrip: document.expiryDate < lastDayOf(trip) })));
+}
+
+export function isExpired(document: TravelDocument, today = new Date()) {
+  return isValidDate(document.expiryDate) && document.expiryDate < toDateString(today);
+}
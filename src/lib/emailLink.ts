@@ -0,0 +1,26 @@
+import { ActionCodeSettings } from 'firebase/auth';
+import { DEFAULT_REDIRECT } from './redirect';
+
+// The email is kept so the link can be completed without asking again when
+// it's opened in the same browser it was requested from
+const EMAIL_FOR_SIGN_IN_KEY = 'emailForSignIn';
+
+export function storeSignInEmail(email: string) {
+  localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, email);
+}
+
+export function getStoredSignInEmail() {
+  return localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY);
+}
+
+export function clearStoredSignInEmail() {
+  localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY);
+}
+
+export function signInLinkSettings(next: string): ActionCodeSettings {
+  const url = new URL('/login/link', window.location.origin);
+  if (next !== DEFAULT_REDIRECT) {
+    url.searchParams.set('next', next);
+  }
+  return { url: url.toString(), handleCodeInApp: true };
+}
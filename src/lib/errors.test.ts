@@ -0,0 +1,67 @@
+import { FirebaseError } from 'firebase/app';
+import { describe, expect, it, vi } from 'vitest';
+import { describeError, reportFormError } from './errors';
+import { setActiveLocale } from './i18n';
+
+describe('describeError', () => {
+  it('maps auth errors to a message and field', () => {
+    expect(describeError(new FirebaseError('auth/email-already-in-use', 'raw'), 'Failed.')).toEqual({
+      message: 'An account already exists with this email address.',
+      field: 'email',
+      code: 'auth/email-already-in-use',
+    });
+  });
+
+  it('looks up Firestore errors under the firestore/ prefix', () => {
+    const details = describeError(new FirebaseError('permission-denied', 'raw'), 'Failed.');
+    expect(details.code).toBe('firestore/permission-denied');
+    expect(details.message).not.toBe('Failed.');
+  });
+
+  it('falls back for unknown errors', () => {
+    expect(describeError(new Error('boom'), 'Failed.')).toEqual({ message: 'Failed.', code: undefined });
+  });
+
+  it('translates into the active locale, including fallback keys', () => {
+    setActiveLocale('es');
+    try {
+      expect(describeError(new FirebaseError('auth/wrong-password', 'raw'), 'Failed.').message)
+        .toBe('Correo electrónico o contraseña incorrectos.');
+      expect(describeError(new Error('boom'), 'login.failed').message).toBe('No se ha podido iniciar sesión.');
+    } finally {
+      setActiveLocale('en');
+    }
+  });
+});
+
+describe('reportFormError', () => {
+  it('puts field errors on the form and returns no banner message', () => {
+    const setFieldError = vi.fn();
+    const banner = reportFormError(
+      new FirebaseError('auth/wrong-password', 'raw'),
+      setFieldError,
+      ['email', 'password'],
+      'Failed.'
+    );
+
+    expect(banner).toBe('');
+    expect(setFieldError).toHaveBeenCalledWith(
+      'password',
+      { type: 'server', message: 'Incorrect email or password.' },
+      { shouldFocus: true }
+    );
+  });
+
+  it('returns the message when the form has no matching field', () => {
+    const setFieldError = vi.fn();
+    const banner = reportFormError(
+      new FirebaseError('auth/wrong-password', 'raw'),
+      setFieldError,
+      ['email'],
+      'Failed.'
+    );
+
+    expect(banner).toBe('Incorrect email or password.');
+    expect(setFieldError).not.toHaveBeenCalled();
+  });
+});
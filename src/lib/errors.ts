@@ -0,0 +1,172 @@
+import { FirebaseError } from 'firebase/app';
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { getActiveLocale, MessageKey, translateMessage } from './i18n';
+
+export interface ErrorDetails {
+  message: string;
+  // The form field the error belongs to, when it's about a specific input
+  field?: string;
+  code?: string;
+}
+
+interface ErrorMapping {
+  message: MessageKey;
+  field?: string;
+}
+
+const INCORRECT_CREDENTIALS: ErrorMapping = {
+  message: 'errors.incorrectCredentials',
+  field: 'password',
+};
+
+// Keyed by Firebase error code. Firestore codes have no service prefix, so
+// they are looked up as `firestore/<code>`.
+const errorMappings: Record<string, ErrorMapping> = {
+  'auth/email-already-in-use': {
+    message: 'errors.emailInUse',
+    field: 'email',
+  },
+  'auth/invalid-email': {
+    message: 'validation.emailInvalid',
+    field: 'email',
+  },
+  'auth/missing-email': {
+    message: 'errors.emailMissing',
+    field: 'email',
+  },
+  'auth/user-not-found': INCORRECT_CREDENTIALS,
+  'auth/wrong-password': INCORRECT_CREDENTIALS,
+  'auth/invalid-credential': INCORRECT_CREDENTIALS,
+  'auth/invalid-login-credentials': INCORRECT_CREDENTIALS,
+  'auth/weak-password': {
+    message: 'errors.weakPassword',
+    field: 'password',
+  },
+  'auth/too-many-requests': {
+    message: 'errors.tooManyRequests',
+  },
+  'auth/user-disabled': {
+    message: 'errors.userDisabled',
+  },
+  'auth/network-request-failed': {
+    message: 'errors.networkRequestFailed',
+  },
+  'auth/popup-closed-by-user': {
+    message: 'errors.popupClosed',
+  },
+  'auth/cancelled-popup-request': {
+    message: 'errors.popupClosed',
+  },
+  'auth/popup-blocked': {
+    message: 'errors.popupBlocked',
+  },
+  'auth/account-exists-with-different-credential': {
+    message: 'errors.accountExistsWithDifferentCredential',
+  },
+  'auth/credential-already-in-use': {
+    message: 'errors.credentialInUse',
+  },
+  'auth/provider-already-linked': {
+    message: 'errors.providerAlreadyLinked',
+  },
+  'auth/no-such-provider': {
+    message: 'errors.noSuchProvider',
+  },
+  'auth/operation-not-allowed': {
+    message: 'errors.operationNotAllowed',
+  },
+  'auth/requires-recent-login': {
+    message: 'errors.requiresRecentLogin',
+  },
+  'auth/unverified-email': {
+    message: 'errors.unverifiedEmail',
+  },
+  'auth/invalid-verification-code': {
+    message: 'errors.invalidVerificationCode',
+    field: 'code',
+  },
+  'auth/code-expired': {
+    message: 'errors.codeExpired',
+    field: 'code',
+  },
+  'auth/invalid-phone-number': {
+    message: 'validation.mobileNumberInvalid',
+    field: 'mobileNumber',
+  },
+  'auth/expired-action-code': {
+    message: 'errors.expiredActionCode',
+  },
+  'auth/invalid-action-code': {
+    message: 'errors.invalidActionCode',
+  },
+  'firestore/permission-denied': {
+    message: 'errors.permissionDenied',
+  },
+  'firestore/unavailable': {
+    message: 'errors.unavailable',
+  },
+  'firestore/not-found': {
+    message: 'errors.notFound',
+  },
+  'firestore/deadline-exceeded': {
+    message: 'errors.deadlineExceeded',
+  },
+  'firestore/resource-exhausted': {
+    message: 'errors.resourceExhausted',
+  },
+  'storage/unauthorized': {
+    message: 'errors.uploadUnauthorized',
+  },
+  'storage/canceled': {
+    message: 'errors.uploadCanceled',
+  },
+  'storage/quota-exceeded': {
+    message: 'errors.quotaExceeded',
+  },
+  'storage/retry-limit-exceeded': {
+    message: 'errors.retryLimitExceeded',
+  },
+  'storage/object-not-found': {
+    message: 'errors.fileNotFound',
+  },
+};
+
+function errorCode(err: unknown) {
+  if (!(err instanceof FirebaseError)) return undefined;
+  // FirebaseError resets the prototype of its subclasses, so a FirestoreError
+  // can't be told apart with instanceof. Its codes are the unprefixed ones.
+  return err.code.includes('/') ? err.code : `firestore/${err.code}`;
+}
+
+// Translates Firebase Auth, Firestore and Storage errors into something we can
+// show the user, falling back to a generic message for anything unknown. The
+// fallback may be a message key or text that's already translated.
+export function describeError(err: unknown, fallback: string): ErrorDetails {
+  const code = errorCode(err);
+  const mapping = code ? errorMappings[code] : undefined;
+  const locale = getActiveLocale();
+  return mapping
+    ? { ...mapping, message: translateMessage(locale, mapping.message), code }
+    : { message: translateMessage(locale, fallback), code };
+}
+
+export function getErrorMessage(err: unknown, fallback: string) {
+  return describeError(err, fallback).message;
+}
+
+// Puts field-level errors on the matching react-hook-form field and returns
+// the message for the page banner, or '' when the error went to a field.
+export function reportFormError<T extends FieldValues>(
+  err: unknown,
+  setFieldError: UseFormSetError<T>,
+  fields: Path<T>[],
+  fallback: string
+) {
+  const { message, field } = describeError(err, fallback);
+  const formField = fields.find(name => name === field);
+  if (formField) {
+    setFieldError(formField, { type: 'server', message }, { shouldFocus: true });
+    return '';
+  }
+  return message;
+}
@@ -1,7 +1,16 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getStorage } from 'firebase/storage';
-import { getFirestore } from 'firebase/firestore'; // Add this import
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
+import { connectStorageEmulator, getStorage } from 'firebase/storage';
+import {
+  clearIndexedDbPersistence,
+  connectFirestoreEmulator,
+  initializeFirestore,
+  memoryLocalCache,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  terminate
+} from 'firebase/firestore';
+import { readRememberedSession } from './session/persistence';
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -12,7 +21,50 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID
 };
 
+// Opt-in: set VITE_USE_FIREBASE_EMULATORS=true to talk to the local Emulator
+// Suite (`npm run emulators`) instead of the live project. Ports match firebase.json.
+const emulatorConfig = {
+  enabled: import.meta.env.VITE_USE_FIREBASE_EMULATORS === 'true',
+  host: import.meta.env.VITE_FIREBASE_EMULATOR_HOST || '127.0.0.1',
+  authPort: 9099,
+  firestorePort: 8080,
+  storagePort: 9199
+};
+
 const app = initializeApp(firebaseConfig);
 export const auth = getAuth(app);
 export const storage = getStorage(app);
-export const db = getFirestore(app); // Add this line to initialize Firestore
\ No newline at end of file
+// For remembered sessions, data read or written offline is kept in
+// IndexedDB, shared by all open tabs, and writes made offline are sent once
+// the connection is back. Other sessions, and tests without IndexedDB, keep
+// the cache in memory for as long as the page, so nothing is left on a
+// shared computer. "Remember me" takes effect from the next page load.
+export const offlineCacheEnabled = typeof indexedDB !== 'undefined' && readRememberedSession();
+
+export const db = initializeFirestore(app, {
+  localCache: offlineCacheEnabled
+    ? persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+    : memoryLocalCache()
+});
+
+// Wipe a cache left on disk by a remembered session that never signed out
+if (!offlineCacheEnabled && typeof indexedDB !== 'undefined') {
+  clearIndexedDbPersistence(db).catch(err => {
+    console.error("Error clearing offline cache:", err);
+  });
+}
+
+// Removes the offline cache from disk. Firestore can't be used afterwards,
+// so the page has to be reloaded.
+export async function clearOfflineCache() {
+  await terminate(db);
+  await clearIndexedDbPersistence(db);
+}
+
+if (emulatorConfig.enabled) {
+  connectAuthEmulator(auth, `http://${emulatorConfig.host}:${emulatorConfig.authPort}`, {
+    disableWarnings: true
+  });
+  connectFirestoreEmulator(db, emulatorConfig.host, emulatorConfig.firestorePort);
+  connectStorageEmulator(storage, emulatorConfig.host, emulatorConfig.storagePort);
+}
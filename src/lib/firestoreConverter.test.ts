@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { QueryDocumentSnapshot, Timestamp } from 'firebase/firestore';
+import { describe, expect, it } from 'vitest';
+import { createConverter, optionalStringField, timestampField } from './firestoreConverter';
+
+const converter = createConverter(z.object({
+  name: optionalStringField,
+  count: z.number().catch(0),
+  updatedAt: timestampField,
+}));
+
+function snapshotOf(data: Record<string, unknown>) {
+  return { data: () => data } as unknown as QueryDocumentSnapshot;
+}
+
+describe('createConverter', () => {
+  it('parses a well-formed document', () => {
+    const updatedAt = new Date('2024-05-01T10:00:00.000Z');
+
+    expect(converter.fromFirestore(snapshotOf({
+      name: 'Lisbon',
+      count: 3,
+      updatedAt: Timestamp.fromDate(updatedAt),
+    }))).toEqual({ name: 'Lisbon', count: 3, updatedAt });
+  });
+
+  it('reads timestamps stored as ISO strings', () => {
+    const { updatedAt } = converter.fromFirestore(snapshotOf({
+      updatedAt: '2024-05-01T10:00:00.000Z',
+    }));
+
+    expect(updatedAt).toEqual(new Date('2024-05-01T10:00:00.000Z'));
+  });
+
+  it('falls back to defaults for malformed fields instead of throwing', () => {
+    expect(converter.fromFirestore(snapshotOf({
+      name: 42,
+      count: 'three',
+      updatedAt: 'yesterday',
+    }))).toEqual({ name: undefined, count: 0, updatedAt: undefined });
+  });
+
+  it('leaves undefined fields out of writes', () => {
+    expect(converter.toFirestore({ name: undefined, count: 1 })).toEqual({ count: 1 });
+  });
+
+  it('leaves undefined values out of nested maps and lists', () => {
+    const updatedAt = Timestamp.fromDate(new Date('2024-05-01T10:00:00.000Z'));
+    const mapConverter = createConverter(z.record(z.unknown()));
+
+    expect(mapConverter.toFirestore({
+      count: 1,
+      nested: { budget: undefined, items: [{ title: 'Museum', notes: undefined }, undefined] },
+      updatedAt,
+    })).toEqual({ count: 1, nested: { items: [{ title: 'Museum' }] }, updatedAt });
+  });
+});
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import {
+  DocumentData,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  serverTimestamp,
+  SnapshotOptions,
+  Timestamp,
+} from 'firebase/firestore';
+
+// Firestore timestamps come back as Dates. Older documents stored ISO strings,
+// and anything unreadable is dropped rather than failing the whole document.
+export const timestampField = z
+  .union([
+    z.instanceof(Timestamp).transform(value => value.toDate()),
+    z.string().datetime().transform(value => new Date(value)),
+  ])
+  .optional()
+  .catch(undefined);
+
+export const optionalStringField = z.string().optional().catch(undefined);
+
+// Firestore rejects undefined values, so leave those fields out, including
+// inside nested maps and lists. Only plain objects are walked; FieldValues
+// and Timestamps are passed through as they are.
+function withoutUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== undefined).map(withoutUndefined);
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, withoutUndefined(entry)])
+    );
+  }
+  return value;
+}
+
+// Builds a converter that parses every read through `schema`. Give each field
+// a `.catch()` so a malformed document degrades to defaults instead of throwing.
+export function createConverter<T extends DocumentData>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): FirestoreDataConverter<T> {
+  return {
+    toFirestore(data) {
+      return withoutUndefined(data) as DocumentData;
+    },
+    fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) {
+      // Pending server timestamps read as an estimate instead of null
+      return schema.parse(snapshot.data({ ...options, serverTimestamps: 'estimate' }));
+    },
+  };
+}
+
+export function withCreatedTimestamps<T extends object>(data: T) {
+  return { ...data, createdAt: serverTimestamp(), updatedAt: serverTimestamp() };
+}
+
+export function withUpdatedTimestamp<T extends object>(data: T) {
+  return { ...data, updatedAt: serverTimestamp() };
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatCurrency,
+  formatDate,
+  formatDateRange,
+  formatNumber,
+  isMessageKey,
+  LOCALES,
+  matchLocale,
+  MessageKey,
+  textDirection,
+  translate,
+  translateMessage,
+} from './i18n';
+import { companionsSchema, profileSchema } from './profile';
+import { travelDocumentSchema } from './documents';
+import { en } from '../locales/en';
+
+describe('translate', () => {
+  it('looks the key up in the locale catalog', () => {
+    expect(translate('en', 'login.submit')).toBe('Sign in');
+    expect(translate('fr', 'login.submit')).toBe('Se connecter');
+  });
+
+  it('fills in placeholders and formats numbers for the locale', () => {
+    expect(translate('en', 'login.withProvider', { provider: 'GitHub' })).toBe('Sign in with GitHub');
+    expect(translate('fr', 'validation.tooManyProgrammes', { maxLoyaltyProgrammes: 1000 })).toMatch(/jusqu'à 1\s000 programmes/);
+  });
+
+  it('leaves placeholders without a value alone', () => {
+    expect(translate('en', 'login.withProvider')).toBe('Sign in with {provider}');
+  });
+});
+
+describe('catalogs', () => {
+  const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+  it.each(LOCALES)('fill in the same placeholders as English in %s', locale => {
+    const keys = Object.keys(en) as MessageKey[];
+    const mismatched = keys.filter(key =>
+      placeholders(translate(locale, key)).join() !== placeholders(en[key]).join()
+    );
+    expect(mismatched).toEqual([]);
+  });
+});
+
+describe('translateMessage', () => {
+  it('translates keys and fills in the limits zod messages mention', () => {
+    expect(translateMessage('en', 'validation.tooYoung')).toBe('You must be at least 18 years old');
+    expect(translateMessage('es', 'validation.emailInvalid')).toBe('Introduce un correo electrónico válido');
+  });
+
+  it('passes through text that is not a key', () => {
+    expect(translateMessage('es', 'Something went wrong')).toBe('Something went wrong');
+  });
+});
+
+describe('zod schemas', () => {
+  // Collects the messages for a parse that is expected to fail
+  function messages(result: { success: boolean; error?: { issues: { message: string }[] } }) {
+    return result.error?.issues.map(issue => issue.message) ?? [];
+  }
+
+  it('only use catalog keys for their messages', () => {
+    const all = [
+      ...messages(profileSchema.safeParse({
+        username: 'a', dob: '', mobileCountry: 'GB', mobileNumber: 'x',
+        address: { line1: '', line2: '', city: '', region: '', postalCode: 'x', country: 'GB' },
+      })),
+      ...messages(companionsSchema.safeParse({ companions: [{ id: 'c1', name: '', relationship: 'child', dob: '' }] })),
+      ...messages(travelDocumentSchema.safeParse({
+        type: 'passport', companionId: '', holderName: '', country: '', number: '', provider: '',
+        issueDate: '', expiryDate: '',
+      })),
+    ];
+    expect(all.length).toBeGreaterThan(0);
+    expect(all.filter(message => !isMessageKey(message))).toEqual([]);
+  });
+});
+
+describe('matchLocale', () => {
+  it('picks the first supported language, ignoring the region', () => {
+    expect(matchLocale(['de-DE', 'es-MX', 'en-GB'])).toBe('es');
+    expect(matchLocale(['HE-il'])).toBe('he');
+  });
+
+  it('returns undefined when nothing is supported', () => {
+    expect(matchLocale(['de', 'ja'])).toBeUndefined();
+  });
+});
+
+describe('textDirection', () => {
+  it('lays Arabic and Hebrew out right to left', () => {
+    expect(textDirection('ar')).toBe('rtl');
+    expect(textDirection('he')).toBe('rtl');
+    expect(textDirection('fr')).toBe('ltr');
+  });
+});
+
+describe('formatting', () => {
+  it('formats date-only strings without shifting the day', () => {
+    expect(formatDate('en', '2025-01-01')).toBe('Jan 1, 2025');
+    expect(formatDate('fr', '2025-01-01')).toBe('1 janv. 2025');
+  });
+
+  it('formats date ranges', () => {
+    expect(formatDateRange('en', '2025-06-01', '2025-06-08')).toMatch(/^Jun 1\s–\s8, 2025$/);
+  });
+
+  it('formats the known end of a range with empty or malformed dates', () => {
+    expect(formatDateRange('en', '2025-06-01', '')).toBe('Jun 1, 2025');
+    expect(formatDateRange('en', 'soon', '2025-06-08')).toBe('Jun 8, 2025');
+    expect(formatDateRange('en', '', '2025-13-45')).toBe('Dates not set');
+    expect(formatDateRange('fr', new Date(NaN), '')).toBe('Dates non définies');
+  });
+
+  it('formats numbers and currencies for the locale', () => {
+    expect(formatNumber('en', 1234.5)).toBe('1,234.5');
+    expect(formatCurrency('en', 1234.5, 'USD')).toBe('$1,234.50');
+    expect(formatCurrency('es', 20, 'EUR')).toMatch(/^20,00\s€$/);
+  });
+
+  it('falls back to the code for unknown currencies', () => {
+    expect(formatCurrency('en', 5, 'NOPE')).toBe('5 NOPE');
+  });
+});
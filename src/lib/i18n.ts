@@ -0,0 +1,139 @@
+import { Catalog, en, MessageKey } from '../locales/en';
+import { es } from '../locales/es';
+import { fr } from '../locales/fr';
+import { ar } from '../locales/ar';
+import { he } from '../locales/he';
+import { isValidDate, MAX_COMPANIONS, MAX_LOYALTY_PROGRAMMES, MINIMUM_AGE } from './profile';
+
+export type { MessageKey } from '../locales/en';
+
+// Kept in step with the locale check in firestore.rules
+export const LOCALES = ['en', 'es', 'fr', 'ar', 'he'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const RTL_LOCALES: readonly Locale[] = ['ar', 'he'];
+
+const catalogs: Record<Locale, Catalog> = { en, es, fr, ar, he };
+
+export type MessageParams = Record<string, string | number>;
+
+// Zod messages are bare keys, so the limits they mention are filled in here
+const validationParams: MessageParams = {
+  minimumAge: MINIMUM_AGE,
+  maxLoyaltyProgrammes: MAX_LOYALTY_PROGRAMMES,
+  maxCompanions: MAX_COMPANIONS,
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+export function isMessageKey(value: string): value is MessageKey {
+  return Object.prototype.hasOwnProperty.call(en, value);
+}
+
+export function textDirection(locale: Locale) {
+  return RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+}
+
+// Each language named in itself, so people can find theirs whatever the
+// current locale is
+export function localeName(locale: Locale) {
+  try {
+    const name = new Intl.DisplayNames([locale], { type: 'language' }).of(locale) ?? locale;
+    return name.charAt(0).toLocaleUpperCase(locale) + name.slice(1);
+  } catch {
+    return locale;
+  }
+}
+
+// Picks the first supported locale from a list like navigator.languages,
+// matching on the language alone so `es-MX` gets Spanish
+export function matchLocale(candidates: readonly string[]): Locale | undefined {
+  for (const candidate of candidates) {
+    const language = candidate.toLowerCase().split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return undefined;
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions) {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+export function formatCurrency(locale: Locale, amount: number, currency: string) {
+  try {
+    return formatNumber(locale, amount, { style: 'currency', currency });
+  } catch {
+    // Unknown currency codes throw a RangeError
+    return `${formatNumber(locale, amount)} ${currency}`;
+  }
+}
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' };
+
+// Date-only strings (YYYY-MM-DD) are parsed as local dates so the calendar
+// day doesn't shift with the timezone
+function toDate(value: string | Date) {
+  return typeof value === 'string' ? new Date(`${value}T00:00:00`) : value;
+}
+
+export function formatDate(locale: Locale, value: string | Date, options: Intl.DateTimeFormatOptions = DATE_FORMAT) {
+  return new Intl.DateTimeFormat(locale, options).format(toDate(value));
+}
+
+export function formatDateTime(locale: Locale, value: Date) {
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(value);
+}
+
+function isFormattableDate(value: string | Date) {
+  return typeof value === 'string' ? isValidDate(value) : !isNaN(value.getTime());
+}
+
+// Stored trips can have empty or malformed dates, which Intl would throw on,
+// so show whichever end is known
+export function formatDateRange(locale: Locale, start: string | Date, end: string | Date) {
+  const hasStart = isFormattableDate(start);
+  const hasEnd = isFormattableDate(end);
+  if (hasStart && hasEnd) {
+    return new Intl.DateTimeFormat(locale, DATE_FORMAT).formatRange(toDate(start), toDate(end));
+  }
+  if (hasStart) return formatDate(locale, start);
+  if (hasEnd) return formatDate(locale, end);
+  return translate(locale, 'common.noDates');
+}
+
+export function formatList(locale: Locale, items: string[], type: 'conjunction' | 'disjunction' = 'conjunction') {
+  return new Intl.ListFormat(locale, { type }).format(items);
+}
+
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams) {
+  const template = catalogs[locale][key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+}
+
+// For messages that may or may not be catalog keys: zod messages are, but
+// errors set on a form by hand or thrown by other code may already be text
+export function translateMessage(locale: Locale, message: string) {
+  return isMessageKey(message) ? translate(locale, message, validationParams) : message;
+}
+
+// Code outside React, like describeError in ./errors, translates into the
+// locale the LocaleProvider last applied
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+export function getActiveLocale() {
+  return activeLocale;
+}
+
+export function setActiveLocale(locale: Locale) {
+  activeLocale = locale;
+}
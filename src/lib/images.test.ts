@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { centredOffset, clampOffset, coverScale, cropFromView, zoomOffset } from './images';
+
+const landscape = { width: 1000, height: 500 };
+const VIEWPORT = 250;
+
+describe('coverScale', () => {
+  it('fits the shorter side to the viewport', () => {
+    expect(coverScale(landscape, VIEWPORT)).toBe(0.5);
+    expect(coverScale(landscape, VIEWPORT, 2)).toBe(1);
+  });
+});
+
+describe('clampOffset', () => {
+  it('stops the image from leaving a gap in the viewport', () => {
+    expect(clampOffset({ x: 20, y: 20 }, landscape, VIEWPORT, 0.5)).toEqual({ x: 0, y: 0 });
+    expect(clampOffset({ x: -400, y: -10 }, landscape, VIEWPORT, 0.5)).toEqual({ x: -250, y: 0 });
+  });
+});
+
+describe('cropFromView', () => {
+  it('crops the centred square by default', () => {
+    const scale = coverScale(landscape, VIEWPORT);
+    const offset = centredOffset(landscape, VIEWPORT, scale);
+
+    const crop = cropFromView(offset, VIEWPORT, scale);
+    expect(crop.x).toBe(250);
+    expect(crop.y).toBeCloseTo(0);
+    expect(crop.size).toBe(500);
+  });
+
+  it('keeps the centre fixed while zooming in', () => {
+    const from = coverScale(landscape, VIEWPORT);
+    const to = coverScale(landscape, VIEWPORT, 2);
+    const offset = zoomOffset(centredOffset(landscape, VIEWPORT, from), landscape, VIEWPORT, from, to);
+
+    expect(cropFromView(offset, VIEWPORT, to)).toEqual({ x: 375, y: 125, size: 250 });
+  });
+});
@@ -0,0 +1,112 @@
+// Avatars are stored as square images in each of these sizes, so the small
+// ones in the header and lists don't download the full picture
+export const AVATAR_SIZES = { small: 64, medium: 128, large: 512 } as const;
+export type AvatarSize = keyof typeof AVATAR_SIZES;
+const AVATAR_QUALITY = 0.85;
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Offset {
+  x: number;
+  y: number;
+}
+
+// A square region of the source image, in source pixels
+export interface CropArea {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Scale at which the image just covers a square viewport at the given zoom
+export function coverScale(image: Size, viewportSize: number, zoom = 1) {
+  return (viewportSize / Math.min(image.width, image.height)) * zoom;
+}
+
+// Keeps the scaled image covering the viewport so no empty space shows
+export function clampOffset(offset: Offset, image: Size, viewportSize: number, scale: number): Offset {
+  const minX = viewportSize - image.width * scale;
+  const minY = viewportSize - image.height * scale;
+  return {
+    x: Math.min(0, Math.max(minX, offset.x)),
+    y: Math.min(0, Math.max(minY, offset.y)),
+  };
+}
+
+export function centredOffset(image: Size, viewportSize: number, scale: number): Offset {
+  return {
+    x: (viewportSize - image.width * scale) / 2,
+    y: (viewportSize - image.height * scale) / 2,
+  };
+}
+
+// Moves the offset so the point under the viewport centre stays put when
+// the scale changes
+export function zoomOffset(
+  offset: Offset,
+  image: Size,
+  viewportSize: number,
+  fromScale: number,
+  toScale: number
+): Offset {
+  const centre = viewportSize / 2;
+  const next = {
+    x: centre - ((centre - offset.x) / fromScale) * toScale,
+    y: centre - ((centre - offset.y) / fromScale) * toScale,
+  };
+  return clampOffset(next, image, viewportSize, toScale);
+}
+
+export function cropFromView(offset: Offset, viewportSize: number, scale: number): CropArea {
+  return {
+    x: -offset.x / scale,
+    y: -offset.y / scale,
+    size: viewportSize / scale,
+  };
+}
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The selected file could not be read as an image.'));
+    image.src = url;
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+// Draws the crop onto a square canvas and compresses it. Browsers that can't
+// encode WebP hand back a PNG instead, in which case we fall back to JPEG.
+export async function renderAvatar(image: CanvasImageSource, crop: CropArea, size: number = AVATAR_SIZES.large): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Your browser does not support image editing.');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size);
+
+  const webp = await canvasToBlob(canvas, 'image/webp', AVATAR_QUALITY);
+  if (webp?.type === 'image/webp') return webp;
+
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', AVATAR_QUALITY);
+  if (!jpeg) {
+    throw new Error('The image could not be processed.');
+  }
+  return jpeg;
+}
+
+export async function renderAvatars(image: CanvasImageSource, crop: CropArea): Promise<Record<AvatarSize, Blob>> {
+  const sizes = Object.keys(AVATAR_SIZES) as AvatarSize[];
+  const blobs = await Promise.all(sizes.map(size => renderAvatar(image, crop, AVATAR_SIZES[size])));
+  return Object.fromEntries(sizes.map((size, i) => [size, blobs[i]])) as Record<AvatarSize, Blob>;
+}
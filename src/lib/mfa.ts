@@ -0,0 +1,114 @@
+import {
+  ApplicationVerifier,
+  getMultiFactorResolver,
+  multiFactor,
+  MultiFactorError,
+  MultiFactorInfo,
+  MultiFactorResolver,
+  PhoneAuthProvider,
+  PhoneMultiFactorGenerator,
+  PhoneMultiFactorInfo,
+  TotpMultiFactorGenerator,
+  TotpSecret,
+  User,
+} from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+import { auth } from './firebase';
+
+// Thrown by signIn/googleSignIn when the account has a second factor enrolled.
+// The resolver completes the sign-in once the user passes the challenge.
+export class MfaRequiredError extends Error {
+  constructor(public readonly resolver: MultiFactorResolver) {
+    super('A second authentication factor is required.');
+    this.name = 'MfaRequiredError';
+  }
+}
+
+export function toMfaRequiredError(err: unknown) {
+  if (err instanceof FirebaseError && err.code === 'auth/multi-factor-auth-required') {
+    return new MfaRequiredError(getMultiFactorResolver(auth, err as MultiFactorError));
+  }
+  return null;
+}
+
+export function isPhoneFactor(factor: MultiFactorInfo): factor is PhoneMultiFactorInfo {
+  return factor.factorId === PhoneMultiFactorGenerator.FACTOR_ID;
+}
+
+export function isTotpFactor(factor: MultiFactorInfo) {
+  return factor.factorId === TotpMultiFactorGenerator.FACTOR_ID;
+}
+
+// Sign-in challenge
+
+export async function sendSmsSignInCode(
+  resolver: MultiFactorResolver,
+  hint: PhoneMultiFactorInfo,
+  verifier: ApplicationVerifier
+) {
+  const phoneProvider = new PhoneAuthProvider(auth);
+  return phoneProvider.verifyPhoneNumber(
+    { multiFactorHint: hint, session: resolver.session },
+    verifier
+  );
+}
+
+export async function resolveWithSms(
+  resolver: MultiFactorResolver,
+  verificationId: string,
+  code: string
+) {
+  const credential = PhoneAuthProvider.credential(verificationId, code);
+  return resolver.resolveSignIn(PhoneMultiFactorGenerator.assertion(credential));
+}
+
+export async function resolveWithTotp(
+  resolver: MultiFactorResolver,
+  enrollmentId: string,
+  code: string
+) {
+  return resolver.resolveSignIn(TotpMultiFactorGenerator.assertionForSignIn(enrollmentId, code));
+}
+
+// Enrollment
+
+export async function sendSmsEnrollmentCode(
+  user: User,
+  phoneNumber: string,
+  verifier: ApplicationVerifier
+) {
+  const session = await multiFactor(user).getSession();
+  const phoneProvider = new PhoneAuthProvider(auth);
+  return phoneProvider.verifyPhoneNumber({ phoneNumber, session }, verifier);
+}
+
+export async function enrollSms(
+  user: User,
+  verificationId: string,
+  code: string,
+  displayName: string
+) {
+  const credential = PhoneAuthProvider.credential(verificationId, code);
+  await multiFactor(user).enroll(PhoneMultiFactorGenerator.assertion(credential), displayName);
+}
+
+export async function generateTotpSecret(user: User) {
+  const session = await multiFactor(user).getSession();
+  return TotpMultiFactorGenerator.generateSecret(session);
+}
+
+export async function enrollTotp(
+  user: User,
+  secret: TotpSecret,
+  code: string,
+  displayName: string
+) {
+  await multiFactor(user).enroll(
+    TotpMultiFactorGenerator.assertionForEnrollment(secret, code),
+    displayName
+  );
+}
+
+export async function unenrollFactor(user: User, factor: MultiFactorInfo) {
+  await multiFactor(user).unenroll(factor);
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { COUNTRY_CODES } from './countries';
+import {
+  defaultPhoneCountry,
+  displayPhoneNumber,
+  formatPhoneNumber,
+  isValidPhoneNumber,
+  parsePhoneNumber,
+  PHONE_COUNTRY_CODES,
+} from './phone';
+
+describe('parsePhoneNumber', () => {
+  it('reads national numbers for the chosen country, dropping the trunk prefix', () => {
+    expect(parsePhoneNumber('07700 900123', 'GB')).toEqual({
+      country: 'GB',
+      dialCode: '44',
+      nationalNumber: '7700900123',
+      e164: '+447700900123',
+    });
+    expect(parsePhoneNumber('(201) 555-0123', 'US')?.e164).toBe('+12015550123');
+    expect(parsePhoneNumber('612 345 678', 'ES')?.e164).toBe('+34612345678');
+  });
+
+  it('takes the country from international numbers', () => {
+    expect(parsePhoneNumber('+33 6 12 34 56 78', 'GB')?.country).toBe('FR');
+    expect(parsePhoneNumber('0049 1512 3456789', 'US')?.e164).toBe('+4915123456789');
+  });
+
+  it('keeps the chosen country when it shares the calling code', () => {
+    expect(parsePhoneNumber('+1 416 555 0123', 'CA')?.country).toBe('CA');
+    expect(parsePhoneNumber('+1 416 555 0123', 'GB')?.country).toBe('US');
+  });
+
+  it('rejects anything that is not a number', () => {
+    expect(parsePhoneNumber('07700 CALL ME', 'GB')).toBeUndefined();
+    expect(parsePhoneNumber('+999 123 4567', 'GB')).toBeUndefined();
+    expect(parsePhoneNumber('07700 900123', 'XX')).toBeUndefined();
+  });
+});
+
+describe('isValidPhoneNumber', () => {
+  function isValid(input: string, country: string) {
+    const phone = parsePhoneNumber(input, country);
+    return !!phone && isValidPhoneNumber(phone);
+  }
+
+  it('checks the length for the country', () => {
+    expect(isValid('07700 900123', 'GB')).toBe(true);
+    expect(isValid('07700 9001', 'GB')).toBe(false);
+    expect(isValid('9123 4567', 'SG')).toBe(true);
+    expect(isValid('9123 456', 'SG')).toBe(false);
+  });
+
+  it('accepts short numbers where the numbering plan has them', () => {
+    expect(isValid('+683 4002', 'GB')).toBe(true);
+  });
+
+  it('keeps to the E.164 limit for countries without a specific plan', () => {
+    expect(isValid('+371 2123 4567', 'GB')).toBe(true);
+    expect(isValid('+371 2123 4567 8901 2', 'GB')).toBe(false);
+  });
+});
+
+describe('formatPhoneNumber', () => {
+  it('formats numbers as dialled within the country', () => {
+    expect(formatPhoneNumber(parsePhoneNumber('+447700900123', 'GB')!, 'national')).toBe('07700 900123');
+    expect(formatPhoneNumber(parsePhoneNumber('+12015550123', 'US')!, 'national')).toBe('(201) 555-0123');
+    expect(formatPhoneNumber(parsePhoneNumber('+33612345678', 'FR')!, 'national')).toBe('06 12 34 56 78');
+  });
+
+  it('formats numbers for display anywhere', () => {
+    expect(formatPhoneNumber(parsePhoneNumber('+447700900123', 'GB')!)).toBe('+44 7700 900123');
+    expect(formatPhoneNumber(parsePhoneNumber('+37121234567', 'LV')!)).toBe('+371 2123 4567');
+  });
+});
+
+describe('displayPhoneNumber', () => {
+  it('formats E.164 numbers and leaves older free text alone', () => {
+    expect(displayPhoneNumber('+12015550123')).toBe('+1 201 555 0123');
+    expect(displayPhoneNumber('07700 900123')).toBe('07700 900123');
+  });
+});
+
+describe('defaultPhoneCountry', () => {
+  it("uses the region of the browser's languages", () => {
+    expect(defaultPhoneCountry(['en-GB', 'en'])).toBe('GB');
+    expect(defaultPhoneCountry(['fr'])).toBe('FR');
+    expect(defaultPhoneCountry(['he'])).toBe('IL');
+  });
+
+  it('falls back to the US', () => {
+    expect(defaultPhoneCountry([])).toBe('US');
+  });
+});
+
+describe('PHONE_COUNTRY_CODES', () => {
+  it('only has known countries', () => {
+    expect(PHONE_COUNTRY_CODES.filter(code => !COUNTRY_CODES.includes(code))).toEqual([]);
+  });
+});
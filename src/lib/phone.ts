@@ -0,0 +1,266 @@
+// Phone numbers are stored in E.164 (+447700900123), which is what Firebase
+// phone auth and SMS providers expect, alongside the country they were
+// entered for. This covers what the profile needs without pulling in a full
+// numbering plan library: dial codes for every country, plus mobile number
+// lengths for the countries most of our travellers live in.
+
+// ITU-T E.164 country calling codes. Territories without their own phone
+// numbers (Antarctica, Bouvet Island and the like) are left out.
+export const DIAL_CODES: Record<string, string> = {
+  AD: '376', AE: '971', AF: '93', AG: '1', AI: '1', AL: '355', AM: '374', AO: '244', AR: '54',
+  AS: '1', AT: '43', AU: '61', AW: '297', AX: '358', AZ: '994', BA: '387', BB: '1', BD: '880',
+  BE: '32', BF: '226', BG: '359', BH: '973', BI: '257', BJ: '229', BL: '590', BM: '1', BN: '673',
+  BO: '591', BQ: '599', BR: '55', BS: '1', BT: '975', BW: '267', BY: '375', BZ: '501', CA: '1',
+  CC: '61', CD: '243', CF: '236', CG: '242', CH: '41', CI: '225', CK: '682', CL: '56', CM: '237',
+  CN: '86', CO: '57', CR: '506', CU: '53', CV: '238', CW: '599', CX: '61', CY: '357', CZ: '420',
+  DE: '49', DJ: '253', DK: '45', DM: '1', DO: '1', DZ: '213', EC: '593', EE: '372', EG: '20',
+  EH: '212', ER: '291', ES: '34', ET: '251', FI: '358', FJ: '679', FK: '500', FM: '691', FO: '298',
+  FR: '33', GA: '241', GB: '44', GD: '1', GE: '995', GF: '594', GG: '44', GH: '233', GI: '350',
+  GL: '299', GM: '220', GN: '224', GP: '590', GQ: '240', GR: '30', GT: '502', GU: '1', GW: '245',
+  GY: '592', HK: '852', HN: '504', HR: '385', HT: '509', HU: '36', ID: '62', IE: '353', IL: '972',
+  IM: '44', IN: '91', IO: '246', IQ: '964', IR: '98', IS: '354', IT: '39', JE: '44', JM: '1',
+  JO: '962', JP: '81', KE: '254', KG: '996', KH: '855', KI: '686', KM: '269', KN: '1', KP: '850',
+  KR: '82', KW: '965', KY: '1', KZ: '7', LA: '856', LB: '961', LC: '1', LI: '423', LK: '94',
+  LR: '231', LS: '266', LT: '370', LU: '352', LV: '371', LY: '218', MA: '212', MC: '377', MD: '373',
+  ME: '382', MF: '590', MG: '261', MH: '692', MK: '389', ML: '223', MM: '95', MN: '976', MO: '853',
+  MP: '1', MQ: '596', MR: '222', MS: '1', MT: '356', MU: '230', MV: '960', MW: '265', MX: '52',
+  MY: '60', MZ: '258', NA: '264', NC: '687', NE: '227', NF: '672', NG: '234', NI: '505', NL: '31',
+  NO: '47', NP: '977', NR: '674', NU: '683', NZ: '64', OM: '968', PA: '507', PE: '51', PF: '689',
+  PG: '675', PH: '63', PK: '92', PL: '48', PM: '508', PR: '1', PS: '970', PT: '351', PW: '680',
+  PY: '595', QA: '974', RE: '262', RO: '40', RS: '381', RU: '7', RW: '250', SA: '966', SB: '677',
+  SC: '248', SD: '249', SE: '46', SG: '65', SH: '290', SI: '386', SJ: '47', SK: '421', SL: '232',
+  SM: '378', SN: '221', SO: '252', SR: '597', SS: '211', ST: '239', SV: '503', SX: '1', SY: '963',
+  SZ: '268', TC: '1', TD: '235', TG: '228', TH: '66', TJ: '992', TK: '690', TL: '670', TM: '993',
+  TN: '216', TO: '676', TR: '90', TT: '1', TV: '688', TW: '886', TZ: '255', UA: '380', UG: '256',
+  US: '1', UY: '598', UZ: '998', VA: '39', VC: '1', VE: '58', VG: '1', VI: '1', VN: '84', VU: '678',
+  WF: '681', WS: '685', YE: '967', YT: '262', ZA: '27', ZM: '260', ZW: '263',
+};
+
+// Where a calling code is shared, the country an international number is
+// assumed to belong to unless the user picked one of the others
+const MAIN_COUNTRY_FOR_DIAL_CODE: Record<string, string> = {
+  '1': 'US',
+  '7': 'RU',
+  '39': 'IT',
+  '44': 'GB',
+  '47': 'NO',
+  '61': 'AU',
+  '212': 'MA',
+  '262': 'RE',
+  '358': 'FI',
+  '590': 'GP',
+  '599': 'CW',
+};
+
+interface NumberingPlan {
+  // Allowed lengths of the national number, without the trunk prefix
+  lengths: number[];
+  // Dialled before national numbers within the country, e.g. the 0 in 07700 900123
+  trunkPrefix: string;
+  // How the digits are grouped for display
+  groups?: number[];
+}
+
+const NANP: NumberingPlan = { lengths: [10], trunkPrefix: '1', groups: [3, 3, 4] };
+
+// Mobile numbering plans for the countries most of our travellers live in.
+// Everything else gets the E.164 limits and a 0 trunk prefix.
+const NUMBERING_PLANS: Record<string, NumberingPlan> = {
+  AE: { lengths: [9], trunkPrefix: '0' },
+  AR: { lengths: [10, 11], trunkPrefix: '0' },
+  AT: { lengths: [10, 11, 12, 13], trunkPrefix: '0' },
+  AU: { lengths: [9], trunkPrefix: '0', groups: [3, 3, 3] },
+  BE: { lengths: [9], trunkPrefix: '0' },
+  BR: { lengths: [10, 11], trunkPrefix: '0' },
+  CH: { lengths: [9], trunkPrefix: '0' },
+  CL: { lengths: [9], trunkPrefix: '' },
+  CN: { lengths: [11], trunkPrefix: '0', groups: [3, 4, 4] },
+  CO: { lengths: [10], trunkPrefix: '' },
+  CZ: { lengths: [9], trunkPrefix: '' },
+  DE: { lengths: [10, 11], trunkPrefix: '0' },
+  DK: { lengths: [8], trunkPrefix: '' },
+  EG: { lengths: [10], trunkPrefix: '0' },
+  ES: { lengths: [9], trunkPrefix: '', groups: [3, 3, 3] },
+  FI: { lengths: [8, 9, 10], trunkPrefix: '0' },
+  FR: { lengths: [9], trunkPrefix: '0', groups: [1, 2, 2, 2, 2] },
+  GB: { lengths: [10], trunkPrefix: '0', groups: [4, 6] },
+  GR: { lengths: [10], trunkPrefix: '' },
+  HK: { lengths: [8], trunkPrefix: '', groups: [4, 4] },
+  ID: { lengths: [9, 10, 11, 12], trunkPrefix: '0' },
+  IE: { lengths: [9], trunkPrefix: '0' },
+  IL: { lengths: [9], trunkPrefix: '0' },
+  IN: { lengths: [10], trunkPrefix: '0', groups: [5, 5] },
+  IT: { lengths: [9, 10], trunkPrefix: '' },
+  JP: { lengths: [10], trunkPrefix: '0', groups: [2, 4, 4] },
+  KE: { lengths: [9], trunkPrefix: '0' },
+  KR: { lengths: [9, 10], trunkPrefix: '0' },
+  KZ: { lengths: [10], trunkPrefix: '8' },
+  MA: { lengths: [9], trunkPrefix: '0' },
+  MX: { lengths: [10], trunkPrefix: '' },
+  MY: { lengths: [9, 10], trunkPrefix: '0' },
+  NG: { lengths: [10], trunkPrefix: '0' },
+  NL: { lengths: [9], trunkPrefix: '0' },
+  NO: { lengths: [8], trunkPrefix: '' },
+  NZ: { lengths: [8, 9, 10], trunkPrefix: '0' },
+  PE: { lengths: [9], trunkPrefix: '' },
+  PH: { lengths: [10], trunkPrefix: '0' },
+  PK: { lengths: [10], trunkPrefix: '0' },
+  PL: { lengths: [9], trunkPrefix: '', groups: [3, 3, 3] },
+  PT: { lengths: [9], trunkPrefix: '', groups: [3, 3, 3] },
+  RU: { lengths: [10], trunkPrefix: '8', groups: [3, 3, 2, 2] },
+  SA: { lengths: [9], trunkPrefix: '0' },
+  SE: { lengths: [9], trunkPrefix: '0' },
+  SG: { lengths: [8], trunkPrefix: '', groups: [4, 4] },
+  TH: { lengths: [9], trunkPrefix: '0' },
+  TR: { lengths: [10], trunkPrefix: '0', groups: [3, 3, 2, 2] },
+  UA: { lengths: [9], trunkPrefix: '0' },
+  VA: { lengths: [9, 10], trunkPrefix: '' },
+  VN: { lengths: [9], trunkPrefix: '0' },
+  ZA: { lengths: [9], trunkPrefix: '0' },
+};
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+export const PHONE_COUNTRY_CODES = Object.keys(DIAL_CODES);
+
+export function isPhoneCountry(value: string) {
+  return PHONE_COUNTRY_CODES.includes(value);
+}
+
+export function isE164(value: string) {
+  return E164_PATTERN.test(value);
+}
+
+function numberingPlan(country: string): NumberingPlan | undefined {
+  if (!isPhoneCountry(country)) return undefined;
+  const dialCode = DIAL_CODES[country];
+  if (dialCode === '1') return NANP;
+  if (NUMBERING_PLANS[country]) return NUMBERING_PLANS[country];
+
+  // E.164 numbers have 7 to 15 digits including the calling code
+  const lengths = [];
+  for (let length = Math.max(4, 7 - dialCode.length); length <= 15 - dialCode.length; length++) {
+    lengths.push(length);
+  }
+  return { lengths, trunkPrefix: '0' };
+}
+
+export interface PhoneNumber {
+  // ISO 3166-1 alpha-2
+  country: string;
+  dialCode: string;
+  // The national significant number, without the trunk prefix
+  nationalNumber: string;
+  e164: string;
+}
+
+// The calling code at the start of an international number. Calling codes
+// are prefix-free, so at most one of the first one to three digits matches.
+function findCountry(digits: string, preferredCountry?: string) {
+  for (let length = 1; length <= 3; length++) {
+    const dialCode = digits.slice(0, length);
+    if (preferredCountry && DIAL_CODES[preferredCountry] === dialCode) {
+      return preferredCountry;
+    }
+    const country = MAIN_COUNTRY_FOR_DIAL_CODE[dialCode]
+      ?? PHONE_COUNTRY_CODES.find(code => DIAL_CODES[code] === dialCode);
+    if (country) return country;
+  }
+  return undefined;
+}
+
+// Reads a number the way people type it: national ("07700 900123") for the
+// given country, or international ("+44 7700 900123", "0044 7700 900123")
+// in which case the country comes from the number itself. Doesn't check the
+// length; see isValidPhoneNumber.
+export function parsePhoneNumber(input: string, country: string): PhoneNumber | undefined {
+  const compact = input.trim().replace(/[\s\-().]/g, '');
+  if (!/^(\+)?\d+$/.test(compact)) return undefined;
+
+  let digits: string;
+  let numberCountry: string | undefined;
+  if (compact.startsWith('+') || compact.startsWith('00')) {
+    digits = compact.replace(/^(\+|00)/, '');
+    numberCountry = findCountry(digits, country);
+    if (!numberCountry) return undefined;
+    digits = digits.slice(DIAL_CODES[numberCountry].length);
+  } else {
+    numberCountry = country;
+    const plan = numberingPlan(country);
+    if (!plan) return undefined;
+    digits = plan.trunkPrefix && compact.startsWith(plan.trunkPrefix)
+      ? compact.slice(plan.trunkPrefix.length)
+      : compact;
+  }
+
+  const dialCode = DIAL_CODES[numberCountry];
+  return {
+    country: numberCountry,
+    dialCode,
+    nationalNumber: digits,
+    e164: `+${dialCode}${digits}`,
+  };
+}
+
+export function isValidPhoneNumber(phone: PhoneNumber) {
+  const plan = numberingPlan(phone.country);
+  return !!plan && plan.lengths.includes(phone.nationalNumber.length) && isE164(phone.e164);
+}
+
+// Splits digits into groups of three or four, longer groups last
+function defaultGroups(length: number) {
+  const count = Math.ceil(length / 4);
+  const size = Math.floor(length / count);
+  const longer = length % count;
+  return Array.from({ length: count }, (_, i) => (i >= count - longer ? size + 1 : size));
+}
+
+function groupDigits(digits: string, groups: number[]) {
+  const parts = [];
+  let start = 0;
+  for (const size of groups) {
+    if (start >= digits.length) break;
+    parts.push(digits.slice(start, start + size));
+    start += size;
+  }
+  // Numbers that don't fit the usual pattern keep their extra digits
+  if (start < digits.length) parts.push(digits.slice(start));
+  return parts;
+}
+
+// "+44 7700 900123" for display anywhere, or "07700 900123" as it's dialled
+// within the country
+export function formatPhoneNumber(phone: PhoneNumber, style: 'national' | 'international' = 'international') {
+  const plan = numberingPlan(phone.country);
+  const groups = plan?.groups ?? defaultGroups(phone.nationalNumber.length);
+  const parts = groupDigits(phone.nationalNumber, groups);
+
+  if (style === 'international') {
+    return `+${phone.dialCode} ${parts.join(' ')}`;
+  }
+  if (plan === NANP && parts.length === 3) {
+    return `(${parts[0]}) ${parts[1]}-${parts[2]}`;
+  }
+  return `${plan?.trunkPrefix ?? ''}${parts.join(' ')}`;
+}
+
+// A stored E.164 number formatted for display, or the value as it is if it
+// predates E.164 storage
+export function displayPhoneNumber(value: string, country?: string) {
+  const phone = isE164(value) ? parsePhoneNumber(value, country ?? '') : undefined;
+  return phone ? formatPhoneNumber(phone) : value;
+}
+
+// The country to preselect, from the browser's languages: en-GB gives GB,
+// and a bare language its most likely region (fr gives FR, he gives IL)
+export function defaultPhoneCountry(languages: readonly string[]) {
+  for (const language of languages) {
+    try {
+      const region = new Intl.Locale(language).maximize().region;
+      if (region && isPhoneCountry(region)) return region;
+    } catch {
+      // Ignore malformed language tags
+    }
+  }
+  return 'US';
+}
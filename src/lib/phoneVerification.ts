@@ -0,0 +1,19 @@
+import { ApplicationVerifier, PhoneAuthProvider, updatePhoneNumber, User } from 'firebase/auth';
+import { auth } from './firebase';
+
+// Proves the user owns the mobile number on their profile by texting it a
+// code. Once confirmed the number is also the account's phone number in
+// Firebase Auth, which is what marks it as verified.
+
+export function isPhoneNumberVerified(user: User, mobileNumber: string) {
+  return user.phoneNumber === mobileNumber;
+}
+
+export async function sendPhoneVerificationCode(phoneNumber: string, verifier: ApplicationVerifier) {
+  const phoneProvider = new PhoneAuthProvider(auth);
+  return phoneProvider.verifyPhoneNumber(phoneNumber, verifier);
+}
+
+export async function confirmPhoneNumber(user: User, verificationId: string, code: string) {
+  await updatePhoneNumber(user, PhoneAuthProvider.credential(verificationId, code));
+}
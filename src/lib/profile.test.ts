@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import {
+  companionSchema,
+  defaultPreferences,
+  dobSchema,
+  getAge,
+  mobileFormValues,
+  needsOnboarding,
+  preferencesSchema,
+  profileSchema,
+} from './profile';
+import { translateMessage } from './i18n';
+
+describe('getAge', () => {
+  const today = new Date(2024, 5, 15);
+
+  it('counts whole years', () => {
+    expect(getAge('2000-01-01', today)).toBe(24);
+  });
+
+  it("doesn't count a birthday that hasn't happened yet this year", () => {
+    expect(getAge('2000-06-16', today)).toBe(23);
+    expect(getAge('2000-06-15', today)).toBe(24);
+  });
+});
+
+describe('dobSchema', () => {
+  function messageFor(dob: string) {
+    const result = dobSchema.safeParse(dob);
+    return result.success ? undefined : translateMessage('en', result.error.issues[0].message);
+  }
+
+  it('accepts adults', () => {
+    expect(messageFor('1990-04-12')).toBeUndefined();
+  });
+
+  it('requires a date', () => {
+    expect(messageFor('')).toBe('Date of birth is required');
+  });
+
+  it('rejects malformed dates', () => {
+    expect(messageFor('12/04/1990')).toBe('Please enter a valid date');
+  });
+
+  it('enforces the minimum age', () => {
+    const year = new Date().getFullYear() - 17;
+    expect(messageFor(`${year}-01-01`)).toBe('You must be at least 18 years old');
+  });
+});
+
+describe('profileSchema', () => {
+  const profile = {
+    username: 'tara',
+    dob: '1990-04-12',
+    mobileCountry: 'GB',
+    mobileNumber: '07700 900123',
+    address: {
+      line1: '221B Baker Street',
+      line2: '',
+      city: 'London',
+      region: '',
+      postalCode: 'NW1 6XE',
+      country: 'GB',
+    },
+  };
+
+  function messagesFor(data: object) {
+    const result = profileSchema.safeParse({ ...profile, ...data });
+    return result.success ? [] : result.error.issues.map(issue => translateMessage('en', issue.message));
+  }
+
+  it('stores the mobile number in E.164 alongside its display format', () => {
+    expect(profileSchema.parse(profile)).toMatchObject({
+      mobileCountry: 'GB',
+      mobileNumber: '+447700900123',
+      mobileNumberDisplay: '07700 900123',
+    });
+  });
+
+  it('takes the country from numbers typed with their calling code', () => {
+    expect(profileSchema.parse({ ...profile, mobileNumber: '+33 6 12 34 56 78' })).toMatchObject({
+      mobileCountry: 'FR',
+      mobileNumber: '+33612345678',
+      mobileNumberDisplay: '06 12 34 56 78',
+    });
+  });
+
+  it('checks the mobile number against the country', () => {
+    expect(messagesFor({ mobileNumber: '' })).toEqual(['Mobile number is required']);
+    expect(messagesFor({ mobileNumber: '07700 CALL ME' })).toEqual(['Please enter a valid mobile number']);
+    expect(messagesFor({ mobileCountry: 'US' })).toEqual([
+      'That number has the wrong number of digits for the selected country',
+    ]);
+  });
+});
+
+describe('mobileFormValues', () => {
+  it('uses the saved display format', () => {
+    expect(mobileFormValues({
+      mobileNumber: '+447700900123', mobileCountry: 'GB', mobileNumberDisplay: '07700 900123',
+    }, 'US')).toEqual({ mobileCountry: 'GB', mobileNumber: '07700 900123' });
+  });
+
+  it('reads numbers saved before E.164 storage', () => {
+    expect(mobileFormValues({ mobileNumber: '+44 7700 900123' }, 'US'))
+      .toEqual({ mobileCountry: 'GB', mobileNumber: '07700 900123' });
+    expect(mobileFormValues({ mobileNumber: '(201) 555-0123' }, 'US'))
+      .toEqual({ mobileCountry: 'US', mobileNumber: '(201) 555-0123' });
+  });
+
+  it('leaves numbers it cannot read for the user to fix', () => {
+    expect(mobileFormValues({ mobileNumber: 'call me' }, 'FR'))
+      .toEqual({ mobileCountry: 'FR', mobileNumber: 'call me' });
+  });
+
+  it('starts empty profiles on the default country', () => {
+    expect(mobileFormValues(null, 'FR')).toEqual({ mobileCountry: 'FR', mobileNumber: '' });
+  });
+});
+
+describe('needsOnboarding', () => {
+  it('only flags profiles created at sign-up that are still incomplete', () => {
+    expect(needsOnboarding({ onboarded: false })).toBe(true);
+    expect(needsOnboarding({ onboarded: true })).toBe(false);
+    expect(needsOnboarding({ username: 'legacy' })).toBe(false);
+    expect(needsOnboarding(null)).toBe(false);
+  });
+});
+
+describe('preferencesSchema', () => {
+  function messagesFor(data: object) {
+    const result = preferencesSchema.safeParse({ ...defaultPreferences, ...data });
+    return result.success ? {} : Object.fromEntries(
+      result.error.issues.map(issue => [issue.path.join('.'), translateMessage('en', issue.message)])
+    );
+  }
+
+  it('accepts the defaults', () => {
+    expect(messagesFor({})).toEqual({});
+  });
+
+  it('normalises airport codes to upper case', () => {
+    expect(preferencesSchema.parse({ ...defaultPreferences, homeAirport: ' lhr ' }).homeAirport).toBe('LHR');
+    expect(messagesFor({ homeAirport: 'Heathrow' })).toEqual({
+      homeAirport: 'Please enter a three-letter airport code, like LHR',
+    });
+  });
+
+  it('requires the budget range to be the right way round', () => {
+    expect(messagesFor({ budgetMin: 100, budgetMax: 250, currency: 'EUR' })).toEqual({});
+    expect(messagesFor({ budgetMin: 250, budgetMax: 100 })).toEqual({
+      budgetMax: 'Maximum must be at least the minimum',
+    });
+  });
+
+  it('only accepts known currencies and interests', () => {
+    expect(messagesFor({ currency: 'XYZ' })).toEqual({ currency: 'Please select a currency' });
+    expect(preferencesSchema.safeParse({ ...defaultPreferences, interests: ['golf'] }).success).toBe(false);
+  });
+
+  it('validates loyalty programme entries', () => {
+    expect(messagesFor({ loyaltyProgrammes: [{ programme: 'Avios', number: '12' }] })).toEqual({
+      'loyaltyProgrammes.0.number': 'Membership number must be at least 3 characters',
+    });
+  });
+});
+
+describe('companionSchema', () => {
+  const companion = { id: 'c1', name: 'Sam Smith', relationship: 'child', dob: '2015-08-20' };
+
+  it('accepts children, unlike the account holder', () => {
+    expect(companionSchema.safeParse(companion).success).toBe(true);
+  });
+
+  it('rejects dates of birth in the future', () => {
+    const nextYear = new Date().getFullYear() + 1;
+    const result = companionSchema.safeParse({ ...companion, dob: `${nextYear}-01-01` });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import { MessageKey } from './i18n';
+import { UserData } from './userRepository';
+import { isCurrencyCode } from './currencies';
+import { addressSchema } from './address';
+import { formatPhoneNumber, isPhoneCountry, isValidPhoneNumber, parsePhoneNumber } from './phone';
+
+export const MINIMUM_AGE = 18;
+
+export function getAge(dob: string, today = new Date()) {
+  const birthDate = new Date(`${dob}T00:00:00`);
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const monthDiff = today.getMonth() - birthDate.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+// YYYY-MM-DD, as produced by <input type="date">
+export function isValidDate(value: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00`).getTime());
+}
+
+// Shared by sign-up and the profile editor so both apply the same age rule
+export const dobSchema = z.string().superRefine((val, ctx) => {
+  if (!val) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'validation.dateOfBirthRequired' });
+  } else if (!isValidDate(val)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'validation.dateInvalid' });
+  } else if (getAge(val) < MINIMUM_AGE) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.tooYoung',
+    });
+  }
+});
+
+export const usernameSchema = z.string().min(3, 'validation.usernameTooShort');
+
+export const profileSchema = z.object({
+  username: usernameSchema,
+  dob: dobSchema,
+  // The mobile number is entered as the user would dial it at home, with a
+  // country picker, and saved in E.164 with the formatted number alongside
+  mobileCountry: z.string(),
+  mobileNumber: z.string().trim().min(1, 'validation.mobileNumberRequired'),
+  address: addressSchema,
+}).superRefine((data, ctx) => {
+  if (!data.mobileNumber) return;
+
+  const phone = parsePhoneNumber(data.mobileNumber, data.mobileCountry);
+  if (!phone) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: isPhoneCountry(data.mobileCountry) ? 'validation.mobileNumberInvalid' : 'validation.countryRequired',
+      path: isPhoneCountry(data.mobileCountry) ? ['mobileNumber'] : ['mobileCountry'],
+    });
+  } else if (!isValidPhoneNumber(phone)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.mobileNumberLength',
+      path: ['mobileNumber'],
+    });
+  }
+}).transform(({ mobileCountry, mobileNumber, ...data }) => {
+  // Checked above; the country may differ from the picker if the number was
+  // typed with its calling code
+  const phone = parsePhoneNumber(mobileNumber, mobileCountry)!;
+  return {
+    ...data,
+    mobileCountry: phone.country,
+    mobileNumber: phone.e164,
+    mobileNumberDisplay: formatPhoneNumber(phone, 'national'),
+  };
+});
+
+export type ProfileFormData = z.input<typeof profileSchema>;
+export type ProfileData = z.output<typeof profileSchema>;
+
+// The country and number for the profile form. Numbers saved before E.164
+// storage are free text, so they're read as best we can and otherwise left
+// for the user to correct.
+export function mobileFormValues(userData: UserData | null, defaultCountry: string) {
+  const country = userData?.mobileCountry ?? defaultCountry;
+  if (!userData?.mobileNumber) {
+    return { mobileCountry: country, mobileNumber: '' };
+  }
+  if (userData.mobileCountry && userData.mobileNumberDisplay) {
+    return { mobileCountry: userData.mobileCountry, mobileNumber: userData.mobileNumberDisplay };
+  }
+
+  const phone = parsePhoneNumber(userData.mobileNumber, country);
+  return phone && isValidPhoneNumber(phone)
+    ? { mobileCountry: phone.country, mobileNumber: formatPhoneNumber(phone, 'national') }
+    : { mobileCountry: country, mobileNumber: userData.mobileNumber };
+}
+
+export const SEAT_PREFERENCES = ['any', 'window', 'aisle'] as const;
+export const MEAL_PREFERENCES = ['any', 'vegetarian', 'vegan', 'halal', 'kosher', 'gluten-free'] as const;
+export const INTERESTS = [
+  'beaches', 'culture', 'food', 'history', 'nature', 'adventure', 'nightlife', 'shopping', 'wellness', 'family',
+] as const;
+
+export type SeatPreference = typeof SEAT_PREFERENCES[number];
+export type MealPreference = typeof MEAL_PREFERENCES[number];
+export type Interest = typeof INTERESTS[number];
+
+export const seatPreferenceLabels: Record<SeatPreference, MessageKey> = {
+  any: 'preferences.seatAny',
+  window: 'preferences.seatWindow',
+  aisle: 'preferences.seatAisle',
+};
+
+export const mealPreferenceLabels: Record<MealPreference, MessageKey> = {
+  any: 'preferences.mealAny',
+  vegetarian: 'preferences.mealVegetarian',
+  vegan: 'preferences.mealVegan',
+  halal: 'preferences.mealHalal',
+  kosher: 'preferences.mealKosher',
+  'gluten-free': 'preferences.mealGlutenFree',
+};
+
+export const interestLabels: Record<Interest, MessageKey> = {
+  beaches: 'preferences.interestBeaches',
+  culture: 'preferences.interestCulture',
+  food: 'preferences.interestFood',
+  history: 'preferences.interestHistory',
+  nature: 'preferences.interestNature',
+  adventure: 'preferences.interestAdventure',
+  nightlife: 'preferences.interestNightlife',
+  shopping: 'preferences.interestShopping',
+  wellness: 'preferences.interestWellness',
+  family: 'preferences.interestFamily',
+};
+
+export const MAX_LOYALTY_PROGRAMMES = 10;
+
+const loyaltyProgrammeSchema = z.object({
+  programme: z.string().trim()
+    .min(2, 'validation.programmeTooShort')
+    .max(100, 'validation.programmeTooLong'),
+  number: z.string().trim()
+    .min(3, 'validation.membershipNumberTooShort')
+    .max(30, 'validation.membershipNumberTooLong'),
+});
+
+// Empty budget inputs come through as undefined rather than NaN
+const budgetAmountSchema = z.number({ invalid_type_error: 'validation.amountRequired' })
+  .min(0, 'validation.budgetNegative')
+  .optional();
+
+export const preferencesSchema = z.object({
+  homeAirport: z.string().trim().toUpperCase().refine(val => !val || /^[A-Z]{3}$/.test(val), {
+    message: 'validation.airportCodeInvalid',
+  }),
+  seat: z.enum(SEAT_PREFERENCES),
+  meal: z.enum(MEAL_PREFERENCES),
+  loyaltyProgrammes: z.array(loyaltyProgrammeSchema)
+    .max(MAX_LOYALTY_PROGRAMMES, 'validation.tooManyProgrammes'),
+  // Per person per day, in `currency`
+  budgetMin: budgetAmountSchema,
+  budgetMax: budgetAmountSchema,
+  currency: z.string().refine(val => !val || isCurrencyCode(val), {
+    message: 'validation.currencyRequired',
+  }),
+  interests: z.array(z.enum(INTERESTS)),
+}).superRefine((data, ctx) => {
+  if (data.budgetMin !== undefined && data.budgetMax !== undefined && data.budgetMax < data.budgetMin) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.budgetMaxBelowMin',
+      path: ['budgetMax'],
+    });
+  }
+});
+
+export type TravelPreferences = z.infer<typeof preferencesSchema>;
+
+export const defaultPreferences: TravelPreferences = {
+  homeAirport: '',
+  seat: 'any',
+  meal: 'any',
+  loyaltyProgrammes: [],
+  budgetMin: undefined,
+  budgetMax: undefined,
+  currency: '',
+  interests: [],
+};
+
+export const COMPANION_RELATIONSHIPS = ['partner', 'child', 'parent', 'friend', 'colleague', 'other'] as const;
+
+export type CompanionRelationship = typeof COMPANION_RELATIONSHIPS[number];
+
+export const companionRelationshipLabels: Record<CompanionRelationship, MessageKey> = {
+  partner: 'companions.partner',
+  child: 'companions.child',
+  parent: 'companions.parent',
+  friend: 'companions.friend',
+  colleague: 'companions.colleague',
+  other: 'companions.other',
+};
+
+export const MAX_COMPANIONS = 20;
+
+export const companionSchema = z.object({
+  // Generated when the companion is added; travel documents refer to it
+  id: z.string().min(1),
+  name: z.string().trim()
+    .min(2, 'validation.nameTooShort')
+    .max(100, 'validation.nameTooLong'),
+  relationship: z.enum(COMPANION_RELATIONSHIPS),
+  // Companions can be children, so unlike dobSchema there's no minimum age
+  dob: z.string().superRefine((val, ctx) => {
+    if (!val) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'validation.dateOfBirthRequired' });
+    } else if (!isValidDate(val) || getAge(val) < 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'validation.dateInvalid' });
+    }
+  }),
+});
+
+export const companionsSchema = z.object({
+  companions: z.array(companionSchema)
+    .max(MAX_COMPANIONS, 'validation.tooManyCompanions'),
+});
+
+export type Companion = z.infer<typeof companionSchema>;
+export type CompanionsFormData = z.infer<typeof companionsSchema>;
+
+// Profiles created at sign-up start with `onboarded: false` until the
+// onboarding wizard or the profile editor fills in the rest. Older profiles
+// don't have the flag and are treated as complete.
+export function needsOnboarding(userData: UserData | null) {
+  return userData?.onboarded === false;
+}
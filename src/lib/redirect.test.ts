@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REDIRECT, getSafeRedirect, withNext } from './redirect';
+
+describe('getSafeRedirect', () => {
+  it('keeps same-origin paths with their query and hash', () => {
+    expect(getSafeRedirect('/trips/abc?tab=days#day-2')).toBe('/trips/abc?tab=days#day-2');
+  });
+
+  it.each([
+    ['missing', null],
+    ['absolute URLs', 'https://evil.example/profile'],
+    ['protocol-relative URLs', '//evil.example'],
+    ['backslash tricks', '/\\evil.example'],
+    ['relative paths', 'profile'],
+    ['auth pages', '/login'],
+  ])('falls back for %s', (_, target) => {
+    expect(getSafeRedirect(target)).toBe(DEFAULT_REDIRECT);
+  });
+
+  it('uses the given fallback', () => {
+    expect(getSafeRedirect(undefined, '/trips')).toBe('/trips');
+  });
+});
+
+describe('withNext', () => {
+  it('leaves the default destination off the URL', () => {
+    expect(withNext('/login', DEFAULT_REDIRECT)).toBe('/login');
+  });
+
+  it('encodes the destination and extra params', () => {
+    expect(withNext('/login', '/trips/new', { method: 'link' })).toBe('/login?method=link&next=%2Ftrips%2Fnew');
+  });
+});
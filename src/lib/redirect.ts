@@ -0,0 +1,32 @@
+export const DEFAULT_REDIRECT = '/';
+
+// Pages a user should never be sent back to after signing in
+const AUTH_PATHS = ['/login', '/signup', '/forgot-password'];
+
+// Only allow same-origin paths, so a crafted `?next=https://evil.example`
+// or `?next=//evil.example` can't bounce users off-site after sign-in.
+export function getSafeRedirect(target: string | null | undefined, fallback = DEFAULT_REDIRECT) {
+  if (!target || !target.startsWith('/') || target.startsWith('//') || target.startsWith('/\\')) {
+    return fallback;
+  }
+
+  try {
+    const url = new URL(target, window.location.origin);
+    if (url.origin !== window.location.origin || AUTH_PATHS.includes(url.pathname)) {
+      return fallback;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return fallback;
+  }
+}
+
+// Appends `?next=` to an auth page path so the target survives the round trip
+export function withNext(path: string, next: string, params: Record<string, string> = {}) {
+  const searchParams = new URLSearchParams(params);
+  if (next !== DEFAULT_REDIRECT) {
+    searchParams.set('next', next);
+  }
+  const query = searchParams.toString();
+  return query ? `${path}?${query}` : path;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { rolesFromClaims } from './roles';
+
+describe('rolesFromClaims', () => {
+  it('treats every user as a traveller', () => {
+    expect(rolesFromClaims({})).toEqual(['traveller']);
+  });
+
+  it('reads a roles array', () => {
+    expect(rolesFromClaims({ roles: ['agent', 'admin'] })).toEqual(['traveller', 'agent', 'admin']);
+  });
+
+  it('reads a single role string', () => {
+    expect(rolesFromClaims({ role: 'agent' })).toEqual(['traveller', 'agent']);
+  });
+
+  it('ignores unknown roles', () => {
+    expect(rolesFromClaims({ roles: ['superuser', 'admin'] })).toEqual(['traveller', 'admin']);
+  });
+});
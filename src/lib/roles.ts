@@ -0,0 +1,18 @@
+import { ParsedToken } from 'firebase/auth';
+
+export const ROLES = ['traveller', 'agent', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+// Roles are set as custom claims by the backend, either as a `roles` array
+// or a single `role` string. Every signed-in user is at least a traveller.
+export function rolesFromClaims(claims: ParsedToken): Role[] {
+  const claimed = Array.isArray(claims.roles) ? claims.roles : [claims.role];
+  const roles = new Set<Role>(['traveller']);
+  claimed.filter(isRole).forEach(role => roles.add(role));
+  return Array.from(roles);
+}
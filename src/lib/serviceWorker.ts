@@ -0,0 +1,12 @@
+// Registers public/sw.js, which keeps the app available offline and lets it
+// be installed. Production builds only: in development the worker would
+// serve stale modules.
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.error("Error registering service worker:", err);
+    });
+  });
+}
@@ -0,0 +1,41 @@
+export const SIGN_OUT_REASONS = ['user', 'idle', 'revoked'] as const;
+
+// Why the session ended: the user signed out, went idle, or was signed out
+// of every device
+export type SignOutReason = typeof SIGN_OUT_REASONS[number];
+
+export interface SessionMessage {
+  type: 'signed-out';
+  reason: SignOutReason;
+}
+
+function isSessionMessage(value: unknown): value is SessionMessage {
+  const message = value as SessionMessage | null;
+  return message?.type === 'signed-out' && SIGN_OUT_REASONS.includes(message.reason);
+}
+
+export interface SessionChannel {
+  post: (message: SessionMessage) => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'auth-session';
+
+// Tells the app's other tabs about sign-outs. Firebase already shares a
+// sign-out between tabs with local persistence, but each tab has its own
+// session with session persistence, and those need telling. Messages
+// aren't delivered back to the tab that posts them.
+export function openSessionChannel(onMessage: (message: SessionMessage) => void): SessionChannel {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { post: () => {}, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent) => {
+    if (isSessionMessage(e.data)) onMessage(e.data);
+  };
+  return {
+    post: message => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
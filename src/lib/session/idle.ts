@@ -0,0 +1,66 @@
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+
+// How long the "Are you still there?" warning is up before signing out
+export const IDLE_WARNING_SECONDS = 60;
+
+export interface IdleTimeoutConfig {
+  // Sign out after this long without any activity. 0 turns the timeout off.
+  timeoutMs: number;
+  // How long before the timeout to warn the user
+  warningMs: number;
+}
+
+// Reads the timeout from configuration, in minutes. Anything that isn't a
+// number falls back to the default rather than leaving sessions open.
+export function idleTimeoutConfig(minutes: string | undefined): IdleTimeoutConfig {
+  const parsed = minutes?.trim() ? Number(minutes) : NaN;
+  const timeoutMinutes = Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_IDLE_TIMEOUT_MINUTES;
+  const timeoutMs = timeoutMinutes * 60 * 1000;
+  // Short timeouts, as on kiosks, still leave most of the time to work in
+  return { timeoutMs, warningMs: Math.min(IDLE_WARNING_SECONDS * 1000, timeoutMs / 2) };
+}
+
+export type IdleState =
+  | { status: 'active' }
+  | { status: 'warning'; secondsLeft: number }
+  | { status: 'expired' };
+
+export function getIdleState(lastActivity: number, now: number, config: IdleTimeoutConfig): IdleState {
+  if (config.timeoutMs <= 0) return { status: 'active' };
+
+  const remaining = lastActivity + config.timeoutMs - now;
+  if (remaining <= 0) return { status: 'expired' };
+  if (remaining <= config.warningMs) return { status: 'warning', secondsLeft: Math.ceil(remaining / 1000) };
+  return { status: 'active' };
+}
+
+// The last activity in any tab, kept in localStorage so working in one tab
+// keeps the others signed in too
+const LAST_ACTIVITY_KEY = 'lastActivity';
+
+// Pointer moves fire constantly, so activity is written at most this often
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+
+export function readLastActivity(): number | null {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : null;
+}
+
+export function recordActivity(now = Date.now(), { force = false } = {}) {
+  const last = readLastActivity();
+  if (!force && last !== null && now - last < ACTIVITY_WRITE_INTERVAL_MS) return;
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+}
+
+// Set in sessionStorage once a tab has started tracking activity
+const TAB_TRACKING_KEY = 'idleTracking';
+
+// Opening the app afresh counts as activity: a new tab, or the browser
+// reopened on a remembered session, where the last activity stored is from
+// before it was closed. Reloading a tab keeps its sessionStorage, so a
+// reload can't put off the timeout.
+export function startIdleTracking(now = Date.now()) {
+  if (sessionStorage.getItem(TAB_TRACKING_KEY)) return;
+  sessionStorage.setItem(TAB_TRACKING_KEY, String(now));
+  recordActivity(now, { force: true });
+}
@@ -0,0 +1,10 @@
+import { idleTimeoutConfig } from './idle';
+
+export * from './idle';
+export * from './sessionVersion';
+export * from './broadcast';
+export * from './persistence';
+
+// VITE_IDLE_TIMEOUT_MINUTES sets how long a session may sit unused; 0 turns
+// the timeout off. Offices with shared kiosks will want it short.
+export const idleTimeout = idleTimeoutConfig(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES);
@@ -0,0 +1,33 @@
+import { SIGN_OUT_REASONS, SignOutReason } from './broadcast';
+
+// Whether the user chose "Remember me" when signing in on this browser.
+// Firestore only keeps its offline cache on disk for remembered sessions:
+// on a shared computer the cache would otherwise hold the last user's data,
+// passport numbers included, after they've signed out.
+const REMEMBER_SESSION_KEY = 'rememberSession';
+
+export function readRememberedSession() {
+  return localStorage.getItem(REMEMBER_SESSION_KEY) === 'true';
+}
+
+export function writeRememberedSession(remember: boolean) {
+  if (remember) localStorage.setItem(REMEMBER_SESSION_KEY, 'true');
+  else localStorage.removeItem(REMEMBER_SESSION_KEY);
+}
+
+// Clearing the offline cache takes a reload, so the reason for a sign-out is
+// carried over it in sessionStorage
+const SIGN_OUT_REASON_KEY = 'signOutReason';
+
+export function storeSignOutReason(reason: SignOutReason) {
+  sessionStorage.setItem(SIGN_OUT_REASON_KEY, reason);
+}
+
+export function readStoredSignOutReason(): SignOutReason | null {
+  const reason = sessionStorage.getItem(SIGN_OUT_REASON_KEY);
+  return SIGN_OUT_REASONS.find(known => known === reason) ?? null;
+}
+
+export function clearStoredSignOutReason() {
+  sessionStorage.removeItem(SIGN_OUT_REASON_KEY);
+}
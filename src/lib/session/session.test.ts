@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  checkSessionVersion,
+  clearStoredSignOutReason,
+  getIdleState,
+  idleTimeoutConfig,
+  readLastActivity,
+  readRememberedSession,
+  readSessionRecord,
+  readStoredSignOutReason,
+  recordActivity,
+  SessionRecord,
+  startIdleTracking,
+  storeSignOutReason,
+  writeRememberedSession,
+  writeSessionRecord,
+} from '.';
+
+const MINUTE = 60 * 1000;
+
+describe('idleTimeoutConfig', () => {
+  it('reads the timeout in minutes and warns a minute before', () => {
+    expect(idleTimeoutConfig('15')).toEqual({ timeoutMs: 15 * MINUTE, warningMs: MINUTE });
+  });
+
+  it('falls back to half an hour for missing or unreadable values', () => {
+    for (const minutes of [undefined, '', ' ', 'soon', '-5']) {
+      expect(idleTimeoutConfig(minutes).timeoutMs).toBe(30 * MINUTE);
+    }
+  });
+
+  it('turns the timeout off with 0', () => {
+    expect(idleTimeoutConfig('0').timeoutMs).toBe(0);
+  });
+
+  it('shortens the warning for short timeouts', () => {
+    expect(idleTimeoutConfig('1').warningMs).toBe(MINUTE / 2);
+  });
+});
+
+describe('getIdleState', () => {
+  const config = idleTimeoutConfig('10');
+  const start = Date.UTC(2024, 0, 1, 9, 0);
+
+  it('stays active until the warning', () => {
+    expect(getIdleState(start, start + 8 * MINUTE, config)).toEqual({ status: 'active' });
+  });
+
+  it('counts down the seconds left during the warning', () => {
+    expect(getIdleState(start, start + 9 * MINUTE, config)).toEqual({ status: 'warning', secondsLeft: 60 });
+    expect(getIdleState(start, start + 10 * MINUTE - 1500, config)).toEqual({ status: 'warning', secondsLeft: 2 });
+  });
+
+  it('expires at the timeout', () => {
+    expect(getIdleState(start, start + 10 * MINUTE, config)).toEqual({ status: 'expired' });
+  });
+
+  it('never expires with the timeout off', () => {
+    expect(getIdleState(start, start + 1000 * MINUTE, idleTimeoutConfig('0'))).toEqual({ status: 'active' });
+  });
+});
+
+describe('recordActivity', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('writes at most every few seconds unless forced', () => {
+    recordActivity(10_000);
+    recordActivity(12_000);
+    expect(readLastActivity()).toBe(10_000);
+
+    recordActivity(16_000);
+    expect(readLastActivity()).toBe(16_000);
+
+    recordActivity(17_000, { force: true });
+    expect(readLastActivity()).toBe(17_000);
+  });
+
+  it('reads nothing before any activity', () => {
+    expect(readLastActivity()).toBeNull();
+  });
+});
+
+describe('startIdleTracking', () => {
+  const config = idleTimeoutConfig('30');
+  const now = Date.UTC(2024, 0, 1, 18, 0);
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    // Left by a remembered session before the browser was closed
+    recordActivity(now - 3 * 60 * MINUTE, { force: true });
+  });
+
+  it('counts opening the browser on a remembered session as activity', () => {
+    startIdleTracking(now);
+    expect(getIdleState(readLastActivity()!, now, config)).toEqual({ status: 'active' });
+  });
+
+  it("doesn't count reloading a tab that was already tracking", () => {
+    sessionStorage.setItem('idleTracking', String(now - 3 * 60 * MINUTE));
+    startIdleTracking(now);
+    expect(getIdleState(readLastActivity()!, now, config)).toEqual({ status: 'expired' });
+  });
+});
+
+describe('checkSessionVersion', () => {
+  const record: SessionRecord = { uid: 'alice', authTime: 'Mon, 01 Jan 2024 09:00:00 GMT', version: 2 };
+
+  it('adopts the current version when a session starts', () => {
+    expect(checkSessionVersion(null, { uid: 'alice', authTime: record.authTime, version: 2, confirmed: true }))
+      .toEqual({ revoked: false, record });
+  });
+
+  it('waits for the server before adopting a version', () => {
+    expect(checkSessionVersion(null, { uid: 'alice', authTime: record.authTime, version: 2, confirmed: false }))
+      .toEqual({ revoked: false, record: null });
+  });
+
+  it('revokes the session once the version moves on', () => {
+    const snapshot = { uid: 'alice', authTime: record.authTime, confirmed: false };
+    expect(checkSessionVersion(record, { ...snapshot, version: 2 }).revoked).toBe(false);
+    expect(checkSessionVersion(record, { ...snapshot, version: 3 }).revoked).toBe(true);
+  });
+
+  it('starts again for a new sign-in or another user', () => {
+    const authTime = 'Tue, 02 Jan 2024 09:00:00 GMT';
+    expect(checkSessionVersion(record, { uid: 'alice', authTime, version: 3, confirmed: true }))
+      .toEqual({ revoked: false, record: { uid: 'alice', authTime, version: 3 } });
+    expect(checkSessionVersion(record, { uid: 'bob', authTime: record.authTime, version: 5, confirmed: true }))
+      .toEqual({ revoked: false, record: { uid: 'bob', authTime: record.authTime, version: 5 } });
+  });
+});
+
+describe('session records', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('round-trips through localStorage', () => {
+    const record = { uid: 'alice', authTime: 'Mon, 01 Jan 2024 09:00:00 GMT', version: 1 };
+    writeSessionRecord(record);
+    expect(readSessionRecord()).toEqual(record);
+  });
+
+  it('ignores unreadable records', () => {
+    localStorage.setItem('sessionVersion', '{not json');
+    expect(readSessionRecord()).toBeNull();
+    localStorage.setItem('sessionVersion', JSON.stringify({ uid: 'alice' }));
+    expect(readSessionRecord()).toBeNull();
+  });
+});
+
+describe('remembered sessions', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('are off until the user asks to be remembered', () => {
+    expect(readRememberedSession()).toBe(false);
+    writeRememberedSession(true);
+    expect(readRememberedSession()).toBe(true);
+    writeRememberedSession(false);
+    expect(readRememberedSession()).toBe(false);
+  });
+});
+
+describe('stored sign-out reasons', () => {
+  beforeEach(() => sessionStorage.clear());
+
+  it('carry the reason over a reload until cleared', () => {
+    storeSignOutReason('idle');
+    expect(readStoredSignOutReason()).toBe('idle');
+    clearStoredSignOutReason();
+    expect(readStoredSignOutReason()).toBeNull();
+  });
+
+  it('ignore unknown reasons', () => {
+    sessionStorage.setItem('signOutReason', 'bored');
+    expect(readStoredSignOutReason()).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+// "Sign out all devices" bumps users/{uid}.sessionVersion. Every signed-in
+// client remembers the version its session started under and signs out
+// once the stored one moves past it. Sessions are told apart by the ID
+// token's auth_time, so signing in again starts from the current version.
+
+export interface SessionRecord {
+  uid: string;
+  authTime: string;
+  version: number;
+}
+
+export interface SessionVersionSnapshot {
+  uid: string;
+  authTime: string;
+  version: number;
+  // Read from the server rather than the offline cache. A new session only
+  // adopts a confirmed version, since the cache may be from before a
+  // sign-out everywhere that the server already knows about.
+  confirmed: boolean;
+}
+
+export function checkSessionVersion(
+  record: SessionRecord | null,
+  snapshot: SessionVersionSnapshot
+): { revoked: boolean; record: SessionRecord | null } {
+  const { uid, authTime, version, confirmed } = snapshot;
+  const sameSession = record?.uid === uid && record.authTime === authTime;
+
+  if (sameSession) {
+    return { revoked: version > record.version, record };
+  }
+  return { revoked: false, record: confirmed ? { uid, authTime, version } : record };
+}
+
+const SESSION_RECORD_KEY = 'sessionVersion';
+
+export function readSessionRecord(): SessionRecord | null {
+  try {
+    const record = JSON.parse(localStorage.getItem(SESSION_RECORD_KEY) ?? 'null');
+    if (
+      typeof record?.uid === 'string' &&
+      typeof record.authTime === 'string' &&
+      typeof record.version === 'number'
+    ) {
+      return record;
+    }
+  } catch {
+    // Unreadable records are replaced on the next confirmed snapshot
+  }
+  return null;
+}
+
+export function writeSessionRecord(record: SessionRecord) {
+  localStorage.setItem(SESSION_RECORD_KEY, JSON.stringify(record));
+}
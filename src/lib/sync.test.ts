@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPendingWriteCount, settleWrite, whenOnline } from './sync';
+
+function deferred() {
+  let resolve!: () => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+function goOffline() {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+}
+
+describe('settleWrite', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('reports writes the server has as saved', async () => {
+    const write = deferred();
+    const result = settleWrite(write.promise);
+    expect(getPendingWriteCount()).toBe(1);
+
+    write.resolve();
+
+    await expect(result).resolves.toBe('saved');
+    expect(getPendingWriteCount()).toBe(0);
+  });
+
+  it('settles for the local cache when the server is slow', async () => {
+    const write = deferred();
+    const result = settleWrite(write.promise, { graceMs: 1000 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toBe('savedLocally');
+    expect(getPendingWriteCount()).toBe(1);
+    write.resolve();
+    await vi.runAllTimersAsync();
+    expect(getPendingWriteCount()).toBe(0);
+  });
+
+  it("doesn't wait for the server while offline", async () => {
+    goOffline();
+    const write = deferred();
+    const result = settleWrite(write.promise);
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(result).resolves.toBe('savedLocally');
+    write.resolve();
+  });
+
+  it('rejects writes that fail straight away', async () => {
+    goOffline();
+    const result = settleWrite(Promise.reject(new Error('Invalid data')));
+
+    await expect(result).rejects.toThrow('Invalid data');
+  });
+
+  it('reports a write rejected after it was saved locally', async () => {
+    goOffline();
+    const write = deferred();
+    const onLateError = vi.fn();
+    const result = settleWrite(write.promise, { onLateError });
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(result).resolves.toBe('savedLocally');
+
+    write.reject(new Error('permission-denied'));
+    await vi.runAllTimersAsync();
+
+    expect(onLateError).toHaveBeenCalledWith(new Error('permission-denied'));
+  });
+});
+
+describe('whenOnline', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs the task straight away when online', () => {
+    const task = vi.fn();
+    whenOnline(task);
+    expect(task).toHaveBeenCalledOnce();
+  });
+
+  it('waits for the connection to come back', () => {
+    goOffline();
+    const task = vi.fn();
+    whenOnline(task);
+    expect(task).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new Event('online'));
+    window.dispatchEvent(new Event('online'));
+
+    expect(task).toHaveBeenCalledOnce();
+  });
+});
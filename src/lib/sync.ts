@@ -0,0 +1,94 @@
+// Firestore applies a write to its local cache straight away and sends it
+// once the server can be reached; the promise from setDoc only settles
+// when the server has it. Offline that's not until the connection is back,
+// which is too long for a form to wait, so forms settle for the cache.
+
+export type SaveResult = 'saved' | 'savedLocally';
+
+// How long to wait for the server before calling a write saved locally
+export const SERVER_SAVE_GRACE_MS = 3000;
+
+type Listener = () => void;
+
+let pendingWrites = 0;
+const listeners = new Set<Listener>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+// How many writes are still on their way to the server
+export function getPendingWriteCount() {
+  return pendingWrites;
+}
+
+export function subscribeToPendingWrites(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Counts the write as pending until it settles
+export function trackWrite<T>(write: Promise<T>): Promise<T> {
+  pendingWrites += 1;
+  notify();
+  const done = () => {
+    pendingWrites -= 1;
+    notify();
+  };
+  write.then(done, done);
+  return write;
+}
+
+export interface SettleWriteOptions {
+  graceMs?: number;
+  // For a write the server rejects after it was reported saved locally
+  onLateError?: (err: unknown) => void;
+}
+
+// Resolves 'saved' once the server has the write, or 'savedLocally' if it's
+// still queued offline, or hasn't arrived within the grace period
+export function settleWrite(
+  write: Promise<unknown>,
+  { graceMs = SERVER_SAVE_GRACE_MS, onLateError }: SettleWriteOptions = {}
+): Promise<SaveResult> {
+  trackWrite(write);
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const timer = setTimeout(() => {
+      settled = true;
+      resolve('savedLocally');
+    }, navigator.onLine ? graceMs : 0);
+
+    write.then(
+      () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve('saved');
+      },
+      err => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timer);
+          reject(err);
+        } else if (onLateError) {
+          onLateError(err);
+        } else {
+          console.error("Error syncing a change saved offline:", err);
+        }
+      }
+    );
+  });
+}
+
+// Runs the task now, or once the browser is back online
+export function whenOnline(task: () => void) {
+  if (navigator.onLine) {
+    task();
+    return;
+  }
+  window.addEventListener('online', () => task(), { once: true });
+}
@@ -0,0 +1,41 @@
+import { ColorScheme, ThemeTokens } from './tokens';
+
+// A white-label skin. Partners get their own name and colours; anything they
+// leave out comes from the default palette.
+export interface Brand {
+  id: string;
+  // Shown in the window title and in authenticator apps
+  name: string;
+  colors?: Partial<Record<ColorScheme, Partial<ThemeTokens>>>;
+}
+
+export const defaultBrand: Brand = {
+  id: 'default',
+  name: 'AI Travel Assistant',
+};
+
+// An example partner skin in teal, and a check that a brand can restyle the
+// app without touching any component
+export const harbourBrand: Brand = {
+  id: 'harbour',
+  name: 'Harbour Travel',
+  colors: {
+    light: {
+      'primary': '#0f766e',
+      'primary-hover': '#115e59',
+      'ring': '#0f766e',
+    },
+    dark: {
+      'primary': '#2dd4bf',
+      'primary-hover': '#5eead4',
+      'ring': '#2dd4bf',
+    },
+  },
+};
+
+// Add a partner's brand here and build with VITE_BRAND set to its id
+export const BRANDS: readonly Brand[] = [defaultBrand, harbourBrand];
+
+export function getBrand(id: string | undefined): Brand {
+  return BRANDS.find(brand => brand.id === id) ?? defaultBrand;
+}
@@ -0,0 +1,8 @@
+import { getBrand } from './brands';
+
+export * from './tokens';
+export * from './brands';
+export * from './theme';
+
+// The brand this build is skinned for. Unknown ids fall back to the default.
+export const activeBrand = getBrand(import.meta.env.VITE_BRAND);
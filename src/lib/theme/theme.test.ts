@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  brandTokens,
+  darkTokens,
+  defaultBrand,
+  getBrand,
+  harbourBrand,
+  isThemePreference,
+  lightTokens,
+  resolveColorScheme,
+  THEME_TOKENS,
+  tokenVariables,
+} from '.';
+
+describe('resolveColorScheme', () => {
+  it('follows the device for the system preference', () => {
+    expect(resolveColorScheme('system', true)).toBe('dark');
+    expect(resolveColorScheme('system', false)).toBe('light');
+  });
+
+  it('keeps an explicit choice whatever the device says', () => {
+    expect(resolveColorScheme('light', true)).toBe('light');
+    expect(resolveColorScheme('dark', false)).toBe('dark');
+  });
+});
+
+describe('isThemePreference', () => {
+  it('accepts only the known preferences', () => {
+    expect(isThemePreference('dark')).toBe(true);
+    expect(isThemePreference('sepia')).toBe(false);
+    expect(isThemePreference(null)).toBe(false);
+  });
+});
+
+describe('brandTokens', () => {
+  it('uses the default palette for the default brand', () => {
+    expect(brandTokens(defaultBrand, 'light')).toEqual(lightTokens);
+    expect(brandTokens(defaultBrand, 'dark')).toEqual(darkTokens);
+  });
+
+  it("lays a partner's colours over the default palette", () => {
+    const tokens = brandTokens(harbourBrand, 'dark');
+    expect(tokens.primary).toBe('#2dd4bf');
+    expect(tokens.surface).toBe(darkTokens.surface);
+  });
+});
+
+describe('getBrand', () => {
+  it('falls back to the default brand for unknown ids', () => {
+    expect(getBrand('harbour')).toBe(harbourBrand);
+    expect(getBrand('nobody')).toBe(defaultBrand);
+    expect(getBrand(undefined)).toBe(defaultBrand);
+  });
+});
+
+describe('tokenVariables', () => {
+  it('sets every token as RGB channels for Tailwind', () => {
+    const variables = tokenVariables(lightTokens);
+    expect(Object.keys(variables)).toHaveLength(THEME_TOKENS.length);
+    expect(variables['--color-primary']).toBe('37 99 235');
+    expect(variables['--color-surface']).toBe('255 255 255');
+  });
+});
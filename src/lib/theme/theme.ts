@@ -0,0 +1,24 @@
+import { Brand } from './brands';
+import { ColorScheme, darkTokens, lightTokens, ThemeTokens } from './tokens';
+
+// What the user picked. `system` follows the device's light or dark setting.
+export const THEME_PREFERENCES = ['light', 'dark', 'system'] as const;
+
+export type ThemePreference = typeof THEME_PREFERENCES[number];
+
+export const DEFAULT_THEME_PREFERENCE: ThemePreference = 'system';
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return THEME_PREFERENCES.includes(value as ThemePreference);
+}
+
+export function resolveColorScheme(preference: ThemePreference, systemPrefersDark: boolean): ColorScheme {
+  if (preference === 'system') return systemPrefersDark ? 'dark' : 'light';
+  return preference;
+}
+
+// The brand's colours over the default palette
+export function brandTokens(brand: Brand, scheme: ColorScheme): ThemeTokens {
+  const base = scheme === 'dark' ? darkTokens : lightTokens;
+  return { ...base, ...brand.colors?.[scheme] };
+}
@@ -0,0 +1,125 @@
+// The semantic colours the UI is styled with. Each one is a CSS variable,
+// `--color-<token>`, that tailwind.config.js turns into classes such as
+// `bg-surface` and `text-muted`. Kept in step with tailwind.config.js.
+export const THEME_TOKENS = [
+  // The page behind the cards
+  'background',
+  // Cards, dialogs and form controls
+  'surface',
+  // Hovered rows, secondary buttons and empty avatars
+  'surface-muted',
+  // Progress tracks and pressed secondary buttons
+  'surface-strong',
+  'foreground',
+  // Labels, hints and body copy
+  'muted',
+  // Placeholders and fine print
+  'subtle',
+  // Decorative icons, which don't have to meet text contrast
+  'faint',
+  // Dividers and card edges
+  'border',
+  // The edges of form controls, which have to stand out at 3:1
+  'input',
+  // Primary buttons, links and selected tabs
+  'primary',
+  'primary-hover',
+  // Text on a primary fill
+  'primary-foreground',
+  'ring',
+  // Field errors and destructive actions
+  'danger',
+  'danger-surface',
+  'danger-foreground',
+  'danger-border',
+  'success',
+  'success-surface',
+  'success-foreground',
+  'warning',
+  'warning-surface',
+  'warning-foreground',
+  'info',
+  'info-surface',
+  'info-foreground',
+] as const;
+
+export type ThemeToken = typeof THEME_TOKENS[number];
+
+// A colour for every token, as #rrggbb
+export type ThemeTokens = Record<ThemeToken, string>;
+
+export type ColorScheme = 'light' | 'dark';
+
+// Tailwind's gray, blue, red, green and amber scales
+export const lightTokens: ThemeTokens = {
+  'background': '#f9fafb',
+  'surface': '#ffffff',
+  'surface-muted': '#f3f4f6',
+  'surface-strong': '#e5e7eb',
+  'foreground': '#111827',
+  'muted': '#4b5563',
+  'subtle': '#6b7280',
+  'faint': '#9ca3af',
+  'border': '#e5e7eb',
+  'input': '#6b7280',
+  'primary': '#2563eb',
+  'primary-hover': '#1d4ed8',
+  'primary-foreground': '#ffffff',
+  'ring': '#2563eb',
+  'danger': '#dc2626',
+  'danger-surface': '#fef2f2',
+  'danger-foreground': '#b91c1c',
+  'danger-border': '#fca5a5',
+  'success': '#15803d',
+  'success-surface': '#f0fdf4',
+  'success-foreground': '#166534',
+  'warning': '#b45309',
+  'warning-surface': '#fffbeb',
+  'warning-foreground': '#92400e',
+  'info': '#1d4ed8',
+  'info-surface': '#eff6ff',
+  'info-foreground': '#1e40af',
+};
+
+// Light text on dark greys. The primary fill turns lighter, with dark text on
+// it, so it reads both as a button and as a link.
+export const darkTokens: ThemeTokens = {
+  'background': '#030712',
+  'surface': '#111827',
+  'surface-muted': '#1f2937',
+  'surface-strong': '#374151',
+  'foreground': '#f3f4f6',
+  'muted': '#d1d5db',
+  'subtle': '#9ca3af',
+  'faint': '#6b7280',
+  'border': '#374151',
+  'input': '#6b7280',
+  'primary': '#60a5fa',
+  'primary-hover': '#93c5fd',
+  'primary-foreground': '#030712',
+  'ring': '#60a5fa',
+  'danger': '#f87171',
+  'danger-surface': '#450a0a',
+  'danger-foreground': '#fecaca',
+  'danger-border': '#991b1b',
+  'success': '#4ade80',
+  'success-surface': '#052e16',
+  'success-foreground': '#bbf7d0',
+  'warning': '#fbbf24',
+  'warning-surface': '#451a03',
+  'warning-foreground': '#fde68a',
+  'info': '#60a5fa',
+  'info-surface': '#172554',
+  'info-foreground': '#bfdbfe',
+};
+
+// "#2563eb" as "37 99 235", so Tailwind's opacity modifiers work on it
+function toChannels(hex: string) {
+  return [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16)).join(' ');
+}
+
+export function tokenVariables(tokens: ThemeTokens): Record<string, string> {
+  return Object.fromEntries(
+    THEME_TOKENS.map(token => [`--color-${token}`, toChannels(tokens[token])])
+  );
+}
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  createConverter,
+  optionalStringField,
+  timestampField,
+  withCreatedTimestamps,
+  withUpdatedTimestamp,
+} from './firestoreConverter';
+
+const tripItemSchema = z.object({
+  time: z.string().optional(),
+  title: z.string().min(1, 'validation.titleRequired'),
+  location: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const tripDaySchema = z.object({
+  date: z.string().refine(val => Boolean(val), {
+    message: 'validation.dateRequired'
+  }),
+  items: z.array(tripItemSchema),
+});
+
+export const tripSchema = z.object({
+  destination: z.string().min(2, 'validation.destinationTooShort'),
+  startDate: z.string().refine(val => Boolean(val), {
+    message: 'validation.startDateRequired'
+  }),
+  endDate: z.string().refine(val => Boolean(val), {
+    message: 'validation.endDateRequired'
+  }),
+  travellers: z.number({ invalid_type_error: 'validation.travellersRequired' })
+    .int('validation.travellersWholeNumber')
+    .min(1, 'validation.travellersTooFew')
+    .max(50, 'validation.travellersTooMany'),
+  days: z.array(tripDaySchema),
+}).superRefine((data, ctx) => {
+  if (data.startDate && data.endDate && data.endDate < data.startDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'validation.endDateBeforeStart',
+      path: ['endDate'],
+    });
+  }
+
+  // Every planned day has to fall inside the trip's date range
+  data.days.forEach((day, index) => {
+    if (day.date && (day.date < data.startDate || day.date > data.endDate)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'validation.dateOutsideTrip',
+        path: ['days', index, 'date'],
+      });
+    }
+  });
+});
+
+export type TripFormData = z.infer<typeof tripSchema>;
+export type TripDay = z.infer<typeof tripDaySchema>;
+export type TripItem = z.infer<typeof tripItemSchema>;
+
+// What's stored in users/{uid}/trips. Unlike tripSchema this never fails:
+// a malformed trip still opens in the editor so it can be fixed.
+const storedTripSchema = z.object({
+  destination: z.string().catch(''),
+  startDate: z.string().catch(''),
+  endDate: z.string().catch(''),
+  travellers: z.number().catch(1),
+  days: z.array(z.object({
+    date: z.string().catch(''),
+    items: z.array(z.object({
+      time: optionalStringField,
+      title: z.string().catch(''),
+      location: optionalStringField,
+      notes: optionalStringField,
+    })).catch([]),
+  })).catch([]),
+  createdAt: timestampField,
+  updatedAt: timestampField,
+});
+
+type StoredTrip = z.infer<typeof storedTripSchema>;
+
+export interface Trip extends StoredTrip {
+  id: string;
+}
+
+const tripConverter = createConverter(storedTripSchema);
+
+function tripsCollection(uid: string) {
+  return collection(db, 'users', uid, 'trips').withConverter(tripConverter);
+}
+
+export async function listTrips(uid: string): Promise<Trip[]> {
+  const snapshot = await getDocs(query(tripsCollection(uid), orderBy('startDate')));
+  return snapshot.docs.map(tripDoc => ({ id: tripDoc.id, ...tripDoc.data() }));
+}
+
+export async function getTrip(uid: string, tripId: string): Promise<Trip | null> {
+  const tripDoc = await getDoc(doc(tripsCollection(uid), tripId));
+  if (!tripDoc.exists()) return null;
+  return { id: tripDoc.id, ...tripDoc.data() };
+}
+
+export async function createTrip(uid: string, data: TripFormData): Promise<string> {
+  const tripRef = await addDoc(tripsCollection(uid), withCreatedTimestamps(data));
+  return tripRef.id;
+}
+
+export async function updateTrip(uid: string, tripId: string, data: TripFormData) {
+  await updateDoc(doc(tripsCollection(uid), tripId), withUpdatedTimestamp(data));
+}
+
+export async function deleteTrip(uid: string, tripId: string) {
+  await deleteDoc(doc(tripsCollection(uid), tripId));
+}
@@ -0,0 +1,28 @@
+import { StorageReference, uploadBytesResumable, UploadMetadata } from 'firebase/storage';
+
+export interface FileUpload<T> {
+  // Resolves once the upload finishes
+  done: Promise<T>;
+  cancel: () => void;
+}
+
+// Uploads `data` to `fileRef`, reporting progress as a fraction from 0 to 1
+export function startUpload(
+  fileRef: StorageReference,
+  data: Blob,
+  metadata: UploadMetadata,
+  onProgress: (fraction: number) => void
+): FileUpload<StorageReference> {
+  const task = uploadBytesResumable(fileRef, data, metadata);
+
+  const done = new Promise<StorageReference>((resolve, reject) => {
+    task.on(
+      'state_changed',
+      snapshot => onProgress(snapshot.bytesTransferred / snapshot.totalBytes),
+      reject,
+      () => resolve(task.snapshot.ref)
+    );
+  });
+
+  return { done, cancel: () => task.cancel() };
+}
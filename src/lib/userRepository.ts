@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import {
+  collection,
+  doc,
+  FirestoreError,
+  getDoc,
+  getDocs,
+  increment,
+  onSnapshot,
+  runTransaction,
+  setDoc,
+  Unsubscribe,
+  waitForPendingWrites,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  createConverter,
+  optionalStringField,
+  timestampField,
+  withCreatedTimestamps,
+  withUpdatedTimestamp,
+} from './firestoreConverter';
+import {
+  COMPANION_RELATIONSHIPS,
+  INTERESTS,
+  MEAL_PREFERENCES,
+  SEAT_PREFERENCES,
+} from './profile';
+import { LOCALES } from './i18n';
+import { parseLegacyAddress } from './address';
+import { THEME_PREFERENCES } from './theme';
+
+// Stored forms of preferencesSchema and companionSchema in ./profile
+const storedPreferencesSchema = z.object({
+  homeAirport: optionalStringField,
+  seat: z.enum(SEAT_PREFERENCES).optional().catch(undefined),
+  meal: z.enum(MEAL_PREFERENCES).optional().catch(undefined),
+  loyaltyProgrammes: z.array(z.object({
+    programme: z.string().catch(''),
+    number: z.string().catch(''),
+  })).optional().catch(undefined),
+  budgetMin: z.number().optional().catch(undefined),
+  budgetMax: z.number().optional().catch(undefined),
+  currency: optionalStringField,
+  interests: z.array(z.enum(INTERESTS)).optional().catch(undefined),
+});
+
+// Stored form of addressSchema in ./address. Profiles used to keep the
+// address as free text, which is read as well as it can be until
+// migrateUserProfile has rewritten it.
+const storedAddressSchema = z.union([
+  z.object({
+    line1: z.string().catch(''),
+    line2: z.string().catch(''),
+    city: z.string().catch(''),
+    region: z.string().catch(''),
+    postalCode: z.string().catch(''),
+    country: z.string().catch(''),
+  }),
+  z.string().transform(parseLegacyAddress),
+]);
+
+const storedCompanionSchema = z.object({
+  id: z.string().catch(''),
+  name: z.string().catch(''),
+  relationship: z.enum(COMPANION_RELATIONSHIPS).catch('other'),
+  dob: z.string().catch(''),
+});
+
+// What's stored in users/{uid}. Kept in step with firestore.rules.
+export const userDataSchema = z.object({
+  username: optionalStringField,
+  dob: optionalStringField,
+  // E.164, though profiles saved before that hold whatever was typed
+  mobileNumber: optionalStringField,
+  mobileCountry: optionalStringField,
+  // mobileNumber as it's dialled within mobileCountry, for the profile form
+  mobileNumberDisplay: optionalStringField,
+  address: storedAddressSchema.optional().catch(undefined),
+  // Older profiles saved `null` when there was no photo
+  photoURL: z.string().nullish().transform(value => value ?? undefined).catch(undefined),
+  // The same picture in each of AVATAR_SIZES in src/lib/images.ts
+  photoURLs: z.object({ small: z.string(), medium: z.string(), large: z.string() }).optional().catch(undefined),
+  email: optionalStringField,
+  onboarded: z.boolean().optional().catch(undefined),
+  preferences: storedPreferencesSchema.optional().catch(undefined),
+  companions: z.array(storedCompanionSchema).optional().catch(undefined),
+  locale: z.enum(LOCALES).optional().catch(undefined),
+  theme: z.enum(THEME_PREFERENCES).optional().catch(undefined),
+  // Bumped by "sign out all devices"; see src/lib/session/sessionVersion.ts
+  sessionVersion: z.number().int().nonnegative().optional().catch(undefined),
+  createdAt: timestampField,
+  updatedAt: timestampField,
+});
+
+export type UserData = z.infer<typeof userDataSchema>;
+
+// The fields the app writes; timestamps are always set by the server
+export type UserProfileUpdate = Omit<UserData, 'createdAt' | 'updatedAt'>;
+
+export interface UserRecord extends UserData {
+  uid: string;
+}
+
+const userConverter = createConverter(userDataSchema);
+
+function userDoc(uid: string) {
+  return doc(db, 'users', uid).withConverter(userConverter);
+}
+
+export async function getUser(uid: string): Promise<UserData | null> {
+  const snapshot = await getDoc(userDoc(uid));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+export function subscribeToUser(
+  uid: string,
+  onChange: (userData: UserData | null) => void,
+  onError?: (err: FirestoreError) => void
+): Unsubscribe {
+  return onSnapshot(
+    userDoc(uid),
+    snapshot => onChange(snapshot.exists() ? snapshot.data() : null),
+    onError
+  );
+}
+
+// Follows the profile's session version for AuthProvider, noting whether
+// each value came from the server or only from the offline cache
+export function subscribeToSessionVersion(
+  uid: string,
+  onChange: (version: number, fromServer: boolean) => void,
+  onError?: (err: FirestoreError) => void
+): Unsubscribe {
+  return onSnapshot(
+    userDoc(uid),
+    { includeMetadataChanges: true },
+    snapshot => onChange(snapshot.data()?.sessionVersion ?? 0, !snapshot.metadata.fromCache),
+    onError
+  );
+}
+
+// Moves the profile on to a new session version, which signs out every
+// client that started its session under an older one. The backend is
+// expected to watch the same field to revoke the user's refresh tokens
+// with the Admin SDK, since clients can't do that themselves.
+export async function bumpSessionVersion(uid: string) {
+  await setDoc(doc(db, 'users', uid), withUpdatedTimestamp({ sessionVersion: increment(1) }), { merge: true });
+}
+
+export async function createUser(uid: string, data: UserProfileUpdate) {
+  await setDoc(userDoc(uid), withCreatedTimestamps(data));
+}
+
+// Creates the profile on first sign-in. Runs in a transaction so an existing
+// profile is never overwritten, even if two tabs sign in at once.
+export async function createUserIfMissing(uid: string, data: UserProfileUpdate): Promise<boolean> {
+  return runTransaction(db, async transaction => {
+    const ref = userDoc(uid);
+    const snapshot = await transaction.get(ref);
+    if (snapshot.exists()) return false;
+    transaction.set(ref, withCreatedTimestamps(data));
+    return true;
+  });
+}
+
+export async function saveUser(uid: string, data: UserProfileUpdate) {
+  await setDoc(userDoc(uid), withUpdatedTimestamp(data), { merge: true });
+}
+
+// Like saveUser, but the given fields are replaced outright rather than
+// merged into, so entries removed from a map or list don't linger
+export async function replaceUserFields(uid: string, data: UserProfileUpdate) {
+  await setDoc(userDoc(uid), withUpdatedTimestamp(data), {
+    mergeFields: [
+      ...Object.entries(data).filter(([, value]) => value !== undefined).map(([key]) => key),
+      'updatedAt',
+    ],
+  });
+}
+
+// Resolves once every change queued in the offline cache, including ones
+// from an earlier visit, has reached the server
+export function waitForPendingChanges() {
+  return waitForPendingWrites(db);
+}
+
+export async function listUsers(): Promise<UserRecord[]> {
+  const snapshot = await getDocs(collection(db, 'users').withConverter(userConverter));
+  return snapshot.docs
+    .map(userSnapshot => ({ uid: userSnapshot.id, ...userSnapshot.data() }))
+    .sort((a, b) => (a.username || a.email || '').localeCompare(b.username || b.email || ''));
+}
+
+// Brings a profile saved by an older version of the app up to date: free-text
+// addresses are split into their parts. Runs in a transaction so it can't
+// clobber a save made at the same time.
+export async function migrateUserProfile(uid: string): Promise<boolean> {
+  return runTransaction(db, async transaction => {
+    // Read without the converter, which would hide the old format
+    const ref = doc(db, 'users', uid);
+    const snapshot = await transaction.get(ref);
+    const address = snapshot.get('address');
+    if (typeof address !== 'string') return false;
+
+    transaction.set(ref, withUpdatedTimestamp({ address: parseLegacyAddress(address) }), { merge: true });
+    return true;
+  });
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { chunk } from './utils';
+
+describe('chunk', () => {
+  it('splits a list into runs of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('leaves the remainder in a last, shorter run', () => {
+    const refs = Array.from({ length: 1001 }, (_, index) => index);
+    expect(chunk(refs, 500).map(run => run.length)).toEqual([500, 500, 1]);
+  });
+
+  it('returns nothing for an empty list', () => {
+    expect(chunk([], 500)).toEqual([]);
+  });
+});
@@ -0,0 +1,543 @@
+import type { Catalog } from './en';
+
+export const ar: Catalog = {
+  'locale.label': 'اللغة',
+  'theme.label': 'المظهر',
+  'theme.light': 'فاتح',
+  'theme.dark': 'داكن',
+  'theme.system': 'حسب الجهاز',
+
+  'nav.main': 'الرئيسية',
+  'nav.breadcrumbs': 'مسار التنقل',
+  'nav.skipToContent': 'تخطَّ إلى المحتوى',
+  'nav.dashboard': 'لوحة التحكم',
+  'nav.trips': 'الرحلات',
+  'nav.newTrip': 'رحلة جديدة',
+  'nav.editTrip': 'تعديل الرحلة',
+  'nav.assistant': 'المساعد',
+  'nav.profile': 'الملف الشخصي',
+  'nav.admin': 'المستخدمون',
+  'nav.notFound': 'الصفحة غير موجودة',
+  'nav.accountMenu': 'قائمة الحساب',
+  'nav.signOut': 'تسجيل الخروج',
+  'nav.signOutFailed': 'تعذر تسجيل الخروج.',
+
+  'session.idleTitle': 'هل ما زلت هنا؟',
+  'session.idleBody': 'لم تقم بأي نشاط منذ فترة. حفاظًا على أمانك، سيتم تسجيل خروجك خلال {time}.',
+  'session.staySignedIn': 'البقاء متصلاً',
+  'session.signOut': 'تسجيل الخروج الآن',
+
+  'sync.offline': 'غير متصل',
+  'sync.offlinePending': 'غير متصل، التغييرات محفوظة على هذا الجهاز',
+  'sync.offlineHint': 'أنت غير متصل بالإنترنت. تُحفظ تغييراتك على هذا الجهاز وتتم مزامنتها عند عودة الاتصال.',
+  'sync.syncing': 'جارٍ مزامنة التغييرات…',
+
+  'errorPage.title': 'حدث خطأ ما',
+  'errorPage.body': 'تعذر عرض هذه الصفحة. حاول مرة أخرى، أو أعد تحميل الصفحة إذا كان التطبيق قد حُدّث للتو.',
+  'errorPage.retry': 'حاول مرة أخرى',
+  'errorPage.reload': 'إعادة تحميل الصفحة',
+
+  'notFound.title': 'الصفحة غير موجودة',
+  'notFound.body': 'لم نعثر على الصفحة التي تبحث عنها. ربما يكون الرابط غير صحيح أو نُقلت الصفحة.',
+  'notFound.home': 'الانتقال إلى لوحة التحكم',
+
+  'forbidden.title': 'تم رفض الوصول',
+  'forbidden.body': 'ليس لدى حسابك إذن لعرض هذه الصفحة. إذا كنت تعتقد أن هذا خطأ، فتواصل مع مسؤول وكالتك.',
+  'forbidden.home': 'العودة إلى لوحة التحكم',
+
+  'dashboard.welcome': 'مرحبًا بعودتك، {name}',
+  'dashboard.welcomeNoName': 'مرحبًا بعودتك',
+  'dashboard.intro': 'إليك ما ينتظرك.',
+  'dashboard.loading': 'جارٍ تحميل لوحة التحكم...',
+  'dashboard.loadFailed': 'تعذر تحميل رحلاتك ووثائقك.',
+  'dashboard.quickActions': 'إجراءات سريعة',
+  'dashboard.planTrip': 'خطّط لرحلة',
+  'dashboard.askAssistant': 'اسأل المساعد',
+  'dashboard.editProfile': 'حدّث ملفك الشخصي',
+  'dashboard.upcomingTrips': 'الرحلات القادمة',
+  'dashboard.noUpcomingTrips': 'لا توجد رحلات قادمة. إلى أين وجهتك التالية؟',
+  'dashboard.allTrips': 'عرض كل الرحلات',
+  'dashboard.documentsTitle': 'وثائق السفر',
+  'dashboard.documentsNeedAttention': 'بعض وثائق سفرك منتهية الصلاحية أو تنتهي قبل موعد رحلة قادمة بوقت غير كافٍ.',
+  'dashboard.documentsOk': 'وثائق سفرك صالحة لرحلاتك القادمة.',
+  'dashboard.reviewDocuments': 'مراجعة الوثائق',
+
+  'trips.title': 'رحلاتي',
+  'trips.new': 'رحلة جديدة',
+  'trips.loading': 'جارٍ تحميل الرحلات...',
+  'trips.empty': 'لم تخطط لأي رحلة بعد.',
+  'trips.planFirst': 'خطط لرحلتك الأولى',
+  'trips.travellers': 'المسافرون: {count}',
+  'trips.daysPlanned': 'الأيام المخطط لها: {count}',
+  'trips.edit': 'تعديل الرحلة إلى {destination}',
+  'trips.delete': 'حذف الرحلة إلى {destination}',
+  'trips.deleteConfirm': 'هل تريد حذف رحلتك إلى {destination}؟',
+  'trips.loadFailed': 'تعذر تحميل رحلاتك.',
+  'trips.deleteFailed': 'تعذر حذف الرحلة.',
+
+  'tripEditor.newTitle': 'رحلة جديدة',
+  'tripEditor.editTitle': 'تعديل الرحلة',
+  'tripEditor.loading': 'جارٍ تحميل الرحلة...',
+  'tripEditor.destination': 'الوجهة',
+  'tripEditor.destinationPlaceholder': 'لشبونة، البرتغال',
+  'tripEditor.startDate': 'تاريخ البدء',
+  'tripEditor.endDate': 'تاريخ الانتهاء',
+  'tripEditor.travellers': 'المسافرون',
+  'tripEditor.itinerary': 'خط سير الرحلة',
+  'tripEditor.addDay': 'إضافة يوم',
+  'tripEditor.noDays': 'لا توجد أيام مخطط لها بعد. أضف يومًا لتبدأ خط سير رحلتك.',
+  'tripEditor.day': 'اليوم {day}',
+  'tripEditor.removeDay': 'إزالة اليوم {day}',
+  'tripEditor.time': 'الوقت',
+  'tripEditor.activity': 'النشاط',
+  'tripEditor.location': 'المكان',
+  'tripEditor.addActivity': 'إضافة نشاط',
+  'tripEditor.removeActivity': 'إزالة النشاط',
+  'tripEditor.create': 'إنشاء الرحلة',
+  'tripEditor.save': 'حفظ الرحلة',
+  'tripEditor.notFound': 'تعذر العثور على هذه الرحلة.',
+  'tripEditor.loadFailed': 'تعذر تحميل الرحلة.',
+  'tripEditor.saveFailed': 'تعذر حفظ الرحلة.',
+
+  'assistant.title': 'مساعد السفر',
+  'assistant.clear': 'مسح',
+  'assistant.clearConfirm': 'هل تريد مسح سجل المحادثة؟',
+  'assistant.loading': 'جارٍ تحميل المحادثة...',
+  'assistant.empty': 'اسأل عن الوجهات أو الميزانيات أو تجهيز الأمتعة أو أي شيء آخر لرحلتك القادمة.',
+  'assistant.placeholder': 'اسأل المساعد...',
+  'assistant.message': 'الرسالة',
+  'assistant.send': 'إرسال',
+  'assistant.stop': 'إيقاف',
+  'assistant.loadFailed': 'تعذر تحميل محادثتك.',
+  'assistant.replyFailed': 'تعذر على المساعد الرد. يرجى المحاولة مجددًا.',
+  'assistant.clearFailed': 'تعذر مسح المحادثة.',
+
+  'admin.title': 'المستخدمون',
+  'admin.search': 'البحث عن مستخدمين',
+  'admin.loading': 'جارٍ تحميل المستخدمين...',
+  'admin.empty': 'لم يتم العثور على مستخدمين.',
+  'admin.user': 'المستخدم',
+  'admin.email': 'البريد الإلكتروني',
+  'admin.mobile': 'الجوال',
+  'admin.updated': 'آخر تحديث',
+  'admin.loadFailed': 'تعذر تحميل المستخدمين.',
+
+  'common.emailAddress': 'البريد الإلكتروني',
+  'common.password': 'كلمة المرور',
+  'common.username': 'اسم المستخدم',
+  'common.dateOfBirth': 'تاريخ الميلاد',
+  'common.mobileNumber': 'رقم الجوال',
+  'common.countryCode': 'رمز الدولة',
+  'common.address': 'العنوان',
+  'common.close': 'إغلاق',
+  'common.dismiss': 'تجاهل',
+  'common.notifications': 'الإشعارات',
+  'common.loading': 'جارٍ التحميل…',
+  'common.cancel': 'إلغاء',
+  'common.noDates': 'لم تُحدد التواريخ',
+
+  'validation.emailInvalid': 'يرجى إدخال بريد إلكتروني صالح',
+  'validation.passwordTooShort': 'يجب أن تتكون كلمة المرور من 6 أحرف على الأقل',
+  'validation.passwordRequired': 'يرجى إدخال كلمة المرور',
+  'validation.passwordsDontMatch': 'كلمتا المرور غير متطابقتين',
+  'validation.codeInvalid': 'أدخل الرمز المكون من 6 أرقام',
+  'validation.usernameTooShort': 'يجب أن يتكون اسم المستخدم من 3 أحرف على الأقل',
+  'validation.dateOfBirthRequired': 'تاريخ الميلاد مطلوب',
+  'validation.dateInvalid': 'يرجى إدخال تاريخ صالح',
+  'validation.tooYoung': 'يجب ألا يقل عمرك عن {minimumAge} عامًا',
+  'validation.mobileNumberRequired': 'يرجى إدخال رقم الجوال',
+  'validation.mobileNumberInvalid': 'يرجى إدخال رقم جوال صالح',
+  'validation.mobileNumberLength': 'عدد أرقام هذا الرقم غير صحيح للدولة المحددة',
+  'validation.addressLine1Required': 'أدخل السطر الأول من عنوانك',
+  'validation.addressLineTooLong': 'يمكن أن يصل سطر العنوان إلى 200 حرف',
+  'validation.cityRequired': 'أدخل مدينتك أو بلدتك',
+  'validation.cityTooLong': 'يمكن أن يصل اسم المدينة إلى 100 حرف',
+  'validation.regionTooLong': 'يمكن أن يصل اسم المنطقة إلى 100 حرف',
+  'validation.postalCodeRequired': 'أدخل الرمز البريدي',
+  'validation.postalCodeInvalid': 'لا يبدو هذا رمزًا بريديًا صالحًا للدولة المحددة',
+  'validation.airportCodeInvalid': 'يرجى إدخال رمز مطار من ثلاثة أحرف، مثل DXB',
+  'validation.programmeTooShort': 'يجب أن يتكون اسم البرنامج من حرفين على الأقل',
+  'validation.programmeTooLong': 'يجب ألا يزيد اسم البرنامج على 100 حرف',
+  'validation.membershipNumberTooShort': 'يجب أن يتكون رقم العضوية من 3 أحرف على الأقل',
+  'validation.membershipNumberTooLong': 'يجب ألا يزيد رقم العضوية على 30 حرفًا',
+  'validation.tooManyProgrammes': 'يمكنك حفظ {maxLoyaltyProgrammes} برامج كحد أقصى',
+  'validation.amountRequired': 'يرجى إدخال مبلغ',
+  'validation.budgetNegative': 'لا يمكن أن تكون الميزانية سالبة',
+  'validation.budgetMaxBelowMin': 'يجب ألا يقل الحد الأقصى عن الحد الأدنى',
+  'validation.currencyRequired': 'يرجى اختيار عملة',
+  'validation.nameTooShort': 'يجب أن يتكون الاسم من حرفين على الأقل',
+  'validation.nameTooLong': 'يجب ألا يزيد الاسم على 100 حرف',
+  'validation.tooManyCompanions': 'يمكنك حفظ {maxCompanions} مرافقًا كحد أقصى',
+  'validation.documentNumberRequired': 'رقم المستند مطلوب',
+  'validation.holderNameTooLong': 'يجب ألا يزيد الاسم على 200 حرف',
+  'validation.documentNumberTooLong': 'يجب ألا يزيد رقم المستند على 50 حرفًا',
+  'validation.providerTooLong': 'يجب ألا يزيد اسم شركة التأمين على 200 حرف',
+  'validation.countryRequired': 'يرجى اختيار دولة',
+  'validation.passportNumberInvalid': 'لا يبدو هذا رقم جواز سفر صادرًا من الدولة المختارة',
+  'validation.providerRequired': 'شركة التأمين مطلوبة',
+  'validation.expiryDateRequired': 'تاريخ الانتهاء مطلوب',
+  'validation.expiryBeforeIssue': 'يجب أن يكون تاريخ الانتهاء بعد تاريخ الإصدار',
+  'validation.titleRequired': 'العنوان مطلوب',
+  'validation.dateRequired': 'التاريخ مطلوب',
+  'validation.destinationTooShort': 'يجب أن تتكون الوجهة من حرفين على الأقل',
+  'validation.startDateRequired': 'تاريخ البداية مطلوب',
+  'validation.endDateRequired': 'تاريخ النهاية مطلوب',
+  'validation.travellersRequired': 'عدد المسافرين مطلوب',
+  'validation.travellersWholeNumber': 'يجب أن يكون عدد المسافرين عددًا صحيحًا',
+  'validation.travellersTooFew': 'يلزم مسافر واحد على الأقل',
+  'validation.travellersTooMany': 'لا يمكن أن تضم الرحلة أكثر من 50 مسافرًا',
+  'validation.endDateBeforeStart': 'يجب أن يكون تاريخ النهاية في يوم البداية أو بعده',
+  'validation.dateOutsideTrip': 'يجب أن يقع التاريخ ضمن تواريخ الرحلة',
+
+  'errors.emailInUse': 'يوجد حساب بهذا البريد الإلكتروني بالفعل.',
+  'errors.emailMissing': 'يرجى إدخال بريدك الإلكتروني',
+  'errors.incorrectCredentials': 'البريد الإلكتروني أو كلمة المرور غير صحيحة.',
+  'errors.weakPassword': 'كلمة المرور ضعيفة جدًا. استخدم 6 أحرف على الأقل تجمع بين الحروف والأرقام.',
+  'errors.tooManyRequests': 'محاولات فاشلة كثيرة. تم قفل هذا الحساب مؤقتًا حفاظًا على أمانك. حاول مجددًا بعد بضع دقائق أو أعد تعيين كلمة المرور.',
+  'errors.userDisabled': 'تم تعطيل هذا الحساب. تواصل مع الدعم للمساعدة.',
+  'errors.networkRequestFailed': 'تعذر الوصول إلى الخادم. تحقق من اتصالك وحاول مجددًا.',
+  'errors.popupClosed': 'أُغلقت نافذة تسجيل الدخول قبل الانتهاء.',
+  'errors.popupBlocked': 'حظر متصفحك نافذة تسجيل الدخول. اسمح بالنوافذ المنبثقة لهذا الموقع وحاول مجددًا.',
+  'errors.accountExistsWithDifferentCredential': 'يوجد حساب بهذا البريد الإلكتروني يستخدم طريقة تسجيل دخول مختلفة.',
+  'errors.credentialInUse': 'هذا الحساب مرتبط بالفعل بمستخدم آخر.',
+  'errors.providerAlreadyLinked': 'هذا الحساب مرتبط بالفعل.',
+  'errors.noSuchProvider': 'هذا الحساب غير مرتبط.',
+  'errors.operationNotAllowed': 'طريقة تسجيل الدخول هذه غير متاحة حاليًا.',
+  'errors.requiresRecentLogin': 'حفاظًا على أمانك، يرجى تسجيل الدخول مجددًا للمتابعة.',
+  'errors.unverifiedEmail': 'تحقق من بريدك الإلكتروني قبل المتابعة.',
+  'errors.invalidVerificationCode': 'الرمز غير صحيح أو منتهي الصلاحية.',
+  'errors.codeExpired': 'انتهت صلاحية الرمز. اطلب رمزًا جديدًا.',
+  'errors.expiredActionCode': 'انتهت صلاحية هذا الرابط. اطلب رابطًا جديدًا.',
+  'errors.invalidActionCode': 'انتهت صلاحية هذا الرابط أو سبق استخدامه.',
+  'errors.permissionDenied': 'ليس لديك إذن للقيام بذلك.',
+  'errors.unavailable': 'يبدو أنك غير متصل. تحقق من اتصالك وحاول مجددًا.',
+  'errors.notFound': 'لم نتمكن من العثور على ما تبحث عنه.',
+  'errors.deadlineExceeded': 'استغرق الطلب وقتًا طويلًا. يرجى المحاولة مجددًا.',
+  'errors.resourceExhausted': 'طلبات كثيرة جدًا. يرجى الانتظار قليلًا ثم المحاولة مجددًا.',
+  'errors.uploadUnauthorized': 'ليس لديك إذن لرفع هذا الملف.',
+  'errors.uploadCanceled': 'تم إلغاء الرفع.',
+  'errors.quotaExceeded': 'مساحة التخزين ممتلئة حاليًا. يرجى المحاولة لاحقًا.',
+  'errors.retryLimitExceeded': 'استغرق الرفع وقتًا طويلًا. تحقق من اتصالك وحاول مجددًا.',
+  'errors.fileNotFound': 'لم نتمكن من العثور على هذا الملف.',
+
+  'login.title': 'سجّل الدخول إلى حسابك',
+  'login.methods': 'طريقة تسجيل الدخول',
+  'login.methodPassword': 'كلمة المرور',
+  'login.methodLink': 'رابط عبر البريد',
+  'login.failed': 'تعذر تسجيل الدخول.',
+  'login.failedCheckCredentials': 'تعذر تسجيل الدخول. يرجى التحقق من بياناتك.',
+  'login.failedWithProvider': 'تعذر تسجيل الدخول باستخدام {provider}.',
+  'login.pendingLink': 'لديك حساب بالفعل بالبريد {email}. سجّل الدخول باستخدام {methods} لربط حسابك على {provider} به.',
+  'login.pendingLinkUnknownMethod': 'لديك حساب بالفعل بالبريد {email}. سجّل الدخول بالطريقة التي استخدمتها من قبل لربط حسابك على {provider} به.',
+  'login.pendingLinkPassword': 'بريدك الإلكتروني وكلمة المرور',
+  'login.pendingLinkCancel': 'عدم الربط',
+  'login.forgotPassword': 'هل نسيت كلمة المرور؟',
+  'login.signUp': 'ليس لديك حساب؟ أنشئ حسابًا',
+  'login.submit': 'تسجيل الدخول',
+  'login.withProvider': 'تسجيل الدخول باستخدام {provider}',
+  'login.rememberMe': 'إبقائي متصلاً',
+  'login.rememberMeHint': 'اترك هذا الخيار دون تحديد على جهاز كمبيوتر مشترك أو عام. سيتم تسجيل خروجك عند إغلاق المتصفح.',
+  'login.signedOutIdle': 'تم تسجيل خروجك بسبب عدم النشاط لفترة.',
+  'login.signedOutRevoked': 'تم تسجيل خروجك من جميع الأجهزة. سجّل الدخول مجددًا للمتابعة.',
+
+  'signUp.title': 'أنشئ حسابك',
+  'signUp.failed': 'تعذر إنشاء الحساب.',
+  'signUp.confirmPassword': 'تأكيد كلمة المرور',
+  'signUp.signIn': 'لديك حساب بالفعل؟ سجّل الدخول',
+  'signUp.submit': 'إنشاء حساب',
+
+  'forgotPassword.title': 'إعادة تعيين كلمة المرور',
+  'forgotPassword.intro': 'أدخل بريدك الإلكتروني وسنرسل إليك تعليمات إعادة تعيين كلمة المرور.',
+  'forgotPassword.sent': 'تحقق من بريدك الوارد للاطلاع على تعليمات إعادة التعيين.',
+  'forgotPassword.failed': 'تعذرت إعادة تعيين كلمة المرور. يرجى التحقق من بريدك الإلكتروني.',
+  'forgotPassword.backToSignIn': 'العودة إلى تسجيل الدخول',
+  'forgotPassword.useEmailLink': 'سجّل الدخول برابط عبر البريد بدلًا من ذلك',
+  'forgotPassword.submit': 'إعادة تعيين كلمة المرور',
+
+  'emailLink.intro': 'لا حاجة إلى كلمة مرور. سنرسل إليك رابطًا عبر البريد الإلكتروني لتسجيل الدخول.',
+  'emailLink.submit': 'أرسل إليّ رابط تسجيل الدخول',
+  'emailLink.sent': 'أرسلنا رابط تسجيل الدخول إلى {email}. افتحه على هذا الجهاز لتسجيل الدخول.',
+  'emailLink.sendFailed': 'تعذر إرسال رابط تسجيل الدخول. يرجى المحاولة مجددًا.',
+  'emailLink.signingIn': 'جارٍ تسجيل دخولك',
+  'emailLink.confirmTitle': 'أكّد بريدك الإلكتروني',
+  'emailLink.confirmIntro': 'أدخل البريد الإلكتروني الذي أُرسل إليه رابط تسجيل الدخول.',
+  'emailLink.signIn': 'تسجيل الدخول',
+  'emailLink.backToSignIn': 'العودة إلى تسجيل الدخول',
+  'emailLink.invalid': 'رابط تسجيل الدخول هذا غير صالح أو غير مكتمل.',
+  'emailLink.expired': 'انتهت صلاحية رابط تسجيل الدخول هذا أو سبق استخدامه.',
+
+  'mfa.title': 'التحقق بخطوتين',
+  'mfa.intro': 'احمِ بيانات جواز سفرك ومدفوعاتك برمز يصل إلى هاتفك في كل مرة تسجّل فيها الدخول.',
+  'mfa.challengeSms': 'سنرسل رمزًا في رسالة نصية إلى {phoneNumber}.',
+  'mfa.challengeTotp': 'أدخل الرمز الظاهر في تطبيق المصادقة.',
+  'mfa.method': 'طريقة التحقق',
+  'mfa.authenticatorApp': 'تطبيق المصادقة',
+  'mfa.textMessage': 'رسالة نصية',
+  'mfa.sendCode': 'إرسال الرمز',
+  'mfa.sendCodeFailed': 'تعذر إرسال رمز التحقق. يرجى المحاولة مجددًا.',
+  'mfa.code': 'رمز التحقق',
+  'mfa.codeSent': 'أدخل الرمز الذي أرسلناه في رسالة نصية إلى {phoneNumber}.',
+  'mfa.verify': 'تحقق',
+  'mfa.backToSignIn': 'العودة إلى تسجيل الدخول',
+  'mfa.totpInstructions': 'أضف هذا المفتاح إلى تطبيق المصادقة، ثم أدخل الرمز الذي يظهره.',
+  'mfa.openAuthenticator': 'فتح في تطبيق المصادقة',
+  'mfa.turnOn': 'تفعيل',
+  'mfa.useSms': 'استخدام الرسائل النصية',
+  'mfa.useTotp': 'استخدام تطبيق مصادقة',
+  'mfa.noPhoneNumber': 'لتلقي الرموز في رسائل نصية، احفظ رقم جوالك في علامة التبويب البيانات.',
+  'mfa.enabled': 'تم تفعيل التحقق بخطوتين.',
+  'mfa.remove': 'إزالة {method}',
+  'mfa.removeConfirm': 'هل تريد إزالة {method} من حسابك؟',
+  'mfa.removeConfirmUnnamed': 'هل تريد إزالة هذه الطريقة من حسابك؟',
+  'mfa.removed': 'تمت إزالة طريقة التحقق.',
+  'mfa.updateFailed': 'تعذر تحديث التحقق بخطوتين.',
+
+  'reauth.title': 'أكّد هويتك',
+  'reauth.currentPassword': 'كلمة المرور الحالية',
+  'reauth.confirm': 'تأكيد',
+  'reauth.continueWith': 'المتابعة باستخدام {provider}',
+  'reauth.continueWithProvider': 'المتابعة باستخدام مزوّد الخدمة',
+  'reauth.failed': 'تعذر تأكيد هويتك.',
+
+  'authAction.title': 'إجراء على الحساب',
+  'authAction.resetPasswordTitle': 'اختر كلمة مرور جديدة',
+  'authAction.newPassword': 'كلمة المرور الجديدة',
+  'authAction.confirmPassword': 'تأكيد كلمة المرور',
+  'authAction.submit': 'تغيير كلمة المرور',
+  'authAction.continueToProfile': 'المتابعة إلى ملفك الشخصي',
+  'authAction.backToSignIn': 'العودة إلى تسجيل الدخول',
+  'authAction.invalidLink': 'هذا الرابط غير صالح أو غير مكتمل.',
+  'authAction.unsupportedLink': 'هذا الرابط غير مدعوم.',
+  'authAction.emailVerified': 'تم التحقق من بريدك الإلكتروني.',
+  'authAction.newEmailVerified': 'تم التحقق من بريدك الإلكتروني الجديد.',
+  'authAction.emailRecovered': 'تمت استعادة بريدك الإلكتروني السابق.',
+  'authAction.passwordReset': 'تم تغيير كلمة المرور. يمكنك الآن تسجيل الدخول بكلمة المرور الجديدة.',
+
+  'verifyEmail.title': 'تحقق من بريدك الإلكتروني',
+  'verifyEmail.intro': 'أرسلنا رابط تحقق إلى {email}. انقر على الرابط لتفعيل حسابك. ستتحدث هذه الصفحة تلقائيًا.',
+  'verifyEmail.check': 'لقد تحققت من بريدي الإلكتروني',
+  'verifyEmail.resend': 'إعادة إرسال رسالة التحقق',
+  'verifyEmail.resendIn': 'إعادة الإرسال بعد {seconds} ث',
+  'verifyEmail.differentAccount': 'استخدام حساب آخر',
+  'verifyEmail.sent': 'تم إرسال رسالة التحقق. تفقّد بريدك الوارد.',
+  'verifyEmail.sendFailed': 'تعذر إرسال رسالة التحقق. يرجى المحاولة لاحقًا.',
+  'verifyEmail.notVerified': 'لم يتم التحقق من بريدك الإلكتروني بعد.',
+  'verifyEmail.checkFailed': 'تعذر التحقق من حالة التحقق.',
+  'verifyEmail.signOutFailed': 'تعذر تسجيل الخروج.',
+
+  'onboarding.step': 'الخطوة {step} من {steps}',
+  'onboarding.progress': 'تقدّم الإعداد',
+  'onboarding.aboutYou': 'عنك',
+  'onboarding.aboutYouIntro': 'أخبرنا من المسافر.',
+  'onboarding.contact': 'كيف نتواصل معك',
+  'onboarding.contactIntro': 'نستخدم هذه البيانات للحجوزات وتنبيهات السفر.',
+  'onboarding.back': 'رجوع',
+  'onboarding.next': 'التالي',
+  'onboarding.finish': 'إنهاء',
+  'onboarding.saveFailed': 'تعذر حفظ ملفك الشخصي.',
+
+  'profile.title': 'إعدادات الملف الشخصي',
+  'profile.loading': 'جارٍ تحميل الملف الشخصي...',
+  'profile.sections': 'أقسام الملف الشخصي',
+  'profile.tabDetails': 'البيانات',
+  'profile.tabPreferences': 'التفضيلات',
+  'profile.tabCompanions': 'المرافقون',
+  'profile.tabDocuments': 'المستندات',
+  'profile.tabSecurity': 'الأمان',
+  'profile.pictureNotImage': 'يرجى اختيار ملف صورة (PNG أو JPG وغيرها)',
+  'profile.pictureTooLarge': 'يجب أن يقل حجم الصورة عن {size} ميغابايت',
+  'profile.pictureSaved': 'تم تحديث صورة ملفك الشخصي.',
+  'profile.pictureSaveFailed': 'تعذر حفظ صورة ملفك الشخصي.',
+  'profile.picture': 'صورة الملف الشخصي',
+  'profile.pictureAlt': 'الملف الشخصي',
+  'profile.pictureHint': 'انقر لرفع صورة للملف الشخصي (JPG أو PNG أو WebP)',
+  'profile.pictureMaxSize': 'الحد الأقصى لحجم الملف: {size} ميغابايت',
+  'profile.email': 'البريد الإلكتروني',
+  'profile.emailHint': 'يمكنك تغيير بريدك الإلكتروني من تبويب الأمان',
+  'profile.saved': 'تم تحديث الملف الشخصي بنجاح!',
+  'profile.saveFailed': 'تعذر تحديث الملف الشخصي.',
+  'profile.savedLocally': 'تم حفظ الملف الشخصي على هذا الجهاز. ستتم مزامنته عند عودة الاتصال.',
+  'profile.syncFailed': 'تعذرت مزامنة تغييرات ملفك الشخصي.',
+  'profile.save': 'حفظ التغييرات',
+
+  'preferences.homeAirport': 'مطار الإقامة',
+  'preferences.seat': 'المقعد',
+  'preferences.seatAny': 'بلا تفضيل',
+  'preferences.seatWindow': 'بجانب النافذة',
+  'preferences.seatAisle': 'بجانب الممر',
+  'preferences.meal': 'الوجبة',
+  'preferences.mealAny': 'بلا تفضيل',
+  'preferences.mealVegetarian': 'نباتية',
+  'preferences.mealVegan': 'نباتية صرفة',
+  'preferences.mealHalal': 'حلال',
+  'preferences.mealKosher': 'كوشر',
+  'preferences.mealGlutenFree': 'خالية من الغلوتين',
+  'preferences.budget': 'الميزانية اليومية للشخص',
+  'preferences.minimum': 'الحد الأدنى',
+  'preferences.minimumBudget': 'الحد الأدنى للميزانية',
+  'preferences.maximum': 'الحد الأقصى',
+  'preferences.maximumBudget': 'الحد الأقصى للميزانية',
+  'preferences.currency': 'العملة',
+  'preferences.interests': 'الاهتمامات',
+  'preferences.interestBeaches': 'الشواطئ',
+  'preferences.interestCulture': 'الفن والثقافة',
+  'preferences.interestFood': 'الطعام والشراب',
+  'preferences.interestHistory': 'التاريخ',
+  'preferences.interestNature': 'الطبيعة',
+  'preferences.interestAdventure': 'المغامرة',
+  'preferences.interestNightlife': 'الحياة الليلية',
+  'preferences.interestShopping': 'التسوق',
+  'preferences.interestWellness': 'العافية',
+  'preferences.interestFamily': 'مناسب للعائلات',
+  'preferences.loyaltyProgrammes': 'برامج الولاء',
+  'preferences.programmePlaceholder': 'برنامج شركة طيران أو فندق',
+  'preferences.programme': 'البرنامج',
+  'preferences.membershipNumber': 'رقم العضوية',
+  'preferences.removeProgramme': 'إزالة البرنامج',
+  'preferences.addProgramme': 'إضافة برنامج',
+  'preferences.save': 'حفظ التفضيلات',
+  'preferences.saved': 'تم حفظ تفضيلات السفر الخاصة بك.',
+  'preferences.savedLocally': 'تم حفظ تفضيلات السفر على هذا الجهاز وستتم مزامنتها عند عودتك إلى الاتصال.',
+  'preferences.saveFailed': 'تعذر حفظ تفضيلاتك.',
+
+  'companions.intro': 'احفظ الأشخاص الذين تسافر معهم عادةً حتى لا تضطر إلى إدخال بياناتهم في كل رحلة. يمكن إضافة جوازات سفرهم وتأشيراتهم من قسم المستندات.',
+  'companions.empty': 'لم تحفظ أي مرافقين بعد.',
+  'companions.fullName': 'الاسم الكامل',
+  'companions.name': 'اسم المرافق',
+  'companions.relationship': 'صلة القرابة',
+  'companions.partner': 'الشريك',
+  'companions.child': 'الابن أو الابنة',
+  'companions.parent': 'الأب أو الأم',
+  'companions.friend': 'صديق',
+  'companions.colleague': 'زميل',
+  'companions.other': 'أخرى',
+  'companions.dob': 'تاريخ ميلاد المرافق',
+  'companions.remove': 'إزالة المرافق',
+  'companions.add': 'إضافة مرافق',
+  'companions.save': 'حفظ المرافقين',
+  'companions.saved': 'تم حفظ مرافقي السفر.',
+  'companions.savedLocally': 'تم حفظ مرافقي السفر على هذا الجهاز وستتم مزامنتهم عند عودتك إلى الاتصال.',
+  'companions.saveFailed': 'تعذر حفظ المرافقين.',
+
+  'documents.title': 'مستندات السفر',
+  'documents.add': 'إضافة مستند',
+  'documents.intro': 'احتفظ هنا بجواز سفرك وتأشيراتك وتأمين السفر ليكون لدى وكلائنا عند الحجز.',
+  'documents.loading': 'جارٍ تحميل المستندات...',
+  'documents.empty': 'لم تضف أي مستندات سفر بعد.',
+  'documents.passport': 'جواز السفر',
+  'documents.visa': 'التأشيرة',
+  'documents.insurance': 'تأمين السفر',
+  'documents.for': 'لـ {name}',
+  'documents.expires': 'تنتهي في {date}',
+  'documents.expired': 'منتهية الصلاحية',
+  'documents.expiresSoon': 'تنتهي قريبًا',
+  'documents.expiresDuringTrip': 'تنتهي صلاحية {document} في {date}، قبل انتهاء رحلتك إلى {destination}.',
+  'documents.expiresAfterTrip': 'تنتهي صلاحية {document} في {date}، بعد أقل من ستة أشهر من رحلتك إلى {destination}.',
+  'documents.viewScan': 'عرض المسح الضوئي: {document}',
+  'documents.edit': 'تعديل: {document}',
+  'documents.delete': 'حذف: {document}',
+  'documents.deleteConfirm': 'هل تريد حذف هذا المستند ({document})؟',
+  'documents.loadFailed': 'تعذر تحميل مستندات السفر.',
+  'documents.deleteFailed': 'تعذر حذف المستند.',
+  'documents.openScanFailed': 'تعذر فتح المسح الضوئي.',
+
+  'documentDialog.addTitle': 'إضافة مستند سفر',
+  'documentDialog.editTitle': 'تعديل: {document}',
+  'documentDialog.description': 'يستخدم وكلاؤنا هذه البيانات عند الحجز، لذا أدخلها تمامًا كما هي مطبوعة.',
+  'documentDialog.type': 'نوع المستند',
+  'documentDialog.belongsTo': 'يخص',
+  'documentDialog.you': 'أنت',
+  'documentDialog.provider': 'شركة التأمين',
+  'documentDialog.issuingCountry': 'بلد الإصدار',
+  'documentDialog.validFor': 'صالحة لـ',
+  'documentDialog.selectCountry': 'اختر بلدًا',
+  'documentDialog.number': 'رقم {document}',
+  'documentDialog.policyNumber': 'رقم البوليصة',
+  'documentDialog.nameAsPrinted': 'الاسم كما هو مطبوع',
+  'documentDialog.policyHolder': 'حامل البوليصة',
+  'documentDialog.issueDate': 'تاريخ الإصدار',
+  'documentDialog.coverStarts': 'بداية التغطية',
+  'documentDialog.expiryDate': 'تاريخ الانتهاء',
+  'documentDialog.coverEnds': 'نهاية التغطية',
+  'documentDialog.scan': 'المسح الضوئي',
+  'documentDialog.scanAttached': 'يوجد مسح ضوئي مرفق',
+  'documentDialog.noScan': 'لا يوجد مسح ضوئي مرفق',
+  'documentDialog.scanHint': 'صورة أو PDF، الحد الأقصى للحجم: {size} ميغابايت',
+  'documentDialog.progress': 'تقدم الرفع',
+  'documentDialog.uploading': 'جارٍ الرفع… {progress}',
+  'documentDialog.cancelUpload': 'إلغاء الرفع',
+  'documentDialog.save': 'حفظ المستند',
+  'documentDialog.scanNotSupported': 'يرجى اختيار صورة أو ملف PDF للمستند',
+  'documentDialog.scanTooLarge': 'يجب أن يكون حجم المسح الضوئي أقل من {size} ميغابايت',
+  'documentDialog.saveFailed': 'تعذر حفظ المستند.',
+
+  'avatar.title': 'اضبط صورة ملفك الشخصي',
+  'avatar.description': 'اسحب لتغيير الموضع واستخدم شريط التمرير للتكبير.',
+  'avatar.preview': 'معاينة صورة الملف الشخصي',
+  'avatar.zoom': 'تكبير',
+  'avatar.progress': 'تقدّم الرفع',
+  'avatar.uploading': 'جارٍ الرفع… {progress}',
+  'avatar.cancelUpload': 'إلغاء الرفع',
+  'avatar.save': 'حفظ الصورة',
+  'avatar.unreadable': 'تعذرت قراءة الملف المحدد كصورة.',
+  'avatar.uploadFailed': 'تعذر رفع الصورة.',
+
+  'phone.verified': 'تم التحقق',
+  'phone.unverified': 'تحقق من هذا الرقم عبر رسالة نصية لتصلك تنبيهات الرحلات ورموز تسجيل الدخول.',
+  'phone.verify': 'تحقق من الرقم',
+  'phone.codeSent': 'أدخل الرمز الذي أرسلناه في رسالة نصية إلى {phoneNumber}.',
+  'phone.code': 'رمز التحقق',
+  'phone.confirm': 'تأكيد',
+  'phone.cancel': 'إلغاء',
+  'phone.verifiedMessage': 'تم التحقق من رقم جوالك.',
+  'phone.verifyFailed': 'تعذر التحقق من رقم جوالك.',
+  'phone.noNumber': 'احفظ رقم جوالك في علامة التبويب البيانات للتحقق منه.',
+
+  'connectedAccounts.title': 'الحسابات المرتبطة',
+  'connectedAccounts.intro': 'اربط حسابات أخرى لتتمكن من تسجيل الدخول بأي منها.',
+  'connectedAccounts.status': 'مرتبط',
+  'connectedAccounts.connect': 'ربط',
+  'connectedAccounts.disconnect': 'إلغاء الربط',
+  'connectedAccounts.lastMethod': 'لا يمكنك إلغاء ربط طريقة تسجيل الدخول الوحيدة لديك',
+  'connectedAccounts.connected': 'تم ربط {provider}.',
+  'connectedAccounts.disconnected': 'تم إلغاء ربط {provider}.',
+  'connectedAccounts.failed': 'تعذر تحديث ارتباطك بـ{provider}.',
+
+  'security.title': 'الأمان',
+  'security.changePassword': 'تغيير كلمة المرور',
+  'security.newPassword': 'كلمة المرور الجديدة',
+  'security.confirmNewPassword': 'تأكيد كلمة المرور الجديدة',
+  'security.changePasswordSubmit': 'تغيير كلمة المرور',
+  'security.reauthPassword': 'أدخل كلمة المرور الحالية لتغييرها.',
+  'security.passwordChanged': 'تم تغيير كلمة المرور.',
+  'security.passwordFailed': 'تعذر تغيير كلمة المرور.',
+  'security.changeEmail': 'تغيير البريد الإلكتروني',
+  'security.newEmail': 'البريد الإلكتروني الجديد',
+  'security.changeEmailSubmit': 'إرسال رابط التحقق',
+  'security.reauthEmail': 'أكّد هويتك لتغيير بريدك الإلكتروني.',
+  'security.emailLinkSent': 'أرسلنا رابطًا إلى {email}. سيتغير بريدك الإلكتروني بمجرد فتحه.',
+  'security.emailFailed': 'تعذر تغيير البريد الإلكتروني.',
+  'security.devices': 'الأجهزة المسجّل دخولها',
+  'security.devicesIntro': 'هل سجّلت الدخول على جهاز مشترك أو مفقود؟ سجّل الخروج من كل مكان يُستخدم فيه حسابك، بما في ذلك هذا المتصفح.',
+  'security.signOutEverywhere': 'تسجيل الخروج من جميع الأجهزة',
+  'security.signOutEverywhereConfirm': 'هل تريد تسجيل الخروج من جميع الأجهزة؟ ستحتاج إلى تسجيل الدخول مجددًا في كل مكان، بما في ذلك هنا.',
+  'security.signOutEverywhereFailed': 'تعذر تسجيل الخروج من جميع الأجهزة.',
+  'security.deleteAccount': 'حذف الحساب',
+  'security.deleteIntro': 'احذف حسابك نهائيًا وكل ما هو محفوظ فيه، بما في ذلك ملفك الشخصي ورحلاتك ووثائق سفرك وصورك ومحادثاتك مع المساعد. لا يمكن التراجع عن ذلك.',
+  'security.deleteAccountSubmit': 'حذف الحساب',
+  'security.deleteConfirm': 'هل تريد حذف حسابك؟ سيُحذف ملفك الشخصي ورحلاتك ووثائق سفرك وصورك وسجل محادثاتك نهائيًا.',
+  'security.reauthDelete': 'أكّد هويتك لحذف حسابك نهائيًا.',
+  'security.failed': 'تعذر تحديث حسابك.',
+
+  'address.search': 'ابحث عن عنوانك',
+  'address.searchPlaceholder': 'ابدأ بكتابة اسم الشارع أو الرمز البريدي',
+  'address.noResults': 'لا توجد عناوين مطابقة. يمكنك إدخاله أدناه.',
+  'address.searchFailed': 'يتعذر البحث عن العناوين الآن. يمكنك إدخاله أدناه.',
+  'address.line1': 'سطر العنوان 1',
+  'address.line2': 'سطر العنوان 2 (اختياري)',
+  'address.city': 'المدينة أو البلدة',
+  'address.region': 'الولاية أو المقاطعة أو المنطقة',
+  'address.postalCode': 'الرمز البريدي',
+  'address.country': 'الدولة',
+  'address.countryPlaceholder': 'اختر دولة',
+};
@@ -0,0 +1,548 @@
+// The source catalog. Every other locale must translate each of these keys,
+// which the Catalog type enforces. `{name}` placeholders are filled in by
+// translate() in src/lib/i18n.ts.
+export const en = {
+  'locale.label': 'Language',
+  'theme.label': 'Theme',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'Match device',
+
+  'nav.main': 'Main',
+  'nav.breadcrumbs': 'Breadcrumb',
+  'nav.skipToContent': 'Skip to content',
+  'nav.dashboard': 'Dashboard',
+  'nav.trips': 'Trips',
+  'nav.newTrip': 'New trip',
+  'nav.editTrip': 'Edit trip',
+  'nav.assistant': 'Assistant',
+  'nav.profile': 'Profile',
+  'nav.admin': 'Users',
+  'nav.notFound': 'Page not found',
+  'nav.accountMenu': 'Account menu',
+  'nav.signOut': 'Sign out',
+  'nav.signOutFailed': 'Failed to log out.',
+
+  'session.idleTitle': 'Are you still there?',
+  'session.idleBody': "You haven't done anything for a while. For your security, you'll be signed out in {time}.",
+  'session.staySignedIn': 'Stay signed in',
+  'session.signOut': 'Sign out now',
+
+  'sync.offline': 'Offline',
+  'sync.offlinePending': 'Offline, changes saved on this device',
+  'sync.offlineHint': "You're offline. Changes you make are saved on this device and sync when you reconnect.",
+  'sync.syncing': 'Syncing changes…',
+
+  'errorPage.title': 'Something went wrong',
+  'errorPage.body': "This page couldn't be shown. Try again, or reload the page if the app has just been updated.",
+  'errorPage.retry': 'Try again',
+  'errorPage.reload': 'Reload page',
+
+  'notFound.title': 'Page not found',
+  'notFound.body': "We couldn't find the page you were looking for. The link may be wrong, or the page may have moved.",
+  'notFound.home': 'Go to your dashboard',
+
+  'forbidden.title': 'Access denied',
+  'forbidden.body': "Your account doesn't have permission to view this page. If you think this is a mistake, contact your agency administrator.",
+  'forbidden.home': 'Back to your dashboard',
+
+  'dashboard.welcome': 'Welcome back, {name}',
+  'dashboard.welcomeNoName': 'Welcome back',
+  'dashboard.intro': "Here's what's coming up.",
+  'dashboard.loading': 'Loading your dashboard...',
+  'dashboard.loadFailed': 'Failed to load your trips and documents.',
+  'dashboard.quickActions': 'Quick actions',
+  'dashboard.planTrip': 'Plan a trip',
+  'dashboard.askAssistant': 'Ask the assistant',
+  'dashboard.editProfile': 'Update your profile',
+  'dashboard.upcomingTrips': 'Upcoming trips',
+  'dashboard.noUpcomingTrips': 'No trips coming up. Where to next?',
+  'dashboard.allTrips': 'See all trips',
+  'dashboard.documentsTitle': 'Travel documents',
+  'dashboard.documentsNeedAttention': 'Some of your travel documents have expired or run out too soon for an upcoming trip.',
+  'dashboard.documentsOk': 'Your travel documents are good for your upcoming trips.',
+  'dashboard.reviewDocuments': 'Review documents',
+
+  'trips.title': 'My Trips',
+  'trips.new': 'New trip',
+  'trips.loading': 'Loading trips...',
+  'trips.empty': "You haven't planned any trips yet.",
+  'trips.planFirst': 'Plan your first trip',
+  'trips.travellers': 'Travellers: {count}',
+  'trips.daysPlanned': 'Days planned: {count}',
+  'trips.edit': 'Edit trip to {destination}',
+  'trips.delete': 'Delete trip to {destination}',
+  'trips.deleteConfirm': 'Delete your trip to {destination}?',
+  'trips.loadFailed': 'Failed to load your trips.',
+  'trips.deleteFailed': 'Failed to delete trip.',
+
+  'tripEditor.newTitle': 'New Trip',
+  'tripEditor.editTitle': 'Edit Trip',
+  'tripEditor.loading': 'Loading trip...',
+  'tripEditor.destination': 'Destination',
+  'tripEditor.destinationPlaceholder': 'Lisbon, Portugal',
+  'tripEditor.startDate': 'Start Date',
+  'tripEditor.endDate': 'End Date',
+  'tripEditor.travellers': 'Travellers',
+  'tripEditor.itinerary': 'Itinerary',
+  'tripEditor.addDay': 'Add day',
+  'tripEditor.noDays': 'No days planned yet. Add a day to start building your itinerary.',
+  'tripEditor.day': 'Day {day}',
+  'tripEditor.removeDay': 'Remove day {day}',
+  'tripEditor.time': 'Time',
+  'tripEditor.activity': 'Activity',
+  'tripEditor.location': 'Location',
+  'tripEditor.addActivity': 'Add activity',
+  'tripEditor.removeActivity': 'Remove activity',
+  'tripEditor.create': 'Create Trip',
+  'tripEditor.save': 'Save Trip',
+  'tripEditor.notFound': 'This trip could not be found.',
+  'tripEditor.loadFailed': 'Failed to load trip.',
+  'tripEditor.saveFailed': 'Failed to save trip.',
+
+  'assistant.title': 'Travel Assistant',
+  'assistant.clear': 'Clear',
+  'assistant.clearConfirm': 'Clear your conversation history?',
+  'assistant.loading': 'Loading conversation...',
+  'assistant.empty': 'Ask about destinations, budgets, packing or anything else for your next trip.',
+  'assistant.placeholder': 'Ask the assistant...',
+  'assistant.message': 'Message',
+  'assistant.send': 'Send',
+  'assistant.stop': 'Stop',
+  'assistant.loadFailed': 'Failed to load your conversation.',
+  'assistant.replyFailed': 'The assistant could not reply. Please try again.',
+  'assistant.clearFailed': 'Failed to clear conversation.',
+
+  'admin.title': 'Users',
+  'admin.search': 'Search users',
+  'admin.loading': 'Loading users...',
+  'admin.empty': 'No users found.',
+  'admin.user': 'User',
+  'admin.email': 'Email',
+  'admin.mobile': 'Mobile',
+  'admin.updated': 'Last updated',
+  'admin.loadFailed': 'Failed to load users.',
+
+  'common.emailAddress': 'Email address',
+  'common.password': 'Password',
+  'common.username': 'Username',
+  'common.dateOfBirth': 'Date of Birth',
+  'common.mobileNumber': 'Mobile Number',
+  'common.countryCode': 'Country code',
+  'common.address': 'Address',
+  'common.close': 'Close',
+  'common.dismiss': 'Dismiss',
+  'common.notifications': 'Notifications',
+  'common.loading': 'Loading…',
+  'common.cancel': 'Cancel',
+  'common.noDates': 'Dates not set',
+
+  'validation.emailInvalid': 'Please enter a valid email address',
+  'validation.passwordTooShort': 'Password must be at least 6 characters',
+  'validation.passwordRequired': 'Please enter your password',
+  'validation.passwordsDontMatch': "Passwords don't match",
+  'validation.codeInvalid': 'Enter the 6-digit code',
+  'validation.usernameTooShort': 'Username must be at least 3 characters',
+  'validation.dateOfBirthRequired': 'Date of birth is required',
+  'validation.dateInvalid': 'Please enter a valid date',
+  'validation.tooYoung': 'You must be at least {minimumAge} years old',
+  'validation.mobileNumberRequired': 'Mobile number is required',
+  'validation.mobileNumberInvalid': 'Please enter a valid mobile number',
+  'validation.mobileNumberLength': 'That number has the wrong number of digits for the selected country',
+  'validation.addressLine1Required': 'Enter the first line of your address',
+  'validation.addressLineTooLong': 'Address lines can be up to 200 characters',
+  'validation.cityRequired': 'Enter your town or city',
+  'validation.cityTooLong': 'Town or city can be up to 100 characters',
+  'validation.regionTooLong': 'Region can be up to 100 characters',
+  'validation.postalCodeRequired': 'Enter your postal code',
+  'validation.postalCodeInvalid': "That doesn't look like a postal code for the selected country",
+  'validation.airportCodeInvalid': 'Please enter a three-letter airport code, like LHR',
+  'validation.programmeTooShort': 'Programme must be at least 2 characters',
+  'validation.programmeTooLong': 'Programme must be at most 100 characters',
+  'validation.membershipNumberTooShort': 'Membership number must be at least 3 characters',
+  'validation.membershipNumberTooLong': 'Membership number must be at most 30 characters',
+  'validation.tooManyProgrammes': 'You can save up to {maxLoyaltyProgrammes} programmes',
+  'validation.amountRequired': 'Please enter an amount',
+  'validation.budgetNegative': "Budget can't be negative",
+  'validation.budgetMaxBelowMin': 'Maximum must be at least the minimum',
+  'validation.currencyRequired': 'Please select a currency',
+  'validation.nameTooShort': 'Name must be at least 2 characters',
+  'validation.nameTooLong': 'Name must be at most 100 characters',
+  'validation.tooManyCompanions': 'You can save up to {maxCompanions} companions',
+  'validation.documentNumberRequired': 'Document number is required',
+  'validation.holderNameTooLong': 'Name must be at most 200 characters',
+  'validation.documentNumberTooLong': 'Document number must be at most 50 characters',
+  'validation.providerTooLong': 'Provider must be at most 200 characters',
+  'validation.countryRequired': 'Please select a country',
+  'validation.passportNumberInvalid': "This doesn't look like a passport number from the selected country",
+  'validation.providerRequired': 'Provider is required',
+  'validation.expiryDateRequired': 'Expiry date is required',
+  'validation.expiryBeforeIssue': 'Expiry date must be after the issue date',
+  'validation.titleRequired': 'Title is required',
+  'validation.dateRequired': 'Date is required',
+  'validation.destinationTooShort': 'Destination must be at least 2 characters',
+  'validation.startDateRequired': 'Start date is required',
+  'validation.endDateRequired': 'End date is required',
+  'validation.travellersRequired': 'Number of travellers is required',
+  'validation.travellersWholeNumber': 'Number of travellers must be a whole number',
+  'validation.travellersTooFew': 'At least one traveller is required',
+  'validation.travellersTooMany': 'A trip can have at most 50 travellers',
+  'validation.endDateBeforeStart': 'End date must be on or after the start date',
+  'validation.dateOutsideTrip': 'Date must be within the trip dates',
+
+  'errors.emailInUse': 'An account already exists with this email address.',
+  'errors.emailMissing': 'Please enter your email address',
+  'errors.incorrectCredentials': 'Incorrect email or password.',
+  'errors.weakPassword': 'Password is too weak. Use at least 6 characters with a mix of letters and numbers.',
+  'errors.tooManyRequests': 'Too many unsuccessful attempts. For your security this account is temporarily locked. Try again in a few minutes or reset your password.',
+  'errors.userDisabled': 'This account has been disabled. Contact support for help.',
+  'errors.networkRequestFailed': "We couldn't reach the server. Check your connection and try again.",
+  'errors.popupClosed': 'The sign-in window was closed before finishing.',
+  'errors.popupBlocked': 'Your browser blocked the sign-in window. Allow pop-ups for this site and try again.',
+  'errors.accountExistsWithDifferentCredential': 'An account already exists with this email address using a different sign-in method.',
+  'errors.credentialInUse': 'That account is already connected to a different user.',
+  'errors.providerAlreadyLinked': 'That account is already connected.',
+  'errors.noSuchProvider': "That account isn't connected.",
+  'errors.operationNotAllowed': "This sign-in method isn't available right now.",
+  'errors.requiresRecentLogin': 'For your security, please sign in again to continue.',
+  'errors.unverifiedEmail': 'Verify your email address before continuing.',
+  'errors.invalidVerificationCode': 'That code is incorrect or has expired.',
+  'errors.codeExpired': 'That code has expired. Request a new one.',
+  'errors.expiredActionCode': 'This link has expired. Request a new one.',
+  'errors.invalidActionCode': 'This link has expired or has already been used.',
+  'errors.permissionDenied': "You don't have permission to do that.",
+  'errors.unavailable': 'You appear to be offline. Check your connection and try again.',
+  'errors.notFound': "We couldn't find what you were looking for.",
+  'errors.deadlineExceeded': 'The request took too long. Please try again.',
+  'errors.resourceExhausted': 'Too many requests. Please wait a moment and try again.',
+  'errors.uploadUnauthorized': "You don't have permission to upload this file.",
+  'errors.uploadCanceled': 'The upload was cancelled.',
+  'errors.quotaExceeded': 'Storage is full right now. Please try again later.',
+  'errors.retryLimitExceeded': 'The upload took too long. Check your connection and try again.',
+  'errors.fileNotFound': "We couldn't find that file.",
+
+  'login.title': 'Sign in to your account',
+  'login.methods': 'Sign-in method',
+  'login.methodPassword': 'Password',
+  'login.methodLink': 'Email link',
+  'login.failed': 'Failed to sign in.',
+  'login.failedCheckCredentials': 'Failed to sign in. Please check your credentials.',
+  'login.failedWithProvider': 'Failed to sign in with {provider}.',
+  'login.pendingLink': 'You already have an account with {email}. Sign in with {methods} to connect your {provider} account to it.',
+  'login.pendingLinkUnknownMethod': 'You already have an account with {email}. Sign in the way you did before to connect your {provider} account to it.',
+  'login.pendingLinkPassword': 'your email and password',
+  'login.pendingLinkCancel': "Don't connect",
+  'login.forgotPassword': 'Forgot your password?',
+  'login.signUp': 'Need an account? Sign up',
+  'login.submit': 'Sign in',
+  'login.withProvider': 'Sign in with {provider}',
+  'login.rememberMe': 'Keep me signed in',
+  'login.rememberMeHint': "Leave this unticked on a shared or public computer. You'll be signed out when the browser closes.",
+  'login.signedOutIdle': 'You were signed out because you were inactive for a while.',
+  'login.signedOutRevoked': 'You were signed out of all devices. Sign in again to continue.',
+
+  'signUp.title': 'Create your account',
+  'signUp.failed': 'Failed to create an account.',
+  'signUp.confirmPassword': 'Confirm Password',
+  'signUp.signIn': 'Already have an account? Sign in',
+  'signUp.submit': 'Sign up',
+
+  'forgotPassword.title': 'Reset your password',
+  'forgotPassword.intro': "Enter your email address and we'll send you instructions to reset your password.",
+  'forgotPassword.sent': 'Check your inbox for password reset instructions.',
+  'forgotPassword.failed': 'Failed to reset password. Please check your email address.',
+  'forgotPassword.backToSignIn': 'Back to sign in',
+  'forgotPassword.useEmailLink': 'Sign in with an email link instead',
+  'forgotPassword.submit': 'Reset Password',
+
+  'emailLink.intro': "No password needed. We'll email you a link that signs you in.",
+  'emailLink.submit': 'Email me a sign-in link',
+  'emailLink.sent': 'We sent a sign-in link to {email}. Open it on this device to sign in.',
+  'emailLink.sendFailed': 'Failed to send the sign-in link. Please try again.',
+  'emailLink.signingIn': 'Signing you in',
+  'emailLink.confirmTitle': 'Confirm your email',
+  'emailLink.confirmIntro': 'Enter the email address the sign-in link was sent to.',
+  'emailLink.signIn': 'Sign in',
+  'emailLink.backToSignIn': 'Back to sign in',
+  'emailLink.invalid': 'This sign-in link is invalid or incomplete.',
+  'emailLink.expired': 'This sign-in link has expired or has already been used.',
+
+  'mfa.title': 'Two-step verification',
+  'mfa.intro': 'Protect your passport and payment details with a code from your phone each time you sign in.',
+  'mfa.challengeSms': "We'll text a code to {phoneNumber}.",
+  'mfa.challengeTotp': 'Enter the code from your authenticator app.',
+  'mfa.method': 'Verification method',
+  'mfa.authenticatorApp': 'Authenticator app',
+  'mfa.textMessage': 'Text message',
+  'mfa.sendCode': 'Send code',
+  'mfa.sendCodeFailed': 'Failed to send the verification code. Please try again.',
+  'mfa.code': 'Verification code',
+  'mfa.codeSent': 'Enter the code we texted to {phoneNumber}.',
+  'mfa.verify': 'Verify',
+  'mfa.backToSignIn': 'Back to sign in',
+  'mfa.totpInstructions': 'Add this key to your authenticator app, then enter the code it shows.',
+  'mfa.openAuthenticator': 'Open in authenticator app',
+  'mfa.turnOn': 'Turn on',
+  'mfa.useSms': 'Use text messages',
+  'mfa.useTotp': 'Use an authenticator app',
+  'mfa.noPhoneNumber': 'To receive codes by text, save your mobile number on the Details tab.',
+  'mfa.enabled': 'Two-step verification is on.',
+  'mfa.remove': 'Remove {method}',
+  'mfa.removeConfirm': 'Remove {method} from your account?',
+  'mfa.removeConfirmUnnamed': 'Remove this method from your account?',
+  'mfa.removed': 'Verification method removed.',
+  'mfa.updateFailed': 'Failed to update two-step verification.',
+
+  'reauth.title': "Confirm it's you",
+  'reauth.currentPassword': 'Current password',
+  'reauth.confirm': 'Confirm',
+  'reauth.continueWith': 'Continue with {provider}',
+  'reauth.continueWithProvider': 'Continue with your provider',
+  'reauth.failed': 'Failed to confirm your identity.',
+
+  'authAction.title': 'Account action',
+  'authAction.resetPasswordTitle': 'Choose a new password',
+  'authAction.newPassword': 'New Password',
+  'authAction.confirmPassword': 'Confirm Password',
+  'authAction.submit': 'Change Password',
+  'authAction.continueToProfile': 'Continue to your profile',
+  'authAction.backToSignIn': 'Back to sign in',
+  'authAction.invalidLink': 'This link is invalid or incomplete.',
+  'authAction.unsupportedLink': 'This link is not supported.',
+  'authAction.emailVerified': 'Your email address has been verified.',
+  'authAction.newEmailVerified': 'Your new email address has been verified.',
+  'authAction.emailRecovered': 'Your previous email address has been restored.',
+  'authAction.passwordReset': 'Your password has been changed. You can now sign in with your new password.',
+
+  'verifyEmail.title': 'Verify your email',
+  'verifyEmail.intro': 'We sent a verification link to {email}. Click the link to activate your account. This page will update automatically.',
+  'verifyEmail.check': "I've verified my email",
+  'verifyEmail.resend': 'Resend verification email',
+  'verifyEmail.resendIn': 'Resend email in {seconds}s',
+  'verifyEmail.differentAccount': 'Use a different account',
+  'verifyEmail.sent': 'Verification email sent. Check your inbox.',
+  'verifyEmail.sendFailed': 'Failed to send verification email. Please try again later.',
+  'verifyEmail.notVerified': "Your email address hasn't been verified yet.",
+  'verifyEmail.checkFailed': 'Failed to check verification status.',
+  'verifyEmail.signOutFailed': 'Failed to log out.',
+
+  'onboarding.step': 'Step {step} of {steps}',
+  'onboarding.progress': 'Onboarding progress',
+  'onboarding.aboutYou': 'About you',
+  'onboarding.aboutYouIntro': 'Tell us who is travelling.',
+  'onboarding.contact': 'How to reach you',
+  'onboarding.contactIntro': 'We use these for bookings and travel alerts.',
+  'onboarding.back': 'Back',
+  'onboarding.next': 'Next',
+  'onboarding.finish': 'Finish',
+  'onboarding.saveFailed': 'Failed to save your profile.',
+
+  'profile.title': 'Profile Settings',
+  'profile.loading': 'Loading profile...',
+  'profile.sections': 'Profile sections',
+  'profile.tabDetails': 'Details',
+  'profile.tabPreferences': 'Preferences',
+  'profile.tabCompanions': 'Companions',
+  'profile.tabDocuments': 'Documents',
+  'profile.tabSecurity': 'Security',
+  'profile.pictureNotImage': 'Please select an image file (PNG, JPG, etc.)',
+  'profile.pictureTooLarge': 'Image size should be less than {size}MB',
+  'profile.pictureSaved': 'Your profile picture has been updated.',
+  'profile.pictureSaveFailed': 'Failed to save your profile picture.',
+  'profile.picture': 'Profile Picture',
+  'profile.pictureAlt': 'Profile',
+  'profile.pictureHint': 'Click to upload a profile picture (JPG, PNG, WebP)',
+  'profile.pictureMaxSize': 'Max file size: {size}MB',
+  'profile.email': 'Email',
+  'profile.emailHint': 'You can change your email address in the Security tab',
+  'profile.saved': 'Profile updated successfully!',
+  'profile.saveFailed': 'Failed to update profile.',
+  'profile.savedLocally': "Profile saved on this device. It will sync when you're back online.",
+  'profile.syncFailed': "Your profile changes couldn't be synced.",
+  'profile.save': 'Save Changes',
+
+  'preferences.homeAirport': 'Home Airport',
+  'preferences.seat': 'Seat',
+  'preferences.seatAny': 'No preference',
+  'preferences.seatWindow': 'Window',
+  'preferences.seatAisle': 'Aisle',
+  'preferences.meal': 'Meal',
+  'preferences.mealAny': 'No preference',
+  'preferences.mealVegetarian': 'Vegetarian',
+  'preferences.mealVegan': 'Vegan',
+  'preferences.mealHalal': 'Halal',
+  'preferences.mealKosher': 'Kosher',
+  'preferences.mealGlutenFree': 'Gluten free',
+  'preferences.budget': 'Daily budget per person',
+  'preferences.minimum': 'Minimum',
+  'preferences.minimumBudget': 'Minimum budget',
+  'preferences.maximum': 'Maximum',
+  'preferences.maximumBudget': 'Maximum budget',
+  'preferences.currency': 'Currency',
+  'preferences.interests': 'Interests',
+  'preferences.interestBeaches': 'Beaches',
+  'preferences.interestCulture': 'Art & culture',
+  'preferences.interestFood': 'Food & drink',
+  'preferences.interestHistory': 'History',
+  'preferences.interestNature': 'Nature',
+  'preferences.interestAdventure': 'Adventure',
+  'preferences.interestNightlife': 'Nightlife',
+  'preferences.interestShopping': 'Shopping',
+  'preferences.interestWellness': 'Wellness',
+  'preferences.interestFamily': 'Family friendly',
+  'preferences.loyaltyProgrammes': 'Loyalty programmes',
+  'preferences.programmePlaceholder': 'Airline or hotel programme',
+  'preferences.programme': 'Programme',
+  'preferences.membershipNumber': 'Membership number',
+  'preferences.removeProgramme': 'Remove programme',
+  'preferences.addProgramme': 'Add programme',
+  'preferences.save': 'Save Preferences',
+  'preferences.saved': 'Your travel preferences have been saved.',
+  'preferences.savedLocally': "Your travel preferences have been saved on this device and will sync when you're back online.",
+  'preferences.saveFailed': 'Failed to save your preferences.',
+
+  'companions.intro': "Save the people you usually travel with so you don't have to enter their details for every trip. Their passports and visas can be added under Documents.",
+  'companions.empty': "You haven't saved any companions yet.",
+  'companions.fullName': 'Full name',
+  'companions.name': 'Companion name',
+  'companions.relationship': 'Relationship',
+  'companions.partner': 'Partner',
+  'companions.child': 'Child',
+  'companions.parent': 'Parent',
+  'companions.friend': 'Friend',
+  'companions.colleague': 'Colleague',
+  'companions.other': 'Other',
+  'companions.dob': 'Companion date of birth',
+  'companions.remove': 'Remove companion',
+  'companions.add': 'Add companion',
+  'companions.save': 'Save Companions',
+  'companions.saved': 'Your travel companions have been saved.',
+  'companions.savedLocally': "Your travel companions have been saved on this device and will sync when you're back online.",
+  'companions.saveFailed': 'Failed to save your companions.',
+
+  'documents.title': 'Travel documents',
+  'documents.add': 'Add document',
+  'documents.intro': 'Keep your passport, visas and travel insurance here so our agents have them when booking.',
+  'documents.loading': 'Loading documents...',
+  'documents.empty': "You haven't added any travel documents yet.",
+  'documents.passport': 'Passport',
+  'documents.visa': 'Visa',
+  'documents.insurance': 'Travel insurance',
+  'documents.for': 'For {name}',
+  'documents.expires': 'Expires {date}',
+  'documents.expired': 'Expired',
+  'documents.expiresSoon': 'Expires soon',
+  'documents.expiresDuringTrip': 'Your {document} expires on {date}, before your trip to {destination} ends.',
+  'documents.expiresAfterTrip': 'Your {document} expires on {date}, less than six months after your trip to {destination}.',
+  'documents.viewScan': 'View scan of {document}',
+  'documents.edit': 'Edit {document}',
+  'documents.delete': 'Delete {document}',
+  'documents.deleteConfirm': 'Delete this {document}?',
+  'documents.loadFailed': 'Failed to load your travel documents.',
+  'documents.deleteFailed': 'Failed to delete document.',
+  'documents.openScanFailed': 'Failed to open the scan.',
+
+  'documentDialog.addTitle': 'Add a travel document',
+  'documentDialog.editTitle': 'Edit {document}',
+  'documentDialog.description': 'Our agents use these details when booking, so enter them exactly as printed.',
+  'documentDialog.type': 'Document type',
+  'documentDialog.belongsTo': 'Belongs to',
+  'documentDialog.you': 'You',
+  'documentDialog.provider': 'Insurance provider',
+  'documentDialog.issuingCountry': 'Issuing country',
+  'documentDialog.validFor': 'Valid for',
+  'documentDialog.selectCountry': 'Select a country',
+  'documentDialog.number': '{document} number',
+  'documentDialog.policyNumber': 'Policy number',
+  'documentDialog.nameAsPrinted': 'Name as printed',
+  'documentDialog.policyHolder': 'Policy holder',
+  'documentDialog.issueDate': 'Issue date',
+  'documentDialog.coverStarts': 'Cover starts',
+  'documentDialog.expiryDate': 'Expiry date',
+  'documentDialog.coverEnds': 'Cover ends',
+  'documentDialog.scan': 'Scan',
+  'documentDialog.scanAttached': 'A scan is attached',
+  'documentDialog.noScan': 'No scan attached',
+  'documentDialog.scanHint': 'Photo or PDF, max file size: {size}MB',
+  'documentDialog.progress': 'Upload progress',
+  'documentDialog.uploading': 'Uploading… {progress}',
+  'documentDialog.cancelUpload': 'Cancel upload',
+  'documentDialog.save': 'Save document',
+  'documentDialog.scanNotSupported': 'Please select a photo or PDF of the document',
+  'documentDialog.scanTooLarge': 'Scans should be less than {size}MB',
+  'documentDialog.saveFailed': 'Failed to save document.',
+
+  'avatar.title': 'Adjust your profile picture',
+  'avatar.description': 'Drag to reposition and use the slider to zoom.',
+  'avatar.preview': 'Profile picture preview',
+  'avatar.zoom': 'Zoom',
+  'avatar.progress': 'Upload progress',
+  'avatar.uploading': 'Uploading… {progress}',
+  'avatar.cancelUpload': 'Cancel upload',
+  'avatar.save': 'Save picture',
+  'avatar.unreadable': 'The selected file could not be read as an image.',
+  'avatar.uploadFailed': 'Failed to upload image.',
+
+  'phone.verified': 'Verified',
+  'phone.unverified': 'Verify this number by text message so trip alerts and sign-in codes reach you.',
+  'phone.verify': 'Verify number',
+  'phone.codeSent': 'Enter the code we texted to {phoneNumber}.',
+  'phone.code': 'Verification code',
+  'phone.confirm': 'Confirm',
+  'phone.cancel': 'Cancel',
+  'phone.verifiedMessage': 'Your mobile number has been verified.',
+  'phone.verifyFailed': 'Failed to verify your mobile number.',
+  'phone.noNumber': 'Save your mobile number on the Details tab to verify it.',
+
+  'connectedAccounts.title': 'Connected accounts',
+  'connectedAccounts.intro': 'Connect other accounts so you can sign in with any of them.',
+  'connectedAccounts.status': 'Connected',
+  'connectedAccounts.connect': 'Connect',
+  'connectedAccounts.disconnect': 'Disconnect',
+  'connectedAccounts.lastMethod': "You can't disconnect your only sign-in method",
+  'connectedAccounts.connected': '{provider} connected.',
+  'connectedAccounts.disconnected': '{provider} disconnected.',
+  'connectedAccounts.failed': 'Failed to update your {provider} connection.',
+
+  'security.title': 'Security',
+  'security.changePassword': 'Change password',
+  'security.newPassword': 'New Password',
+  'security.confirmNewPassword': 'Confirm New Password',
+  'security.changePasswordSubmit': 'Change Password',
+  'security.reauthPassword': 'Enter your current password to change it.',
+  'security.passwordChanged': 'Your password has been changed.',
+  'security.passwordFailed': 'Failed to change password.',
+  'security.changeEmail': 'Change email address',
+  'security.newEmail': 'New Email',
+  'security.changeEmailSubmit': 'Send Verification Link',
+  'security.reauthEmail': 'Confirm your identity to change your email address.',
+  'security.emailLinkSent': 'We sent a link to {email}. Your email address will change once you open it.',
+  'security.emailFailed': 'Failed to change email address.',
+  'security.devices': 'Signed-in devices',
+  'security.devicesIntro': 'Signed in on a shared or lost device? Sign out everywhere your account is in use, including this browser.',
+  'security.signOutEverywhere': 'Sign Out of All Devices',
+  'security.signOutEverywhereConfirm': 'Sign out of all devices? You will need to sign in again everywhere, including here.',
+  'security.signOutEverywhereFailed': 'Failed to sign out of all devices.',
+  'security.deleteAccount': 'Delete account',
+  'security.deleteIntro': "Permanently delete your account and everything stored with it, including your profile, trips, travel documents, photos and assistant conversations. This can't be undone.",
+  'security.deleteAccountSubmit': 'Delete Account',
+  'security.deleteConfirm': 'Delete your account? Your profile, trips, travel documents, photos and conversation history will be permanently removed.',
+  'security.reauthDelete': 'Confirm your identity to permanently delete your account.',
+  'security.failed': 'Failed to update your account.',
+
+  'address.search': 'Find your address',
+  'address.searchPlaceholder': 'Start typing your street or postal code',
+  'address.noResults': 'No matching addresses. You can enter it below.',
+  'address.searchFailed': "We couldn't look up addresses right now. You can enter it below.",
+  'address.line1': 'Address line 1',
+  'address.line2': 'Address line 2 (optional)',
+  'address.city': 'Town or city',
+  'address.region': 'State, province or region',
+  'address.postalCode': 'Postal code',
+  'address.country': 'Country',
+  'address.countryPlaceholder': 'Select a country',
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, string>;
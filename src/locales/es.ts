@@ -0,0 +1,543 @@
+import type { Catalog } from './en';
+
+export const es: Catalog = {
+  'locale.label': 'Idioma',
+  'theme.label': 'Tema',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.system': 'Como el dispositivo',
+
+  'nav.main': 'Principal',
+  'nav.breadcrumbs': 'Ruta de navegación',
+  'nav.skipToContent': 'Saltar al contenido',
+  'nav.dashboard': 'Panel',
+  'nav.trips': 'Viajes',
+  'nav.newTrip': 'Nuevo viaje',
+  'nav.editTrip': 'Editar viaje',
+  'nav.assistant': 'Asistente',
+  'nav.profile': 'Perfil',
+  'nav.admin': 'Usuarios',
+  'nav.notFound': 'Página no encontrada',
+  'nav.accountMenu': 'Menú de la cuenta',
+  'nav.signOut': 'Cerrar sesión',
+  'nav.signOutFailed': 'No se ha podido cerrar la sesión.',
+
+  'session.idleTitle': '¿Sigues ahí?',
+  'session.idleBody': 'Llevas un rato sin actividad. Por tu seguridad, la sesión se cerrará en {time}.',
+  'session.staySignedIn': 'Mantener la sesión',
+  'session.signOut': 'Cerrar sesión ahora',
+
+  'sync.offline': 'Sin conexión',
+  'sync.offlinePending': 'Sin conexión, cambios guardados en este dispositivo',
+  'sync.offlineHint': 'No tienes conexión. Los cambios se guardan en este dispositivo y se sincronizarán cuando vuelvas a conectarte.',
+  'sync.syncing': 'Sincronizando cambios…',
+
+  'errorPage.title': 'Algo ha salido mal',
+  'errorPage.body': 'No se ha podido mostrar esta página. Vuelve a intentarlo o recarga la página si la aplicación se acaba de actualizar.',
+  'errorPage.retry': 'Reintentar',
+  'errorPage.reload': 'Recargar la página',
+
+  'notFound.title': 'Página no encontrada',
+  'notFound.body': 'No hemos encontrado la página que buscabas. Puede que el enlace sea incorrecto o que la página se haya movido.',
+  'notFound.home': 'Ir a tu panel',
+
+  'forbidden.title': 'Acceso denegado',
+  'forbidden.body': 'Tu cuenta no tiene permiso para ver esta página. Si crees que es un error, ponte en contacto con el administrador de tu agencia.',
+  'forbidden.home': 'Volver a tu panel',
+
+  'dashboard.welcome': 'Hola de nuevo, {name}',
+  'dashboard.welcomeNoName': 'Hola de nuevo',
+  'dashboard.intro': 'Esto es lo que tienes por delante.',
+  'dashboard.loading': 'Cargando tu panel...',
+  'dashboard.loadFailed': 'No se han podido cargar tus viajes y documentos.',
+  'dashboard.quickActions': 'Accesos rápidos',
+  'dashboard.planTrip': 'Planear un viaje',
+  'dashboard.askAssistant': 'Preguntar al asistente',
+  'dashboard.editProfile': 'Actualizar tu perfil',
+  'dashboard.upcomingTrips': 'Próximos viajes',
+  'dashboard.noUpcomingTrips': 'No tienes viajes próximos. ¿Adónde vamos ahora?',
+  'dashboard.allTrips': 'Ver todos los viajes',
+  'dashboard.documentsTitle': 'Documentos de viaje',
+  'dashboard.documentsNeedAttention': 'Algunos de tus documentos de viaje han caducado o caducan demasiado pronto para un próximo viaje.',
+  'dashboard.documentsOk': 'Tus documentos de viaje son válidos para tus próximos viajes.',
+  'dashboard.reviewDocuments': 'Revisar documentos',
+
+  'trips.title': 'Mis viajes',
+  'trips.new': 'Nuevo viaje',
+  'trips.loading': 'Cargando viajes...',
+  'trips.empty': 'Todavía no has planificado ningún viaje.',
+  'trips.planFirst': 'Planifica tu primer viaje',
+  'trips.travellers': 'Viajeros: {count}',
+  'trips.daysPlanned': 'Días planificados: {count}',
+  'trips.edit': 'Editar el viaje a {destination}',
+  'trips.delete': 'Eliminar el viaje a {destination}',
+  'trips.deleteConfirm': '¿Eliminar tu viaje a {destination}?',
+  'trips.loadFailed': 'No se han podido cargar tus viajes.',
+  'trips.deleteFailed': 'No se ha podido eliminar el viaje.',
+
+  'tripEditor.newTitle': 'Nuevo viaje',
+  'tripEditor.editTitle': 'Editar viaje',
+  'tripEditor.loading': 'Cargando viaje...',
+  'tripEditor.destination': 'Destino',
+  'tripEditor.destinationPlaceholder': 'Lisboa, Portugal',
+  'tripEditor.startDate': 'Fecha de inicio',
+  'tripEditor.endDate': 'Fecha de fin',
+  'tripEditor.travellers': 'Viajeros',
+  'tripEditor.itinerary': 'Itinerario',
+  'tripEditor.addDay': 'Añadir día',
+  'tripEditor.noDays': 'Aún no hay días planificados. Añade un día para empezar tu itinerario.',
+  'tripEditor.day': 'Día {day}',
+  'tripEditor.removeDay': 'Quitar el día {day}',
+  'tripEditor.time': 'Hora',
+  'tripEditor.activity': 'Actividad',
+  'tripEditor.location': 'Lugar',
+  'tripEditor.addActivity': 'Añadir actividad',
+  'tripEditor.removeActivity': 'Quitar actividad',
+  'tripEditor.create': 'Crear viaje',
+  'tripEditor.save': 'Guardar viaje',
+  'tripEditor.notFound': 'No se ha encontrado este viaje.',
+  'tripEditor.loadFailed': 'No se ha podido cargar el viaje.',
+  'tripEditor.saveFailed': 'No se ha podido guardar el viaje.',
+
+  'assistant.title': 'Asistente de viaje',
+  'assistant.clear': 'Borrar',
+  'assistant.clearConfirm': '¿Borrar el historial de la conversación?',
+  'assistant.loading': 'Cargando conversación...',
+  'assistant.empty': 'Pregunta por destinos, presupuestos, equipaje o cualquier otra cosa para tu próximo viaje.',
+  'assistant.placeholder': 'Pregunta al asistente...',
+  'assistant.message': 'Mensaje',
+  'assistant.send': 'Enviar',
+  'assistant.stop': 'Detener',
+  'assistant.loadFailed': 'No se ha podido cargar tu conversación.',
+  'assistant.replyFailed': 'El asistente no ha podido responder. Inténtalo de nuevo.',
+  'assistant.clearFailed': 'No se ha podido borrar la conversación.',
+
+  'admin.title': 'Usuarios',
+  'admin.search': 'Buscar usuarios',
+  'admin.loading': 'Cargando usuarios...',
+  'admin.empty': 'No se han encontrado usuarios.',
+  'admin.user': 'Usuario',
+  'admin.email': 'Correo electrónico',
+  'admin.mobile': 'Móvil',
+  'admin.updated': 'Última actualización',
+  'admin.loadFailed': 'No se han podido cargar los usuarios.',
+
+  'common.emailAddress': 'Correo electrónico',
+  'common.password': 'Contraseña',
+  'common.username': 'Nombre de usuario',
+  'common.dateOfBirth': 'Fecha de nacimiento',
+  'common.mobileNumber': 'Número de móvil',
+  'common.countryCode': 'Prefijo del país',
+  'common.address': 'Dirección',
+  'common.close': 'Cerrar',
+  'common.dismiss': 'Descartar',
+  'common.notifications': 'Notificaciones',
+  'common.loading': 'Cargando…',
+  'common.cancel': 'Cancelar',
+  'common.noDates': 'Fechas sin definir',
+
+  'validation.emailInvalid': 'Introduce un correo electrónico válido',
+  'validation.passwordTooShort': 'La contraseña debe tener al menos 6 caracteres',
+  'validation.passwordRequired': 'Introduce tu contraseña',
+  'validation.passwordsDontMatch': 'Las contraseñas no coinciden',
+  'validation.codeInvalid': 'Introduce el código de 6 dígitos',
+  'validation.usernameTooShort': 'El nombre de usuario debe tener al menos 3 caracteres',
+  'validation.dateOfBirthRequired': 'La fecha de nacimiento es obligatoria',
+  'validation.dateInvalid': 'Introduce una fecha válida',
+  'validation.tooYoung': 'Debes tener al menos {minimumAge} años',
+  'validation.mobileNumberRequired': 'Introduce tu número de móvil',
+  'validation.mobileNumberInvalid': 'Introduce un número de móvil válido',
+  'validation.mobileNumberLength': 'El número no tiene la cantidad de dígitos correcta para el país seleccionado',
+  'validation.addressLine1Required': 'Introduce la primera línea de tu dirección',
+  'validation.addressLineTooLong': 'Las líneas de dirección pueden tener hasta 200 caracteres',
+  'validation.cityRequired': 'Introduce tu ciudad o localidad',
+  'validation.cityTooLong': 'La ciudad puede tener hasta 100 caracteres',
+  'validation.regionTooLong': 'La región puede tener hasta 100 caracteres',
+  'validation.postalCodeRequired': 'Introduce tu código postal',
+  'validation.postalCodeInvalid': 'No parece un código postal válido para el país seleccionado',
+  'validation.airportCodeInvalid': 'Introduce un código de aeropuerto de tres letras, como MAD',
+  'validation.programmeTooShort': 'El programa debe tener al menos 2 caracteres',
+  'validation.programmeTooLong': 'El programa debe tener como máximo 100 caracteres',
+  'validation.membershipNumberTooShort': 'El número de socio debe tener al menos 3 caracteres',
+  'validation.membershipNumberTooLong': 'El número de socio debe tener como máximo 30 caracteres',
+  'validation.tooManyProgrammes': 'Puedes guardar hasta {maxLoyaltyProgrammes} programas',
+  'validation.amountRequired': 'Introduce un importe',
+  'validation.budgetNegative': 'El presupuesto no puede ser negativo',
+  'validation.budgetMaxBelowMin': 'El máximo debe ser al menos igual al mínimo',
+  'validation.currencyRequired': 'Selecciona una moneda',
+  'validation.nameTooShort': 'El nombre debe tener al menos 2 caracteres',
+  'validation.nameTooLong': 'El nombre debe tener como máximo 100 caracteres',
+  'validation.tooManyCompanions': 'Puedes guardar hasta {maxCompanions} acompañantes',
+  'validation.documentNumberRequired': 'El número de documento es obligatorio',
+  'validation.holderNameTooLong': 'El nombre debe tener como máximo 200 caracteres',
+  'validation.documentNumberTooLong': 'El número de documento debe tener como máximo 50 caracteres',
+  'validation.providerTooLong': 'La aseguradora debe tener como máximo 200 caracteres',
+  'validation.countryRequired': 'Selecciona un país',
+  'validation.passportNumberInvalid': 'Esto no parece un número de pasaporte del país seleccionado',
+  'validation.providerRequired': 'La aseguradora es obligatoria',
+  'validation.expiryDateRequired': 'La fecha de caducidad es obligatoria',
+  'validation.expiryBeforeIssue': 'La fecha de caducidad debe ser posterior a la de expedición',
+  'validation.titleRequired': 'El título es obligatorio',
+  'validation.dateRequired': 'La fecha es obligatoria',
+  'validation.destinationTooShort': 'El destino debe tener al menos 2 caracteres',
+  'validation.startDateRequired': 'La fecha de inicio es obligatoria',
+  'validation.endDateRequired': 'La fecha de fin es obligatoria',
+  'validation.travellersRequired': 'El número de viajeros es obligatorio',
+  'validation.travellersWholeNumber': 'El número de viajeros debe ser un número entero',
+  'validation.travellersTooFew': 'Se necesita al menos un viajero',
+  'validation.travellersTooMany': 'Un viaje puede tener como máximo 50 viajeros',
+  'validation.endDateBeforeStart': 'La fecha de fin debe ser igual o posterior a la de inicio',
+  'validation.dateOutsideTrip': 'La fecha debe estar dentro de las fechas del viaje',
+
+  'errors.emailInUse': 'Ya existe una cuenta con este correo electrónico.',
+  'errors.emailMissing': 'Introduce tu correo electrónico',
+  'errors.incorrectCredentials': 'Correo electrónico o contraseña incorrectos.',
+  'errors.weakPassword': 'La contraseña es demasiado débil. Usa al menos 6 caracteres combinando letras y números.',
+  'errors.tooManyRequests': 'Demasiados intentos fallidos. Por tu seguridad, esta cuenta está bloqueada temporalmente. Inténtalo de nuevo en unos minutos o restablece tu contraseña.',
+  'errors.userDisabled': 'Esta cuenta se ha desactivado. Ponte en contacto con el servicio de asistencia.',
+  'errors.networkRequestFailed': 'No hemos podido conectar con el servidor. Comprueba tu conexión e inténtalo de nuevo.',
+  'errors.popupClosed': 'La ventana de inicio de sesión se cerró antes de terminar.',
+  'errors.popupBlocked': 'Tu navegador ha bloqueado la ventana de inicio de sesión. Permite las ventanas emergentes para este sitio e inténtalo de nuevo.',
+  'errors.accountExistsWithDifferentCredential': 'Ya existe una cuenta con este correo electrónico que usa otro método de inicio de sesión.',
+  'errors.credentialInUse': 'Esa cuenta ya está conectada a otro usuario.',
+  'errors.providerAlreadyLinked': 'Esa cuenta ya está conectada.',
+  'errors.noSuchProvider': 'Esa cuenta no está conectada.',
+  'errors.operationNotAllowed': 'Este método de inicio de sesión no está disponible ahora mismo.',
+  'errors.requiresRecentLogin': 'Por tu seguridad, vuelve a iniciar sesión para continuar.',
+  'errors.unverifiedEmail': 'Verifica tu correo electrónico antes de continuar.',
+  'errors.invalidVerificationCode': 'El código es incorrecto o ha caducado.',
+  'errors.codeExpired': 'El código ha caducado. Solicita uno nuevo.',
+  'errors.expiredActionCode': 'Este enlace ha caducado. Solicita uno nuevo.',
+  'errors.invalidActionCode': 'Este enlace ha caducado o ya se ha utilizado.',
+  'errors.permissionDenied': 'No tienes permiso para hacer eso.',
+  'errors.unavailable': 'Parece que no tienes conexión. Comprueba tu conexión e inténtalo de nuevo.',
+  'errors.notFound': 'No hemos encontrado lo que buscabas.',
+  'errors.deadlineExceeded': 'La solicitud ha tardado demasiado. Inténtalo de nuevo.',
+  'errors.resourceExhausted': 'Demasiadas solicitudes. Espera un momento e inténtalo de nuevo.',
+  'errors.uploadUnauthorized': 'No tienes permiso para subir este archivo.',
+  'errors.uploadCanceled': 'Se ha cancelado la subida.',
+  'errors.quotaExceeded': 'El almacenamiento está lleno. Inténtalo de nuevo más tarde.',
+  'errors.retryLimitExceeded': 'La subida ha tardado demasiado. Comprueba tu conexión e inténtalo de nuevo.',
+  'errors.fileNotFound': 'No hemos encontrado ese archivo.',
+
+  'login.title': 'Inicia sesión en tu cuenta',
+  'login.methods': 'Método de inicio de sesión',
+  'login.methodPassword': 'Contraseña',
+  'login.methodLink': 'Enlace por correo',
+  'login.failed': 'No se ha podido iniciar sesión.',
+  'login.failedCheckCredentials': 'No se ha podido iniciar sesión. Comprueba tus credenciales.',
+  'login.failedWithProvider': 'No se ha podido iniciar sesión con {provider}.',
+  'login.pendingLink': 'Ya tienes una cuenta con {email}. Inicia sesión con {methods} para conectar tu cuenta de {provider}.',
+  'login.pendingLinkUnknownMethod': 'Ya tienes una cuenta con {email}. Inicia sesión como lo hiciste la última vez para conectar tu cuenta de {provider}.',
+  'login.pendingLinkPassword': 'tu correo electrónico y contraseña',
+  'login.pendingLinkCancel': 'No conectar',
+  'login.forgotPassword': '¿Has olvidado tu contraseña?',
+  'login.signUp': '¿No tienes cuenta? Regístrate',
+  'login.submit': 'Iniciar sesión',
+  'login.withProvider': 'Iniciar sesión con {provider}',
+  'login.rememberMe': 'Mantener la sesión iniciada',
+  'login.rememberMeHint': 'No marques esta casilla en un ordenador compartido o público. La sesión se cerrará al cerrar el navegador.',
+  'login.signedOutIdle': 'Se ha cerrado tu sesión por inactividad.',
+  'login.signedOutRevoked': 'Se ha cerrado la sesión en todos tus dispositivos. Vuelve a iniciar sesión para continuar.',
+
+  'signUp.title': 'Crea tu cuenta',
+  'signUp.failed': 'No se ha podido crear la cuenta.',
+  'signUp.confirmPassword': 'Confirmar contraseña',
+  'signUp.signIn': '¿Ya tienes cuenta? Inicia sesión',
+  'signUp.submit': 'Registrarse',
+
+  'forgotPassword.title': 'Restablece tu contraseña',
+  'forgotPassword.intro': 'Introduce tu correo electrónico y te enviaremos instrucciones para restablecer tu contraseña.',
+  'forgotPassword.sent': 'Revisa tu bandeja de entrada para ver las instrucciones.',
+  'forgotPassword.failed': 'No se ha podido restablecer la contraseña. Comprueba tu correo electrónico.',
+  'forgotPassword.backToSignIn': 'Volver a iniciar sesión',
+  'forgotPassword.useEmailLink': 'Iniciar sesión con un enlace por correo',
+  'forgotPassword.submit': 'Restablecer contraseña',
+
+  'emailLink.intro': 'No necesitas contraseña. Te enviaremos por correo un enlace para iniciar sesión.',
+  'emailLink.submit': 'Enviarme un enlace de inicio de sesión',
+  'emailLink.sent': 'Hemos enviado un enlace de inicio de sesión a {email}. Ábrelo en este dispositivo para iniciar sesión.',
+  'emailLink.sendFailed': 'No se ha podido enviar el enlace de inicio de sesión. Inténtalo de nuevo.',
+  'emailLink.signingIn': 'Iniciando sesión',
+  'emailLink.confirmTitle': 'Confirma tu correo electrónico',
+  'emailLink.confirmIntro': 'Introduce el correo electrónico al que se envió el enlace de inicio de sesión.',
+  'emailLink.signIn': 'Iniciar sesión',
+  'emailLink.backToSignIn': 'Volver a iniciar sesión',
+  'emailLink.invalid': 'Este enlace de inicio de sesión no es válido o está incompleto.',
+  'emailLink.expired': 'Este enlace de inicio de sesión ha caducado o ya se ha usado.',
+
+  'mfa.title': 'Verificación en dos pasos',
+  'mfa.intro': 'Protege los datos de tu pasaporte y tus pagos con un código de tu teléfono cada vez que inicies sesión.',
+  'mfa.challengeSms': 'Te enviaremos un código por SMS al {phoneNumber}.',
+  'mfa.challengeTotp': 'Introduce el código de tu aplicación de autenticación.',
+  'mfa.method': 'Método de verificación',
+  'mfa.authenticatorApp': 'Aplicación de autenticación',
+  'mfa.textMessage': 'SMS',
+  'mfa.sendCode': 'Enviar código',
+  'mfa.sendCodeFailed': 'No se ha podido enviar el código de verificación. Inténtalo de nuevo.',
+  'mfa.code': 'Código de verificación',
+  'mfa.codeSent': 'Introduce el código que te hemos enviado por SMS al {phoneNumber}.',
+  'mfa.verify': 'Verificar',
+  'mfa.backToSignIn': 'Volver a iniciar sesión',
+  'mfa.totpInstructions': 'Añade esta clave a tu aplicación de autenticación e introduce el código que muestre.',
+  'mfa.openAuthenticator': 'Abrir en la aplicación de autenticación',
+  'mfa.turnOn': 'Activar',
+  'mfa.useSms': 'Usar SMS',
+  'mfa.useTotp': 'Usar una aplicación de autenticación',
+  'mfa.noPhoneNumber': 'Para recibir códigos por SMS, guarda tu número de móvil en la pestaña Datos.',
+  'mfa.enabled': 'La verificación en dos pasos está activada.',
+  'mfa.remove': 'Quitar {method}',
+  'mfa.removeConfirm': '¿Quitar {method} de tu cuenta?',
+  'mfa.removeConfirmUnnamed': '¿Quitar este método de tu cuenta?',
+  'mfa.removed': 'Método de verificación eliminado.',
+  'mfa.updateFailed': 'No se ha podido actualizar la verificación en dos pasos.',
+
+  'reauth.title': 'Confirma que eres tú',
+  'reauth.currentPassword': 'Contraseña actual',
+  'reauth.confirm': 'Confirmar',
+  'reauth.continueWith': 'Continuar con {provider}',
+  'reauth.continueWithProvider': 'Continuar con tu proveedor',
+  'reauth.failed': 'No se ha podido confirmar tu identidad.',
+
+  'authAction.title': 'Acción de la cuenta',
+  'authAction.resetPasswordTitle': 'Elige una nueva contraseña',
+  'authAction.newPassword': 'Nueva contraseña',
+  'authAction.confirmPassword': 'Confirmar contraseña',
+  'authAction.submit': 'Cambiar contraseña',
+  'authAction.continueToProfile': 'Ir a tu perfil',
+  'authAction.backToSignIn': 'Volver a iniciar sesión',
+  'authAction.invalidLink': 'Este enlace no es válido o está incompleto.',
+  'authAction.unsupportedLink': 'Este enlace no es compatible.',
+  'authAction.emailVerified': 'Tu correo electrónico se ha verificado.',
+  'authAction.newEmailVerified': 'Tu nuevo correo electrónico se ha verificado.',
+  'authAction.emailRecovered': 'Se ha restablecido tu correo electrónico anterior.',
+  'authAction.passwordReset': 'Tu contraseña se ha cambiado. Ya puedes iniciar sesión con la nueva contraseña.',
+
+  'verifyEmail.title': 'Verifica tu correo electrónico',
+  'verifyEmail.intro': 'Hemos enviado un enlace de verificación a {email}. Haz clic en él para activar tu cuenta. Esta página se actualizará automáticamente.',
+  'verifyEmail.check': 'Ya he verificado mi correo',
+  'verifyEmail.resend': 'Reenviar correo de verificación',
+  'verifyEmail.resendIn': 'Reenviar correo en {seconds} s',
+  'verifyEmail.differentAccount': 'Usar otra cuenta',
+  'verifyEmail.sent': 'Correo de verificación enviado. Revisa tu bandeja de entrada.',
+  'verifyEmail.sendFailed': 'No se ha podido enviar el correo de verificación. Inténtalo de nuevo más tarde.',
+  'verifyEmail.notVerified': 'Tu correo electrónico aún no se ha verificado.',
+  'verifyEmail.checkFailed': 'No se ha podido comprobar el estado de la verificación.',
+  'verifyEmail.signOutFailed': 'No se ha podido cerrar la sesión.',
+
+  'onboarding.step': 'Paso {step} de {steps}',
+  'onboarding.progress': 'Progreso de la configuración',
+  'onboarding.aboutYou': 'Sobre ti',
+  'onboarding.aboutYouIntro': 'Cuéntanos quién viaja.',
+  'onboarding.contact': 'Cómo contactarte',
+  'onboarding.contactIntro': 'Los usamos para las reservas y las alertas de viaje.',
+  'onboarding.back': 'Atrás',
+  'onboarding.next': 'Siguiente',
+  'onboarding.finish': 'Terminar',
+  'onboarding.saveFailed': 'No se ha podido guardar tu perfil.',
+
+  'profile.title': 'Ajustes del perfil',
+  'profile.loading': 'Cargando perfil...',
+  'profile.sections': 'Secciones del perfil',
+  'profile.tabDetails': 'Datos',
+  'profile.tabPreferences': 'Preferencias',
+  'profile.tabCompanions': 'Acompañantes',
+  'profile.tabDocuments': 'Documentos',
+  'profile.tabSecurity': 'Seguridad',
+  'profile.pictureNotImage': 'Selecciona un archivo de imagen (PNG, JPG, etc.)',
+  'profile.pictureTooLarge': 'La imagen debe ocupar menos de {size} MB',
+  'profile.pictureSaved': 'Se ha actualizado tu foto de perfil.',
+  'profile.pictureSaveFailed': 'No se ha podido guardar tu foto de perfil.',
+  'profile.picture': 'Foto de perfil',
+  'profile.pictureAlt': 'Perfil',
+  'profile.pictureHint': 'Haz clic para subir una foto de perfil (JPG, PNG, WebP)',
+  'profile.pictureMaxSize': 'Tamaño máximo: {size} MB',
+  'profile.email': 'Correo electrónico',
+  'profile.emailHint': 'Puedes cambiar tu correo electrónico en la pestaña Seguridad',
+  'profile.saved': '¡Perfil actualizado!',
+  'profile.saveFailed': 'No se ha podido actualizar el perfil.',
+  'profile.savedLocally': 'Perfil guardado en este dispositivo. Se sincronizará cuando vuelvas a tener conexión.',
+  'profile.syncFailed': 'No se han podido sincronizar los cambios de tu perfil.',
+  'profile.save': 'Guardar cambios',
+
+  'preferences.homeAirport': 'Aeropuerto de origen',
+  'preferences.seat': 'Asiento',
+  'preferences.seatAny': 'Sin preferencia',
+  'preferences.seatWindow': 'Ventanilla',
+  'preferences.seatAisle': 'Pasillo',
+  'preferences.meal': 'Comida',
+  'preferences.mealAny': 'Sin preferencia',
+  'preferences.mealVegetarian': 'Vegetariana',
+  'preferences.mealVegan': 'Vegana',
+  'preferences.mealHalal': 'Halal',
+  'preferences.mealKosher': 'Kosher',
+  'preferences.mealGlutenFree': 'Sin gluten',
+  'preferences.budget': 'Presupuesto diario por persona',
+  'preferences.minimum': 'Mínimo',
+  'preferences.minimumBudget': 'Presupuesto mínimo',
+  'preferences.maximum': 'Máximo',
+  'preferences.maximumBudget': 'Presupuesto máximo',
+  'preferences.currency': 'Moneda',
+  'preferences.interests': 'Intereses',
+  'preferences.interestBeaches': 'Playas',
+  'preferences.interestCulture': 'Arte y cultura',
+  'preferences.interestFood': 'Gastronomía',
+  'preferences.interestHistory': 'Historia',
+  'preferences.interestNature': 'Naturaleza',
+  'preferences.interestAdventure': 'Aventura',
+  'preferences.interestNightlife': 'Vida nocturna',
+  'preferences.interestShopping': 'Compras',
+  'preferences.interestWellness': 'Bienestar',
+  'preferences.interestFamily': 'Para familias',
+  'preferences.loyaltyProgrammes': 'Programas de fidelización',
+  'preferences.programmePlaceholder': 'Programa de aerolínea u hotel',
+  'preferences.programme': 'Programa',
+  'preferences.membershipNumber': 'Número de socio',
+  'preferences.removeProgramme': 'Quitar programa',
+  'preferences.addProgramme': 'Añadir programa',
+  'preferences.save': 'Guardar preferencias',
+  'preferences.saved': 'Se han guardado tus preferencias de viaje.',
+  'preferences.savedLocally': 'Tus preferencias de viaje se han guardado en este dispositivo y se sincronizarán cuando vuelvas a estar en línea.',
+  'preferences.saveFailed': 'No se han podido guardar tus preferencias.',
+
+  'companions.intro': 'Guarda a las personas con las que sueles viajar para no tener que introducir sus datos en cada viaje. Sus pasaportes y visados se pueden añadir en Documentos.',
+  'companions.empty': 'Todavía no has guardado ningún acompañante.',
+  'companions.fullName': 'Nombre completo',
+  'companions.name': 'Nombre del acompañante',
+  'companions.relationship': 'Parentesco',
+  'companions.partner': 'Pareja',
+  'companions.child': 'Hijo o hija',
+  'companions.parent': 'Padre o madre',
+  'companions.friend': 'Amistad',
+  'companions.colleague': 'Colega',
+  'companions.other': 'Otro',
+  'companions.dob': 'Fecha de nacimiento del acompañante',
+  'companions.remove': 'Quitar acompañante',
+  'companions.add': 'Añadir acompañante',
+  'companions.save': 'Guardar acompañantes',
+  'companions.saved': 'Se han guardado tus acompañantes de viaje.',
+  'companions.savedLocally': 'Tus acompañantes de viaje se han guardado en este dispositivo y se sincronizarán cuando vuelvas a estar en línea.',
+  'companions.saveFailed': 'No se han podido guardar tus acompañantes.',
+
+  'documents.title': 'Documentos de viaje',
+  'documents.add': 'Añadir documento',
+  'documents.intro': 'Guarda aquí tu pasaporte, tus visados y tu seguro de viaje para que nuestros agentes los tengan al reservar.',
+  'documents.loading': 'Cargando documentos...',
+  'documents.empty': 'Todavía no has añadido ningún documento de viaje.',
+  'documents.passport': 'Pasaporte',
+  'documents.visa': 'Visado',
+  'documents.insurance': 'Seguro de viaje',
+  'documents.for': 'De {name}',
+  'documents.expires': 'Caduca el {date}',
+  'documents.expired': 'Caducado',
+  'documents.expiresSoon': 'Caduca pronto',
+  'documents.expiresDuringTrip': 'Tu {document} caduca el {date}, antes de que termine tu viaje a {destination}.',
+  'documents.expiresAfterTrip': 'Tu {document} caduca el {date}, menos de seis meses después de tu viaje a {destination}.',
+  'documents.viewScan': 'Ver el escaneo de {document}',
+  'documents.edit': 'Editar {document}',
+  'documents.delete': 'Eliminar {document}',
+  'documents.deleteConfirm': '¿Eliminar este {document}?',
+  'documents.loadFailed': 'No se han podido cargar tus documentos de viaje.',
+  'documents.deleteFailed': 'No se ha podido eliminar el documento.',
+  'documents.openScanFailed': 'No se ha podido abrir el escaneo.',
+
+  'documentDialog.addTitle': 'Añadir un documento de viaje',
+  'documentDialog.editTitle': 'Editar {document}',
+  'documentDialog.description': 'Nuestros agentes usan estos datos al reservar, así que introdúcelos tal y como aparecen impresos.',
+  'documentDialog.type': 'Tipo de documento',
+  'documentDialog.belongsTo': 'Pertenece a',
+  'documentDialog.you': 'Tú',
+  'documentDialog.provider': 'Aseguradora',
+  'documentDialog.issuingCountry': 'País de expedición',
+  'documentDialog.validFor': 'Válido para',
+  'documentDialog.selectCountry': 'Selecciona un país',
+  'documentDialog.number': 'Número de {document}',
+  'documentDialog.policyNumber': 'Número de póliza',
+  'documentDialog.nameAsPrinted': 'Nombre tal y como aparece',
+  'documentDialog.policyHolder': 'Titular de la póliza',
+  'documentDialog.issueDate': 'Fecha de expedición',
+  'documentDialog.coverStarts': 'Inicio de la cobertura',
+  'documentDialog.expiryDate': 'Fecha de caducidad',
+  'documentDialog.coverEnds': 'Fin de la cobertura',
+  'documentDialog.scan': 'Escaneo',
+  'documentDialog.scanAttached': 'Hay un escaneo adjunto',
+  'documentDialog.noScan': 'No hay ningún escaneo adjunto',
+  'documentDialog.scanHint': 'Foto o PDF, tamaño máximo: {size} MB',
+  'documentDialog.progress': 'Progreso de la subida',
+  'documentDialog.uploading': 'Subiendo… {progress}',
+  'documentDialog.cancelUpload': 'Cancelar subida',
+  'documentDialog.save': 'Guardar documento',
+  'documentDialog.scanNotSupported': 'Selecciona una foto o un PDF del documento',
+  'documentDialog.scanTooLarge': 'Los escaneos deben ocupar menos de {size} MB',
+  'documentDialog.saveFailed': 'No se ha podido guardar el documento.',
+
+  'avatar.title': 'Ajusta tu foto de perfil',
+  'avatar.description': 'Arrastra para recolocarla y usa el control deslizante para acercar.',
+  'avatar.preview': 'Vista previa de la foto de perfil',
+  'avatar.zoom': 'Zoom',
+  'avatar.progress': 'Progreso de la subida',
+  'avatar.uploading': 'Subiendo… {progress}',
+  'avatar.cancelUpload': 'Cancelar subida',
+  'avatar.save': 'Guardar foto',
+  'avatar.unreadable': 'El archivo seleccionado no se puede leer como imagen.',
+  'avatar.uploadFailed': 'No se ha podido subir la imagen.',
+
+  'phone.verified': 'Verificado',
+  'phone.unverified': 'Verifica este número por SMS para que te lleguen las alertas de viaje y los códigos de inicio de sesión.',
+  'phone.verify': 'Verificar número',
+  'phone.codeSent': 'Introduce el código que te hemos enviado por SMS al {phoneNumber}.',
+  'phone.code': 'Código de verificación',
+  'phone.confirm': 'Confirmar',
+  'phone.cancel': 'Cancelar',
+  'phone.verifiedMessage': 'Tu número de móvil se ha verificado.',
+  'phone.verifyFailed': 'No se ha podido verificar tu número de móvil.',
+  'phone.noNumber': 'Guarda tu número de móvil en la pestaña Datos para verificarlo.',
+
+  'connectedAccounts.title': 'Cuentas conectadas',
+  'connectedAccounts.intro': 'Conecta otras cuentas para poder iniciar sesión con cualquiera de ellas.',
+  'connectedAccounts.status': 'Conectada',
+  'connectedAccounts.connect': 'Conectar',
+  'connectedAccounts.disconnect': 'Desconectar',
+  'connectedAccounts.lastMethod': 'No puedes desconectar tu único método de inicio de sesión',
+  'connectedAccounts.connected': '{provider} conectado.',
+  'connectedAccounts.disconnected': '{provider} desconectado.',
+  'connectedAccounts.failed': 'No se ha podido actualizar tu conexión con {provider}.',
+
+  'security.title': 'Seguridad',
+  'security.changePassword': 'Cambiar contraseña',
+  'security.newPassword': 'Nueva contraseña',
+  'security.confirmNewPassword': 'Confirmar nueva contraseña',
+  'security.changePasswordSubmit': 'Cambiar contraseña',
+  'security.reauthPassword': 'Introduce tu contraseña actual para cambiarla.',
+  'security.passwordChanged': 'Tu contraseña se ha cambiado.',
+  'security.passwordFailed': 'No se ha podido cambiar la contraseña.',
+  'security.changeEmail': 'Cambiar correo electrónico',
+  'security.newEmail': 'Nuevo correo electrónico',
+  'security.changeEmailSubmit': 'Enviar enlace de verificación',
+  'security.reauthEmail': 'Confirma tu identidad para cambiar tu correo electrónico.',
+  'security.emailLinkSent': 'Hemos enviado un enlace a {email}. Tu correo electrónico cambiará cuando lo abras.',
+  'security.emailFailed': 'No se ha podido cambiar el correo electrónico.',
+  'security.devices': 'Dispositivos con sesión iniciada',
+  'security.devicesIntro': '¿Has iniciado sesión en un dispositivo compartido o perdido? Cierra la sesión en todos los lugares donde se use tu cuenta, incluido este navegador.',
+  'security.signOutEverywhere': 'Cerrar sesión en todos los dispositivos',
+  'security.signOutEverywhereConfirm': '¿Cerrar sesión en todos los dispositivos? Tendrás que volver a iniciar sesión en todos, también en este.',
+  'security.signOutEverywhereFailed': 'No se ha podido cerrar la sesión en todos los dispositivos.',
+  'security.deleteAccount': 'Eliminar cuenta',
+  'security.deleteIntro': 'Elimina para siempre tu cuenta y todo lo que guarda, incluidos tu perfil, viajes, documentos de viaje, fotos y conversaciones con el asistente. No se puede deshacer.',
+  'security.deleteAccountSubmit': 'Eliminar cuenta',
+  'security.deleteConfirm': '¿Eliminar tu cuenta? Tu perfil, viajes, documentos de viaje, fotos e historial de conversaciones se borrarán para siempre.',
+  'security.reauthDelete': 'Confirma tu identidad para eliminar tu cuenta para siempre.',
+  'security.failed': 'No se ha podido actualizar tu cuenta.',
+
+  'address.search': 'Busca tu dirección',
+  'address.searchPlaceholder': 'Empieza a escribir tu calle o código postal',
+  'address.noResults': 'No hay direcciones que coincidan. Puedes introducirla abajo.',
+  'address.searchFailed': 'Ahora mismo no podemos buscar direcciones. Puedes introducirla abajo.',
+  'address.line1': 'Dirección, línea 1',
+  'address.line2': 'Dirección, línea 2 (opcional)',
+  'address.city': 'Ciudad o localidad',
+  'address.region': 'Estado, provincia o región',
+  'address.postalCode': 'Código postal',
+  'address.country': 'País',
+  'address.countryPlaceholder': 'Selecciona un país',
+};
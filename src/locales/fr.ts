@@ -0,0 +1,543 @@
+import type { Catalog } from './en';
+
+export const fr: Catalog = {
+  'locale.label': 'Langue',
+  'theme.label': 'Thème',
+  'theme.light': 'Clair',
+  'theme.dark': 'Sombre',
+  'theme.system': 'Comme l’appareil',
+
+  'nav.main': 'Principal',
+  'nav.breadcrumbs': 'Fil d’Ariane',
+  'nav.skipToContent': 'Aller au contenu',
+  'nav.dashboard': 'Tableau de bord',
+  'nav.trips': 'Voyages',
+  'nav.newTrip': 'Nouveau voyage',
+  'nav.editTrip': 'Modifier le voyage',
+  'nav.assistant': 'Assistant',
+  'nav.profile': 'Profil',
+  'nav.admin': 'Utilisateurs',
+  'nav.notFound': 'Page introuvable',
+  'nav.accountMenu': 'Menu du compte',
+  'nav.signOut': 'Se déconnecter',
+  'nav.signOutFailed': 'Échec de la déconnexion.',
+
+  'session.idleTitle': 'Êtes-vous toujours là ?',
+  'session.idleBody': 'Aucune activité depuis un moment. Pour votre sécurité, vous serez déconnecté dans {time}.',
+  'session.staySignedIn': 'Rester connecté',
+  'session.signOut': 'Se déconnecter maintenant',
+
+  'sync.offline': 'Hors ligne',
+  'sync.offlinePending': 'Hors ligne, modifications enregistrées sur cet appareil',
+  'sync.offlineHint': 'Vous êtes hors ligne. Vos modifications sont enregistrées sur cet appareil et seront synchronisées à la reconnexion.',
+  'sync.syncing': 'Synchronisation…',
+
+  'errorPage.title': 'Une erreur s’est produite',
+  'errorPage.body': 'Impossible d’afficher cette page. Réessayez, ou rechargez la page si l’application vient d’être mise à jour.',
+  'errorPage.retry': 'Réessayer',
+  'errorPage.reload': 'Recharger la page',
+
+  'notFound.title': 'Page introuvable',
+  'notFound.body': 'Nous n’avons pas trouvé la page demandée. Le lien est peut-être erroné, ou la page a été déplacée.',
+  'notFound.home': 'Aller au tableau de bord',
+
+  'forbidden.title': 'Accès refusé',
+  'forbidden.body': 'Votre compte n’a pas l’autorisation d’afficher cette page. S’il s’agit d’une erreur, contactez l’administrateur de votre agence.',
+  'forbidden.home': 'Retour au tableau de bord',
+
+  'dashboard.welcome': 'Bon retour, {name}',
+  'dashboard.welcomeNoName': 'Bon retour',
+  'dashboard.intro': 'Voici ce qui vous attend.',
+  'dashboard.loading': 'Chargement de votre tableau de bord...',
+  'dashboard.loadFailed': 'Impossible de charger vos voyages et documents.',
+  'dashboard.quickActions': 'Accès rapides',
+  'dashboard.planTrip': 'Planifier un voyage',
+  'dashboard.askAssistant': 'Demander à l’assistant',
+  'dashboard.editProfile': 'Mettre à jour votre profil',
+  'dashboard.upcomingTrips': 'Voyages à venir',
+  'dashboard.noUpcomingTrips': 'Aucun voyage à venir. Où aller ensuite ?',
+  'dashboard.allTrips': 'Voir tous les voyages',
+  'dashboard.documentsTitle': 'Documents de voyage',
+  'dashboard.documentsNeedAttention': 'Certains de vos documents de voyage ont expiré ou expirent trop tôt pour un prochain voyage.',
+  'dashboard.documentsOk': 'Vos documents de voyage sont valables pour vos prochains voyages.',
+  'dashboard.reviewDocuments': 'Vérifier les documents',
+
+  'trips.title': 'Mes voyages',
+  'trips.new': 'Nouveau voyage',
+  'trips.loading': 'Chargement des voyages...',
+  'trips.empty': 'Vous n’avez encore planifié aucun voyage.',
+  'trips.planFirst': 'Planifiez votre premier voyage',
+  'trips.travellers': 'Voyageurs : {count}',
+  'trips.daysPlanned': 'Jours planifiés : {count}',
+  'trips.edit': 'Modifier le voyage à {destination}',
+  'trips.delete': 'Supprimer le voyage à {destination}',
+  'trips.deleteConfirm': 'Supprimer votre voyage à {destination} ?',
+  'trips.loadFailed': 'Échec du chargement de vos voyages.',
+  'trips.deleteFailed': 'Échec de la suppression du voyage.',
+
+  'tripEditor.newTitle': 'Nouveau voyage',
+  'tripEditor.editTitle': 'Modifier le voyage',
+  'tripEditor.loading': 'Chargement du voyage...',
+  'tripEditor.destination': 'Destination',
+  'tripEditor.destinationPlaceholder': 'Lisbonne, Portugal',
+  'tripEditor.startDate': 'Date de début',
+  'tripEditor.endDate': 'Date de fin',
+  'tripEditor.travellers': 'Voyageurs',
+  'tripEditor.itinerary': 'Itinéraire',
+  'tripEditor.addDay': 'Ajouter un jour',
+  'tripEditor.noDays': 'Aucun jour planifié pour l’instant. Ajoutez un jour pour commencer votre itinéraire.',
+  'tripEditor.day': 'Jour {day}',
+  'tripEditor.removeDay': 'Supprimer le jour {day}',
+  'tripEditor.time': 'Heure',
+  'tripEditor.activity': 'Activité',
+  'tripEditor.location': 'Lieu',
+  'tripEditor.addActivity': 'Ajouter une activité',
+  'tripEditor.removeActivity': 'Supprimer l’activité',
+  'tripEditor.create': 'Créer le voyage',
+  'tripEditor.save': 'Enregistrer le voyage',
+  'tripEditor.notFound': 'Ce voyage est introuvable.',
+  'tripEditor.loadFailed': 'Échec du chargement du voyage.',
+  'tripEditor.saveFailed': 'Échec de l’enregistrement du voyage.',
+
+  'assistant.title': 'Assistant de voyage',
+  'assistant.clear': 'Effacer',
+  'assistant.clearConfirm': 'Effacer l’historique de la conversation ?',
+  'assistant.loading': 'Chargement de la conversation...',
+  'assistant.empty': 'Posez vos questions sur les destinations, le budget, les bagages ou tout autre sujet pour votre prochain voyage.',
+  'assistant.placeholder': 'Posez une question à l’assistant...',
+  'assistant.message': 'Message',
+  'assistant.send': 'Envoyer',
+  'assistant.stop': 'Arrêter',
+  'assistant.loadFailed': 'Échec du chargement de votre conversation.',
+  'assistant.replyFailed': 'L’assistant n’a pas pu répondre. Réessayez.',
+  'assistant.clearFailed': 'Échec de l’effacement de la conversation.',
+
+  'admin.title': 'Utilisateurs',
+  'admin.search': 'Rechercher des utilisateurs',
+  'admin.loading': 'Chargement des utilisateurs...',
+  'admin.empty': 'Aucun utilisateur trouvé.',
+  'admin.user': 'Utilisateur',
+  'admin.email': 'E-mail',
+  'admin.mobile': 'Mobile',
+  'admin.updated': 'Dernière mise à jour',
+  'admin.loadFailed': 'Échec du chargement des utilisateurs.',
+
+  'common.emailAddress': 'Adresse e-mail',
+  'common.password': 'Mot de passe',
+  'common.username': "Nom d'utilisateur",
+  'common.dateOfBirth': 'Date de naissance',
+  'common.mobileNumber': 'Numéro de portable',
+  'common.countryCode': 'Indicatif du pays',
+  'common.address': 'Adresse',
+  'common.close': 'Fermer',
+  'common.dismiss': 'Ignorer',
+  'common.notifications': 'Notifications',
+  'common.loading': 'Chargement…',
+  'common.cancel': 'Annuler',
+  'common.noDates': 'Dates non définies',
+
+  'validation.emailInvalid': 'Saisissez une adresse e-mail valide',
+  'validation.passwordTooShort': 'Le mot de passe doit contenir au moins 6 caractères',
+  'validation.passwordRequired': 'Saisissez votre mot de passe',
+  'validation.passwordsDontMatch': 'Les mots de passe ne correspondent pas',
+  'validation.codeInvalid': 'Saisissez le code à 6 chiffres',
+  'validation.usernameTooShort': "Le nom d'utilisateur doit contenir au moins 3 caractères",
+  'validation.dateOfBirthRequired': 'La date de naissance est obligatoire',
+  'validation.dateInvalid': 'Saisissez une date valide',
+  'validation.tooYoung': 'Vous devez avoir au moins {minimumAge} ans',
+  'validation.mobileNumberRequired': 'Saisissez votre numéro de portable',
+  'validation.mobileNumberInvalid': 'Saisissez un numéro de portable valide',
+  'validation.mobileNumberLength': "Ce numéro n'a pas le bon nombre de chiffres pour le pays sélectionné",
+  'validation.addressLine1Required': 'Saisissez la première ligne de votre adresse',
+  'validation.addressLineTooLong': "Les lignes d'adresse peuvent contenir jusqu'à 200 caractères",
+  'validation.cityRequired': 'Saisissez votre ville',
+  'validation.cityTooLong': "La ville peut contenir jusqu'à 100 caractères",
+  'validation.regionTooLong': "La région peut contenir jusqu'à 100 caractères",
+  'validation.postalCodeRequired': 'Saisissez votre code postal',
+  'validation.postalCodeInvalid': 'Ce code postal ne semble pas valide pour le pays sélectionné',
+  'validation.airportCodeInvalid': "Saisissez un code d'aéroport à trois lettres, comme CDG",
+  'validation.programmeTooShort': 'Le programme doit contenir au moins 2 caractères',
+  'validation.programmeTooLong': 'Le programme doit contenir au plus 100 caractères',
+  'validation.membershipNumberTooShort': "Le numéro d'adhérent doit contenir au moins 3 caractères",
+  'validation.membershipNumberTooLong': "Le numéro d'adhérent doit contenir au plus 30 caractères",
+  'validation.tooManyProgrammes': "Vous pouvez enregistrer jusqu'à {maxLoyaltyProgrammes} programmes",
+  'validation.amountRequired': 'Saisissez un montant',
+  'validation.budgetNegative': 'Le budget ne peut pas être négatif',
+  'validation.budgetMaxBelowMin': 'Le maximum doit être au moins égal au minimum',
+  'validation.currencyRequired': 'Sélectionnez une devise',
+  'validation.nameTooShort': 'Le nom doit contenir au moins 2 caractères',
+  'validation.nameTooLong': 'Le nom doit contenir au plus 100 caractères',
+  'validation.tooManyCompanions': "Vous pouvez enregistrer jusqu'à {maxCompanions} accompagnants",
+  'validation.documentNumberRequired': 'Le numéro du document est obligatoire',
+  'validation.holderNameTooLong': 'Le nom doit contenir au plus 200 caractères',
+  'validation.documentNumberTooLong': 'Le numéro du document doit contenir au plus 50 caractères',
+  'validation.providerTooLong': "Le nom de l'assureur doit contenir au plus 200 caractères",
+  'validation.countryRequired': 'Sélectionnez un pays',
+  'validation.passportNumberInvalid': 'Ce numéro ne ressemble pas à un numéro de passeport du pays sélectionné',
+  'validation.providerRequired': "L'assureur est obligatoire",
+  'validation.expiryDateRequired': "La date d'expiration est obligatoire",
+  'validation.expiryBeforeIssue': "La date d'expiration doit être postérieure à la date de délivrance",
+  'validation.titleRequired': 'Le titre est obligatoire',
+  'validation.dateRequired': 'La date est obligatoire',
+  'validation.destinationTooShort': 'La destination doit contenir au moins 2 caractères',
+  'validation.startDateRequired': 'La date de début est obligatoire',
+  'validation.endDateRequired': 'La date de fin est obligatoire',
+  'validation.travellersRequired': 'Le nombre de voyageurs est obligatoire',
+  'validation.travellersWholeNumber': 'Le nombre de voyageurs doit être un nombre entier',
+  'validation.travellersTooFew': 'Il faut au moins un voyageur',
+  'validation.travellersTooMany': 'Un voyage peut compter au plus 50 voyageurs',
+  'validation.endDateBeforeStart': 'La date de fin doit être identique ou postérieure à la date de début',
+  'validation.dateOutsideTrip': 'La date doit être comprise dans les dates du voyage',
+
+  'errors.emailInUse': 'Un compte existe déjà avec cette adresse e-mail.',
+  'errors.emailMissing': 'Saisissez votre adresse e-mail',
+  'errors.incorrectCredentials': 'Adresse e-mail ou mot de passe incorrect.',
+  'errors.weakPassword': 'Mot de passe trop faible. Utilisez au moins 6 caractères mêlant lettres et chiffres.',
+  'errors.tooManyRequests': 'Trop de tentatives infructueuses. Pour votre sécurité, ce compte est temporairement verrouillé. Réessayez dans quelques minutes ou réinitialisez votre mot de passe.',
+  'errors.userDisabled': "Ce compte a été désactivé. Contactez l'assistance.",
+  'errors.networkRequestFailed': 'Impossible de joindre le serveur. Vérifiez votre connexion et réessayez.',
+  'errors.popupClosed': 'La fenêtre de connexion a été fermée avant la fin.',
+  'errors.popupBlocked': 'Votre navigateur a bloqué la fenêtre de connexion. Autorisez les fenêtres pop-up pour ce site et réessayez.',
+  'errors.accountExistsWithDifferentCredential': 'Un compte existe déjà avec cette adresse e-mail, avec une autre méthode de connexion.',
+  'errors.credentialInUse': 'Ce compte est déjà associé à un autre utilisateur.',
+  'errors.providerAlreadyLinked': 'Ce compte est déjà associé.',
+  'errors.noSuchProvider': "Ce compte n'est pas associé.",
+  'errors.operationNotAllowed': "Cette méthode de connexion n'est pas disponible pour le moment.",
+  'errors.requiresRecentLogin': 'Pour votre sécurité, reconnectez-vous pour continuer.',
+  'errors.unverifiedEmail': 'Vérifiez votre adresse e-mail avant de continuer.',
+  'errors.invalidVerificationCode': 'Ce code est incorrect ou a expiré.',
+  'errors.codeExpired': 'Ce code a expiré. Demandez-en un nouveau.',
+  'errors.expiredActionCode': 'Ce lien a expiré. Demandez-en un nouveau.',
+  'errors.invalidActionCode': 'Ce lien a expiré ou a déjà été utilisé.',
+  'errors.permissionDenied': "Vous n'avez pas l'autorisation de faire cela.",
+  'errors.unavailable': 'Vous semblez hors ligne. Vérifiez votre connexion et réessayez.',
+  'errors.notFound': 'Nous ne trouvons pas ce que vous cherchez.',
+  'errors.deadlineExceeded': 'La requête a pris trop de temps. Réessayez.',
+  'errors.resourceExhausted': 'Trop de requêtes. Patientez un instant et réessayez.',
+  'errors.uploadUnauthorized': "Vous n'avez pas l'autorisation d'envoyer ce fichier.",
+  'errors.uploadCanceled': "L'envoi a été annulé.",
+  'errors.quotaExceeded': "L'espace de stockage est plein. Réessayez plus tard.",
+  'errors.retryLimitExceeded': "L'envoi a pris trop de temps. Vérifiez votre connexion et réessayez.",
+  'errors.fileNotFound': 'Nous ne trouvons pas ce fichier.',
+
+  'login.title': 'Connectez-vous à votre compte',
+  'login.methods': 'Méthode de connexion',
+  'login.methodPassword': 'Mot de passe',
+  'login.methodLink': 'Lien par e-mail',
+  'login.failed': 'Échec de la connexion.',
+  'login.failedCheckCredentials': 'Échec de la connexion. Vérifiez vos identifiants.',
+  'login.failedWithProvider': 'Échec de la connexion avec {provider}.',
+  'login.pendingLink': 'Vous avez déjà un compte avec {email}. Connectez-vous avec {methods} pour y associer votre compte {provider}.',
+  'login.pendingLinkUnknownMethod': 'Vous avez déjà un compte avec {email}. Connectez-vous comme la dernière fois pour y associer votre compte {provider}.',
+  'login.pendingLinkPassword': 'votre adresse e-mail et votre mot de passe',
+  'login.pendingLinkCancel': 'Ne pas associer',
+  'login.forgotPassword': 'Mot de passe oublié ?',
+  'login.signUp': 'Pas encore de compte ? Inscrivez-vous',
+  'login.submit': 'Se connecter',
+  'login.withProvider': 'Se connecter avec {provider}',
+  'login.rememberMe': 'Rester connecté',
+  'login.rememberMeHint': 'Laissez cette case décochée sur un ordinateur partagé ou public. Vous serez déconnecté à la fermeture du navigateur.',
+  'login.signedOutIdle': 'Vous avez été déconnecté après une période d’inactivité.',
+  'login.signedOutRevoked': 'Vous avez été déconnecté de tous vos appareils. Reconnectez-vous pour continuer.',
+
+  'signUp.title': 'Créez votre compte',
+  'signUp.failed': 'Impossible de créer le compte.',
+  'signUp.confirmPassword': 'Confirmer le mot de passe',
+  'signUp.signIn': 'Déjà un compte ? Connectez-vous',
+  'signUp.submit': "S'inscrire",
+
+  'forgotPassword.title': 'Réinitialisez votre mot de passe',
+  'forgotPassword.intro': 'Saisissez votre adresse e-mail et nous vous enverrons les instructions pour réinitialiser votre mot de passe.',
+  'forgotPassword.sent': 'Consultez votre boîte de réception pour les instructions de réinitialisation.',
+  'forgotPassword.failed': 'Impossible de réinitialiser le mot de passe. Vérifiez votre adresse e-mail.',
+  'forgotPassword.backToSignIn': 'Retour à la connexion',
+  'forgotPassword.useEmailLink': 'Se connecter plutôt avec un lien par e-mail',
+  'forgotPassword.submit': 'Réinitialiser le mot de passe',
+
+  'emailLink.intro': 'Pas besoin de mot de passe. Nous vous enverrons par e-mail un lien pour vous connecter.',
+  'emailLink.submit': 'M’envoyer un lien de connexion',
+  'emailLink.sent': 'Nous avons envoyé un lien de connexion à {email}. Ouvrez-le sur cet appareil pour vous connecter.',
+  'emailLink.sendFailed': 'Échec de l’envoi du lien de connexion. Réessayez.',
+  'emailLink.signingIn': 'Connexion en cours',
+  'emailLink.confirmTitle': 'Confirmez votre adresse e-mail',
+  'emailLink.confirmIntro': 'Saisissez l’adresse e-mail à laquelle le lien de connexion a été envoyé.',
+  'emailLink.signIn': 'Se connecter',
+  'emailLink.backToSignIn': 'Retour à la connexion',
+  'emailLink.invalid': 'Ce lien de connexion est invalide ou incomplet.',
+  'emailLink.expired': 'Ce lien de connexion a expiré ou a déjà été utilisé.',
+
+  'mfa.title': 'Validation en deux étapes',
+  'mfa.intro': 'Protégez vos données de passeport et de paiement avec un code reçu sur votre téléphone à chaque connexion.',
+  'mfa.challengeSms': 'Nous allons envoyer un code par SMS au {phoneNumber}.',
+  'mfa.challengeTotp': 'Saisissez le code affiché par votre application d’authentification.',
+  'mfa.method': 'Méthode de validation',
+  'mfa.authenticatorApp': 'Application d’authentification',
+  'mfa.textMessage': 'SMS',
+  'mfa.sendCode': 'Envoyer le code',
+  'mfa.sendCodeFailed': 'Échec de l’envoi du code de validation. Réessayez.',
+  'mfa.code': 'Code de validation',
+  'mfa.codeSent': 'Saisissez le code envoyé par SMS au {phoneNumber}.',
+  'mfa.verify': 'Valider',
+  'mfa.backToSignIn': 'Retour à la connexion',
+  'mfa.totpInstructions': 'Ajoutez cette clé à votre application d’authentification, puis saisissez le code affiché.',
+  'mfa.openAuthenticator': 'Ouvrir dans l’application d’authentification',
+  'mfa.turnOn': 'Activer',
+  'mfa.useSms': 'Utiliser les SMS',
+  'mfa.useTotp': 'Utiliser une application d’authentification',
+  'mfa.noPhoneNumber': 'Pour recevoir des codes par SMS, enregistrez votre numéro de mobile dans l’onglet Informations.',
+  'mfa.enabled': 'La validation en deux étapes est activée.',
+  'mfa.remove': 'Supprimer {method}',
+  'mfa.removeConfirm': 'Supprimer {method} de votre compte ?',
+  'mfa.removeConfirmUnnamed': 'Supprimer cette méthode de votre compte ?',
+  'mfa.removed': 'Méthode de validation supprimée.',
+  'mfa.updateFailed': 'Échec de la mise à jour de la validation en deux étapes.',
+
+  'reauth.title': 'Confirmez votre identité',
+  'reauth.currentPassword': 'Mot de passe actuel',
+  'reauth.confirm': 'Confirmer',
+  'reauth.continueWith': 'Continuer avec {provider}',
+  'reauth.continueWithProvider': 'Continuer avec votre fournisseur',
+  'reauth.failed': 'Échec de la confirmation de votre identité.',
+
+  'authAction.title': 'Action sur le compte',
+  'authAction.resetPasswordTitle': 'Choisissez un nouveau mot de passe',
+  'authAction.newPassword': 'Nouveau mot de passe',
+  'authAction.confirmPassword': 'Confirmer le mot de passe',
+  'authAction.submit': 'Changer le mot de passe',
+  'authAction.continueToProfile': 'Continuer vers votre profil',
+  'authAction.backToSignIn': 'Retour à la connexion',
+  'authAction.invalidLink': 'Ce lien est invalide ou incomplet.',
+  'authAction.unsupportedLink': 'Ce lien n’est pas pris en charge.',
+  'authAction.emailVerified': 'Votre adresse e-mail a été vérifiée.',
+  'authAction.newEmailVerified': 'Votre nouvelle adresse e-mail a été vérifiée.',
+  'authAction.emailRecovered': 'Votre ancienne adresse e-mail a été rétablie.',
+  'authAction.passwordReset': 'Votre mot de passe a été changé. Vous pouvez maintenant vous connecter avec le nouveau.',
+
+  'verifyEmail.title': 'Vérifiez votre adresse e-mail',
+  'verifyEmail.intro': 'Nous avons envoyé un lien de vérification à {email}. Cliquez dessus pour activer votre compte. Cette page se mettra à jour automatiquement.',
+  'verifyEmail.check': 'J’ai vérifié mon adresse e-mail',
+  'verifyEmail.resend': 'Renvoyer l’e-mail de vérification',
+  'verifyEmail.resendIn': 'Renvoyer l’e-mail dans {seconds} s',
+  'verifyEmail.differentAccount': 'Utiliser un autre compte',
+  'verifyEmail.sent': 'E-mail de vérification envoyé. Consultez votre boîte de réception.',
+  'verifyEmail.sendFailed': 'Échec de l’envoi de l’e-mail de vérification. Réessayez plus tard.',
+  'verifyEmail.notVerified': 'Votre adresse e-mail n’a pas encore été vérifiée.',
+  'verifyEmail.checkFailed': 'Échec de la vérification du statut.',
+  'verifyEmail.signOutFailed': 'Échec de la déconnexion.',
+
+  'onboarding.step': 'Étape {step} sur {steps}',
+  'onboarding.progress': 'Progression de l’inscription',
+  'onboarding.aboutYou': 'À propos de vous',
+  'onboarding.aboutYouIntro': 'Dites-nous qui voyage.',
+  'onboarding.contact': 'Comment vous joindre',
+  'onboarding.contactIntro': 'Nous les utilisons pour les réservations et les alertes de voyage.',
+  'onboarding.back': 'Retour',
+  'onboarding.next': 'Suivant',
+  'onboarding.finish': 'Terminer',
+  'onboarding.saveFailed': 'Échec de l’enregistrement de votre profil.',
+
+  'profile.title': 'Paramètres du profil',
+  'profile.loading': 'Chargement du profil...',
+  'profile.sections': 'Sections du profil',
+  'profile.tabDetails': 'Informations',
+  'profile.tabPreferences': 'Préférences',
+  'profile.tabCompanions': 'Accompagnants',
+  'profile.tabDocuments': 'Documents',
+  'profile.tabSecurity': 'Sécurité',
+  'profile.pictureNotImage': 'Sélectionnez un fichier image (PNG, JPG, etc.)',
+  'profile.pictureTooLarge': "L'image doit faire moins de {size} Mo",
+  'profile.pictureSaved': 'Votre photo de profil a été mise à jour.',
+  'profile.pictureSaveFailed': 'Échec de l’enregistrement de votre photo de profil.',
+  'profile.picture': 'Photo de profil',
+  'profile.pictureAlt': 'Profil',
+  'profile.pictureHint': 'Cliquez pour envoyer une photo de profil (JPG, PNG, WebP)',
+  'profile.pictureMaxSize': 'Taille maximale : {size} Mo',
+  'profile.email': 'E-mail',
+  'profile.emailHint': "Vous pouvez modifier votre adresse e-mail dans l'onglet Sécurité",
+  'profile.saved': 'Profil mis à jour !',
+  'profile.saveFailed': 'Impossible de mettre à jour le profil.',
+  'profile.savedLocally': 'Profil enregistré sur cet appareil. Il sera synchronisé dès votre retour en ligne.',
+  'profile.syncFailed': 'Impossible de synchroniser les modifications de votre profil.',
+  'profile.save': 'Enregistrer',
+
+  'preferences.homeAirport': 'Aéroport de départ',
+  'preferences.seat': 'Siège',
+  'preferences.seatAny': 'Aucune préférence',
+  'preferences.seatWindow': 'Hublot',
+  'preferences.seatAisle': 'Couloir',
+  'preferences.meal': 'Repas',
+  'preferences.mealAny': 'Aucune préférence',
+  'preferences.mealVegetarian': 'Végétarien',
+  'preferences.mealVegan': 'Végan',
+  'preferences.mealHalal': 'Halal',
+  'preferences.mealKosher': 'Casher',
+  'preferences.mealGlutenFree': 'Sans gluten',
+  'preferences.budget': 'Budget quotidien par personne',
+  'preferences.minimum': 'Minimum',
+  'preferences.minimumBudget': 'Budget minimum',
+  'preferences.maximum': 'Maximum',
+  'preferences.maximumBudget': 'Budget maximum',
+  'preferences.currency': 'Devise',
+  'preferences.interests': 'Centres d’intérêt',
+  'preferences.interestBeaches': 'Plages',
+  'preferences.interestCulture': 'Art et culture',
+  'preferences.interestFood': 'Gastronomie',
+  'preferences.interestHistory': 'Histoire',
+  'preferences.interestNature': 'Nature',
+  'preferences.interestAdventure': 'Aventure',
+  'preferences.interestNightlife': 'Vie nocturne',
+  'preferences.interestShopping': 'Shopping',
+  'preferences.interestWellness': 'Bien-être',
+  'preferences.interestFamily': 'Adapté aux familles',
+  'preferences.loyaltyProgrammes': 'Programmes de fidélité',
+  'preferences.programmePlaceholder': 'Programme de compagnie aérienne ou d’hôtel',
+  'preferences.programme': 'Programme',
+  'preferences.membershipNumber': 'Numéro de membre',
+  'preferences.removeProgramme': 'Supprimer le programme',
+  'preferences.addProgramme': 'Ajouter un programme',
+  'preferences.save': 'Enregistrer les préférences',
+  'preferences.saved': 'Vos préférences de voyage ont été enregistrées.',
+  'preferences.savedLocally': 'Vos préférences de voyage ont été enregistrées sur cet appareil et seront synchronisées dès que vous serez de nouveau en ligne.',
+  'preferences.saveFailed': 'Échec de l’enregistrement de vos préférences.',
+
+  'companions.intro': 'Enregistrez les personnes avec qui vous voyagez habituellement pour ne pas ressaisir leurs informations à chaque voyage. Leurs passeports et visas peuvent être ajoutés dans Documents.',
+  'companions.empty': 'Vous n’avez encore enregistré aucun compagnon de voyage.',
+  'companions.fullName': 'Nom complet',
+  'companions.name': 'Nom du compagnon',
+  'companions.relationship': 'Lien',
+  'companions.partner': 'Partenaire',
+  'companions.child': 'Enfant',
+  'companions.parent': 'Parent',
+  'companions.friend': 'Ami',
+  'companions.colleague': 'Collègue',
+  'companions.other': 'Autre',
+  'companions.dob': 'Date de naissance du compagnon',
+  'companions.remove': 'Supprimer le compagnon',
+  'companions.add': 'Ajouter un compagnon',
+  'companions.save': 'Enregistrer les compagnons',
+  'companions.saved': 'Vos compagnons de voyage ont été enregistrés.',
+  'companions.savedLocally': 'Vos compagnons de voyage ont été enregistrés sur cet appareil et seront synchronisés dès que vous serez de nouveau en ligne.',
+  'companions.saveFailed': 'Échec de l’enregistrement de vos compagnons.',
+
+  'documents.title': 'Documents de voyage',
+  'documents.add': 'Ajouter un document',
+  'documents.intro': 'Conservez ici votre passeport, vos visas et votre assurance voyage pour que nos agents les aient lors de la réservation.',
+  'documents.loading': 'Chargement des documents...',
+  'documents.empty': 'Vous n’avez encore ajouté aucun document de voyage.',
+  'documents.passport': 'Passeport',
+  'documents.visa': 'Visa',
+  'documents.insurance': 'Assurance voyage',
+  'documents.for': 'Pour {name}',
+  'documents.expires': 'Expire le {date}',
+  'documents.expired': 'Expiré',
+  'documents.expiresSoon': 'Expire bientôt',
+  'documents.expiresDuringTrip': 'Votre {document} expire le {date}, avant la fin de votre voyage à {destination}.',
+  'documents.expiresAfterTrip': 'Votre {document} expire le {date}, moins de six mois après votre voyage à {destination}.',
+  'documents.viewScan': 'Voir le scan : {document}',
+  'documents.edit': 'Modifier : {document}',
+  'documents.delete': 'Supprimer : {document}',
+  'documents.deleteConfirm': 'Supprimer ce document ({document}) ?',
+  'documents.loadFailed': 'Échec du chargement de vos documents de voyage.',
+  'documents.deleteFailed': 'Échec de la suppression du document.',
+  'documents.openScanFailed': 'Impossible d’ouvrir le scan.',
+
+  'documentDialog.addTitle': 'Ajouter un document de voyage',
+  'documentDialog.editTitle': 'Modifier : {document}',
+  'documentDialog.description': 'Nos agents utilisent ces informations lors de la réservation : saisissez-les exactement comme imprimées.',
+  'documentDialog.type': 'Type de document',
+  'documentDialog.belongsTo': 'Appartient à',
+  'documentDialog.you': 'Vous',
+  'documentDialog.provider': 'Assureur',
+  'documentDialog.issuingCountry': 'Pays de délivrance',
+  'documentDialog.validFor': 'Valable pour',
+  'documentDialog.selectCountry': 'Sélectionnez un pays',
+  'documentDialog.number': 'Numéro ({document})',
+  'documentDialog.policyNumber': 'Numéro de police',
+  'documentDialog.nameAsPrinted': 'Nom tel qu’imprimé',
+  'documentDialog.policyHolder': 'Titulaire de la police',
+  'documentDialog.issueDate': 'Date de délivrance',
+  'documentDialog.coverStarts': 'Début de la couverture',
+  'documentDialog.expiryDate': 'Date d’expiration',
+  'documentDialog.coverEnds': 'Fin de la couverture',
+  'documentDialog.scan': 'Scan',
+  'documentDialog.scanAttached': 'Un scan est joint',
+  'documentDialog.noScan': 'Aucun scan joint',
+  'documentDialog.scanHint': 'Photo ou PDF, taille maximale : {size} Mo',
+  'documentDialog.progress': 'Progression de l’envoi',
+  'documentDialog.uploading': 'Envoi… {progress}',
+  'documentDialog.cancelUpload': 'Annuler l’envoi',
+  'documentDialog.save': 'Enregistrer le document',
+  'documentDialog.scanNotSupported': 'Veuillez sélectionner une photo ou un PDF du document',
+  'documentDialog.scanTooLarge': 'Les scans doivent faire moins de {size} Mo',
+  'documentDialog.saveFailed': 'Échec de l’enregistrement du document.',
+
+  'avatar.title': 'Ajustez votre photo de profil',
+  'avatar.description': 'Faites glisser pour repositionner et utilisez le curseur pour zoomer.',
+  'avatar.preview': 'Aperçu de la photo de profil',
+  'avatar.zoom': 'Zoom',
+  'avatar.progress': 'Progression de l’envoi',
+  'avatar.uploading': 'Envoi en cours… {progress}',
+  'avatar.cancelUpload': 'Annuler l’envoi',
+  'avatar.save': 'Enregistrer la photo',
+  'avatar.unreadable': 'Le fichier sélectionné ne peut pas être lu comme une image.',
+  'avatar.uploadFailed': 'Échec de l’envoi de l’image.',
+
+  'phone.verified': 'Vérifié',
+  'phone.unverified': 'Vérifiez ce numéro par SMS pour recevoir les alertes de voyage et les codes de connexion.',
+  'phone.verify': 'Vérifier le numéro',
+  'phone.codeSent': 'Saisissez le code envoyé par SMS au {phoneNumber}.',
+  'phone.code': 'Code de vérification',
+  'phone.confirm': 'Confirmer',
+  'phone.cancel': 'Annuler',
+  'phone.verifiedMessage': 'Votre numéro de portable a été vérifié.',
+  'phone.verifyFailed': 'La vérification de votre numéro de portable a échoué.',
+  'phone.noNumber': "Enregistrez votre numéro de portable dans l'onglet Informations pour le vérifier.",
+
+  'connectedAccounts.title': 'Comptes associés',
+  'connectedAccounts.intro': 'Associez d’autres comptes pour pouvoir vous connecter avec n’importe lequel.',
+  'connectedAccounts.status': 'Associé',
+  'connectedAccounts.connect': 'Associer',
+  'connectedAccounts.disconnect': 'Dissocier',
+  'connectedAccounts.lastMethod': 'Vous ne pouvez pas dissocier votre seule méthode de connexion',
+  'connectedAccounts.connected': 'Compte {provider} associé.',
+  'connectedAccounts.disconnected': 'Compte {provider} dissocié.',
+  'connectedAccounts.failed': 'Échec de la mise à jour de votre association avec {provider}.',
+
+  'security.title': 'Sécurité',
+  'security.changePassword': 'Changer de mot de passe',
+  'security.newPassword': 'Nouveau mot de passe',
+  'security.confirmNewPassword': 'Confirmer le nouveau mot de passe',
+  'security.changePasswordSubmit': 'Changer le mot de passe',
+  'security.reauthPassword': 'Saisissez votre mot de passe actuel pour le changer.',
+  'security.passwordChanged': 'Votre mot de passe a été changé.',
+  'security.passwordFailed': 'Échec du changement de mot de passe.',
+  'security.changeEmail': 'Changer d’adresse e-mail',
+  'security.newEmail': 'Nouvelle adresse e-mail',
+  'security.changeEmailSubmit': 'Envoyer le lien de vérification',
+  'security.reauthEmail': 'Confirmez votre identité pour changer d’adresse e-mail.',
+  'security.emailLinkSent': 'Nous avons envoyé un lien à {email}. Votre adresse e-mail changera dès que vous l’aurez ouvert.',
+  'security.emailFailed': 'Échec du changement d’adresse e-mail.',
+  'security.devices': 'Appareils connectés',
+  'security.devicesIntro': 'Connecté sur un appareil partagé ou perdu ? Déconnectez-vous partout où votre compte est utilisé, y compris dans ce navigateur.',
+  'security.signOutEverywhere': 'Se déconnecter de tous les appareils',
+  'security.signOutEverywhereConfirm': 'Se déconnecter de tous les appareils ? Vous devrez vous reconnecter partout, y compris ici.',
+  'security.signOutEverywhereFailed': 'Échec de la déconnexion de tous les appareils.',
+  'security.deleteAccount': 'Supprimer le compte',
+  'security.deleteIntro': 'Supprimez définitivement votre compte et tout ce qui y est enregistré, y compris votre profil, vos voyages, vos documents de voyage, vos photos et vos conversations avec l’assistant. Cette action est irréversible.',
+  'security.deleteAccountSubmit': 'Supprimer le compte',
+  'security.deleteConfirm': 'Supprimer votre compte ? Votre profil, vos voyages, vos documents de voyage, vos photos et l’historique de vos conversations seront définitivement supprimés.',
+  'security.reauthDelete': 'Confirmez votre identité pour supprimer définitivement votre compte.',
+  'security.failed': 'Échec de la mise à jour de votre compte.',
+
+  'address.search': 'Trouver votre adresse',
+  'address.searchPlaceholder': 'Commencez à saisir votre rue ou votre code postal',
+  'address.noResults': 'Aucune adresse correspondante. Vous pouvez la saisir ci-dessous.',
+  'address.searchFailed': 'Impossible de rechercher des adresses pour le moment. Vous pouvez la saisir ci-dessous.',
+  'address.line1': 'Adresse, ligne 1',
+  'address.line2': 'Adresse, ligne 2 (facultatif)',
+  'address.city': 'Ville',
+  'address.region': 'État, province ou région',
+  'address.postalCode': 'Code postal',
+  'address.country': 'Pays',
+  'address.countryPlaceholder': 'Sélectionnez un pays',
+};
@@ -0,0 +1,543 @@
+import type { Catalog } from './en';
+
+export const he: Catalog = {
+  'locale.label': 'שפה',
+  'theme.label': 'ערכת נושא',
+  'theme.light': 'בהירה',
+  'theme.dark': 'כהה',
+  'theme.system': 'לפי המכשיר',
+
+  'nav.main': 'ראשי',
+  'nav.breadcrumbs': 'נתיב ניווט',
+  'nav.skipToContent': 'דילוג לתוכן',
+  'nav.dashboard': 'לוח בקרה',
+  'nav.trips': 'טיולים',
+  'nav.newTrip': 'טיול חדש',
+  'nav.editTrip': 'עריכת טיול',
+  'nav.assistant': 'עוזר',
+  'nav.profile': 'פרופיל',
+  'nav.admin': 'משתמשים',
+  'nav.notFound': 'הדף לא נמצא',
+  'nav.accountMenu': 'תפריט החשבון',
+  'nav.signOut': 'התנתקות',
+  'nav.signOutFailed': 'ההתנתקות נכשלה.',
+
+  'session.idleTitle': 'עדיין כאן?',
+  'session.idleBody': 'לא הייתה פעילות כבר זמן מה. לשמירה על אבטחתך, החיבור יסתיים בעוד {time}.',
+  'session.staySignedIn': 'להישאר מחובר',
+  'session.signOut': 'להתנתק עכשיו',
+
+  'sync.offline': 'לא מקוון',
+  'sync.offlinePending': 'לא מקוון, השינויים נשמרו במכשיר הזה',
+  'sync.offlineHint': 'אין חיבור לאינטרנט. השינויים נשמרים במכשיר הזה ויסונכרנו כשהחיבור יחזור.',
+  'sync.syncing': 'מסנכרן שינויים…',
+
+  'errorPage.title': 'משהו השתבש',
+  'errorPage.body': 'לא ניתן היה להציג את הדף. נסו שוב, או טענו את הדף מחדש אם האפליקציה עודכנה זה עתה.',
+  'errorPage.retry': 'ניסיון נוסף',
+  'errorPage.reload': 'טעינת הדף מחדש',
+
+  'notFound.title': 'הדף לא נמצא',
+  'notFound.body': 'לא מצאנו את הדף שחיפשתם. ייתכן שהקישור שגוי או שהדף הועבר.',
+  'notFound.home': 'מעבר ללוח הבקרה',
+
+  'forbidden.title': 'הגישה נדחתה',
+  'forbidden.body': 'לחשבון שלך אין הרשאה לצפות בדף הזה. אם נראה לך שזו טעות, כדאי לפנות למנהל הסוכנות.',
+  'forbidden.home': 'חזרה ללוח הבקרה',
+
+  'dashboard.welcome': 'ברוכים השבים, {name}',
+  'dashboard.welcomeNoName': 'ברוכים השבים',
+  'dashboard.intro': 'זה מה שמחכה לכם.',
+  'dashboard.loading': 'טוען את לוח הבקרה...',
+  'dashboard.loadFailed': 'לא ניתן היה לטעון את הטיולים והמסמכים.',
+  'dashboard.quickActions': 'פעולות מהירות',
+  'dashboard.planTrip': 'תכנון טיול',
+  'dashboard.askAssistant': 'שאלו את העוזר',
+  'dashboard.editProfile': 'עדכון הפרופיל',
+  'dashboard.upcomingTrips': 'טיולים קרובים',
+  'dashboard.noUpcomingTrips': 'אין טיולים קרובים. לאן עכשיו?',
+  'dashboard.allTrips': 'כל הטיולים',
+  'dashboard.documentsTitle': 'מסמכי נסיעה',
+  'dashboard.documentsNeedAttention': 'חלק ממסמכי הנסיעה שלכם פגי תוקף, או שתוקפם מסתיים מוקדם מדי לטיול קרוב.',
+  'dashboard.documentsOk': 'מסמכי הנסיעה שלכם בתוקף לטיולים הקרובים.',
+  'dashboard.reviewDocuments': 'בדיקת המסמכים',
+
+  'trips.title': 'הטיולים שלי',
+  'trips.new': 'טיול חדש',
+  'trips.loading': 'טוען טיולים...',
+  'trips.empty': 'עדיין לא תכננת אף טיול.',
+  'trips.planFirst': 'תכנון הטיול הראשון',
+  'trips.travellers': 'נוסעים: {count}',
+  'trips.daysPlanned': 'ימים מתוכננים: {count}',
+  'trips.edit': 'עריכת הטיול אל {destination}',
+  'trips.delete': 'מחיקת הטיול אל {destination}',
+  'trips.deleteConfirm': 'למחוק את הטיול אל {destination}?',
+  'trips.loadFailed': 'טעינת הטיולים נכשלה.',
+  'trips.deleteFailed': 'מחיקת הטיול נכשלה.',
+
+  'tripEditor.newTitle': 'טיול חדש',
+  'tripEditor.editTitle': 'עריכת טיול',
+  'tripEditor.loading': 'טוען טיול...',
+  'tripEditor.destination': 'יעד',
+  'tripEditor.destinationPlaceholder': 'ליסבון, פורטוגל',
+  'tripEditor.startDate': 'תאריך התחלה',
+  'tripEditor.endDate': 'תאריך סיום',
+  'tripEditor.travellers': 'נוסעים',
+  'tripEditor.itinerary': 'מסלול',
+  'tripEditor.addDay': 'הוספת יום',
+  'tripEditor.noDays': 'עדיין אין ימים מתוכננים. אפשר להוסיף יום כדי להתחיל לבנות את המסלול.',
+  'tripEditor.day': 'יום {day}',
+  'tripEditor.removeDay': 'הסרת יום {day}',
+  'tripEditor.time': 'שעה',
+  'tripEditor.activity': 'פעילות',
+  'tripEditor.location': 'מיקום',
+  'tripEditor.addActivity': 'הוספת פעילות',
+  'tripEditor.removeActivity': 'הסרת הפעילות',
+  'tripEditor.create': 'יצירת הטיול',
+  'tripEditor.save': 'שמירת הטיול',
+  'tripEditor.notFound': 'הטיול הזה לא נמצא.',
+  'tripEditor.loadFailed': 'טעינת הטיול נכשלה.',
+  'tripEditor.saveFailed': 'שמירת הטיול נכשלה.',
+
+  'assistant.title': 'עוזר הנסיעות',
+  'assistant.clear': 'ניקוי',
+  'assistant.clearConfirm': 'לנקות את היסטוריית השיחה?',
+  'assistant.loading': 'טוען שיחה...',
+  'assistant.empty': 'אפשר לשאול על יעדים, תקציבים, אריזה או כל דבר אחר לקראת הטיול הבא.',
+  'assistant.placeholder': 'שאלה לעוזר...',
+  'assistant.message': 'הודעה',
+  'assistant.send': 'שליחה',
+  'assistant.stop': 'עצירה',
+  'assistant.loadFailed': 'טעינת השיחה נכשלה.',
+  'assistant.replyFailed': 'העוזר לא הצליח להשיב. יש לנסות שוב.',
+  'assistant.clearFailed': 'ניקוי השיחה נכשל.',
+
+  'admin.title': 'משתמשים',
+  'admin.search': 'חיפוש משתמשים',
+  'admin.loading': 'טוען משתמשים...',
+  'admin.empty': 'לא נמצאו משתמשים.',
+  'admin.user': 'משתמש',
+  'admin.email': 'אימייל',
+  'admin.mobile': 'נייד',
+  'admin.updated': 'עדכון אחרון',
+  'admin.loadFailed': 'טעינת המשתמשים נכשלה.',
+
+  'common.emailAddress': 'כתובת אימייל',
+  'common.password': 'סיסמה',
+  'common.username': 'שם משתמש',
+  'common.dateOfBirth': 'תאריך לידה',
+  'common.mobileNumber': 'מספר נייד',
+  'common.countryCode': 'קידומת מדינה',
+  'common.address': 'כתובת',
+  'common.close': 'סגירה',
+  'common.dismiss': 'ביטול',
+  'common.notifications': 'התראות',
+  'common.loading': 'טוען…',
+  'common.cancel': 'ביטול',
+  'common.noDates': 'לא נקבעו תאריכים',
+
+  'validation.emailInvalid': 'יש להזין כתובת אימייל תקינה',
+  'validation.passwordTooShort': 'הסיסמה חייבת להכיל לפחות 6 תווים',
+  'validation.passwordRequired': 'יש להזין את הסיסמה',
+  'validation.passwordsDontMatch': 'הסיסמאות אינן תואמות',
+  'validation.codeInvalid': 'יש להזין את הקוד בן 6 הספרות',
+  'validation.usernameTooShort': 'שם המשתמש חייב להכיל לפחות 3 תווים',
+  'validation.dateOfBirthRequired': 'יש להזין תאריך לידה',
+  'validation.dateInvalid': 'יש להזין תאריך תקין',
+  'validation.tooYoung': 'עליך להיות בן או בת {minimumAge} לפחות',
+  'validation.mobileNumberRequired': 'יש להזין מספר נייד',
+  'validation.mobileNumberInvalid': 'יש להזין מספר נייד תקין',
+  'validation.mobileNumberLength': 'מספר הספרות אינו תקין עבור המדינה שנבחרה',
+  'validation.addressLine1Required': 'יש להזין את השורה הראשונה של הכתובת',
+  'validation.addressLineTooLong': 'שורת כתובת יכולה להכיל עד 200 תווים',
+  'validation.cityRequired': 'יש להזין עיר או יישוב',
+  'validation.cityTooLong': 'שם העיר יכול להכיל עד 100 תווים',
+  'validation.regionTooLong': 'שם האזור יכול להכיל עד 100 תווים',
+  'validation.postalCodeRequired': 'יש להזין מיקוד',
+  'validation.postalCodeInvalid': 'המיקוד לא נראה תקין עבור המדינה שנבחרה',
+  'validation.airportCodeInvalid': 'יש להזין קוד שדה תעופה בן שלוש אותיות, למשל TLV',
+  'validation.programmeTooShort': 'שם התוכנית חייב להכיל לפחות 2 תווים',
+  'validation.programmeTooLong': 'שם התוכנית יכול להכיל עד 100 תווים',
+  'validation.membershipNumberTooShort': 'מספר החבר חייב להכיל לפחות 3 תווים',
+  'validation.membershipNumberTooLong': 'מספר החבר יכול להכיל עד 30 תווים',
+  'validation.tooManyProgrammes': 'אפשר לשמור עד {maxLoyaltyProgrammes} תוכניות',
+  'validation.amountRequired': 'יש להזין סכום',
+  'validation.budgetNegative': 'התקציב לא יכול להיות שלילי',
+  'validation.budgetMaxBelowMin': 'המקסימום חייב להיות לפחות המינימום',
+  'validation.currencyRequired': 'יש לבחור מטבע',
+  'validation.nameTooShort': 'השם חייב להכיל לפחות 2 תווים',
+  'validation.nameTooLong': 'השם יכול להכיל עד 100 תווים',
+  'validation.tooManyCompanions': 'אפשר לשמור עד {maxCompanions} מלווים',
+  'validation.documentNumberRequired': 'יש להזין מספר מסמך',
+  'validation.holderNameTooLong': 'השם יכול להכיל עד 200 תווים',
+  'validation.documentNumberTooLong': 'מספר המסמך יכול להכיל עד 50 תווים',
+  'validation.providerTooLong': 'שם חברת הביטוח יכול להכיל עד 200 תווים',
+  'validation.countryRequired': 'יש לבחור מדינה',
+  'validation.passportNumberInvalid': 'זה לא נראה כמו מספר דרכון מהמדינה שנבחרה',
+  'validation.providerRequired': 'יש להזין חברת ביטוח',
+  'validation.expiryDateRequired': 'יש להזין תאריך תפוגה',
+  'validation.expiryBeforeIssue': 'תאריך התפוגה חייב להיות אחרי תאריך ההנפקה',
+  'validation.titleRequired': 'יש להזין כותרת',
+  'validation.dateRequired': 'יש להזין תאריך',
+  'validation.destinationTooShort': 'היעד חייב להכיל לפחות 2 תווים',
+  'validation.startDateRequired': 'יש להזין תאריך התחלה',
+  'validation.endDateRequired': 'יש להזין תאריך סיום',
+  'validation.travellersRequired': 'יש להזין את מספר הנוסעים',
+  'validation.travellersWholeNumber': 'מספר הנוסעים חייב להיות מספר שלם',
+  'validation.travellersTooFew': 'נדרש לפחות נוסע אחד',
+  'validation.travellersTooMany': 'בטיול יכולים להשתתף עד 50 נוסעים',
+  'validation.endDateBeforeStart': 'תאריך הסיום חייב להיות ביום ההתחלה או אחריו',
+  'validation.dateOutsideTrip': 'התאריך חייב להיות בטווח תאריכי הטיול',
+
+  'errors.emailInUse': 'כבר קיים חשבון עם כתובת האימייל הזו.',
+  'errors.emailMissing': 'יש להזין את כתובת האימייל',
+  'errors.incorrectCredentials': 'האימייל או הסיסמה שגויים.',
+  'errors.weakPassword': 'הסיסמה חלשה מדי. יש להשתמש לפחות ב-6 תווים המשלבים אותיות ומספרים.',
+  'errors.tooManyRequests': 'יותר מדי ניסיונות כושלים. לשם אבטחתך החשבון ננעל זמנית. אפשר לנסות שוב בעוד כמה דקות או לאפס את הסיסמה.',
+  'errors.userDisabled': 'החשבון הושבת. לעזרה יש לפנות לתמיכה.',
+  'errors.networkRequestFailed': 'לא הצלחנו להתחבר לשרת. יש לבדוק את החיבור ולנסות שוב.',
+  'errors.popupClosed': 'חלון ההתחברות נסגר לפני שהתהליך הסתיים.',
+  'errors.popupBlocked': 'הדפדפן חסם את חלון ההתחברות. יש לאפשר חלונות קופצים לאתר ולנסות שוב.',
+  'errors.accountExistsWithDifferentCredential': 'כבר קיים חשבון עם כתובת האימייל הזו שמשתמש בשיטת התחברות אחרת.',
+  'errors.credentialInUse': 'החשבון הזה כבר מחובר למשתמש אחר.',
+  'errors.providerAlreadyLinked': 'החשבון הזה כבר מחובר.',
+  'errors.noSuchProvider': 'החשבון הזה אינו מחובר.',
+  'errors.operationNotAllowed': 'שיטת ההתחברות הזו אינה זמינה כרגע.',
+  'errors.requiresRecentLogin': 'לשם אבטחתך, יש להתחבר שוב כדי להמשיך.',
+  'errors.unverifiedEmail': 'יש לאמת את כתובת האימייל לפני שממשיכים.',
+  'errors.invalidVerificationCode': 'הקוד שגוי או שפג תוקפו.',
+  'errors.codeExpired': 'תוקף הקוד פג. יש לבקש קוד חדש.',
+  'errors.expiredActionCode': 'תוקף הקישור פג. יש לבקש קישור חדש.',
+  'errors.invalidActionCode': 'תוקף הקישור פג או שכבר נעשה בו שימוש.',
+  'errors.permissionDenied': 'אין לך הרשאה לעשות זאת.',
+  'errors.unavailable': 'נראה שאין חיבור לאינטרנט. יש לבדוק את החיבור ולנסות שוב.',
+  'errors.notFound': 'לא מצאנו את מה שחיפשת.',
+  'errors.deadlineExceeded': 'הבקשה ארכה יותר מדי זמן. יש לנסות שוב.',
+  'errors.resourceExhausted': 'יותר מדי בקשות. יש להמתין רגע ולנסות שוב.',
+  'errors.uploadUnauthorized': 'אין לך הרשאה להעלות את הקובץ הזה.',
+  'errors.uploadCanceled': 'ההעלאה בוטלה.',
+  'errors.quotaExceeded': 'האחסון מלא כרגע. יש לנסות שוב מאוחר יותר.',
+  'errors.retryLimitExceeded': 'ההעלאה ארכה יותר מדי זמן. יש לבדוק את החיבור ולנסות שוב.',
+  'errors.fileNotFound': 'לא מצאנו את הקובץ הזה.',
+
+  'login.title': 'התחברות לחשבון',
+  'login.methods': 'שיטת התחברות',
+  'login.methodPassword': 'סיסמה',
+  'login.methodLink': 'קישור באימייל',
+  'login.failed': 'ההתחברות נכשלה.',
+  'login.failedCheckCredentials': 'ההתחברות נכשלה. יש לבדוק את פרטי ההתחברות.',
+  'login.failedWithProvider': 'ההתחברות באמצעות {provider} נכשלה.',
+  'login.pendingLink': 'כבר יש לך חשבון עם {email}. יש להתחבר באמצעות {methods} כדי לחבר אליו את חשבון {provider}.',
+  'login.pendingLinkUnknownMethod': 'כבר יש לך חשבון עם {email}. יש להתחבר כמו בפעם הקודמת כדי לחבר אליו את חשבון {provider}.',
+  'login.pendingLinkPassword': 'האימייל והסיסמה שלך',
+  'login.pendingLinkCancel': 'לא לחבר',
+  'login.forgotPassword': 'שכחת את הסיסמה?',
+  'login.signUp': 'אין לך חשבון? להרשמה',
+  'login.submit': 'התחברות',
+  'login.withProvider': 'התחברות באמצעות {provider}',
+  'login.rememberMe': 'להישאר מחובר',
+  'login.rememberMeHint': 'אין לסמן במחשב משותף או ציבורי. החיבור יסתיים עם סגירת הדפדפן.',
+  'login.signedOutIdle': 'נותקת מהחשבון עקב חוסר פעילות.',
+  'login.signedOutRevoked': 'נותקת מהחשבון בכל המכשירים. יש להתחבר שוב כדי להמשיך.',
+
+  'signUp.title': 'יצירת חשבון',
+  'signUp.failed': 'יצירת החשבון נכשלה.',
+  'signUp.confirmPassword': 'אימות סיסמה',
+  'signUp.signIn': 'כבר יש לך חשבון? להתחברות',
+  'signUp.submit': 'הרשמה',
+
+  'forgotPassword.title': 'איפוס סיסמה',
+  'forgotPassword.intro': 'יש להזין את כתובת האימייל ואנחנו נשלח הוראות לאיפוס הסיסמה.',
+  'forgotPassword.sent': 'הוראות לאיפוס הסיסמה נשלחו לתיבת הדואר שלך.',
+  'forgotPassword.failed': 'איפוס הסיסמה נכשל. יש לבדוק את כתובת האימייל.',
+  'forgotPassword.backToSignIn': 'חזרה להתחברות',
+  'forgotPassword.useEmailLink': 'התחברות באמצעות קישור באימייל',
+  'forgotPassword.submit': 'איפוס סיסמה',
+
+  'emailLink.intro': 'אין צורך בסיסמה. נשלח לך באימייל קישור להתחברות.',
+  'emailLink.submit': 'שליחת קישור התחברות באימייל',
+  'emailLink.sent': 'שלחנו קישור התחברות אל {email}. יש לפתוח אותו במכשיר הזה כדי להתחבר.',
+  'emailLink.sendFailed': 'שליחת קישור ההתחברות נכשלה. יש לנסות שוב.',
+  'emailLink.signingIn': 'מתבצעת התחברות',
+  'emailLink.confirmTitle': 'אישור כתובת האימייל',
+  'emailLink.confirmIntro': 'יש להזין את כתובת האימייל שאליה נשלח קישור ההתחברות.',
+  'emailLink.signIn': 'התחברות',
+  'emailLink.backToSignIn': 'חזרה להתחברות',
+  'emailLink.invalid': 'קישור ההתחברות לא תקין או חסר.',
+  'emailLink.expired': 'תוקף קישור ההתחברות פג או שכבר נעשה בו שימוש.',
+
+  'mfa.title': 'אימות דו-שלבי',
+  'mfa.intro': 'הגנה על פרטי הדרכון והתשלום שלך באמצעות קוד שנשלח לטלפון בכל התחברות.',
+  'mfa.challengeSms': 'נשלח קוד ב-SMS אל {phoneNumber}.',
+  'mfa.challengeTotp': 'יש להזין את הקוד מאפליקציית האימות.',
+  'mfa.method': 'שיטת אימות',
+  'mfa.authenticatorApp': 'אפליקציית אימות',
+  'mfa.textMessage': 'הודעת SMS',
+  'mfa.sendCode': 'שליחת קוד',
+  'mfa.sendCodeFailed': 'שליחת קוד האימות נכשלה. יש לנסות שוב.',
+  'mfa.code': 'קוד אימות',
+  'mfa.codeSent': 'יש להזין את הקוד ששלחנו ב-SMS אל {phoneNumber}.',
+  'mfa.verify': 'אימות',
+  'mfa.backToSignIn': 'חזרה להתחברות',
+  'mfa.totpInstructions': 'יש להוסיף את המפתח הזה לאפליקציית האימות ולהזין את הקוד שהיא מציגה.',
+  'mfa.openAuthenticator': 'פתיחה באפליקציית האימות',
+  'mfa.turnOn': 'הפעלה',
+  'mfa.useSms': 'שימוש בהודעות SMS',
+  'mfa.useTotp': 'שימוש באפליקציית אימות',
+  'mfa.noPhoneNumber': 'כדי לקבל קודים ב-SMS, יש לשמור את מספר הנייד בכרטיסייה פרטים.',
+  'mfa.enabled': 'האימות הדו-שלבי מופעל.',
+  'mfa.remove': 'הסרת {method}',
+  'mfa.removeConfirm': 'להסיר את {method} מהחשבון?',
+  'mfa.removeConfirmUnnamed': 'להסיר את שיטת האימות הזו מהחשבון?',
+  'mfa.removed': 'שיטת האימות הוסרה.',
+  'mfa.updateFailed': 'עדכון האימות הדו-שלבי נכשל.',
+
+  'reauth.title': 'אישור זהות',
+  'reauth.currentPassword': 'סיסמה נוכחית',
+  'reauth.confirm': 'אישור',
+  'reauth.continueWith': 'המשך עם {provider}',
+  'reauth.continueWithProvider': 'המשך עם הספק שלך',
+  'reauth.failed': 'אישור הזהות נכשל.',
+
+  'authAction.title': 'פעולה בחשבון',
+  'authAction.resetPasswordTitle': 'בחירת סיסמה חדשה',
+  'authAction.newPassword': 'סיסמה חדשה',
+  'authAction.confirmPassword': 'אימות סיסמה',
+  'authAction.submit': 'שינוי סיסמה',
+  'authAction.continueToProfile': 'המשך לפרופיל',
+  'authAction.backToSignIn': 'חזרה להתחברות',
+  'authAction.invalidLink': 'הקישור לא תקין או חסר.',
+  'authAction.unsupportedLink': 'הקישור הזה לא נתמך.',
+  'authAction.emailVerified': 'כתובת האימייל אומתה.',
+  'authAction.newEmailVerified': 'כתובת האימייל החדשה אומתה.',
+  'authAction.emailRecovered': 'כתובת האימייל הקודמת שוחזרה.',
+  'authAction.passwordReset': 'הסיסמה שונתה. אפשר להתחבר עכשיו עם הסיסמה החדשה.',
+
+  'verifyEmail.title': 'אימות כתובת האימייל',
+  'verifyEmail.intro': 'שלחנו קישור אימות אל {email}. יש ללחוץ על הקישור כדי להפעיל את החשבון. הדף יתעדכן אוטומטית.',
+  'verifyEmail.check': 'אימתתי את האימייל',
+  'verifyEmail.resend': 'שליחה חוזרת של הודעת האימות',
+  'verifyEmail.resendIn': 'שליחה חוזרת בעוד {seconds} שנ׳',
+  'verifyEmail.differentAccount': 'שימוש בחשבון אחר',
+  'verifyEmail.sent': 'הודעת האימות נשלחה. כדאי לבדוק את תיבת הדואר.',
+  'verifyEmail.sendFailed': 'שליחת הודעת האימות נכשלה. יש לנסות שוב מאוחר יותר.',
+  'verifyEmail.notVerified': 'כתובת האימייל עדיין לא אומתה.',
+  'verifyEmail.checkFailed': 'בדיקת מצב האימות נכשלה.',
+  'verifyEmail.signOutFailed': 'ההתנתקות נכשלה.',
+
+  'onboarding.step': 'שלב {step} מתוך {steps}',
+  'onboarding.progress': 'התקדמות ההרשמה',
+  'onboarding.aboutYou': 'קצת עליך',
+  'onboarding.aboutYouIntro': 'מי נוסע?',
+  'onboarding.contact': 'איך ליצור איתך קשר',
+  'onboarding.contactIntro': 'הפרטים האלה משמשים להזמנות ולהתראות נסיעה.',
+  'onboarding.back': 'הקודם',
+  'onboarding.next': 'הבא',
+  'onboarding.finish': 'סיום',
+  'onboarding.saveFailed': 'שמירת הפרופיל נכשלה.',
+
+  'profile.title': 'הגדרות פרופיל',
+  'profile.loading': 'טוען פרופיל...',
+  'profile.sections': 'חלקי הפרופיל',
+  'profile.tabDetails': 'פרטים',
+  'profile.tabPreferences': 'העדפות',
+  'profile.tabCompanions': 'מלווים',
+  'profile.tabDocuments': 'מסמכים',
+  'profile.tabSecurity': 'אבטחה',
+  'profile.pictureNotImage': 'יש לבחור קובץ תמונה (PNG,‏ JPG וכו׳)',
+  'profile.pictureTooLarge': 'גודל התמונה צריך להיות פחות מ-{size}MB',
+  'profile.pictureSaved': 'תמונת הפרופיל עודכנה.',
+  'profile.pictureSaveFailed': 'שמירת תמונת הפרופיל נכשלה.',
+  'profile.picture': 'תמונת פרופיל',
+  'profile.pictureAlt': 'פרופיל',
+  'profile.pictureHint': 'יש ללחוץ כדי להעלות תמונת פרופיל (JPG,‏ PNG,‏ WebP)',
+  'profile.pictureMaxSize': 'גודל קובץ מרבי: {size}MB',
+  'profile.email': 'אימייל',
+  'profile.emailHint': 'אפשר לשנות את כתובת האימייל בלשונית אבטחה',
+  'profile.saved': 'הפרופיל עודכן בהצלחה!',
+  'profile.saveFailed': 'עדכון הפרופיל נכשל.',
+  'profile.savedLocally': 'הפרופיל נשמר במכשיר הזה. הוא יסונכרן כשהחיבור יחזור.',
+  'profile.syncFailed': 'לא ניתן היה לסנכרן את השינויים בפרופיל.',
+  'profile.save': 'שמירת שינויים',
+
+  'preferences.homeAirport': 'שדה תעופה ביתי',
+  'preferences.seat': 'מושב',
+  'preferences.seatAny': 'ללא העדפה',
+  'preferences.seatWindow': 'חלון',
+  'preferences.seatAisle': 'מעבר',
+  'preferences.meal': 'ארוחה',
+  'preferences.mealAny': 'ללא העדפה',
+  'preferences.mealVegetarian': 'צמחונית',
+  'preferences.mealVegan': 'טבעונית',
+  'preferences.mealHalal': 'חלאל',
+  'preferences.mealKosher': 'כשרה',
+  'preferences.mealGlutenFree': 'ללא גלוטן',
+  'preferences.budget': 'תקציב יומי לאדם',
+  'preferences.minimum': 'מינימום',
+  'preferences.minimumBudget': 'תקציב מינימלי',
+  'preferences.maximum': 'מקסימום',
+  'preferences.maximumBudget': 'תקציב מקסימלי',
+  'preferences.currency': 'מטבע',
+  'preferences.interests': 'תחומי עניין',
+  'preferences.interestBeaches': 'חופים',
+  'preferences.interestCulture': 'אמנות ותרבות',
+  'preferences.interestFood': 'אוכל ושתייה',
+  'preferences.interestHistory': 'היסטוריה',
+  'preferences.interestNature': 'טבע',
+  'preferences.interestAdventure': 'הרפתקאות',
+  'preferences.interestNightlife': 'חיי לילה',
+  'preferences.interestShopping': 'קניות',
+  'preferences.interestWellness': 'בריאות ורווחה',
+  'preferences.interestFamily': 'מתאים למשפחות',
+  'preferences.loyaltyProgrammes': 'מועדוני לקוחות',
+  'preferences.programmePlaceholder': 'מועדון של חברת תעופה או מלון',
+  'preferences.programme': 'מועדון',
+  'preferences.membershipNumber': 'מספר חבר',
+  'preferences.removeProgramme': 'הסרת המועדון',
+  'preferences.addProgramme': 'הוספת מועדון',
+  'preferences.save': 'שמירת ההעדפות',
+  'preferences.saved': 'העדפות הנסיעה נשמרו.',
+  'preferences.savedLocally': 'העדפות הנסיעה נשמרו במכשיר הזה ויסונכרנו כשהחיבור לאינטרנט יחזור.',
+  'preferences.saveFailed': 'שמירת ההעדפות נכשלה.',
+
+  'companions.intro': 'אפשר לשמור את האנשים שבדרך כלל נוסעים איתך, כדי לא להזין את הפרטים שלהם בכל טיול. את הדרכונים והוויזות שלהם אפשר להוסיף בלשונית המסמכים.',
+  'companions.empty': 'עדיין לא נשמרו מלווים.',
+  'companions.fullName': 'שם מלא',
+  'companions.name': 'שם המלווה',
+  'companions.relationship': 'קרבה',
+  'companions.partner': 'בן או בת זוג',
+  'companions.child': 'ילד או ילדה',
+  'companions.parent': 'הורה',
+  'companions.friend': 'חבר או חברה',
+  'companions.colleague': 'עמית לעבודה',
+  'companions.other': 'אחר',
+  'companions.dob': 'תאריך הלידה של המלווה',
+  'companions.remove': 'הסרת המלווה',
+  'companions.add': 'הוספת מלווה',
+  'companions.save': 'שמירת המלווים',
+  'companions.saved': 'המלווים נשמרו.',
+  'companions.savedLocally': 'המלווים נשמרו במכשיר הזה ויסונכרנו כשהחיבור לאינטרנט יחזור.',
+  'companions.saveFailed': 'שמירת המלווים נכשלה.',
+
+  'documents.title': 'מסמכי נסיעה',
+  'documents.add': 'הוספת מסמך',
+  'documents.intro': 'כאן שומרים את הדרכון, הוויזות וביטוח הנסיעות, כדי שיהיו זמינים לסוכנים שלנו בזמן ההזמנה.',
+  'documents.loading': 'טוען מסמכים...',
+  'documents.empty': 'עדיין לא נוספו מסמכי נסיעה.',
+  'documents.passport': 'דרכון',
+  'documents.visa': 'ויזה',
+  'documents.insurance': 'ביטוח נסיעות',
+  'documents.for': 'עבור {name}',
+  'documents.expires': 'בתוקף עד {date}',
+  'documents.expired': 'פג תוקף',
+  'documents.expiresSoon': 'התוקף יפוג בקרוב',
+  'documents.expiresDuringTrip': 'תוקף ה{document} יפוג ב-{date}, לפני סוף הטיול אל {destination}.',
+  'documents.expiresAfterTrip': 'תוקף ה{document} יפוג ב-{date}, פחות משישה חודשים אחרי הטיול אל {destination}.',
+  'documents.viewScan': 'צפייה בסריקה: {document}',
+  'documents.edit': 'עריכה: {document}',
+  'documents.delete': 'מחיקה: {document}',
+  'documents.deleteConfirm': 'למחוק את המסמך ({document})?',
+  'documents.loadFailed': 'טעינת מסמכי הנסיעה נכשלה.',
+  'documents.deleteFailed': 'מחיקת המסמך נכשלה.',
+  'documents.openScanFailed': 'פתיחת הסריקה נכשלה.',
+
+  'documentDialog.addTitle': 'הוספת מסמך נסיעה',
+  'documentDialog.editTitle': 'עריכה: {document}',
+  'documentDialog.description': 'הסוכנים שלנו משתמשים בפרטים האלה בזמן ההזמנה, לכן יש להזין אותם בדיוק כפי שהם מודפסים.',
+  'documentDialog.type': 'סוג המסמך',
+  'documentDialog.belongsTo': 'שייך ל',
+  'documentDialog.you': 'אני',
+  'documentDialog.provider': 'חברת הביטוח',
+  'documentDialog.issuingCountry': 'מדינה מנפיקה',
+  'documentDialog.validFor': 'בתוקף עבור',
+  'documentDialog.selectCountry': 'בחירת מדינה',
+  'documentDialog.number': 'מספר {document}',
+  'documentDialog.policyNumber': 'מספר הפוליסה',
+  'documentDialog.nameAsPrinted': 'השם כפי שהוא מודפס',
+  'documentDialog.policyHolder': 'בעל הפוליסה',
+  'documentDialog.issueDate': 'תאריך הנפקה',
+  'documentDialog.coverStarts': 'תחילת הכיסוי',
+  'documentDialog.expiryDate': 'תאריך תפוגה',
+  'documentDialog.coverEnds': 'סוף הכיסוי',
+  'documentDialog.scan': 'סריקה',
+  'documentDialog.scanAttached': 'מצורפת סריקה',
+  'documentDialog.noScan': 'לא מצורפת סריקה',
+  'documentDialog.scanHint': 'תמונה או PDF, גודל קובץ מרבי: {size}MB',
+  'documentDialog.progress': 'התקדמות ההעלאה',
+  'documentDialog.uploading': 'מעלה… {progress}',
+  'documentDialog.cancelUpload': 'ביטול ההעלאה',
+  'documentDialog.save': 'שמירת המסמך',
+  'documentDialog.scanNotSupported': 'יש לבחור תמונה או קובץ PDF של המסמך',
+  'documentDialog.scanTooLarge': 'גודל הסריקה צריך להיות פחות מ-{size}MB',
+  'documentDialog.saveFailed': 'שמירת המסמך נכשלה.',
+
+  'avatar.title': 'התאמת תמונת הפרופיל',
+  'avatar.description': 'אפשר לגרור כדי למקם מחדש ולהשתמש במחוון כדי להגדיל.',
+  'avatar.preview': 'תצוגה מקדימה של תמונת הפרופיל',
+  'avatar.zoom': 'הגדלה',
+  'avatar.progress': 'התקדמות ההעלאה',
+  'avatar.uploading': 'מעלה… {progress}',
+  'avatar.cancelUpload': 'ביטול ההעלאה',
+  'avatar.save': 'שמירת התמונה',
+  'avatar.unreadable': 'לא ניתן לקרוא את הקובץ שנבחר כתמונה.',
+  'avatar.uploadFailed': 'העלאת התמונה נכשלה.',
+
+  'phone.verified': 'אומת',
+  'phone.unverified': 'כדאי לאמת את המספר בהודעת SMS כדי שהתראות טיול וקודי התחברות יגיעו אליך.',
+  'phone.verify': 'אימות המספר',
+  'phone.codeSent': 'יש להזין את הקוד שנשלח ב-SMS אל {phoneNumber}.',
+  'phone.code': 'קוד אימות',
+  'phone.confirm': 'אישור',
+  'phone.cancel': 'ביטול',
+  'phone.verifiedMessage': 'מספר הנייד שלך אומת.',
+  'phone.verifyFailed': 'אימות מספר הנייד נכשל.',
+  'phone.noNumber': 'יש לשמור את מספר הנייד בלשונית פרטים כדי לאמת אותו.',
+
+  'connectedAccounts.title': 'חשבונות מקושרים',
+  'connectedAccounts.intro': 'אפשר לקשר חשבונות נוספים כדי להתחבר עם כל אחד מהם.',
+  'connectedAccounts.status': 'מקושר',
+  'connectedAccounts.connect': 'קישור',
+  'connectedAccounts.disconnect': 'ניתוק',
+  'connectedAccounts.lastMethod': 'אי אפשר לנתק את שיטת ההתחברות היחידה שלך',
+  'connectedAccounts.connected': '{provider} קושר.',
+  'connectedAccounts.disconnected': '{provider} נותק.',
+  'connectedAccounts.failed': 'עדכון הקישור ל-{provider} נכשל.',
+
+  'security.title': 'אבטחה',
+  'security.changePassword': 'שינוי סיסמה',
+  'security.newPassword': 'סיסמה חדשה',
+  'security.confirmNewPassword': 'אימות הסיסמה החדשה',
+  'security.changePasswordSubmit': 'שינוי סיסמה',
+  'security.reauthPassword': 'יש להזין את הסיסמה הנוכחית כדי לשנות אותה.',
+  'security.passwordChanged': 'הסיסמה שונתה.',
+  'security.passwordFailed': 'שינוי הסיסמה נכשל.',
+  'security.changeEmail': 'שינוי כתובת האימייל',
+  'security.newEmail': 'אימייל חדש',
+  'security.changeEmailSubmit': 'שליחת קישור אימות',
+  'security.reauthEmail': 'יש לאשר את זהותך כדי לשנות את כתובת האימייל.',
+  'security.emailLinkSent': 'שלחנו קישור אל {email}. כתובת האימייל תשתנה אחרי שהקישור ייפתח.',
+  'security.emailFailed': 'שינוי כתובת האימייל נכשל.',
+  'security.devices': 'מכשירים מחוברים',
+  'security.devicesIntro': 'התחברת במכשיר משותף או שאבד? אפשר להתנתק מכל מקום שבו החשבון בשימוש, כולל מהדפדפן הזה.',
+  'security.signOutEverywhere': 'התנתקות מכל המכשירים',
+  'security.signOutEverywhereConfirm': 'להתנתק מכל המכשירים? יהיה צורך להתחבר מחדש בכל מקום, כולל כאן.',
+  'security.signOutEverywhereFailed': 'ההתנתקות מכל המכשירים נכשלה.',
+  'security.deleteAccount': 'מחיקת החשבון',
+  'security.deleteIntro': 'מחיקה לצמיתות של החשבון וכל מה שנשמר בו, כולל הפרופיל, הטיולים, מסמכי הנסיעה, התמונות והשיחות עם העוזר. אי אפשר לבטל את הפעולה.',
+  'security.deleteAccountSubmit': 'מחיקת החשבון',
+  'security.deleteConfirm': 'למחוק את החשבון? הפרופיל, הטיולים, מסמכי הנסיעה, התמונות והיסטוריית השיחות יימחקו לצמיתות.',
+  'security.reauthDelete': 'יש לאשר את זהותך כדי למחוק את החשבון לצמיתות.',
+  'security.failed': 'עדכון החשבון נכשל.',
+
+  'address.search': 'חיפוש הכתובת',
+  'address.searchPlaceholder': 'יש להתחיל להקליד רחוב או מיקוד',
+  'address.noResults': 'לא נמצאו כתובות מתאימות. אפשר להזין אותה למטה.',
+  'address.searchFailed': 'לא ניתן לחפש כתובות כרגע. אפשר להזין אותה למטה.',
+  'address.line1': 'כתובת, שורה 1',
+  'address.line2': 'כתובת, שורה 2 (לא חובה)',
+  'address.city': 'עיר או יישוב',
+  'address.region': 'מחוז או אזור',
+  'address.postalCode': 'מיקוד',
+  'address.country': 'מדינה',
+  'address.countryPlaceholder': 'יש לבחור מדינה',
+};
@@ -1,8 +1,13 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { registerServiceWorker } from './lib/serviceWorker';
 import './index.css';
 
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { Search, User } from 'lucide-react';
+import { useLocale } from '../contexts/locale';
+import { Input } from '../components/ui/Input';
+import { FormField } from '../components/ui/FormField';
+import { Alert } from '../components/ui/Alert';
+import { listUsers, UserRecord } from '../lib/userRepository';
+import { avatarURL } from '../lib/avatars';
+import { getErrorMessage } from '../lib/errors';
+import { displayPhoneNumber } from '../lib/phone';
+
+export default function Admin() {
+  const [users, setUsers] = useState<UserRecord[]>([]);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState('');
+  const [fetchingUsers, setFetchingUsers] = useState(true);
+  const { t, formatDateTime } = useLocale();
+
+  useEffect(() => {
+    async function fetchUsers() {
+      try {
+        setFetchingUsers(true);
+        setUsers(await listUsers());
+      } catch (err) {
+        console.error("Error fetching users:", err);
+        setError(getErrorMessage(err, 'admin.loadFailed'));
+      } finally {
+        setFetchingUsers(false);
+      }
+    }
+
+    fetchUsers();
+  }, []);
+
+  const term = search.trim().toLowerCase();
+  const filteredUsers = term
+    ? users.filter(user =>
+        [user.username, user.email, user.mobileNumber, user.mobileNumberDisplay]
+          .some(value => value?.toLowerCase().includes(term))
+      )
+    : users;
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="bg-surface shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+            <h2 className="text-2xl font-bold text-foreground">{t('admin.title')}</h2>
+            <FormField label={t('admin.search')} hideLabel icon={Search} className="w-full sm:w-72">
+              <Input
+                type="search"
+                placeholder={t('admin.search')}
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+              />
+            </FormField>
+          </div>
+
+          {error && <Alert variant="error" className="mb-6">{error}</Alert>}
+
+          {fetchingUsers ? (
+            <div className="py-10 text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              <p className="mt-2 text-muted">{t('admin.loading')}</p>
+            </div>
+          ) : filteredUsers.length === 0 ? (
+            <p className="py-10 text-center text-muted">{t('admin.empty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-border text-sm">
+                <thead>
+                  <tr className="text-left text-subtle">
+                    <th scope="col" className="py-3 pr-4 font-medium">{t('admin.user')}</th>
+                    <th scope="col" className="py-3 pr-4 font-medium">{t('admin.email')}</th>
+                    <th scope="col" className="py-3 pr-4 font-medium">{t('admin.mobile')}</th>
+                    <th scope="col" className="py-3 font-medium">{t('admin.updated')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {filteredUsers.map(user => (
+                    <tr key={user.uid}>
+                      <td className="py-3 pr-4">
+                        <div className="flex items-center gap-3">
+                          <div className="h-8 w-8 rounded-full overflow-hidden bg-surface-muted flex items-center justify-center">
+                            {user.photoURL ? (
+                              <img src={avatarURL(user, 'small')} alt="" className="h-full w-full object-cover" />
+                            ) : (
+                              <User className="h-4 w-4 text-faint" aria-hidden="true" />
+                            )}
+                          </div>
+                          <span className="font-medium text-foreground">{user.username || '—'}</span>
+                        </div>
+                      </td>
+                      <td className="py-3 pr-4 text-muted">{user.email || '—'}</td>
+                      <td className="py-3 pr-4 text-muted">
+                        {user.mobileNumber ? displayPhoneNumber(user.mobileNumber, user.mobileCountry) : '—'}
+                      </td>
+                      <td className="py-3 text-muted">
+                        {user.updatedAt ? formatDateTime(user.updatedAt) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
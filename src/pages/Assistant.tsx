@@ -0,0 +1,223 @@
+import { FormEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { Bot, Send, Square, Trash2, User } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
+import { Textarea } from '../components/ui/Textarea';
+import { cn } from '../lib/utils';
+import { getUser } from '../lib/userRepository';
+import {
+  AssistantContext,
+  buildAssistantContext,
+  ChatMessage,
+  clearHistory,
+  createAssistantProvider,
+  loadHistory,
+  saveMessage,
+} from '../lib/assistant';
+import { getErrorMessage } from '../lib/errors';
+
+export default function Assistant() {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [context, setContext] = useState<AssistantContext>({});
+  const [error, setError] = useState('');
+  const [fetchingHistory, setFetchingHistory] = useState(true);
+  const { currentUser } = useAuth();
+  const { t } = useLocale();
+  const provider = useMemo(
+    () => createAssistantProvider({ getIdToken: async () => currentUser?.getIdToken() ?? null }),
+    [currentUser]
+  );
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Load saved conversation and the profile the assistant personalises with
+  useEffect(() => {
+    async function fetchConversation() {
+      if (!currentUser) return;
+
+      try {
+        setFetchingHistory(true);
+        const [history, userData] = await Promise.all([
+          loadHistory(currentUser.uid),
+          getUser(currentUser.uid),
+        ]);
+        setMessages(history);
+        setContext(buildAssistantContext(userData, currentUser.displayName));
+      } catch (err) {
+        console.error("Error fetching conversation:", err);
+        setError(getErrorMessage(err, 'assistant.loadFailed'));
+      } finally {
+        setFetchingHistory(false);
+      }
+    }
+
+    fetchConversation();
+  }, [currentUser]);
+
+  // Cancel any in-flight reply when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView?.({ behavior: 'smooth' });
+  }, [messages, streamingReply]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content || !currentUser || streamingReply !== null) return;
+
+    const userMessage: ChatMessage = { role: 'user', content };
+    const conversation = [...messages, userMessage];
+    setMessages(conversation);
+    setDraft('');
+    setError('');
+    setStreamingReply('');
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      await saveMessage(currentUser.uid, userMessage);
+      const reply = await provider.sendMessage(conversation, {
+        context,
+        signal: abortController.signal,
+        onToken: token => setStreamingReply(prev => (prev ?? '') + token),
+      });
+
+      const assistantMessage: ChatMessage = { role: 'assistant', content: reply };
+      setMessages(prev => [...prev, assistantMessage]);
+      await saveMessage(currentUser.uid, assistantMessage);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error("Error talking to assistant:", err);
+      setError(getErrorMessage(err, 'assistant.replyFailed'));
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingReply(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleClear = async () => {
+    if (!currentUser) return;
+    if (!window.confirm(t('assistant.clearConfirm'))) return;
+
+    try {
+      setError('');
+      await clearHistory(currentUser.uid);
+      setMessages([]);
+    } catch (err) {
+      console.error("Error clearing conversation:", err);
+      setError(getErrorMessage(err, 'assistant.clearFailed'));
+    }
+  };
+
+  const isStreaming = streamingReply !== null;
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="bg-surface shadow rounded-lg flex flex-col h-[calc(100vh-15rem)] md:h-[calc(100vh-11rem)]">
+        <div className="px-4 py-5 sm:px-6 border-b border-border flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-foreground">{t('assistant.title')}</h2>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleClear}
+            disabled={isStreaming || messages.length === 0}
+            className="flex items-center gap-2"
+          >
+            <Trash2 className="h-4 w-4" />
+            {t('assistant.clear')}
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-5 sm:px-6 space-y-4" aria-live="polite">
+          {fetchingHistory ? (
+            <div className="py-10 text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              <p className="mt-2 text-muted">{t('assistant.loading')}</p>
+            </div>
+          ) : messages.length === 0 && !isStreaming ? (
+            <div className="py-10 text-center">
+              <Bot className="mx-auto h-10 w-10 text-faint" />
+              <p className="mt-2 text-muted">{t('assistant.empty')}</p>
+            </div>
+          ) : (
+            <>
+              {messages.map((message, index) => (
+                <MessageBubble key={index} message={message} />
+              ))}
+              {isStreaming && (
+                <MessageBubble message={{ role: 'assistant', content: streamingReply || '…' }} />
+              )}
+            </>
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {error && <Alert variant="error" className="mx-4 mb-4">{error}</Alert>}
+
+        <form onSubmit={handleSubmit} className="border-t border-border p-4 flex items-end gap-2">
+          <Textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                e.currentTarget.form?.requestSubmit();
+              }
+            }}
+            rows={2}
+            placeholder={t('assistant.placeholder')}
+            aria-label={t('assistant.message')}
+            disabled={fetchingHistory}
+            className="flex-1 resize-none"
+          />
+          {isStreaming ? (
+            <Button type="button" variant="secondary" onClick={handleCancel} className="flex items-center gap-2">
+              <Square className="h-4 w-4" />
+              {t('assistant.stop')}
+            </Button>
+          ) : (
+            <Button type="submit" disabled={!draft.trim()} className="flex items-center gap-2">
+              <Send className="h-4 w-4" />
+              {t('assistant.send')}
+            </Button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function MessageBubble({ message }: { message: ChatMessage }) {
+  const isUser = message.role === 'user';
+
+  return (
+    <div className={cn('flex items-start gap-3', isUser && 'flex-row-reverse')}>
+      <div
+        className={cn(
+          'h-8 w-8 shrink-0 rounded-full flex items-center justify-center',
+          isUser ? 'bg-primary text-primary-foreground' : 'bg-surface-muted text-muted'
+        )}
+      >
+        {isUser ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+      </div>
+      <p
+        className={cn(
+          'max-w-[80%] rounded-lg px-4 py-2 text-sm whitespace-pre-wrap',
+          isUser ? 'bg-primary text-primary-foreground' : 'bg-surface-muted text-foreground'
+        )}
+      >
+        {message.content}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, Navigate, useLocation, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Lock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
+import { Input } from '../components/ui/Input';
+import { FormField } from '../components/ui/FormField';
+import { getErrorMessage, reportFormError } from '../lib/errors';
+import { MessageKey } from '../lib/i18n';
+
+const newPasswordSchema = z.object({
+  password: z.string().min(6, 'validation.passwordTooShort'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'validation.passwordsDontMatch',
+  path: ['confirmPassword'],
+});
+
+type NewPasswordFormData = z.infer<typeof newPasswordSchema>;
+
+// Modes that are completed by applying the code with no further input
+const APPLY_CODE_MODES = ['verifyEmail', 'verifyAndChangeEmail', 'recoverEmail'];
+
+const successMessages: Record<string, MessageKey> = {
+  verifyEmail: 'authAction.emailVerified',
+  verifyAndChangeEmail: 'authAction.newEmailVerified',
+  recoverEmail: 'authAction.emailRecovered',
+  resetPassword: 'authAction.passwordReset',
+};
+
+// Handles the links Firebase puts in its auth emails. Point the action URL
+// in the Firebase console's email templates at /auth/action to use it.
+export default function AuthAction() {
+  const [searchParams] = useSearchParams();
+  const mode = searchParams.get('mode') ?? '';
+  const oobCode = searchParams.get('oobCode') ?? '';
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { currentUser, applyEmailActionCode, confirmNewPassword } = useAuth();
+  const { t } = useLocale();
+  const appliedRef = useRef(false);
+  const location = useLocation();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setError: setFieldError,
+  } = useForm<NewPasswordFormData>({
+    resolver: zodResolver(newPasswordSchema),
+  });
+
+  useEffect(() => {
+    // Codes are single use, so guard against StrictMode running this twice
+    if (appliedRef.current) return;
+    appliedRef.current = true;
+
+    if (!oobCode) {
+      setError(t('authAction.invalidLink'));
+      return;
+    }
+    if (mode === 'resetPassword' || mode === 'signIn') return;
+    if (!APPLY_CODE_MODES.includes(mode)) {
+      setError(t('authAction.unsupportedLink'));
+      return;
+    }
+
+    async function applyCode() {
+      try {
+        setIsLoading(true);
+        await applyEmailActionCode(oobCode);
+        setMessage(t(successMessages[mode]));
+      } catch (err) {
+        console.error("Error applying action code:", err);
+        setError(getErrorMessage(err, 'errors.invalidActionCode'));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    applyCode();
+  }, [mode, oobCode, applyEmailActionCode, t]);
+
+  const onSubmit = async (data: NewPasswordFormData) => {
+    try {
+      setError('');
+      setIsLoading(true);
+      await confirmNewPassword(oobCode, data.password);
+      setMessage(t(successMessages.resetPassword));
+    } catch (err) {
+      console.error("Error resetting password:", err);
+      setError(reportFormError(err, setFieldError, ['password'], 'errors.invalidActionCode'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Email sign-in links are completed on their own page
+  if (mode === 'signIn') {
+    return <Navigate to={`/login/link${location.search}`} replace />;
+  }
+
+  const showPasswordForm = mode === 'resetPassword' && oobCode && !message;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            {t(mode === 'resetPassword' ? 'authAction.resetPasswordTitle' : 'authAction.title')}
+          </h2>
+        </div>
+
+        {isLoading && !showPasswordForm && (
+          <div className="py-6 text-center">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+          </div>
+        )}
+
+        {error && <Alert variant="error">{error}</Alert>}
+
+        {message && <Alert variant="success">{message}</Alert>}
+
+        {showPasswordForm && (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <FormField id="password" label={t('authAction.newPassword')} icon={Lock} error={errors.password?.message}>
+              <Input type="password" {...register('password')} />
+            </FormField>
+
+            <FormField
+              id="confirmPassword"
+              label={t('authAction.confirmPassword')}
+              icon={Lock}
+              error={errors.confirmPassword?.message}
+            >
+              <Input type="password" {...register('confirmPassword')} />
+            </FormField>
+
+            <Button
+              type="submit"
+              className="w-full flex justify-center py-2 px-4"
+              isLoading={isLoading}
+            >
+              {t('authAction.submit')}
+            </Button>
+          </form>
+        )}
+
+        <div className="text-center text-sm">
+          <Link
+            to={currentUser ? '/profile' : '/login'}
+            className="font-medium text-primary hover:text-primary-hover"
+          >
+            {t(currentUser ? 'authAction.continueToProfile' : 'authAction.backToSignIn')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
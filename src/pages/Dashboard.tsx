@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bot, Calendar, ChevronRight, FileCheck2, MapPin, Plus, User } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { useUserData } from '../hooks/useUserData';
+import { Alert } from '../components/ui/Alert';
+import { listTrips, Trip } from '../lib/trips';
+import { listTravelDocuments } from '../lib/documentRepository';
+import { getExpiryWarnings, isExpired } from '../lib/documents';
+import { getErrorMessage } from '../lib/errors';
+import { toDateString } from '../lib/utils';
+
+const UPCOMING_TRIP_COUNT = 3;
+
+// Trips that haven't finished yet, soonest first
+function upcomingTrips(trips: Trip[], today = toDateString(new Date())) {
+  return trips
+    .filter(trip => (trip.endDate || trip.startDate) >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .slice(0, UPCOMING_TRIP_COUNT);
+}
+
+const quickActions = [
+  { to: '/trips/new', label: 'dashboard.planTrip', icon: Plus },
+  { to: '/assistant', label: 'dashboard.askAssistant', icon: Bot },
+  { to: '/profile', label: 'dashboard.editProfile', icon: User },
+] as const;
+
+export default function Dashboard() {
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [documentsNeedAttention, setDocumentsNeedAttention] = useState(false);
+  const [error, setError] = useState('');
+  const [fetching, setFetching] = useState(true);
+  const { currentUser } = useAuth();
+  const { userData } = useUserData(currentUser?.uid);
+  const { t, formatDateRange } = useLocale();
+  const name = userData?.username || currentUser?.displayName;
+
+  useEffect(() => {
+    async function fetchDashboard() {
+      if (!currentUser) return;
+
+      try {
+        setFetching(true);
+        const [savedTrips, documents] = await Promise.all([
+          listTrips(currentUser.uid),
+          listTravelDocuments(currentUser.uid),
+        ]);
+        setTrips(upcomingTrips(savedTrips));
+        setDocumentsNeedAttention(
+          documents.some(document => isExpired(document)) ||
+          getExpiryWarnings(documents, savedTrips).length > 0
+        );
+      } catch (err) {
+        console.error("Error fetching dashboard:", err);
+        setError(getErrorMessage(err, 'dashboard.loadFailed'));
+      } finally {
+        setFetching(false);
+      }
+    }
+
+    fetchDashboard();
+  }, [currentUser]);
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      <div>
+        <h2 className="text-2xl font-bold text-foreground">
+          {name ? t('dashboard.welcome', { name }) : t('dashboard.welcomeNoName')}
+        </h2>
+        <p className="mt-1 text-muted">{t('dashboard.intro')}</p>
+      </div>
+
+      <section aria-labelledby="dashboard-actions">
+        <h3 id="dashboard-actions" className="sr-only">{t('dashboard.quickActions')}</h3>
+        <ul className="grid gap-4 sm:grid-cols-3">
+          {quickActions.map(({ to, label, icon: Icon }) => (
+            <li key={to}>
+              <Link
+                to={to}
+                className="flex items-center gap-3 rounded-lg bg-surface p-4 shadow font-medium text-foreground hover:bg-surface-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <span className="rounded-full bg-primary p-2 text-primary-foreground">
+                  <Icon className="h-5 w-5" aria-hidden="true" />
+                </span>
+                {t(label)}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {fetching ? (
+        <div className="py-10 text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+          <p className="mt-2 text-muted">{t('dashboard.loading')}</p>
+        </div>
+      ) : !error && (
+        <div className="grid gap-8 lg:grid-cols-3">
+          <section aria-labelledby="dashboard-trips" className="bg-surface shadow rounded-lg px-4 py-5 sm:p-6 lg:col-span-2">
+            <div className="flex items-center justify-between mb-4">
+              <h3 id="dashboard-trips" className="text-lg font-medium text-foreground">
+                {t('dashboard.upcomingTrips')}
+              </h3>
+              <Link to="/trips" className="text-sm font-medium text-primary hover:text-primary-hover">
+                {t('dashboard.allTrips')}
+              </Link>
+            </div>
+            {trips.length === 0 ? (
+              <div className="py-6 text-center">
+                <MapPin className="mx-auto h-10 w-10 text-faint" aria-hidden="true" />
+                <p className="mt-2 text-muted">{t('dashboard.noUpcomingTrips')}</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-border">
+                {trips.map(trip => (
+                  <li key={trip.id}>
+                    <Link
+                      to={`/trips/${trip.id}`}
+                      className="flex items-center justify-between gap-4 py-3 hover:text-primary"
+                    >
+                      <div>
+                        <p className="font-medium text-foreground">{trip.destination}</p>
+                        <p className="mt-1 flex items-center gap-1 text-sm text-subtle">
+                          <Calendar className="h-4 w-4" aria-hidden="true" />
+                          {formatDateRange(trip.startDate, trip.endDate)}
+                        </p>
+                      </div>
+                      <ChevronRight className="h-5 w-5 text-faint rtl:rotate-180" aria-hidden="true" />
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section aria-labelledby="dashboard-documents" className="bg-surface shadow rounded-lg px-4 py-5 sm:p-6">
+            <h3 id="dashboard-documents" className="text-lg font-medium text-foreground mb-4">
+              {t('dashboard.documentsTitle')}
+            </h3>
+            {documentsNeedAttention ? (
+              <Alert variant="warning">{t('dashboard.documentsNeedAttention')}</Alert>
+            ) : (
+              <p className="flex items-start gap-2 text-sm text-muted">
+                <FileCheck2 className="h-4 w-4 mt-0.5 shrink-0 text-success" aria-hidden="true" />
+                {t('dashboard.documentsOk')}
+              </p>
+            )}
+            <Link
+              to="/profile?tab=documents"
+              className="mt-4 inline-block text-sm font-medium text-primary hover:text-primary-hover"
+            >
+              {t('dashboard.reviewDocuments')}
+            </Link>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
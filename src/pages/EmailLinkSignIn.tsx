@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { MultiFactorResolver } from 'firebase/auth';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Mail } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
+import { Input } from '../components/ui/Input';
+import { FormField } from '../components/ui/FormField';
+import MfaChallenge from '../components/MfaChallenge';
+import { useRedirectTarget } from '../hooks/useRedirectTarget';
+import { MfaRequiredError } from '../lib/mfa';
+import { clearStoredSignInEmail, getStoredSignInEmail } from '../lib/emailLink';
+import { reportFormError } from '../lib/errors';
+import { getSafeRedirect } from '../lib/redirect';
+
+const confirmEmailSchema = z.object({
+  email: z.string().email('validation.emailInvalid'),
+});
+
+type ConfirmEmailFormData = z.infer<typeof confirmEmailSchema>;
+
+// When the link arrives through the /auth/action handler, `next` is nested
+// inside the continueUrl parameter rather than on this page's own URL
+function useLinkRedirectTarget() {
+  const [searchParams] = useSearchParams();
+  const redirectTo = useRedirectTarget();
+  const continueUrl = searchParams.get('continueUrl');
+  if (searchParams.get('next') || !continueUrl) return redirectTo;
+
+  try {
+    return getSafeRedirect(new URL(continueUrl).searchParams.get('next'));
+  } catch {
+    return redirectTo;
+  }
+}
+
+export default function EmailLinkSignIn() {
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [needsEmail, setNeedsEmail] = useState(false);
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+  const { isSignInLink, completeSignInWithLink } = useAuth();
+  const { t } = useLocale();
+  const navigate = useNavigate();
+  const redirectTo = useLinkRedirectTarget();
+  const attemptedRef = useRef(false);
+  const linkUrl = window.location.href;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setError: setFieldError,
+  } = useForm<ConfirmEmailFormData>({
+    resolver: zodResolver(confirmEmailSchema),
+  });
+
+  const complete = useCallback(async (email: string) => {
+    try {
+      setError('');
+      setIsLoading(true);
+      await completeSignInWithLink(email, linkUrl);
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      if (err instanceof MfaRequiredError) {
+        setMfaResolver(err.resolver);
+        return;
+      }
+      setNeedsEmail(true);
+      setError(reportFormError(err, setFieldError, ['email'], 'emailLink.expired'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [completeSignInWithLink, linkUrl, navigate, redirectTo, setFieldError]);
+
+  // Runs once for the link this page was opened with. Links are single use,
+  // so the ref also guards against StrictMode running this twice
+  useEffect(() => {
+    if (attemptedRef.current) return;
+    attemptedRef.current = true;
+
+    if (!isSignInLink(linkUrl)) {
+      setError(t('emailLink.invalid'));
+      return;
+    }
+
+    const storedEmail = getStoredSignInEmail();
+    if (storedEmail) {
+      complete(storedEmail);
+    } else {
+      // Opened on a different device or browser, so ask who's signing in
+      setNeedsEmail(true);
+    }
+  }, [isSignInLink, linkUrl, complete, t]);
+
+  if (mfaResolver) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full">
+          <MfaChallenge
+            resolver={mfaResolver}
+            onSuccess={() => {
+              clearStoredSignInEmail();
+              navigate(redirectTo, { replace: true });
+            }}
+            onCancel={() => navigate('/login')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            {t(needsEmail ? 'emailLink.confirmTitle' : 'emailLink.signingIn')}
+          </h2>
+          {needsEmail && (
+            <p className="mt-2 text-center text-sm text-muted">{t('emailLink.confirmIntro')}</p>
+          )}
+        </div>
+
+        {error && <Alert variant="error">{error}</Alert>}
+
+        {!needsEmail && isLoading && (
+          <div className="py-6 text-center">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+          </div>
+        )}
+
+        {needsEmail && (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(data => complete(data.email))}>
+            <FormField id="email" label={t('common.emailAddress')} icon={Mail} error={errors.email?.message}>
+              <Input type="email" {...register('email')} />
+            </FormField>
+
+            <Button
+              type="submit"
+              className="w-full flex justify-center py-2 px-4"
+              isLoading={isLoading}
+            >
+              {t('emailLink.signIn')}
+            </Button>
+          </form>
+        )}
+
+        <div className="text-center text-sm">
+          <Link to="/login" className="font-medium text-primary hover:text-primary-hover">
+            {t('emailLink.backToSignIn')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Link } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useLocale } from '../contexts/locale';
+
+export default function Forbidden() {
+  const { t } = useLocale();
+
+  return (
+    <div className="max-w-md mx-auto py-12 text-center space-y-4">
+      <ShieldAlert className="mx-auto h-12 w-12 text-danger" />
+      <p className="text-sm font-semibold text-danger">403</p>
+      <h2 className="text-3xl font-extrabold text-foreground">{t('forbidden.title')}</h2>
+      <p className="text-sm text-muted">{t('forbidden.body')}</p>
+      <Link to="/" className="inline-block font-medium text-primary hover:text-primary-hover">
+        {t('forbidden.home')}
+      </Link>
+    </div>
+  );
+}
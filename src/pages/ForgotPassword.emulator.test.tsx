@@ -0,0 +1,33 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import ForgotPassword from './ForgotPassword';
+import { renderWithAuth } from '../test/render';
+import { resetEmulators, seedUser, travellerFixture } from '../test/fixtures';
+
+describe('ForgotPassword', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedUser(travellerFixture);
+  });
+
+  it('sends password reset instructions', async () => {
+    const user = userEvent.setup();
+    renderWithAuth(<ForgotPassword />, { route: '/forgot-password' });
+
+    await user.type(await screen.findByLabelText('Email address'), travellerFixture.email);
+    await user.click(screen.getByRole('button', { name: 'Reset Password' }));
+
+    expect(await screen.findByText('Check your inbox for password reset instructions.')).toBeInTheDocument();
+  });
+
+  it('validates the email address', async () => {
+    const user = userEvent.setup();
+    renderWithAuth(<ForgotPassword />, { route: '/forgot-password' });
+
+    await user.type(await screen.findByLabelText('Email address'), 'traveller@example');
+    await user.click(screen.getByRole('button', { name: 'Reset Password' }));
+
+    expect(await screen.findByText('Please enter a valid email address')).toBeInTheDocument();
+  });
+});
@@ -3,13 +3,21 @@ import { Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Mail, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Mail } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
 import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
 import { Input } from '../components/ui/Input';
+import { FormField } from '../components/ui/FormField';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import ThemeSwitcher from '../components/ThemeSwitcher';
+import { reportFormError } from '../lib/errors';
+import { withNext } from '../lib/redirect';
+import { useRedirectTarget } from '../hooks/useRedirectTarget';
 
 const forgotPasswordSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
+  email: z.string().email('validation.emailInvalid'),
 });
 
 type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
@@ -19,11 +27,14 @@ export default function ForgotPassword() {
   const [message, setMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const { resetPassword } = useAuth();
+  const { t } = useLocale();
+  const redirectTo = useRedirectTarget();
 
   const {
     register,
     handleSubmit,
     formState: { errors },
+    setError: setFieldError,
   } = useForm<ForgotPasswordFormData>({
     resolver: zodResolver(forgotPasswordSchema),
   });
@@ -34,63 +45,56 @@ export default function ForgotPassword() {
       setError('');
       setIsLoading(true);
       await resetPassword(data.email);
-      setMessage('Check your inbox for password reset instructions.');
+      setMessage(t('forgotPassword.sent'));
     } catch (err) {
-      setError('Failed to reset password. Please check your email address.');
+      setError(reportFormError(
+        err,
+        setFieldError,
+        ['email'],
+        'forgotPassword.failed'
+      ));
     } finally {
       setIsLoading(false);
     }
   };
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
+        <div className="flex flex-wrap justify-end gap-4">
+          <ThemeSwitcher />
+          <LocaleSwitcher />
+        </div>
         <div>
-          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            Reset your password
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            {t('forgotPassword.title')}
           </h2>
-          <p className="mt-2 text-center text-sm text-gray-600">
-            Enter your email address and we'll send you instructions to reset your password.
+          <p className="mt-2 text-center text-sm text-muted">
+            {t('forgotPassword.intro')}
           </p>
         </div>
 
-        {error && (
-          <div className="flex items-center gap-2 p-4 text-sm text-red-500 bg-red-50 rounded-md">
-            <AlertCircle className="h-4 w-4" />
-            <p>{error}</p>
-          </div>
-        )}
+        {error && <Alert variant="error">{error}</Alert>}
 
-        {message && (
-          <div className="flex items-center gap-2 p-4 text-sm text-green-500 bg-green-50 rounded-md">
-            <CheckCircle2 className="h-4 w-4" />
-            <p>{message}</p>
-          </div>
-        )}
+        {message && <Alert variant="success">{message}</Alert>}
 
         <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div>
-            <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-              Email address
-            </label>
-            <div className="mt-1 relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Mail className="h-5 w-5 text-gray-400" />
-              </div>
-              <Input
-                id="email"
-                type="email"
-                className="pl-10"
-                error={errors.email?.message}
-                {...register('email')}
-              />
-            </div>
-          </div>
+          <FormField id="email" label={t('common.emailAddress')} icon={Mail} error={errors.email?.message}>
+            <Input type="email" {...register('email')} />
+          </FormField>
 
           <div className="flex items-center justify-between">
             <div className="text-sm">
-              <Link to="/login" className="font-medium text-blue-600 hover:text-blue-500">
-                Back to sign in
+              <Link to={withNext('/login', redirectTo)} className="font-medium text-primary hover:text-primary-hover">
+                {t('forgotPassword.backToSignIn')}
+              </Link>
+            </div>
+            <div className="text-sm">
+              <Link
+                to={withNext('/login', redirectTo, { method: 'link' })}
+                className="font-medium text-primary hover:text-primary-hover"
+              >
+                {t('forgotPassword.useEmailLink')}
               </Link>
             </div>
           </div>
@@ -100,7 +104,7 @@ export default function ForgotPassword() {
             className="w-full flex justify-center py-2 px-4"
             isLoading={isLoading}
           >
-            Reset Password
+            {t('forgotPassword.submit')}
           </Button>
         </form>
       </div>
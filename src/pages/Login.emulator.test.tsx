@@ -0,0 +1,70 @@
+import { Route, Routes } from 'react-router-dom';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import Login from './Login';
+import LocationDisplay from '../test/LocationDisplay';
+import { renderWithAuth } from '../test/render';
+import { resetEmulators, seedUser, travellerFixture } from '../test/fixtures';
+
+function renderLogin(route = '/login') {
+  return renderWithAuth(
+    <Routes>
+      <Route path="/login" element={<Login />} />
+      <Route path="*" element={<LocationDisplay />} />
+    </Routes>,
+    { route }
+  );
+}
+
+describe('Login', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedUser(travellerFixture);
+  });
+
+  it('signs in and goes to the dashboard', async () => {
+    const user = userEvent.setup();
+    renderLogin();
+
+    await user.type(await screen.findByLabelText('Email address'), travellerFixture.email);
+    await user.type(screen.getByLabelText('Password'), travellerFixture.password);
+    await user.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByTestId('location')).toHaveTextContent(/^\/$/);
+  });
+
+  it('returns to the requested page after signing in', async () => {
+    const user = userEvent.setup();
+    renderLogin('/login?next=%2Ftrips%2Fnew');
+
+    await user.type(await screen.findByLabelText('Email address'), travellerFixture.email);
+    await user.type(screen.getByLabelText('Password'), travellerFixture.password);
+    await user.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByTestId('location')).toHaveTextContent('/trips/new');
+  });
+
+  it('shows a field error for an incorrect password', async () => {
+    const user = userEvent.setup();
+    renderLogin();
+
+    await user.type(await screen.findByLabelText('Email address'), travellerFixture.email);
+    await user.type(screen.getByLabelText('Password'), 'not-the-password');
+    await user.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByText('Incorrect email or password.')).toBeInTheDocument();
+    expect(screen.queryByTestId('location')).not.toBeInTheDocument();
+  });
+
+  it('validates the form before contacting Firebase', async () => {
+    const user = userEvent.setup();
+    renderLogin();
+
+    await user.type(await screen.findByLabelText('Email address'), 'traveller@example');
+    await user.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByText('Please enter a valid email address')).toBeInTheDocument();
+    expect(screen.getByText('Password must be at least 6 characters')).toBeInTheDocument();
+  });
+});
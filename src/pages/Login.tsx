@@ -1,153 +1,288 @@
-import { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useNavigate, Link, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
+import { MultiFactorResolver } from 'firebase/auth';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Mail, Lock, AlertCircle } from 'lucide-react';
+import { Mail, Lock, Link2, LogOut } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
+import { Alert } from '../components/ui/Alert';
+import { FormField } from '../components/ui/FormField';
+import { Checkbox } from '../components/ui/Checkbox';
+import { Tabs } from '../components/ui/Tabs';
+import MfaChallenge from '../components/MfaChallenge';
+import ProviderIcon from '../components/ProviderIcon';
+import EmailLinkRequestForm from '../components/EmailLinkRequestForm';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import ThemeSwitcher from '../components/ThemeSwitcher';
+import { useRedirectTarget } from '../hooks/useRedirectTarget';
+import { withNext } from '../lib/redirect';
+import { MfaRequiredError } from '../lib/mfa';
+import {
+  AccountExistsError,
+  isOAuthProviderId,
+  OAUTH_PROVIDERS,
+  OAuthProviderId,
+  providerLabels,
+} from '../lib/authProviders';
+import { getErrorMessage, reportFormError } from '../lib/errors';
+import { MessageKey } from '../lib/i18n';
 
 const loginSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  email: z.string().email('validation.emailInvalid'),
+  password: z.string().min(6, 'validation.passwordTooShort'),
 });
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+type SignInMethod = 'password' | 'link';
+
+const signInMethods: { id: SignInMethod; label: MessageKey }[] = [
+  { id: 'password', label: 'login.methodPassword' },
+  { id: 'link', label: 'login.methodLink' },
+];
+
 export default function Login() {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { signIn, googleSignIn } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [method, setMethod] = useState<SignInMethod>(
+    searchParams.get('method') === 'link' ? 'link' : 'password'
+  );
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+  // Off by default, so a shared computer forgets the session when the
+  // browser closes
+  const [rememberMe, setRememberMe] = useState(false);
+  const {
+    currentUser,
+    signIn,
+    signInWithProvider,
+    pendingLink,
+    cancelPendingLink,
+    redirectError,
+    clearRedirectError,
+    signOutReason,
+  } = useAuth();
+  const { t, formatList } = useLocale();
   const navigate = useNavigate();
+  const redirectTo = useRedirectTarget();
 
   const {
     register,
     handleSubmit,
     formState: { errors },
+    setError: setFieldError,
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
   });
 
+  // Covers redirect sign-ins, which come back to this page already signed in
+  useEffect(() => {
+    if (currentUser) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [currentUser, navigate, redirectTo]);
+
+  // Redirect sign-ins report their errors after the page reloads
+  useEffect(() => {
+    if (!redirectError) return;
+    if (redirectError instanceof MfaRequiredError) {
+      setMfaResolver(redirectError.resolver);
+    } else if (!(redirectError instanceof AccountExistsError)) {
+      setError(getErrorMessage(redirectError, 'login.failed'));
+    }
+    clearRedirectError();
+  }, [redirectError, clearRedirectError]);
+
   const onSubmit = async (data: LoginFormData) => {
     try {
       setError('');
       setIsLoading(true);
-      await signIn(data.email, data.password);
-      navigate('/profile');
+      await signIn(data.email, data.password, rememberMe);
+      navigate(redirectTo, { replace: true });
     } catch (err) {
-      setError('Failed to sign in. Please check your credentials.');
+      if (err instanceof MfaRequiredError) {
+        setMfaResolver(err.resolver);
+        return;
+      }
+      setError(reportFormError(
+        err,
+        setFieldError,
+        ['email', 'password'],
+        'login.failedCheckCredentials'
+      ));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleGoogleSignIn = async () => {
+  const handleProviderSignIn = async (providerId: OAuthProviderId) => {
     try {
       setError('');
       setIsLoading(true);
-      await googleSignIn();
-      navigate('/profile');
+      await signInWithProvider(providerId, rememberMe);
+      navigate(redirectTo, { replace: true });
     } catch (err) {
-      setError('Failed to sign in with Google.');
+      if (err instanceof MfaRequiredError) {
+        setMfaResolver(err.resolver);
+        return;
+      }
+      // Shown as the link-accounts notice instead
+      if (err instanceof AccountExistsError) return;
+      setError(getErrorMessage(err, t('login.failedWithProvider', { provider: providerLabels[providerId] })));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const existingMethodNames = pendingLink?.existingMethods.map(method =>
+    isOAuthProviderId(method) ? providerLabels[method] : t('login.pendingLinkPassword')
+  );
+
+  if (mfaResolver) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full">
+          <MfaChallenge
+            resolver={mfaResolver}
+            onSuccess={() => navigate(redirectTo, { replace: true })}
+            onCancel={() => setMfaResolver(null)}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
+        <div className="flex flex-wrap justify-end gap-4">
+          <ThemeSwitcher />
+          <LocaleSwitcher />
+        </div>
         <div>
-          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            Sign in to your account
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            {t('login.title')}
           </h2>
         </div>
         
-        {error && (
-          <div className="flex items-center gap-2 p-4 text-sm text-red-500 bg-red-50 rounded-md">
-            <AlertCircle className="h-4 w-4" />
-            <p>{error}</p>
-          </div>
+        {error && <Alert variant="error">{error}</Alert>}
+
+        {(signOutReason === 'idle' || signOutReason === 'revoked') && (
+          <Alert variant="info" icon={LogOut}>
+            {t(signOutReason === 'idle' ? 'login.signedOutIdle' : 'login.signedOutRevoked')}
+          </Alert>
         )}
 
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="space-y-6">
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Mail className="h-5 w-5 text-gray-400" />
-                </div>
-                <Input
-                  id="email"
-                  type="email"
-                  className="pl-10"
-                  error={errors.email?.message}
-                  {...register('email')}
-                />
+        {pendingLink && (
+          <Alert variant="info" icon={Link2}>
+            <p>
+              {existingMethodNames?.length
+                ? t('login.pendingLink', {
+                  email: pendingLink.email,
+                  methods: formatList(existingMethodNames, 'disjunction'),
+                  provider: providerLabels[pendingLink.providerId],
+                })
+                : t('login.pendingLinkUnknownMethod', {
+                  email: pendingLink.email,
+                  provider: providerLabels[pendingLink.providerId],
+                })}
+            </p>
+            <button
+              type="button"
+              onClick={cancelPendingLink}
+              className="mt-2 font-medium text-primary hover:text-primary-hover"
+            >
+              {t('login.pendingLinkCancel')}
+            </button>
+          </Alert>
+        )}
+
+        <Tabs
+          tabs={signInMethods.map(({ id, label }) => ({ id, label: t(label) }))}
+          value={method}
+          onChange={setMethod}
+          label={t('login.methods')}
+          idPrefix="login-method"
+          variant="pills"
+        >
+          {method === 'password' ? (
+            <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+              <div className="space-y-6">
+                <FormField id="email" label={t('common.emailAddress')} icon={Mail} error={errors.email?.message}>
+                  <Input type="email" autoComplete="email" {...register('email')} />
+                </FormField>
+
+                <FormField id="password" label={t('common.password')} icon={Lock} error={errors.password?.message}>
+                  <Input type="password" autoComplete="current-password" {...register('password')} />
+                </FormField>
               </div>
-            </div>
-
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Lock className="h-5 w-5 text-gray-400" />
+
+              <Checkbox
+                id="rememberMe"
+                label={t('login.rememberMe')}
+                description={t('login.rememberMeHint')}
+                checked={rememberMe}
+                onChange={e => setRememberMe(e.target.checked)}
+              />
+
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  <Link to={withNext('/forgot-password', redirectTo)} className="font-medium text-primary hover:text-primary-hover">
+                    {t('login.forgotPassword')}
+                  </Link>
+                </div>
+                <div className="text-sm">
+                  <Link to={withNext('/signup', redirectTo)} className="font-medium text-primary hover:text-primary-hover">
+                    {t('login.signUp')}
+                  </Link>
                 </div>
-                <Input
-                  id="password"
-                  type="password"
-                  className="pl-10"
-                  error={errors.password?.message}
-                  {...register('password')}
-                />
               </div>
-            </div>
-          </div>
-
-          <div className="flex items-center justify-between">
-            <div className="text-sm">
-              <Link to="/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
-                Forgot your password?
-              </Link>
-            </div>
-            <div className="text-sm">
-              <Link to="/signup" className="font-medium text-blue-600 hover:text-blue-500">
-                Need an account? Sign up
-              </Link>
-            </div>
-          </div>
-
-          <div className="space-y-4">
-            <Button
-              type="submit"
-              className="w-full flex justify-center py-2 px-4"
-              isLoading={isLoading}
-            >
-              Sign in
-            </Button>
 
-            <Button
-              type="button"
-              variant="outline"
-              className="w-full"
-              onClick={handleGoogleSignIn}
-              disabled={isLoading}
-            >
-              <img
-                src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg"
-                alt="Google"
-                className="w-5 h-5 mr-2"
-              />
-              Sign in with Google
-            </Button>
-          </div>
-        </form>
+              <div className="space-y-4">
+                <Button
+                  type="submit"
+                  className="w-full flex justify-center py-2 px-4"
+                  isLoading={isLoading}
+                >
+                  {t('login.submit')}
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => handleProviderSignIn('google.com')}
+                  disabled={isLoading}
+                >
+                  <ProviderIcon providerId="google.com" className="me-2" />
+                  {t('login.withProvider', { provider: providerLabels['google.com'] })}
+                </Button>
+
+                <div className="grid grid-cols-4 gap-2">
+                  {OAUTH_PROVIDERS.filter(providerId => providerId !== 'google.com').map(providerId => (
+                    <Button
+                      key={providerId}
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleProviderSignIn(providerId)}
+                      disabled={isLoading}
+                      aria-label={t('login.withProvider', { provider: providerLabels[providerId] })}
+                      title={t('login.withProvider', { provider: providerLabels[providerId] })}
+                    >
+                      <ProviderIcon providerId={providerId} />
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </form>
+          ) : (
+            <EmailLinkRequestForm next={redirectTo} />
+          )}
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,19 @@
+import { Link } from 'react-router-dom';
+import { Compass } from 'lucide-react';
+import { useLocale } from '../contexts/locale';
+
+export default function NotFound() {
+  const { t } = useLocale();
+
+  return (
+    <div className="max-w-md mx-auto py-12 text-center space-y-4">
+      <Compass className="mx-auto h-12 w-12 text-faint" aria-hidden="true" />
+      <p className="text-sm font-semibold text-primary">404</p>
+      <h2 className="text-3xl font-extrabold text-foreground">{t('notFound.title')}</h2>
+      <p className="text-sm text-muted">{t('notFound.body')}</p>
+      <Link to="/" className="inline-block font-medium text-primary hover:text-primary-hover">
+        {t('notFound.home')}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Calendar, User } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
+import { Input } from '../components/ui/Input';
+import { FormField } from '../components/ui/FormField';
+import { DatePicker } from '../components/ui/DatePicker';
+import { PhoneInput } from '../components/ui/PhoneInput';
+import AddressFields from '../components/AddressFields';
+import { useUserData } from '../hooks/useUserData';
+import { useRedirectTarget } from '../hooks/useRedirectTarget';
+import { emptyAddress } from '../lib/address';
+import { mobileFormValues, needsOnboarding, profileSchema, ProfileData, ProfileFormData } from '../lib/profile';
+import { defaultPhoneCountry } from '../lib/phone';
+import { saveUser } from '../lib/userRepository';
+import { reportFormError } from '../lib/errors';
+import { MessageKey } from '../lib/i18n';
+
+const steps: { title: MessageKey; description: MessageKey; fields: (keyof ProfileFormData)[] }[] = [
+  {
+    title: 'onboarding.aboutYou',
+    description: 'onboarding.aboutYouIntro',
+    fields: ['username', 'dob'],
+  },
+  {
+    title: 'onboarding.contact',
+    description: 'onboarding.contactIntro',
+    fields: ['mobileCountry', 'mobileNumber', 'address'],
+  },
+];
+
+export default function Onboarding() {
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [step, setStep] = useState(0);
+  const { currentUser, updateUserProfile } = useAuth();
+  const { t } = useLocale();
+  const { userData, loading: fetchingUserData } = useUserData(currentUser?.uid);
+  const navigate = useNavigate();
+  const redirectTo = useRedirectTarget();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+    trigger,
+    setValue,
+    watch,
+    setError: setFieldError,
+  } = useForm<ProfileFormData, unknown, ProfileData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      username: '',
+      dob: '',
+      mobileCountry: defaultPhoneCountry(navigator.languages),
+      mobileNumber: '',
+      address: emptyAddress,
+    },
+  });
+  const addressCountry = watch('address.country');
+
+  // Start from whatever sign-up already collected
+  useEffect(() => {
+    if (!currentUser || fetchingUserData || isDirty) return;
+
+    reset({
+      username: userData?.username || currentUser.displayName || '',
+      dob: userData?.dob || '',
+      ...mobileFormValues(userData, defaultPhoneCountry(navigator.languages)),
+      address: userData?.address ?? emptyAddress,
+    });
+  }, [currentUser, userData, fetchingUserData, isDirty, reset]);
+
+  if (fetchingUserData) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+      </div>
+    );
+  }
+
+  // Nothing left to collect, e.g. the wizard was finished in another tab
+  if (!isLoading && !needsOnboarding(userData)) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const isLastStep = step === steps.length - 1;
+  const { title, description, fields } = steps[step];
+
+  const handleNext = async () => {
+    if (await trigger(fields)) {
+      setStep(step + 1);
+    }
+  };
+
+  const onSubmit = async (data: ProfileData) => {
+    if (!currentUser) return;
+
+    try {
+      setError('');
+      setIsLoading(true);
+      await updateUserProfile({ displayName: data.username });
+      await saveUser(currentUser.uid, {
+        ...data,
+        email: currentUser.email ?? undefined,
+        onboarded: true,
+      });
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      const message = reportFormError(
+        err,
+        setFieldError,
+        ['username', 'dob', 'mobileCountry', 'mobileNumber'],
+        'onboarding.saveFailed'
+      );
+      setError(message);
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <p className="text-center text-sm font-medium text-primary">
+            {t('onboarding.step', { step: step + 1, steps: steps.length })}
+          </p>
+          <h2 className="mt-2 text-center text-3xl font-extrabold text-foreground">
+            {t(title)}
+          </h2>
+          <p className="mt-2 text-center text-sm text-muted">{t(description)}</p>
+          <div
+            className="mt-6 h-2 rounded-full bg-surface-strong"
+            role="progressbar"
+            aria-valuemin={1}
+            aria-valuemax={steps.length}
+            aria-valuenow={step + 1}
+            aria-label={t('onboarding.progress')}
+          >
+            <div
+              className="h-2 rounded-full bg-primary transition-all"
+              style={{ width: `${((step + 1) / steps.length) * 100}%` }}
+            />
+          </div>
+        </div>
+
+        {error && <Alert variant="error">{error}</Alert>}
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          {step === 0 && (
+            <div className="space-y-6">
+              <FormField id="username" label={t('common.username')} icon={User} error={errors.username?.message}>
+                <Input type="text" {...register('username')} />
+              </FormField>
+
+              <FormField id="dob" label={t('common.dateOfBirth')} icon={Calendar} error={errors.dob?.message}>
+                <DatePicker {...register('dob')} />
+              </FormField>
+            </div>
+          )}
+
+          {step === 1 && (
+            <div className="space-y-6">
+              <FormField id="mobileNumber" label={t('common.mobileNumber')} error={errors.mobileNumber?.message}>
+                <PhoneInput
+                  countryProps={register('mobileCountry')}
+                  countryError={errors.mobileCountry?.message}
+                  {...register('mobileNumber')}
+                />
+              </FormField>
+
+              <fieldset>
+                <legend className="text-sm font-medium text-muted">{t('common.address')}</legend>
+                <div className="mt-2">
+                  <AddressFields
+                    register={register}
+                    setValue={setValue}
+                    errors={errors.address}
+                    country={addressCountry}
+                  />
+                </div>
+              </fieldset>
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setStep(step - 1)}
+              disabled={step === 0 || isLoading}
+            >
+              {t('onboarding.back')}
+            </Button>
+            {isLastStep ? (
+              <Button type="submit" className="flex justify-center py-2 px-4" isLoading={isLoading}>
+                {t('onboarding.finish')}
+              </Button>
+            ) : (
+              <Button type="button" onClick={handleNext}>
+                {t('onboarding.next')}
+              </Button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
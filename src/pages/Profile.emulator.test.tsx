@@ -0,0 +1,212 @@
+import { Route, Routes } from 'react-router-dom';
+import { signInWithEmailAndPassword } from 'firebase/auth';
+import { disableNetwork, doc, enableNetwork, getDoc, waitForPendingWrites } from 'firebase/firestore';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Profile from './Profile';
+import { auth, db } from '../lib/firebase';
+import LocationDisplay from '../test/LocationDisplay';
+import { renderWithAuth } from '../test/render';
+import { setDocument } from '../test/emulator';
+import {
+  resetEmulators,
+  seedUser,
+  travellerFixture,
+  unverifiedFixture,
+} from '../test/fixtures';
+
+function renderProfile() {
+  return renderWithAuth(
+    <Routes>
+      <Route path="/profile" element={<Profile />} />
+      <Route path="*" element={<LocationDisplay />} />
+    </Routes>,
+    { route: '/profile' }
+  );
+}
+
+describe('Profile', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await enableNetwork(db);
+  });
+
+  it('loads the saved profile into the form', async () => {
+    await seedUser(travellerFixture);
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    renderProfile();
+
+    expect(await screen.findByLabelText('Username')).toHaveValue('tara');
+    expect(screen.getByLabelText('Date of Birth')).toHaveValue('1990-04-12');
+    expect(screen.getByLabelText('Country code')).toHaveValue('GB');
+    expect(screen.getByLabelText('Mobile Number')).toHaveValue('07700 900123');
+    expect(screen.getByLabelText('Address line 1')).toHaveValue('221B Baker Street');
+    expect(screen.getByLabelText('Town or city')).toHaveValue('London');
+    expect(screen.getByLabelText('Postal code')).toHaveValue('NW1 6XE');
+    expect(screen.getByLabelText('Country')).toHaveValue('GB');
+  });
+
+  it('saves changes to the users/{uid} document', async () => {
+    const uid = await seedUser(travellerFixture);
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    const user = userEvent.setup();
+    renderProfile();
+
+    const line1 = await screen.findByLabelText('Address line 1');
+    await user.clear(line1);
+    await user.type(line1, '10 Downing Street');
+    await user.clear(screen.getByLabelText('Postal code'));
+    await user.type(screen.getByLabelText('Postal code'), 'sw1a 2aa');
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(await screen.findByText('Profile updated successfully!')).toBeInTheDocument();
+    const saved = await getDoc(doc(db, 'users', uid));
+    expect(saved.data()).toMatchObject({
+      username: 'tara',
+      address: {
+        line1: '10 Downing Street',
+        line2: '',
+        city: 'London',
+        region: '',
+        postalCode: 'SW1A 2AA',
+        country: 'GB',
+      },
+      email: travellerFixture.email,
+    });
+  });
+
+  it('saves changes made offline locally and syncs them once back online', async () => {
+    const uid = await seedUser(travellerFixture);
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    const user = userEvent.setup();
+    renderProfile();
+    const line1 = await screen.findByLabelText('Address line 1');
+
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    await disableNetwork(db);
+    await user.clear(line1);
+    await user.type(line1, '10 Downing Street');
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(await screen.findByText(/Profile saved on this device/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save Changes' })).toBeEnabled();
+
+    await enableNetwork(db);
+    await waitForPendingWrites(db);
+    const saved = await getDoc(doc(db, 'users', uid));
+    expect(saved.get('address.line1')).toBe('10 Downing Street');
+  });
+
+  it('saves the mobile number in E.164 with the country it was entered for', async () => {
+    const uid = await seedUser(travellerFixture);
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    const user = userEvent.setup();
+    renderProfile();
+
+    const mobileNumber = await screen.findByLabelText('Mobile Number');
+    await user.selectOptions(screen.getByLabelText('Country code'), 'FR');
+    await user.clear(mobileNumber);
+    await user.type(mobileNumber, '06 12 34 56 78');
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(await screen.findByText('Profile updated successfully!')).toBeInTheDocument();
+    const saved = await getDoc(doc(db, 'users', uid));
+    expect(saved.data()).toMatchObject({
+      mobileNumber: '+33612345678',
+      mobileCountry: 'FR',
+      mobileNumberDisplay: '06 12 34 56 78',
+    });
+  });
+
+  it('rejects numbers with the wrong length for the country', async () => {
+    await seedUser(travellerFixture);
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    const user = userEvent.setup();
+    renderProfile();
+
+    const mobileNumber = await screen.findByLabelText('Mobile Number');
+    await user.clear(mobileNumber);
+    await user.type(mobileNumber, '07700 9001');
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(
+      await screen.findByText('That number has the wrong number of digits for the selected country')
+    ).toBeInTheDocument();
+  });
+
+  it('checks the postal code against the country', async () => {
+    await seedUser(travellerFixture);
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    const user = userEvent.setup();
+    renderProfile();
+
+    const postalCode = await screen.findByLabelText('Postal code');
+    await user.clear(postalCode);
+    await user.type(postalCode, '75001');
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(
+      await screen.findByText("That doesn't look like a postal code for the selected country")
+    ).toBeInTheDocument();
+  });
+
+  it('migrates a free-text address into its parts', async () => {
+    const uid = await seedUser(travellerFixture);
+    await setDocument(`users/${uid}`, {
+      ...travellerFixture.profile,
+      address: '10 Downing Street, London SW1A 2AA, United Kingdom',
+    });
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    renderProfile();
+
+    expect(await screen.findByLabelText('Address line 1')).toHaveValue('10 Downing Street');
+    expect(screen.getByLabelText('Town or city')).toHaveValue('London');
+    expect(screen.getByLabelText('Postal code')).toHaveValue('SW1A 2AA');
+    expect(screen.getByLabelText('Country')).toHaveValue('GB');
+    await waitFor(async () => {
+      const saved = await getDoc(doc(db, 'users', uid));
+      expect(saved.get('address')).toEqual({
+        line1: '10 Downing Street',
+        line2: '',
+        city: 'London',
+        region: '',
+        postalCode: 'SW1A 2AA',
+        country: 'GB',
+      });
+    });
+  });
+
+  it('saves travel preferences from the Preferences tab', async () => {
+    const uid = await seedUser(travellerFixture);
+    await signInWithEmailAndPassword(auth, travellerFixture.email, travellerFixture.password);
+    const user = userEvent.setup();
+    renderProfile();
+
+    await user.click(await screen.findByRole('tab', { name: 'Preferences' }));
+    await user.type(screen.getByLabelText('Home Airport'), 'lhr');
+    await user.selectOptions(screen.getByLabelText('Seat'), 'aisle');
+    await user.click(screen.getByLabelText('Food & drink'));
+    await user.click(screen.getByRole('button', { name: 'Save Preferences' }));
+
+    expect(await screen.findByText('Your travel preferences have been saved.')).toBeInTheDocument();
+    const saved = await getDoc(doc(db, 'users', uid));
+    expect(saved.data()).toMatchObject({
+      username: 'tara',
+      preferences: { homeAirport: 'LHR', seat: 'aisle', interests: ['food'] },
+    });
+  });
+
+  it('starts from the account details when no profile document exists', async () => {
+    await seedUser(unverifiedFixture);
+    await signInWithEmailAndPassword(auth, unverifiedFixture.email, unverifiedFixture.password);
+    renderProfile();
+
+    expect(await screen.findByLabelText('Username')).toHaveValue(unverifiedFixture.displayName);
+    expect(screen.getByLabelText('Address line 1')).toHaveValue('');
+  });
+});
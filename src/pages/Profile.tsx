@@ -1,370 +1,394 @@
 import { useState, useRef, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { LogOut, User, AlertCircle, CheckCircle2, Phone, MapPin, Calendar, Upload } from 'lucide-react';
+import { User, Calendar, Upload } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
 import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
 import { Input } from '../components/ui/Input';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { doc, setDoc, getDoc } from 'firebase/firestore';
-import { storage, db } from '../lib/firebase';
-
-const profileSchema = z.object({
-  username: z.string().min(3, 'Username must be at least 3 characters'),
-  dob: z.string().refine(val => Boolean(val), { 
-    message: 'Date of birth is required' 
-  }),
-  mobileNumber: z.string()
-    .min(10, 'Mobile number must be at least 10 digits')
-    .refine(val => /^\+?[0-9\s-()]+$/.test(val), {
-      message: 'Please enter a valid mobile number',
-    }),
-  address: z.string().min(5, 'Address must be at least 5 characters'),
-});
-
-type ProfileFormData = z.infer<typeof profileSchema>;
-
-interface UserData {
-  username?: string;
-  dob?: string;
-  mobileNumber?: string;
-  address?: string;
-  photoURL?: string;
+import { FormField } from '../components/ui/FormField';
+import { DatePicker } from '../components/ui/DatePicker';
+import { PhoneInput } from '../components/ui/PhoneInput';
+import { Tabs } from '../components/ui/Tabs';
+import { useToast } from '../components/ui/toast';
+import { createUser, saveUser } from '../lib/userRepository';
+import { useUserData } from '../hooks/useUserData';
+import MfaEnrollment from '../components/MfaEnrollment';
+import ConnectedAccounts from '../components/ConnectedAccounts';
+import AccountSecurity from '../components/AccountSecurity';
+import AvatarCropDialog from '../components/AvatarCropDialog';
+import TravelDocuments from '../components/TravelDocuments';
+import PreferencesForm from '../components/PreferencesForm';
+import CompanionsForm from '../components/CompanionsForm';
+import PhoneVerification from '../components/PhoneVerification';
+import AddressFields from '../components/AddressFields';
+import { AvatarURLs, deleteOtherAvatars } from '../lib/avatars';
+import { emptyAddress } from '../lib/address';
+import { getErrorMessage, reportFormError } from '../lib/errors';
+import { settleWrite, whenOnline } from '../lib/sync';
+import { MessageKey } from '../lib/i18n';
+import { mobileFormValues, profileSchema, ProfileData, ProfileFormData } from '../lib/profile';
+import { defaultPhoneCountry } from '../lib/phone';
+
+const MAX_SOURCE_IMAGE_MB = 20;
+const MAX_SOURCE_IMAGE_BYTES = MAX_SOURCE_IMAGE_MB * 1024 * 1024;
+
+const profileTabs = [
+  { id: 'details', label: 'profile.tabDetails' },
+  { id: 'preferences', label: 'profile.tabPreferences' },
+  { id: 'companions', label: 'profile.tabCompanions' },
+  { id: 'documents', label: 'profile.tabDocuments' },
+  { id: 'security', label: 'profile.tabSecurity' },
+] as const satisfies readonly { id: string; label: MessageKey }[];
+
+type ProfileTab = typeof profileTabs[number]['id'];
+
+function isProfileTab(value: string | null): value is ProfileTab {
+  return profileTabs.some(tab => tab.id === value);
 }
 
 export default function Profile() {
   const [error, setError] = useState('');
-  const [message, setMessage] = useState('');
+  const [message, setMessage] = useState<{ text: string; variant: 'success' | 'info' } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [profileImage, setProfileImage] = useState<string | null>(null);
-  const [fetchingUserData, setFetchingUserData] = useState(true);
-  const { currentUser, logout, updateUserProfile } = useAuth();
-  const navigate = useNavigate();
+  const [selectedImage, setSelectedImage] = useState<File | null>(null);
+  const { currentUser, updateUserProfile } = useAuth();
+  const { t } = useLocale();
+  const { showToast } = useToast();
+  const { userData, loading: fetchingUserData } = useUserData(currentUser?.uid);
+  // The open tab lives in the URL so other pages can link straight to it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tabParam = searchParams.get('tab');
+  const activeTab: ProfileTab = isProfileTab(tabParam) ? tabParam : 'details';
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const {
     register,
     handleSubmit,
-    formState: { errors },
-    reset
-  } = useForm<ProfileFormData>({
+    formState: { errors, isDirty },
+    reset,
+    setValue,
+    watch,
+    setError: setFieldError
+  } = useForm<ProfileFormData, unknown, ProfileData>({
     resolver: zodResolver(profileSchema),
     defaultValues: {
       username: currentUser?.displayName || '',
       dob: '',
+      mobileCountry: defaultPhoneCountry(navigator.languages),
       mobileNumber: '',
-      address: '',
+      address: emptyAddress,
     },
   });
+  const addressCountry = watch('address.country');
 
-  // Fetch user data from Firestore on component mount
+  // Fill the form from the saved profile, and keep it current with changes
+  // made elsewhere unless the user is in the middle of editing
   useEffect(() => {
-    async function fetchUserData() {
-      if (!currentUser) return;
-      
-      try {
-        setFetchingUserData(true);
-        const userDocRef = doc(db, "users", currentUser.uid);
-        const userDoc = await getDoc(userDocRef);
-        
-        if (userDoc.exists()) {
-          const userData = userDoc.data() as UserData;
-          
-          // Set profile image if it exists
-          if (userData.photoURL) {
-            setProfileImage(userData.photoURL);
-          } else if (currentUser.photoURL) {
-            setProfileImage(currentUser.photoURL);
-          }
-          
-          // Reset form with retrieved data
-          reset({
-            username: userData.username || currentUser.displayName || '',
-            dob: userData.dob || '',
-            mobileNumber: userData.mobileNumber || '',
-            address: userData.address || '',
-          });
-        } else {
-          // If no document exists, just use the currentUser data
-          reset({
-            username: currentUser.displayName || '',
-            dob: '',
-            mobileNumber: '',
-            address: '',
-          });
-          
-          if (currentUser.photoURL) {
-            setProfileImage(currentUser.photoURL);
-          }
-        }
-      } catch (err) {
-        console.error("Error fetching user data:", err);
-        // We're not setting an error message here anymore
-      } finally {
-        setFetchingUserData(false);
-      }
-    }
-    
-    fetchUserData();
-  }, [currentUser, reset]);
+    if (!currentUser || fetchingUserData || isDirty) return;
 
-  const handleLogout = async () => {
-    try {
-      await logout();
-      navigate('/login');
-    } catch (err) {
-      setError('Failed to log out.');
+    reset({
+      username: userData?.username || currentUser.displayName || '',
+      dob: userData?.dob || '',
+      ...mobileFormValues(userData, defaultPhoneCountry(navigator.languages)),
+      address: userData?.address ?? emptyAddress,
+    });
+
+    const photoURL = userData?.photoURL || currentUser.photoURL;
+    if (photoURL) {
+      setProfileImage(photoURL);
     }
+  }, [currentUser, userData, fetchingUserData, isDirty, reset]);
+
+  const selectTab = (tab: ProfileTab) => {
+    setSearchParams(tab === 'details' ? {} : { tab }, { replace: true });
   };
 
   const handleImageClick = () => {
     fileInputRef.current?.click();
   };
 
-  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still opens the dialog
+    e.target.value = '';
     if (!file) return;
 
     // Check if file is an image
     if (!file.type.startsWith('image/')) {
-      setError('Please select an image file (PNG, JPG, etc.)');
+      setError(t('profile.pictureNotImage'));
       return;
     }
 
-    // Check file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      setError('Image size should be less than 5MB');
+    // The upload is resized and compressed, but very large files are slow to decode
+    if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+      setError(t('profile.pictureTooLarge', { size: MAX_SOURCE_IMAGE_MB }));
       return;
     }
 
+    setError('');
+    setSelectedImage(file);
+  };
+
+  // The picture is saved as soon as it's uploaded, rather than with the rest
+  // of the form, so the one it replaces can be removed straight away
+  const handleImageUploaded = async (urls: AvatarURLs) => {
+    setSelectedImage(null);
+    if (!currentUser) return;
+
     try {
-      setIsLoading(true);
-      const fileRef = ref(storage, `profileImages/${currentUser?.uid}/${Date.now()}-${file.name}`);
-      
-      await uploadBytes(fileRef, file);
-      const downloadURL = await getDownloadURL(fileRef);
-      
-      setProfileImage(downloadURL);
-      setIsLoading(false);
+      setError('');
+      await saveUser(currentUser.uid, { photoURL: urls.large, photoURLs: urls });
+      // The account's picture is what the header shows, at its small size
+      await updateUserProfile({ photoURL: urls.medium });
+      setProfileImage(urls.large);
+      showToast(t('profile.pictureSaved'), { variant: 'success' });
     } catch (err) {
-      setError('Failed to upload image.');
-      setIsLoading(false);
+      console.error("Error saving profile picture:", err);
+      setError(getErrorMessage(err, 'profile.pictureSaveFailed'));
+      return;
     }
+
+    // The picture is saved either way, so only log a failed cleanup
+    deleteOtherAvatars(currentUser.uid, Object.values(urls)).catch(err => {
+      console.error("Error removing old profile pictures:", err);
+    });
   };
 
-  const onSubmit = async (data: ProfileFormData) => {
+  const onSubmit = async (data: ProfileData) => {
     try {
-      setMessage('');
+      setMessage(null);
       setError('');
       setIsLoading(true);
-      
-      // Update user profile with displayName and photoURL
-      await updateUserProfile(data.username, profileImage || undefined);
-      
+
       // Store additional user data in Firestore
       if (currentUser) {
-        await setDoc(doc(db, "users", currentUser.uid), {
+        const profile = {
           username: data.username,
           dob: data.dob,
           mobileNumber: data.mobileNumber,
+          mobileCountry: data.mobileCountry,
+          mobileNumberDisplay: data.mobileNumberDisplay,
           address: data.address,
-          photoURL: profileImage,
-          email: currentUser.email,
-          updatedAt: new Date().toISOString()
-        }, { merge: true });
+          email: currentUser.email || undefined,
+          onboarded: true,
+        };
+        // Offline, the save waits in Firestore's cache rather than holding
+        // up the form
+        const result = await settleWrite(
+          userData
+            ? saveUser(currentUser.uid, profile)
+            // Keeps a picture that came from the account, such as a Google one
+            : createUser(currentUser.uid, { ...profile, photoURL: profileImage || undefined }),
+          {
+            onLateError: err => {
+              console.error("Error syncing profile:", err);
+              showToast(getErrorMessage(err, 'profile.syncFailed'), { variant: 'error' });
+            },
+          }
+        );
+        // The form holds the number as it's dialled, not the E.164 that's stored
+        const { mobileNumberDisplay, ...saved } = data;
+        reset({ ...saved, mobileNumber: mobileNumberDisplay });
+
+        // Update the account's displayName, which needs the network, so a
+        // save made offline catches up once it's back
+        const updateAccount = () => updateUserProfile({ displayName: data.username });
+        if (result === 'savedLocally') {
+          whenOnline(() => {
+            updateAccount().catch(err => console.error("Error updating account profile:", err));
+          });
+          setMessage({ text: t('profile.savedLocally'), variant: 'info' });
+          return;
+        }
+        await updateAccount();
       }
-      
-      setMessage('Profile updated successfully!');
+
+      setMessage({ text: t('profile.saved'), variant: 'success' });
     } catch (err) {
-      setError('Failed to update profile.');
+      setError(reportFormError(
+        err,
+        setFieldError,
+        ['username', 'dob', 'mobileCountry', 'mobileNumber'],
+        'profile.saveFailed'
+      ));
     } finally {
       setIsLoading(false);
     }
   };
 
   return (
-    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
-      <div className="max-w-3xl mx-auto">
-        <div className="bg-white shadow rounded-lg">
-          <div className="px-4 py-5 sm:p-6">
-            <div className="flex items-center justify-between mb-8">
-              <h2 className="text-2xl font-bold text-gray-900">Profile Settings</h2>
-              <Button
-                variant="outline"
-                onClick={handleLogout}
-                className="flex items-center gap-2"
-              >
-                <LogOut className="h-4 w-4" />
-                Sign out
-              </Button>
+    <div className="max-w-3xl mx-auto">
+      <div className="bg-surface shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h2 className="text-2xl font-bold text-foreground mb-8">{t('profile.title')}</h2>
+
+          {error && <Alert variant="error" className="mb-6">{error}</Alert>}
+
+          {message && <Alert variant={message.variant} className="mb-6">{message.text}</Alert>}
+
+          {fetchingUserData ? (
+            <div className="py-10 text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              <p className="mt-2 text-muted">{t('profile.loading')}</p>
             </div>
+          ) : (
+            <>
+              <Tabs
+                tabs={profileTabs.map(tab => ({ id: tab.id, label: t(tab.label) }))}
+                value={activeTab}
+                onChange={selectTab}
+                label={t('profile.sections')}
+                idPrefix="profile"
+              >
+                <div className="pt-8">
+                  {activeTab === 'details' && (
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                      {/* Profile Image Upload */}
+                      <div>
+                        <label htmlFor="profilePicture" className="block text-sm font-medium text-muted mb-2">
+                          {t('profile.picture')}
+                        </label>
+                        <div className="flex items-center">
+                          <button
+                            id="profilePicture"
+                            type="button"
+                            onClick={handleImageClick}
+                            aria-describedby="profilePicture-hint"
+                            className="relative me-4 rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                          >
+                            <div className="h-24 w-24 rounded-full overflow-hidden border-2 border-border bg-surface-muted flex items-center justify-center">
+                              {profileImage ? (
+                                <img 
+                                  src={profileImage} 
+                                  alt={t('profile.pictureAlt')} 
+                                  className="h-full w-full object-cover"
+                                />
+                              ) : (
+                                <User className="h-12 w-12 text-faint" aria-hidden="true" />
+                              )}
+                            </div>
+                            <div className="absolute bottom-0 end-0 bg-primary rounded-full p-1">
+                              <Upload className="h-4 w-4 text-primary-foreground" aria-hidden="true" />
+                            </div>
+                          </button>
+                          <div>
+                            <input
+                              type="file"
+                              accept="image/png, image/jpeg, image/jpg, image/webp"
+                              onChange={handleImageChange}
+                              ref={fileInputRef}
+                              className="hidden"
+                            />
+                            <p id="profilePicture-hint" className="text-sm text-muted">
+                              {t('profile.pictureHint')}
+                            </p>
+                            <p className="text-xs text-muted mt-1">
+                              {t('profile.pictureMaxSize', { size: MAX_SOURCE_IMAGE_MB })}
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+
+                      <FormField id="email" label={t('profile.email')} hint={t('profile.emailHint')}>
+                        <Input type="email" value={currentUser?.email || ''} disabled className="bg-surface-muted" />
+                      </FormField>
+
+                      <FormField
+                        id="username"
+                        label={t('common.username')}
+                        icon={User}
+                        error={errors.username?.message}
+                      >
+                        <Input type="text" {...register('username')} />
+                      </FormField>
 
-            {error && (
-              <div className="flex items-center gap-2 p-4 mb-6 text-sm text-red-500 bg-red-50 rounded-md">
-                <AlertCircle className="h-4 w-4" />
-                <p>{error}</p>
-              </div>
-            )}
-
-            {message && (
-              <div className="flex items-center gap-2 p-4 mb-6 text-sm text-green-500 bg-green-50 rounded-md">
-                <CheckCircle2 className="h-4 w-4" />
-                <p>{message}</p>
-              </div>
-            )}
-
-            {fetchingUserData ? (
-              <div className="py-10 text-center">
-                <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
-                <p className="mt-2 text-gray-600">Loading profile...</p>
-              </div>
-            ) : (
-              <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-                {/* Profile Image Upload */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Profile Picture
-                  </label>
-                  <div className="flex items-center">
-                    <div 
-                      onClick={handleImageClick} 
-                      className="relative cursor-pointer mr-4"
-                    >
-                      <div className="h-24 w-24 rounded-full overflow-hidden border-2 border-gray-200 bg-gray-100 flex items-center justify-center">
-                        {profileImage ? (
-                          <img 
-                            src={profileImage} 
-                            alt="Profile" 
-                            className="h-full w-full object-cover"
+                      <FormField
+                        id="dob"
+                        label={t('common.dateOfBirth')}
+                        icon={Calendar}
+                        error={errors.dob?.message}
+                      >
+                        <DatePicker {...register('dob')} />
+                      </FormField>
+
+                      <FormField
+                        id="mobileNumber"
+                        label={t('common.mobileNumber')}
+                        error={errors.mobileNumber?.message}
+                      >
+                        <PhoneInput
+                          countryProps={register('mobileCountry')}
+                          countryError={errors.mobileCountry?.message}
+                          {...register('mobileNumber')}
+                        />
+                      </FormField>
+
+                      <fieldset>
+                        <legend className="text-sm font-medium text-muted">{t('common.address')}</legend>
+                        <div className="mt-2">
+                          <AddressFields
+                            register={register}
+                            setValue={setValue}
+                            errors={errors.address}
+                            country={addressCountry}
                           />
-                        ) : (
-                          <User className="h-12 w-12 text-gray-400" />
-                        )}
-                      </div>
-                      <div className="absolute bottom-0 right-0 bg-blue-600 rounded-full p-1">
-                        <Upload className="h-4 w-4 text-white" />
-                      </div>
-                    </div>
-                    <div>
-                      <input
-                        type="file"
-                        accept="image/png, image/jpeg, image/jpg"
-                        onChange={handleImageChange}
-                        ref={fileInputRef}
-                        className="hidden"
-                      />
-                      <p className="text-sm text-gray-500">
-                        Click to upload a profile picture (JPG, PNG)
-                      </p>
-                      <p className="text-xs text-gray-400 mt-1">
-                        Max file size: 5MB
-                      </p>
-                    </div>
-                  </div>
-                </div>
+                        </div>
+                      </fieldset>
 
-                <div>
-                  <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                    Email
-                  </label>
-                  <Input
-                    type="email"
-                    value={currentUser?.email || ''}
-                    disabled
-                    className="mt-1 bg-gray-50"
-                  />
-                  <p className="mt-1 text-sm text-gray-500">
-                    Your email address cannot be changed
-                  </p>
-                </div>
+                      <div className="flex justify-end">
+                        <Button
+                          type="submit"
+                          className="flex justify-center py-2 px-4"
+                          isLoading={isLoading}
+                        >
+                          {t('profile.save')}
+                        </Button>
+                      </div>
+                    </form>
+                  )}
 
-                <div>
-                  <label htmlFor="username" className="block text-sm font-medium text-gray-700">
-                    Username
-                  </label>
-                  <div className="mt-1 relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <User className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <Input
-                      id="username"
-                      type="text"
-                      className="pl-10"
-                      error={errors.username?.message}
-                      {...register('username')}
-                    />
-                  </div>
-                </div>
+                  {activeTab === 'preferences' && <PreferencesForm userData={userData} />}
 
-                <div>
-                  <label htmlFor="dob" className="block text-sm font-medium text-gray-700">
-                    Date of Birth
-                  </label>
-                  <div className="mt-1 relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Calendar className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <Input
-                      id="dob"
-                      type="date"
-                      className="pl-10"
-                      error={errors.dob?.message}
-                      {...register('dob')}
-                    />
-                  </div>
-                </div>
+                  {activeTab === 'companions' && <CompanionsForm userData={userData} />}
 
-                <div>
-                  <label htmlFor="mobileNumber" className="block text-sm font-medium text-gray-700">
-                    Mobile Number
-                  </label>
-                  <div className="mt-1 relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Phone className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <Input
-                      id="mobileNumber"
-                      type="tel"
-                      className="pl-10"
-                      placeholder="+1 (123) 456-7890"
-                      error={errors.mobileNumber?.message}
-                      {...register('mobileNumber')}
-                    />
-                  </div>
-                </div>
+                  {activeTab === 'documents' && <TravelDocuments companions={userData?.companions ?? []} />}
 
-                <div>
-                  <label htmlFor="address" className="block text-sm font-medium text-gray-700">
-                    Address
-                  </label>
-                  <div className="mt-1 relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <MapPin className="h-5 w-5 text-gray-400" />
+                  {activeTab === 'security' && (
+                    <div className="space-y-10">
+                      <PhoneVerification
+                        mobileNumber={userData?.mobileNumber}
+                        mobileCountry={userData?.mobileCountry}
+                      />
+                      <div className="pt-8 border-t border-border">
+                        <MfaEnrollment
+                          mobileNumber={userData?.mobileNumber}
+                          mobileCountry={userData?.mobileCountry}
+                        />
+                      </div>
+                      <div className="pt-8 border-t border-border">
+                        <ConnectedAccounts />
+                      </div>
+                      <div className="pt-8 border-t border-border">
+                        <AccountSecurity />
+                      </div>
                     </div>
-                    <Input
-                      id="address"
-                      type="text"
-                      className="pl-10"
-                      error={errors.address?.message}
-                      {...register('address')}
-                    />
-                  </div>
+                  )}
                 </div>
+              </Tabs>
+            </>
+          )}
 
-                <div className="flex justify-end">
-                  <Button
-                    type="submit"
-                    className="flex justify-center py-2 px-4"
-                    isLoading={isLoading}
-                  >
-                    Save Changes
-                  </Button>
-                </div>
-              </form>
-            )}
-          </div>
+          {selectedImage && (
+            <AvatarCropDialog
+              file={selectedImage}
+              onUploaded={handleImageUploaded}
+              onCancel={() => setSelectedImage(null)}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,81 @@
+import { Route, Routes } from 'react-router-dom';
+import { doc, getDoc } from 'firebase/firestore';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import SignUp from './SignUp';
+import { auth, db } from '../lib/firebase';
+import LocationDisplay from '../test/LocationDisplay';
+import { renderWithAuth } from '../test/render';
+import { resetEmulators, seedUser, travellerFixture } from '../test/fixtures';
+
+function renderSignUp() {
+  return renderWithAuth(
+    <Routes>
+      <Route path="/signup" element={<SignUp />} />
+      <Route path="*" element={<LocationDisplay />} />
+    </Routes>,
+    { route: '/signup' }
+  );
+}
+
+async function fillInForm(email: string, dob = '1990-01-01') {
+  const user = userEvent.setup();
+  await user.type(await screen.findByLabelText('Username'), 'newtraveller');
+  await user.type(screen.getByLabelText('Email address'), email);
+  await user.type(screen.getByLabelText('Date of Birth'), dob);
+  await user.type(screen.getByLabelText('Password'), 'new-user-password');
+  await user.type(screen.getByLabelText('Confirm Password'), 'new-user-password');
+  await user.click(screen.getByRole('button', { name: 'Sign up' }));
+}
+
+describe('SignUp', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+  });
+
+  it('creates the account and asks the user to verify their email', async () => {
+    renderSignUp();
+
+    await fillInForm('new.user@example.com');
+
+    expect(await screen.findByTestId('location')).toHaveTextContent('/verify-email');
+    expect(auth.currentUser?.email).toBe('new.user@example.com');
+    expect(auth.currentUser?.emailVerified).toBe(false);
+
+    const profile = await getDoc(doc(db, 'users', auth.currentUser!.uid));
+    expect(profile.data()).toMatchObject({ username: 'newtraveller', dob: '1990-01-01' });
+  });
+
+  it('turns away anyone under 18', async () => {
+    const today = new Date();
+    const dob = `${today.getFullYear() - 17}-01-01`;
+    renderSignUp();
+
+    await fillInForm('young.user@example.com', dob);
+
+    expect(await screen.findByText('You must be at least 18 years old')).toBeInTheDocument();
+    expect(auth.currentUser).toBeNull();
+  });
+
+  it('flags an email address that is already registered', async () => {
+    await seedUser(travellerFixture);
+    renderSignUp();
+
+    await fillInForm(travellerFixture.email);
+
+    expect(await screen.findByText('An account already exists with this email address.')).toBeInTheDocument();
+    expect(screen.queryByTestId('location')).not.toBeInTheDocument();
+  });
+
+  it('requires matching passwords', async () => {
+    const user = userEvent.setup();
+    renderSignUp();
+
+    await user.type(await screen.findByLabelText('Password'), 'new-user-password');
+    await user.type(screen.getByLabelText('Confirm Password'), 'something-else');
+    await user.click(screen.getByRole('button', { name: 'Sign up' }));
+
+    expect(await screen.findByText("Passwords don't match")).toBeInTheDocument();
+  });
+});
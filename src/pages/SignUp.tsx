@@ -3,21 +3,29 @@ import { useNavigate, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Mail, Lock, User, AlertCircle } from 'lucide-react';
+import { Mail, Lock, User, Calendar } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
 import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
 import { Input } from '../components/ui/Input';
+import { FormField } from '../components/ui/FormField';
+import { DatePicker } from '../components/ui/DatePicker';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import ThemeSwitcher from '../components/ThemeSwitcher';
+import { reportFormError } from '../lib/errors';
+import { withNext } from '../lib/redirect';
+import { useRedirectTarget } from '../hooks/useRedirectTarget';
+import { dobSchema, usernameSchema } from '../lib/profile';
 
 const signUpSchema = z.object({
-  username: z.string().min(3, 'Username must be at least 3 characters'),
-  email: z.string().email('Please enter a valid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  username: usernameSchema,
+  email: z.string().email('validation.emailInvalid'),
+  dob: dobSchema,
+  password: z.string().min(6, 'validation.passwordTooShort'),
   confirmPassword: z.string(),
-  age: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 18, {
-    message: 'You must be at least 18 years old',
-  }),
 }).refine((data) => data.password === data.confirmPassword, {
-  message: "Passwords don't match",
+  message: 'validation.passwordsDontMatch',
   path: ['confirmPassword'],
 });
 
@@ -26,13 +34,16 @@ type SignUpFormData = z.infer<typeof signUpSchema>;
 export default function SignUp() {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { signUp, updateUserProfile } = useAuth();
+  const { signUp } = useAuth();
+  const { t } = useLocale();
   const navigate = useNavigate();
+  const redirectTo = useRedirectTarget();
 
   const {
     register,
     handleSubmit,
     formState: { errors },
+    setError: setFieldError,
   } = useForm<SignUpFormData>({
     resolver: zodResolver(signUpSchema),
   });
@@ -41,125 +52,77 @@ export default function SignUp() {
     try {
       setError('');
       setIsLoading(true);
-      await signUp(data.email, data.password);
-      await updateUserProfile(data.username);
-      navigate('/profile');
+      await signUp(data.email, data.password, { username: data.username, dob: data.dob });
+      navigate(withNext('/verify-email', redirectTo), { replace: true });
     } catch (err) {
-      setError('Failed to create an account.');
+      setError(reportFormError(
+        err,
+        setFieldError,
+        ['username', 'email', 'dob', 'password'],
+        'signUp.failed'
+      ));
     } finally {
       setIsLoading(false);
     }
   };
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
+        <div className="flex flex-wrap justify-end gap-4">
+          <ThemeSwitcher />
+          <LocaleSwitcher />
+        </div>
         <div>
-          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            Create your account
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            {t('signUp.title')}
           </h2>
         </div>
 
-        {error && (
-          <div className="flex items-center gap-2 p-4 text-sm text-red-500 bg-red-50 rounded-md">
-            <AlertCircle className="h-4 w-4" />
-            <p>{error}</p>
-          </div>
-        )}
+        {error && <Alert variant="error">{error}</Alert>}
 
         <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
           <div className="space-y-6">
-            <div>
-              <label htmlFor="username" className="block text-sm font-medium text-gray-700">
-                Username
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <User className="h-5 w-5 text-gray-400" />
-                </div>
-                <Input
-                  id="username"
-                  type="text"
-                  className="pl-10"
-                  error={errors.username?.message}
-                  {...register('username')}
-                />
-              </div>
-            </div>
+            <FormField
+              id="username"
+              label={t('common.username')}
+              icon={User}
+              error={errors.username?.message}
+            >
+              <Input type="text" {...register('username')} />
+            </FormField>
 
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Mail className="h-5 w-5 text-gray-400" />
-                </div>
-                <Input
-                  id="email"
-                  type="email"
-                  className="pl-10"
-                  error={errors.email?.message}
-                  {...register('email')}
-                />
-              </div>
-            </div>
+            <FormField id="email" label={t('common.emailAddress')} icon={Mail} error={errors.email?.message}>
+              <Input type="email" {...register('email')} />
+            </FormField>
 
-            <div>
-              <label htmlFor="age" className="block text-sm font-medium text-gray-700">
-                Age
-              </label>
-              <div className="mt-1">
-                <Input
-                  id="age"
-                  type="number"
-                  error={errors.age?.message}
-                  {...register('age')}
-                />
-              </div>
-            </div>
+            <FormField id="dob" label={t('common.dateOfBirth')} icon={Calendar} error={errors.dob?.message}>
+              <DatePicker {...register('dob')} />
+            </FormField>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Lock className="h-5 w-5 text-gray-400" />
-                </div>
-                <Input
-                  id="password"
-                  type="password"
-                  className="pl-10"
-                  error={errors.password?.message}
-                  {...register('password')}
-                />
-              </div>
-            </div>
+            <FormField
+              id="password"
+              label={t('common.password')}
+              icon={Lock}
+              error={errors.password?.message}
+            >
+              <Input type="password" {...register('password')} />
+            </FormField>
 
-            <div>
-              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
-                Confirm Password
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Lock className="h-5 w-5 text-gray-400" />
-                </div>
-                <Input
-                  id="confirmPassword"
-                  type="password"
-                  className="pl-10"
-                  error={errors.confirmPassword?.message}
-                  {...register('confirmPassword')}
-                />
-              </div>
-            </div>
+            <FormField
+              id="confirmPassword"
+              label={t('signUp.confirmPassword')}
+              icon={Lock}
+              error={errors.confirmPassword?.message}
+            >
+              <Input type="password" {...register('confirmPassword')} />
+            </FormField>
           </div>
 
           <div className="flex items-center justify-end">
             <div className="text-sm">
-              <Link to="/login" className="font-medium text-blue-600 hover:text-blue-500">
-                Already have an account? Sign in
+              <Link to={withNext('/login', redirectTo)} className="font-medium text-primary hover:text-primary-hover">
+                {t('signUp.signIn')}
               </Link>
             </div>
           </div>
@@ -169,7 +132,7 @@ export default function SignUp() {
             className="w-full flex justify-center py-2 px-4"
             isLoading={isLoading}
           >
-            Sign up
+            {t('signUp.submit')}
           </Button>
         </form>
       </div>
@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Control, FieldErrors, UseFormRegister, useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Calendar, MapPin, Plus, Trash2, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
+import { Input } from '../components/ui/Input';
+import { FormField } from '../components/ui/FormField';
+import { DatePicker } from '../components/ui/DatePicker';
+import { createTrip, getTrip, tripSchema, TripFormData, updateTrip } from '../lib/trips';
+import { getErrorMessage } from '../lib/errors';
+
+const emptyTrip: TripFormData = {
+  destination: '',
+  startDate: '',
+  endDate: '',
+  travellers: 1,
+  days: [],
+};
+
+interface DayItemsProps {
+  dayIndex: number;
+  control: Control<TripFormData>;
+  register: UseFormRegister<TripFormData>;
+  errors: FieldErrors<TripFormData>;
+}
+
+function DayItems({ dayIndex, control, register, errors }: DayItemsProps) {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: `days.${dayIndex}.items`,
+  });
+  const { t } = useLocale();
+
+  return (
+    <div className="space-y-6">
+      {fields.map((field, itemIndex) => (
+        <div key={field.id} className="grid grid-cols-1 gap-x-3 gap-y-6 sm:grid-cols-12 items-start">
+          <div className="sm:col-span-2">
+            <Input
+              type="time"
+              aria-label={t('tripEditor.time')}
+              {...register(`days.${dayIndex}.items.${itemIndex}.time`)}
+            />
+          </div>
+          <div className="sm:col-span-4">
+            <Input
+              type="text"
+              placeholder={t('tripEditor.activity')}
+              aria-label={t('tripEditor.activity')}
+              error={errors.days?.[dayIndex]?.items?.[itemIndex]?.title?.message}
+              {...register(`days.${dayIndex}.items.${itemIndex}.title`)}
+            />
+          </div>
+          <div className="sm:col-span-5">
+            <Input
+              type="text"
+              placeholder={t('tripEditor.location')}
+              aria-label={t('tripEditor.location')}
+              {...register(`days.${dayIndex}.items.${itemIndex}.location`)}
+            />
+          </div>
+          <div className="sm:col-span-1 flex justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-10"
+              onClick={() => remove(itemIndex)}
+              aria-label={t('tripEditor.removeActivity')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="secondary"
+        size="sm"
+        onClick={() => append({ time: '', title: '', location: '', notes: '' })}
+        className="flex items-center gap-1"
+      >
+        <Plus className="h-4 w-4" />
+        {t('tripEditor.addActivity')}
+      </Button>
+    </div>
+  );
+}
+
+export default function TripEditor() {
+  const { tripId } = useParams();
+  const isEditing = Boolean(tripId);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [fetchingTrip, setFetchingTrip] = useState(isEditing);
+  const [notFound, setNotFound] = useState(false);
+  const { currentUser } = useAuth();
+  const { t } = useLocale();
+  const navigate = useNavigate();
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    getValues,
+  } = useForm<TripFormData>({
+    resolver: zodResolver(tripSchema),
+    defaultValues: emptyTrip,
+  });
+
+  const { fields: days, append: appendDay, remove: removeDay } = useFieldArray({
+    control,
+    name: 'days',
+  });
+
+  // Load the existing trip when editing
+  useEffect(() => {
+    async function fetchTrip() {
+      if (!currentUser || !tripId) return;
+
+      try {
+        setFetchingTrip(true);
+        const trip = await getTrip(currentUser.uid, tripId);
+
+        if (!trip) {
+          setNotFound(true);
+          return;
+        }
+
+        reset({
+          destination: trip.destination,
+          startDate: trip.startDate,
+          endDate: trip.endDate,
+          travellers: trip.travellers,
+          days: trip.days || [],
+        });
+      } catch (err) {
+        console.error("Error fetching trip:", err);
+        setError(getErrorMessage(err, 'tripEditor.loadFailed'));
+      } finally {
+        setFetchingTrip(false);
+      }
+    }
+
+    fetchTrip();
+  }, [currentUser, tripId, reset]);
+
+  const handleAddDay = () => {
+    // Default the new day to the one after the last planned day
+    const { startDate, days: currentDays } = getValues();
+    const lastDate = currentDays.length ? currentDays[currentDays.length - 1].date : '';
+    let date = startDate;
+    if (lastDate) {
+      const next = new Date(`${lastDate}T00:00:00`);
+      next.setDate(next.getDate() + 1);
+      date = [
+        next.getFullYear(),
+        String(next.getMonth() + 1).padStart(2, '0'),
+        String(next.getDate()).padStart(2, '0'),
+      ].join('-');
+    }
+    appendDay({ date, items: [] });
+  };
+
+  const onSubmit = async (data: TripFormData) => {
+    if (!currentUser) return;
+
+    try {
+      setError('');
+      setIsLoading(true);
+
+      if (tripId) {
+        await updateTrip(currentUser.uid, tripId, data);
+      } else {
+        await createTrip(currentUser.uid, data);
+      }
+
+      navigate('/trips');
+    } catch (err) {
+      console.error("Error saving trip:", err);
+      setError(getErrorMessage(err, 'tripEditor.saveFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="bg-surface shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-foreground">
+              {t(isEditing ? 'tripEditor.editTitle' : 'tripEditor.newTitle')}
+            </h2>
+          </div>
+
+          {notFound && <Alert variant="error" className="mb-6">{t('tripEditor.notFound')}</Alert>}
+
+          {error && <Alert variant="error" className="mb-6">{error}</Alert>}
+
+          {fetchingTrip ? (
+            <div className="py-10 text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              <p className="mt-2 text-muted">{t('tripEditor.loading')}</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              <FormField
+                id="destination"
+                label={t('tripEditor.destination')}
+                icon={MapPin}
+                error={errors.destination?.message}
+              >
+                <Input type="text" placeholder={t('tripEditor.destinationPlaceholder')} {...register('destination')} />
+              </FormField>
+
+              <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                <FormField
+                  id="startDate"
+                  label={t('tripEditor.startDate')}
+                  icon={Calendar}
+                  error={errors.startDate?.message}
+                >
+                  <DatePicker {...register('startDate')} />
+                </FormField>
+
+                <FormField id="endDate" label={t('tripEditor.endDate')} icon={Calendar} error={errors.endDate?.message}>
+                  <DatePicker {...register('endDate')} />
+                </FormField>
+              </div>
+
+              <FormField id="travellers" label={t('tripEditor.travellers')} icon={Users} error={errors.travellers?.message}>
+                <Input type="number" min={1} {...register('travellers', { valueAsNumber: true })} />
+              </FormField>
+
+              {/* Day-by-day itinerary */}
+              <div className="pt-2">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-foreground">{t('tripEditor.itinerary')}</h3>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={handleAddDay}
+                    className="flex items-center gap-1"
+                  >
+                    <Plus className="h-4 w-4" />
+                    {t('tripEditor.addDay')}
+                  </Button>
+                </div>
+
+                {days.length === 0 ? (
+                  <p className="text-sm text-subtle">{t('tripEditor.noDays')}</p>
+                ) : (
+                  <div className="space-y-6">
+                    {days.map((day, dayIndex) => (
+                      <div key={day.id} className="rounded-md border border-border p-4 space-y-6">
+                        <div className="flex items-start justify-between gap-4">
+                          <FormField
+                            id={`days.${dayIndex}.date`}
+                            label={t('tripEditor.day', { day: dayIndex + 1 })}
+                            error={errors.days?.[dayIndex]?.date?.message}
+                            className="flex-1"
+                          >
+                            <DatePicker {...register(`days.${dayIndex}.date`)} />
+                          </FormField>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="mt-6 h-10"
+                            onClick={() => removeDay(dayIndex)}
+                            aria-label={t('tripEditor.removeDay', { day: dayIndex + 1 })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+
+                        <DayItems
+                          dayIndex={dayIndex}
+                          control={control}
+                          register={register}
+                          errors={errors}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => navigate('/trips')}>
+                  {t('common.cancel')}
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex justify-center py-2 px-4"
+                  isLoading={isLoading}
+                >
+                  {t(isEditing ? 'tripEditor.save' : 'tripEditor.create')}
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
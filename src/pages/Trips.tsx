@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Calendar, MapPin, Pencil, Plus, Trash2, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
+import { deleteTrip, listTrips, Trip } from '../lib/trips';
+import { getErrorMessage } from '../lib/errors';
+
+export default function Trips() {
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [error, setError] = useState('');
+  const [fetchingTrips, setFetchingTrips] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const { currentUser } = useAuth();
+  const { t, formatDateRange } = useLocale();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    async function fetchTrips() {
+      if (!currentUser) return;
+
+      try {
+        setFetchingTrips(true);
+        setTrips(await listTrips(currentUser.uid));
+      } catch (err) {
+        console.error("Error fetching trips:", err);
+        setError(getErrorMessage(err, 'trips.loadFailed'));
+      } finally {
+        setFetchingTrips(false);
+      }
+    }
+
+    fetchTrips();
+  }, [currentUser]);
+
+  const handleDelete = async (trip: Trip) => {
+    if (!currentUser) return;
+    if (!window.confirm(t('trips.deleteConfirm', { destination: trip.destination }))) return;
+
+    try {
+      setError('');
+      setDeletingId(trip.id);
+      await deleteTrip(currentUser.uid, trip.id);
+      setTrips(prev => prev.filter(other => other.id !== trip.id));
+    } catch (err) {
+      console.error("Error deleting trip:", err);
+      setError(getErrorMessage(err, 'trips.deleteFailed'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="bg-surface shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-8">
+            <h2 className="text-2xl font-bold text-foreground">{t('trips.title')}</h2>
+            <Button onClick={() => navigate('/trips/new')} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              {t('trips.new')}
+            </Button>
+          </div>
+
+          {error && <Alert variant="error" className="mb-6">{error}</Alert>}
+
+          {fetchingTrips ? (
+            <div className="py-10 text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
+              <p className="mt-2 text-muted">{t('trips.loading')}</p>
+            </div>
+          ) : trips.length === 0 ? (
+            <div className="py-10 text-center">
+              <MapPin className="mx-auto h-10 w-10 text-faint" />
+              <p className="mt-2 text-muted">{t('trips.empty')}</p>
+              <Button
+                variant="outline"
+                onClick={() => navigate('/trips/new')}
+                className="mt-4"
+              >
+                {t('trips.planFirst')}
+              </Button>
+            </div>
+          ) : (
+            <ul className="divide-y divide-border">
+              {trips.map(trip => (
+                <li key={trip.id} className="flex items-center justify-between py-4">
+                  <div>
+                    <p className="text-lg font-medium text-foreground">{trip.destination}</p>
+                    <div className="mt-1 flex flex-wrap items-center gap-4 text-sm text-subtle">
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-4 w-4" />
+                        {formatDateRange(trip.startDate, trip.endDate)}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Users className="h-4 w-4" />
+                        {t('trips.travellers', { count: trip.travellers })}
+                      </span>
+                      <span>{t('trips.daysPlanned', { count: trip.days.length })}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate(`/trips/${trip.id}`)}
+                      aria-label={t('trips.edit', { destination: trip.destination })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(trip)}
+                      isLoading={deletingId === trip.id}
+                      aria-label={t('trips.delete', { destination: trip.destination })}
+                    >
+                      <Trash2 className="h-4 w-4 text-danger" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { MailCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/locale';
+import { Button } from '../components/ui/Button';
+import { Alert } from '../components/ui/Alert';
+import { getErrorMessage } from '../lib/errors';
+import { withNext } from '../lib/redirect';
+import { useRedirectTarget } from '../hooks/useRedirectTarget';
+
+const POLL_INTERVAL_MS = 5000;
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export default function VerifyEmail() {
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+  const { currentUser, emailVerified, sendVerificationEmail, reloadUser, logout } = useAuth();
+  const { t } = useLocale();
+  const navigate = useNavigate();
+  const redirectTo = useRedirectTarget();
+
+  // Poll until the user clicks the link in their inbox (possibly on another device)
+  useEffect(() => {
+    if (!currentUser || emailVerified) return;
+
+    const interval = setInterval(() => {
+      reloadUser().catch(err => console.error("Error reloading user:", err));
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [currentUser, emailVerified, reloadUser]);
+
+  useEffect(() => {
+    if (emailVerified) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [emailVerified, navigate, redirectTo]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timeout = setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [cooldown]);
+
+  if (!currentUser) {
+    return <Navigate to={withNext('/login', redirectTo)} replace />;
+  }
+
+  const handleResend = async () => {
+    try {
+      setMessage('');
+      setError('');
+      setIsLoading(true);
+      await sendVerificationEmail();
+      setMessage(t('verifyEmail.sent'));
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (err) {
+      console.error("Error sending verification email:", err);
+      setError(getErrorMessage(err, 'verifyEmail.sendFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    try {
+      setMessage('');
+      setError('');
+      const verified = await reloadUser();
+      if (!verified) {
+        setError(t('verifyEmail.notVerified'));
+      }
+    } catch (err) {
+      console.error("Error reloading user:", err);
+      setError(getErrorMessage(err, 'verifyEmail.checkFailed'));
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      navigate('/login');
+    } catch (err) {
+      console.error("Error signing out:", err);
+      setError(getErrorMessage(err, 'verifyEmail.signOutFailed'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <MailCheck className="mx-auto h-12 w-12 text-primary" />
+          <h2 className="mt-6 text-3xl font-extrabold text-foreground">
+            {t('verifyEmail.title')}
+          </h2>
+          <p className="mt-2 text-sm text-muted">
+            {t('verifyEmail.intro', { email: currentUser.email ?? '' })}
+          </p>
+        </div>
+
+        {error && <Alert variant="error">{error}</Alert>}
+
+        {message && <Alert variant="success">{message}</Alert>}
+
+        <div className="space-y-4">
+          <Button type="button" className="w-full" onClick={handleCheck}>
+            {t('verifyEmail.check')}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={handleResend}
+            isLoading={isLoading}
+            disabled={isLoading || cooldown > 0}
+          >
+            {cooldown > 0 ? t('verifyEmail.resendIn', { seconds: cooldown }) : t('verifyEmail.resend')}
+          </Button>
+        </div>
+
+        <div className="text-center text-sm">
+          <button
+            type="button"
+            onClick={handleLogout}
+            className="font-medium text-primary hover:text-primary-hover"
+          >
+            {t('verifyEmail.differentAccount')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import { useLocation } from 'react-router-dom';
+
+// Stand-in page for asserting where a flow navigated to
+export default function LocationDisplay() {
+  const location = useLocation();
+  return <div data-testid="location">{location.pathname + location.search}</div>;
+}
@@ -0,0 +1,128 @@
+// Structural accessibility checks for rendered components: the WCAG failures
+// that can be found from the DOM alone, without a browser's layout. Each
+// violation reads "<rule>: <element>" so a failing test shows what to fix.
+
+const CONTROL_SELECTOR = [
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  '[role="checkbox"]',
+  '[role="combobox"]',
+  '[role="slider"]',
+  '[role="textbox"]',
+].join(', ');
+
+const INTERACTIVE_SELECTOR = 'a[href], button, input, select, textarea';
+
+function describeElement(element: Element) {
+  const attributes = ['id', 'role', 'type', 'name', 'aria-label']
+    .map(name => element.getAttribute(name) && `${name}="${element.getAttribute(name)}"`)
+    .filter(Boolean)
+    .join(' ');
+  return `<${element.tagName.toLowerCase()}${attributes ? ` ${attributes}` : ''}>`;
+}
+
+// Text a screen reader would read, leaving out decorative icons
+function visibleText(element: Element) {
+  const clone = element.cloneNode(true) as Element;
+  clone.querySelectorAll('[aria-hidden="true"]').forEach(hidden => hidden.remove());
+  const altText = Array.from(clone.querySelectorAll('img[alt]')).map(img => img.getAttribute('alt'));
+  return [clone.textContent, ...altText].join(' ').trim();
+}
+
+function referencedIds(element: Element, attribute: string) {
+  return (element.getAttribute(attribute) ?? '').split(/\s+/).filter(Boolean);
+}
+
+function hasAccessibleName(element: Element) {
+  if (element.getAttribute('aria-label')?.trim()) return true;
+  if (element.getAttribute('title')?.trim()) return true;
+  if (referencedIds(element, 'aria-labelledby').some(id => document.getElementById(id)?.textContent?.trim())) {
+    return true;
+  }
+  if (element.id) {
+    // Ids from useId have colons in them, so they're compared rather than
+    // put in a selector
+    const labels = Array.from(document.querySelectorAll<HTMLLabelElement>('label[for]'));
+    if (labels.some(label => label.htmlFor === element.id && visibleText(label))) return true;
+  }
+  const wrappingLabel = element.closest('label');
+  return !!wrappingLabel && !!visibleText(wrappingLabel);
+}
+
+export function findAccessibilityViolations(container: Element = document.body): string[] {
+  const violations: string[] = [];
+  const report = (rule: string, element: Element) => violations.push(`${rule}: ${describeElement(element)}`);
+  const all = Array.from(container.querySelectorAll('*'));
+
+  const seenIds = new Set<string>();
+  for (const element of all) {
+    if (!element.id) continue;
+    if (seenIds.has(element.id)) report('duplicate-id', element);
+    seenIds.add(element.id);
+  }
+
+  for (const element of all) {
+    for (const attribute of ['aria-labelledby', 'aria-describedby', 'aria-controls']) {
+      if (referencedIds(element, attribute).some(id => !document.getElementById(id))) {
+        report(`broken-${attribute}`, element);
+      }
+    }
+    const tabIndex = element.getAttribute('tabindex');
+    if (tabIndex && Number(tabIndex) > 0) report('positive-tabindex', element);
+  }
+
+  container.querySelectorAll('label[for]').forEach(label => {
+    if (!document.getElementById(label.getAttribute('for') ?? '')) report('label-for-missing-control', label);
+  });
+
+  container.querySelectorAll(CONTROL_SELECTOR).forEach(control => {
+    if (!hasAccessibleName(control)) report('control-name', control);
+  });
+
+  container.querySelectorAll('button, a[href], [role="button"], [role="tab"]').forEach(element => {
+    if (!visibleText(element) && !hasAccessibleName(element)) report('button-name', element);
+    if (element.parentElement?.closest(INTERACTIVE_SELECTOR)) report('nested-interactive', element);
+  });
+
+  container.querySelectorAll('img').forEach(img => {
+    if (!img.hasAttribute('alt')) report('image-alt', img);
+  });
+
+  container.querySelectorAll('[aria-invalid="true"]').forEach(control => {
+    if (!control.getAttribute('aria-describedby')) report('invalid-without-message', control);
+  });
+
+  container.querySelectorAll('[role="tab"]').forEach(tab => {
+    if (!tab.closest('[role="tablist"]')) report('tab-outside-tablist', tab);
+    if (!tab.hasAttribute('aria-selected')) report('tab-without-aria-selected', tab);
+  });
+  container.querySelectorAll('[role="tablist"]').forEach(tablist => {
+    const selected = tablist.querySelectorAll('[role="tab"][aria-selected="true"]');
+    if (selected.length !== 1) report('tablist-selection', tablist);
+  });
+  container.querySelectorAll('[role="tabpanel"]').forEach(panel => {
+    if (!panel.getAttribute('aria-labelledby')) report('tabpanel-name', panel);
+  });
+
+  container.querySelectorAll('[role="dialog"], [role="alertdialog"]').forEach(dialog => {
+    if (!hasAccessibleName(dialog)) report('dialog-name', dialog);
+    if (dialog.getAttribute('aria-modal') !== 'true') report('dialog-not-modal', dialog);
+  });
+
+  return violations;
+}
+
+// Relative luminance of a #rgb or #rrggbb colour, as WCAG defines it
+function luminance(color: string) {
+  const hex = color.length === 4 ? `#${[...color.slice(1)].map(c => c + c).join('')}` : color;
+  const channels = [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16) / 255);
+  const [r, g, b] = channels.map(c => (c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// WCAG AA wants 4.5:1 for text and 3:1 for large text and the edges of controls
+export function contrastRatio(foreground: string, background: string) {
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
@@ -0,0 +1,114 @@
+// REST helpers for the Firebase Emulator Suite. Requests made with the
+// `Bearer owner` token act as an admin and bypass security rules.
+export const EMULATOR_PROJECT_ID = 'demo-partha';
+export const EMULATOR_API_KEY = 'demo-api-key';
+export const EMULATOR_HOST = import.meta.env.VITE_FIREBASE_EMULATOR_HOST || '127.0.0.1';
+export const EMULATOR_PORTS = {
+  auth: 9099,
+  firestore: 8080,
+  storage: 9199,
+};
+
+const authUrl = `http://${EMULATOR_HOST}:${EMULATOR_PORTS.auth}`;
+const firestoreUrl = `http://${EMULATOR_HOST}:${EMULATOR_PORTS.firestore}`;
+const documentsPath = `projects/${EMULATOR_PROJECT_ID}/databases/(default)/documents`;
+const ownerHeaders = {
+  'Content-Type': 'application/json',
+  Authorization: 'Bearer owner',
+};
+
+type FirestoreValue =
+  | { nullValue: null }
+  | { booleanValue: boolean }
+  | { integerValue: string }
+  | { doubleValue: number }
+  | { stringValue: string }
+  | { arrayValue: { values: FirestoreValue[] } }
+  | { mapValue: { fields: Record<string, FirestoreValue> } };
+
+function toFirestoreFields(data: Record<string, unknown>): Record<string, FirestoreValue> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, toFirestoreValue(value)])
+  );
+}
+
+async function request(url: string, init: RequestInit = {}) {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Emulator request to ${url} failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+function toFirestoreValue(value: unknown): FirestoreValue {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toFirestoreValue) } };
+  if (typeof value === 'object') {
+    return { mapValue: { fields: toFirestoreFields(value as Record<string, unknown>) } };
+  }
+  return { stringValue: String(value) };
+}
+
+export async function clearAuthEmulator() {
+  await request(`${authUrl}/emulator/v1/projects/${EMULATOR_PROJECT_ID}/accounts`, {
+    method: 'DELETE',
+  });
+}
+
+export async function clearFirestoreEmulator() {
+  await request(`${firestoreUrl}/emulator/v1/${documentsPath}`, { method: 'DELETE' });
+}
+
+export async function createAuthUser(
+  email: string,
+  password: string,
+  attributes: { displayName?: string; emailVerified?: boolean; claims?: Record<string, unknown> } = {}
+): Promise<string> {
+  const { localId } = await request(
+    `${authUrl}/identitytoolkit.googleapis.com/v1/accounts:signUp?key=${EMULATOR_API_KEY}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password, displayName: attributes.displayName }),
+    }
+  );
+
+  if (attributes.emailVerified || attributes.claims) {
+    await request(
+      `${authUrl}/identitytoolkit.googleapis.com/v1/projects/${EMULATOR_PROJECT_ID}/accounts:update`,
+      {
+        method: 'POST',
+        headers: ownerHeaders,
+        body: JSON.stringify({
+          localId,
+          emailVerified: attributes.emailVerified ?? false,
+          customAttributes: attributes.claims ? JSON.stringify(attributes.claims) : undefined,
+        }),
+      }
+    );
+  }
+
+  return localId;
+}
+
+// The sign-in link the Auth emulator would have emailed, for the latest request
+export async function getSignInLink(email: string): Promise<string> {
+  const { oobCodes } = await request(`${authUrl}/emulator/v1/projects/${EMULATOR_PROJECT_ID}/oobCodes`);
+  const codes = (oobCodes as { email: string; requestType: string; oobLink: string }[])
+    .filter(code => code.email === email && code.requestType === 'EMAIL_SIGNIN');
+  if (codes.length === 0) throw new Error(`No sign-in link was sent to ${email}`);
+  return codes[codes.length - 1].oobLink;
+}
+
+export async function setDocument(path: string, data: Record<string, unknown>) {
+  const fields = toFirestoreFields(data);
+  await request(`${firestoreUrl}/v1/${documentsPath}/${path}`, {
+    method: 'PATCH',
+    headers: ownerHeaders,
+    body: JSON.stringify({ fields }),
+  });
+}
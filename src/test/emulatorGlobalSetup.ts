@@ -0,0 +1,15 @@
+import { EMULATOR_HOST, EMULATOR_PORTS } from './emulator';
+
+// Fail fast with a useful message instead of letting every test time out
+export default async function checkEmulatorsRunning() {
+  for (const [name, port] of Object.entries(EMULATOR_PORTS)) {
+    try {
+      await fetch(`http://${EMULATOR_HOST}:${port}/`);
+    } catch {
+      throw new Error(
+        `The ${name} emulator isn't reachable on ${EMULATOR_HOST}:${port}. ` +
+        'Run the emulator tests with `npm run test:emulators`.'
+      );
+    }
+  }
+}
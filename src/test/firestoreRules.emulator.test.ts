@@ -0,0 +1,301 @@
+// @vitest-environment node
+import { readFileSync } from 'node:fs';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { EMULATOR_HOST, EMULATOR_PORTS, EMULATOR_PROJECT_ID } from './emulator';
+
+const validProfile = {
+  username: 'alice',
+  dob: '1990-04-12',
+  mobileNumber: '+447700900123',
+  mobileCountry: 'GB',
+  mobileNumberDisplay: '07700 900123',
+  address: {
+    line1: '221B Baker Street',
+    line2: '',
+    city: 'London',
+    region: '',
+    postalCode: 'NW1 6XE',
+    country: 'GB',
+  },
+  photoURL: null,
+  email: 'alice@example.com',
+  updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
+};
+
+let testEnv: RulesTestEnvironment;
+
+function aliceDb() {
+  return testEnv.authenticatedContext('alice', { email: 'alice@example.com' }).firestore();
+}
+
+describe('firestore.rules', () => {
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: EMULATOR_PROJECT_ID,
+      firestore: {
+        host: EMULATOR_HOST,
+        port: EMULATOR_PORTS.firestore,
+        rules: readFileSync('firestore.rules', 'utf8'),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc('users/bob').set({ username: 'bob' });
+    });
+  });
+
+  describe('users/{uid}', () => {
+    it('lets owners write and read their own profile', async () => {
+      await assertSucceeds(aliceDb().doc('users/alice').set(validProfile));
+      await assertSucceeds(aliceDb().doc('users/alice').get());
+    });
+
+    it('accepts a partial profile merged into an existing one', async () => {
+      const { updatedAt } = validProfile;
+      await assertSucceeds(aliceDb().doc('users/alice').set({ username: 'alice', updatedAt }));
+      await assertSucceeds(
+        aliceDb().doc('users/alice').set({ dob: '1985-01-01', updatedAt }, { merge: true })
+      );
+    });
+
+    it('requires server timestamps', async () => {
+      await assertFails(aliceDb().doc('users/alice').set({ ...validProfile, updatedAt: new Date() }));
+      await assertFails(aliceDb().doc('users/alice').set({ username: 'alice' }));
+    });
+
+    it('keeps createdAt from changing once set', async () => {
+      const { updatedAt } = validProfile;
+      await assertSucceeds(aliceDb().doc('users/alice').set({ ...validProfile, createdAt: updatedAt }));
+      await assertSucceeds(
+        aliceDb().doc('users/alice').set({ dob: '1985-01-01', updatedAt }, { merge: true })
+      );
+      await assertFails(
+        aliceDb().doc('users/alice').set({ createdAt: new Date(2000, 0, 1), updatedAt }, { merge: true })
+      );
+    });
+
+    it("blocks reading or writing someone else's profile", async () => {
+      await assertFails(aliceDb().doc('users/bob').get());
+      await assertFails(aliceDb().doc('users/bob').set({ ...validProfile, username: 'hijacked' }));
+      await assertFails(aliceDb().doc('users/bob').delete());
+    });
+
+    it('blocks signed-out access', async () => {
+      const db = testEnv.unauthenticatedContext().firestore();
+      await assertFails(db.doc('users/bob').get());
+      await assertFails(db.doc('users/alice').set(validProfile));
+    });
+
+    it('only lets admins list every profile', async () => {
+      await assertFails(aliceDb().collection('users').get());
+
+      const adminDb = testEnv.authenticatedContext('ada', { roles: ['admin'] }).firestore();
+      await assertSucceeds(adminDb.collection('users').get());
+      await assertSucceeds(adminDb.doc('users/bob').get());
+      await assertFails(adminDb.doc('users/bob').set({ ...validProfile, username: 'renamed' }));
+    });
+
+    it('lets owners delete their profile', async () => {
+      await assertSucceeds(aliceDb().doc('users/alice').set(validProfile));
+      await assertSucceeds(aliceDb().doc('users/alice').delete());
+    });
+
+    it.each([
+      ['a role', { role: 'admin' }],
+      ['a roles list', { roles: ['admin'] }],
+      ['an unknown field', { isVerified: true }],
+    ])('rejects %s', async (_, extra) => {
+      await assertFails(aliceDb().doc('users/alice').set({ ...validProfile, ...extra }));
+    });
+
+    it.each([
+      ['a short username', { username: 'al' }],
+      ['a malformed date of birth', { dob: '12/04/1990' }],
+      ['a short mobile number', { mobileNumber: '+12345' }],
+      ['letters in the mobile number', { mobileNumber: '07700 CALL ME' }],
+      ['a mobile number that is not E.164', { mobileNumber: '+44 7700 900123' }],
+      ['a malformed mobile country', { mobileCountry: 'United Kingdom' }],
+      ['letters in the displayed mobile number', { mobileNumberDisplay: '07700 CALL ME' }],
+      ['a free-text address', { address: '221B Baker Street, London' }],
+      ['an unknown address field', { address: { ...validProfile.address, county: 'Greater London' } }],
+      ['a long postal code', { address: { ...validProfile.address, postalCode: 'NW1 6XE NW1 6XE' } }],
+      ['a country name in the address', { address: { ...validProfile.address, country: 'United Kingdom' } }],
+      ['a non-string photo URL', { photoURL: 42 }],
+      ['an unknown photo size', { photoURLs: { huge: 'https://example.com/huge.webp' } }],
+      ["someone else's email", { email: 'mallory@example.com' }],
+    ])('rejects %s', async (_, invalid) => {
+      await assertFails(aliceDb().doc('users/alice').set({ ...validProfile, ...invalid }));
+    });
+
+    it('accepts travel preferences and companions', async () => {
+      await assertSucceeds(aliceDb().doc('users/alice').set({
+        ...validProfile,
+        preferences: {
+          homeAirport: 'LHR',
+          seat: 'aisle',
+          loyaltyProgrammes: [{ programme: 'Avios', number: '12345678' }],
+          budgetMin: 100,
+          currency: 'GBP',
+          interests: ['food'],
+        },
+        companions: [{ id: 'c1', name: 'Sam Smith', relationship: 'child', dob: '2015-08-20' }],
+        locale: 'ar',
+        theme: 'dark',
+      }));
+    });
+
+    it.each([
+      ['an unknown preference', { preferences: { role: 'admin' } }],
+      ['an unsupported locale', { locale: 'xx' }],
+      ['an unknown theme', { theme: 'sepia' }],
+      ['a malformed airport code', { preferences: { homeAirport: 'Heathrow' } }],
+      ['a negative budget', { preferences: { budgetMin: -1 } }],
+      ['companions that are not a list', { companions: 'Sam' }],
+    ])('rejects %s', async (_, invalid) => {
+      await assertFails(aliceDb().doc('users/alice').set({ ...validProfile, ...invalid }));
+    });
+
+    it('keeps mobile numbers saved before E.164 until they are edited', async () => {
+      const { updatedAt } = validProfile;
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().doc('users/alice').set({ username: 'alice', mobileNumber: '07700 900123' });
+      });
+
+      await assertSucceeds(
+        aliceDb().doc('users/alice').set({ dob: '1985-01-01', updatedAt }, { merge: true })
+      );
+      await assertFails(
+        aliceDb().doc('users/alice').set({ mobileNumber: '07700 900124', updatedAt }, { merge: true })
+      );
+    });
+
+    it('keeps free-text addresses until they are migrated', async () => {
+      const { updatedAt } = validProfile;
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().doc('users/alice').set({ username: 'alice', address: '221B Baker Street, London' });
+      });
+
+      await assertSucceeds(
+        aliceDb().doc('users/alice').set({ dob: '1985-01-01', updatedAt }, { merge: true })
+      );
+      await assertFails(
+        aliceDb().doc('users/alice').set({ address: '10 Downing Street, London', updatedAt }, { merge: true })
+      );
+      await assertSucceeds(
+        aliceDb().doc('users/alice').set({ address: validProfile.address, updatedAt }, { merge: true })
+      );
+    });
+
+    it('keeps accepting writes after the email address changes', async () => {
+      const { updatedAt } = validProfile;
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().doc('users/alice').set({ username: 'alice', email: 'alice.old@example.com' });
+      });
+
+      await assertSucceeds(
+        aliceDb().doc('users/alice').set({ locale: 'fr', updatedAt }, { merge: true })
+      );
+      await assertFails(
+        aliceDb().doc('users/alice').set({ email: 'mallory@example.com', updatedAt }, { merge: true })
+      );
+      await assertSucceeds(
+        aliceDb().doc('users/alice').set({ email: 'alice@example.com', updatedAt }, { merge: true })
+      );
+    });
+
+    it('only lets the session version move on by one', async () => {
+      const { updatedAt } = validProfile;
+      const { increment } = firebase.firestore.FieldValue;
+      await assertSucceeds(aliceDb().doc('users/alice').set({ ...validProfile, sessionVersion: 1 }));
+
+      await assertSucceeds(
+        aliceDb().doc('users/alice').set({ sessionVersion: increment(1), updatedAt }, { merge: true })
+      );
+      await assertFails(
+        aliceDb().doc('users/alice').set({ sessionVersion: 1, updatedAt }, { merge: true })
+      );
+      await assertFails(
+        aliceDb().doc('users/alice').set({ sessionVersion: 10, updatedAt }, { merge: true })
+      );
+    });
+
+    it('rejects sneaking a role in through a merge', async () => {
+      await assertSucceeds(aliceDb().doc('users/alice').set(validProfile));
+      await assertFails(
+        aliceDb().doc('users/alice').set({ roles: ['admin'], updatedAt: validProfile.updatedAt }, { merge: true })
+      );
+    });
+  });
+
+  describe('users/{uid} subcollections', () => {
+    it('are private to the owner', async () => {
+      const trip = { destination: 'Lisbon', startDate: '2024-06-01', endDate: '2024-06-07' };
+      await assertSucceeds(aliceDb().collection('users/alice/trips').add(trip));
+      await assertSucceeds(aliceDb().collection('users/alice/assistantMessages').get());
+      await assertFails(aliceDb().collection('users/bob/trips').add(trip));
+      await assertFails(aliceDb().collection('users/bob/assistantMessages').get());
+    });
+  });
+
+  describe('users/{uid}/documents', () => {
+    const passport = {
+      type: 'passport',
+      companionId: '',
+      holderName: 'Alice Smith',
+      country: 'GB',
+      number: '123456789',
+      provider: '',
+      issueDate: '2020-03-01',
+      expiryDate: '2030-03-01',
+      scanPath: 'travelDocuments/alice/passport/1700000000000.pdf',
+      createdAt: firebase.firestore.FieldValue.serverTimestamp(),
+      updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
+    };
+
+    it('lets owners save and read their documents', async () => {
+      await assertSucceeds(aliceDb().doc('users/alice/documents/passport').set(passport));
+      await assertSucceeds(aliceDb().collection('users/alice/documents').get());
+      await assertSucceeds(aliceDb().doc('users/alice/documents/passport').delete());
+    });
+
+    it('lets agents and admins read but not write them', async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().doc('users/bob/documents/passport').set(passport);
+      });
+
+      for (const roles of [['agent'], ['admin']]) {
+        const staffDb = testEnv.authenticatedContext('staff', { roles }).firestore();
+        await assertSucceeds(staffDb.collection('users/bob/documents').get());
+        await assertFails(staffDb.doc('users/bob/documents/passport').set(passport));
+      }
+
+      await assertFails(aliceDb().collection('users/bob/documents').get());
+    });
+
+    it.each([
+      ['an unknown type', { type: 'library card' }],
+      ['a missing number', { number: '' }],
+      ['a malformed expiry date', { expiryDate: '01/03/2030' }],
+      ['a lower-case country', { country: 'gb' }],
+      ["a scan in someone else's folder", { scanPath: 'travelDocuments/bob/passport/1.pdf' }],
+      ['an unknown field', { verified: true }],
+    ])('rejects %s', async (_, invalid) => {
+      await assertFails(aliceDb().doc('users/alice/documents/passport').set({ ...passport, ...invalid }));
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { signOut } from 'firebase/auth';
+import { auth } from '../lib/firebase';
+import { UserProfileUpdate } from '../lib/userRepository';
+import {
+  clearAuthEmulator,
+  clearFirestoreEmulator,
+  createAuthUser,
+  setDocument,
+} from './emulator';
+
+export interface UserFixture {
+  email: string;
+  password: string;
+  displayName?: string;
+  emailVerified?: boolean;
+  claims?: Record<string, unknown>;
+  profile?: UserProfileUpdate;
+}
+
+export const travellerFixture: UserFixture = {
+  email: 'traveller@example.com',
+  password: 'traveller-password',
+  displayName: 'Tara Traveller',
+  emailVerified: true,
+  profile: {
+    username: 'tara',
+    dob: '1990-04-12',
+    mobileNumber: '+447700900123',
+    address: {
+      line1: '221B Baker Street',
+      line2: '',
+      city: 'London',
+      region: '',
+      postalCode: 'NW1 6XE',
+      country: 'GB',
+    },
+    email: 'traveller@example.com',
+  },
+};
+
+export const unverifiedFixture: UserFixture = {
+  email: 'unverified@example.com',
+  password: 'unverified-password',
+  displayName: 'Umar Unverified',
+  emailVerified: false,
+};
+
+// Signed up but hasn't been through the onboarding wizard yet
+export const onboardingFixture: UserFixture = {
+  email: 'new.traveller@example.com',
+  password: 'new-traveller-password',
+  displayName: 'Nina New',
+  emailVerified: true,
+  profile: {
+    username: 'nina',
+    dob: '1995-09-30',
+    email: 'new.traveller@example.com',
+    onboarded: false,
+  },
+};
+
+export const adminFixture: UserFixture = {
+  email: 'admin@example.com',
+  password: 'admin-password',
+  displayName: 'Ada Admin',
+  emailVerified: true,
+  claims: { roles: ['admin'] },
+  profile: {
+    username: 'ada',
+    email: 'admin@example.com',
+  },
+};
+
+// Creates the Auth account and, when the fixture has one, its users/{uid} doc
+export async function seedUser(fixture: UserFixture): Promise<string> {
+  const uid = await createAuthUser(fixture.email, fixture.password, {
+    displayName: fixture.displayName,
+    emailVerified: fixture.emailVerified,
+    claims: fixture.claims,
+  });
+
+  if (fixture.profile) {
+    await setDocument(`users/${uid}`, { ...fixture.profile });
+  }
+
+  return uid;
+}
+
+export async function resetEmulators() {
+  await signOut(auth);
+  await Promise.all([clearAuthEmulator(), clearFirestoreEmulator()]);
+}
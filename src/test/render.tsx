@@ -0,0 +1,23 @@
+import { ReactElement } from 'react';
+import { MemoryRouter } from 'react-router-dom';
+import { render } from '@testing-library/react';
+import { AuthProvider } from '../contexts/AuthContext';
+import { LocaleProvider } from '../contexts/LocaleContext';
+import { ThemeProvider } from '../contexts/ThemeContext';
+import { ToastProvider } from '../components/ui/Toast';
+
+// Renders `ui` (usually a <Routes> tree) inside the real AuthProvider,
+// LocaleProvider, ThemeProvider and ToastProvider
+export function renderWithAuth(ui: ReactElement, { route = '/' }: { route?: string } = {}) {
+  return render(
+    <MemoryRouter initialEntries={[route]}>
+      <AuthProvider>
+        <LocaleProvider>
+          <ThemeProvider>
+            <ToastProvider>{ui}</ToastProvider>
+          </ThemeProvider>
+        </LocaleProvider>
+      </AuthProvider>
+    </MemoryRouter>
+  );
+}
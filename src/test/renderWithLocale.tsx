@@ -0,0 +1,11 @@
+import { ReactElement } from 'react';
+import { render } from '@testing-library/react';
+import { createLocaleValue, LocaleContext } from '../contexts/locale';
+import { Locale } from '../lib/i18n';
+
+// Renders `ui` with a fixed locale and no Firebase, for unit tests of
+// components that only need translations
+export function renderWithLocale(ui: ReactElement, { locale = 'en' }: { locale?: Locale } = {}) {
+  const value = createLocaleValue(locale, async () => {});
+  return render(<LocaleContext.Provider value={value}>{ui}</LocaleContext.Provider>);
+}
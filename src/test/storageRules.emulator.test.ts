@@ -0,0 +1,123 @@
+// @vitest-environment node
+import { readFileSync } from 'node:fs';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { EMULATOR_HOST, EMULATOR_PORTS, EMULATOR_PROJECT_ID } from './emulator';
+
+const BUCKET = `gs://${EMULATOR_PROJECT_ID}.appspot.com`;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+let testEnv: RulesTestEnvironment;
+
+function aliceStorage() {
+  return testEnv.authenticatedContext('alice').storage(BUCKET);
+}
+
+describe('storage.rules', () => {
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: EMULATOR_PROJECT_ID,
+      storage: {
+        host: EMULATOR_HOST,
+        port: EMULATOR_PORTS.storage,
+        rules: readFileSync('storage.rules', 'utf8'),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearStorage();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.storage(BUCKET)
+        .ref('profileImages/bob/avatar.png')
+        .put(new Uint8Array(16), { contentType: 'image/png' });
+    });
+  });
+
+  it('lets owners upload images to their own folder', async () => {
+    const upload = aliceStorage()
+      .ref('profileImages/alice/avatar.png')
+      .put(new Uint8Array(1024), { contentType: 'image/png' });
+    await assertSucceeds(upload.then());
+  });
+
+  it('accepts an image right at the 5 MB limit', async () => {
+    const upload = aliceStorage()
+      .ref('profileImages/alice/large.jpg')
+      .put(new Uint8Array(MAX_IMAGE_BYTES), { contentType: 'image/jpeg' });
+    await assertSucceeds(upload.then());
+  });
+
+  it('rejects images over 5 MB', async () => {
+    const upload = aliceStorage()
+      .ref('profileImages/alice/huge.jpg')
+      .put(new Uint8Array(MAX_IMAGE_BYTES + 1), { contentType: 'image/jpeg' });
+    await assertFails(upload.then());
+  });
+
+  it('rejects files that are not images', async () => {
+    const upload = aliceStorage()
+      .ref('profileImages/alice/notes.pdf')
+      .put(new Uint8Array(1024), { contentType: 'application/pdf' });
+    await assertFails(upload.then());
+  });
+
+  it("blocks access to another user's folder", async () => {
+    const storage = aliceStorage();
+    await assertFails(
+      storage.ref('profileImages/bob/avatar.png').put(new Uint8Array(16), { contentType: 'image/png' }).then()
+    );
+    await assertFails(storage.ref('profileImages/bob/avatar.png').getDownloadURL());
+    await assertFails(storage.ref('profileImages/bob/avatar.png').delete());
+  });
+
+  it('lets owners list and delete their images', async () => {
+    const storage = aliceStorage();
+    await storage.ref('profileImages/alice/avatar.png')
+      .put(new Uint8Array(16), { contentType: 'image/png' });
+
+    await assertSucceeds(storage.ref('profileImages/alice').listAll());
+    await assertSucceeds(storage.ref('profileImages/alice/avatar.png').delete());
+  });
+
+  it('accepts PDF and photo scans of travel documents', async () => {
+    const storage = aliceStorage();
+    await assertSucceeds(storage.ref('travelDocuments/alice/passport/scan.pdf')
+      .put(new Uint8Array(1024), { contentType: 'application/pdf' }).then());
+    await assertSucceeds(storage.ref('travelDocuments/alice/visa/scan.jpg')
+      .put(new Uint8Array(1024), { contentType: 'image/jpeg' }).then());
+    await assertFails(storage.ref('travelDocuments/alice/visa/scan.zip')
+      .put(new Uint8Array(1024), { contentType: 'application/zip' }).then());
+    await assertFails(storage.ref('travelDocuments/alice/visa/huge.pdf')
+      .put(new Uint8Array(10 * 1024 * 1024 + 1), { contentType: 'application/pdf' }).then());
+  });
+
+  it('lets agents read but not change travel document scans', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.storage(BUCKET)
+        .ref('travelDocuments/bob/passport/scan.pdf')
+        .put(new Uint8Array(16), { contentType: 'application/pdf' });
+    });
+
+    const agentStorage = testEnv.authenticatedContext('agent', { roles: ['agent'] }).storage(BUCKET);
+    await assertSucceeds(agentStorage.ref('travelDocuments/bob/passport/scan.pdf').getDownloadURL());
+    await assertFails(agentStorage.ref('travelDocuments/bob/passport/scan.pdf').delete());
+    await assertFails(aliceStorage().ref('travelDocuments/bob/passport/scan.pdf').getDownloadURL());
+  });
+
+  it('blocks signed-out uploads', async () => {
+    const upload = testEnv.unauthenticatedContext().storage(BUCKET)
+      .ref('profileImages/alice/avatar.png')
+      .put(new Uint8Array(16), { contentType: 'image/png' });
+    await assertFails(upload.then());
+  });
+});
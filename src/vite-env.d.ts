@@ -1 +1,26 @@
 /// <reference types="vite/client" />
+
+// The build's settings, read from .env files or the environment. See the
+// README for what each one does.
+interface ImportMetaEnv {
+  readonly VITE_FIREBASE_API_KEY: string;
+  readonly VITE_FIREBASE_AUTH_DOMAIN: string;
+  readonly VITE_FIREBASE_PROJECT_ID: string;
+  readonly VITE_FIREBASE_STORAGE_BUCKET: string;
+  readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string;
+  readonly VITE_FIREBASE_APP_ID: string;
+  // 'true' to use the local Emulator Suite instead of the live project
+  readonly VITE_USE_FIREBASE_EMULATORS?: string;
+  readonly VITE_FIREBASE_EMULATOR_HOST?: string;
+  // 'http' for the backend at VITE_ASSISTANT_API_URL; anything else uses the offline mock
+  readonly VITE_ASSISTANT_PROVIDER?: string;
+  readonly VITE_ASSISTANT_API_URL?: string;
+  // 'http' for the backend at VITE_ADDRESS_API_URL, 'static' for the sample
+  // addresses; anything else turns address search off
+  readonly VITE_ADDRESS_PROVIDER?: string;
+  readonly VITE_ADDRESS_API_URL?: string;
+  // The id of a brand in src/lib/theme/brands.ts
+  readonly VITE_BRAND?: string;
+  // Minutes a session may sit unused before it's signed out; 0 turns it off
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+}
@@ -1,8 +1,54 @@
+// A semantic colour, set per theme and brand by the ThemeProvider as a
+// `--color-<token>` CSS variable. The tokens are listed in
+// src/lib/theme/tokens.ts.
+const token = name => `rgb(var(--color-${name}) / <alpha-value>)`;
+
+const tokens = (...names) => Object.fromEntries(names.map(name => [name, token(name)]));
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  // The ThemeProvider puts `dark` on <html>, for the odd `dark:` variant the
+  // tokens don't cover
+  darkMode: 'class',
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        ...tokens(
+          'background',
+          'foreground',
+          'muted',
+          'subtle',
+          'faint',
+          'border',
+          'input',
+          'ring'
+        ),
+        surface: {
+          DEFAULT: token('surface'),
+          muted: token('surface-muted'),
+          strong: token('surface-strong'),
+        },
+        primary: {
+          DEFAULT: token('primary'),
+          hover: token('primary-hover'),
+          foreground: token('primary-foreground'),
+        },
+        ...Object.fromEntries(['danger', 'success', 'warning', 'info'].map(status => [status, {
+          DEFAULT: token(status),
+          surface: token(`${status}-surface`),
+          foreground: token(`${status}-foreground`),
+          ...(status === 'danger' && { border: token('danger-border') }),
+        }])),
+      },
+      // Read by Tailwind's base styles, which don't take an opacity
+      borderColor: {
+        DEFAULT: 'rgb(var(--color-border))',
+      },
+      ringOffsetColor: {
+        DEFAULT: 'rgb(var(--color-surface))',
+      },
+    },
   },
   plugins: [],
 };
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +8,40 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // `npm test` runs the unit project on its own. The emulator project talks to
+  // the local Emulator Suite and is started through `npm run test:emulators`.
+  test: {
+    // Emulator tests share one project's data, so files must not run side by side
+    fileParallelism: false,
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'unit',
+          environment: 'jsdom',
+          include: ['src/**/*.test.{ts,tsx}'],
+          exclude: ['src/**/*.emulator.test.{ts,tsx}'],
+          setupFiles: ['src/test/setup.ts'],
+        },
+      },
+      {
+        extends: true,
+        test: {
+          name: 'emulator',
+          environment: 'jsdom',
+          include: ['src/**/*.emulator.test.{ts,tsx}'],
+          setupFiles: ['src/test/setup.ts'],
+          globalSetup: ['src/test/emulatorGlobalSetup.ts'],
+          testTimeout: 20000,
+          env: {
+            VITE_USE_FIREBASE_EMULATORS: 'true',
+            VITE_FIREBASE_API_KEY: 'demo-api-key',
+            VITE_FIREBASE_AUTH_DOMAIN: 'demo-partha.firebaseapp.com',
+            VITE_FIREBASE_PROJECT_ID: 'demo-partha',
+            VITE_FIREBASE_STORAGE_BUCKET: 'demo-partha.appspot.com',
+          },
+        },
+      },
+    ],
+  },
 });